@@ -4,6 +4,10 @@ import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext
 import { RichTextPlugin } from '@lexical/react/LexicalRichTextPlugin'
 import { HistoryPlugin } from '@lexical/react/LexicalHistoryPlugin'
 import { ListPlugin } from '@lexical/react/LexicalListPlugin'
+import { CheckListPlugin } from '@lexical/react/LexicalCheckListPlugin'
+import { LinkPlugin } from '@lexical/react/LexicalLinkPlugin'
+import { AutoLinkPlugin } from '@lexical/react/LexicalAutoLinkPlugin'
+import { TablePlugin } from '@lexical/react/LexicalTablePlugin'
 import { ContentEditable } from '@lexical/react/LexicalContentEditable'
 import { ParagraphNode, TextNode } from 'lexical'
 import { QuoteNode } from '@lexical/rich-text'
@@ -22,25 +26,50 @@ import {
   $createListItemNode 
 } from '@lexical/list'
 import { $createCodeNode } from '@lexical/code'
-import { HeadingNode, $createHeadingNode } from '@lexical/rich-text'
 import { editorConfig } from './config/editor-config'
+import { $createCustomHeadingNode } from './nodes/CustomHeadingNode'
 import Toolbar from './plugins/Toolbar'
 import FloatingToolbar from './plugins/FloatingToolbar'
+import LinkPreviewPopover from './plugins/LinkPreviewPopover'
+import OutlinePanel from './plugins/OutlinePanel'
+import SectionLinkPopover from './plugins/SectionLinkPopover'
+import CodeLanguagePicker from './plugins/CodeLanguagePicker'
+import CodeCopyButton from './plugins/CodeCopyButton'
+import TableCellContextMenu from './plugins/TableCellContextMenu'
+import SlashCommandMenu from './plugins/SlashCommandMenu'
 import { HeadingPolicyPlugin } from './plugins/HeadingPolicyPlugin'
 import { HeadingShortcutsPlugin } from './plugins/HeadingShortcutsPlugin'
+import { HeadingAnchorsPlugin } from './plugins/HeadingAnchorsPlugin'
+import { SectionNumberingPlugin } from './plugins/SectionNumberingPlugin'
+import { CollapsibleSectionsPlugin } from './plugins/CollapsibleSectionsPlugin'
+import { DetailsPlugin } from './plugins/DetailsPlugin'
+import { CodeHighlightPlugin } from './plugins/CodeHighlightPlugin'
+import { CodeEditingPlugin } from './plugins/CodeEditingPlugin'
+import { TableEditingPlugin } from './plugins/TableEditingPlugin'
+import { ImagesPlugin } from './plugins/ImagesPlugin'
+import { MarkdownShortcutsPlugin } from './plugins/MarkdownShortcutsPlugin'
 import { SmartPastePlugin } from './plugins/SmartPastePlugin'
 import { ListItemNormalizationPlugin } from './plugins/ListItemNormalizationPlugin'
+import { ListDepthPolicyPlugin } from './plugins/ListDepthPolicyPlugin'
+import { LinkPolicyPlugin, AUTO_LINK_MATCHERS } from './plugins/LinkPolicyPlugin'
+import { isAllowedUrl } from './config/sanitization-config'
 import { patchLexicalWarnings } from './lexicalPatches'
+import { DEFAULT_HEADING_POLICY, HeadingPolicy } from './constants/heading-policy'
+import { HeadingPasteMode } from './utils/heading-remap'
+import { ImageUploadAdapter } from './utils/images'
+import { restoreSectionNumbering } from './utils/section-numbering'
 
 // Note: Using editorConfig for node registration to ensure CustomHeadingNode is used
 
 // Function to create example content with all formatting
-function prepopulateEditorState(editor: any) {
+function prepopulateEditorState(editor: any, sectionNumbering: boolean) {
   editor.update(() => {
     const root = $getRoot()
     if (root.getFirstChild() === null) {
+      restoreSectionNumbering(editor, sectionNumbering)
+
       // H2 Heading
-      const heading = $createHeadingNode('h2')
+      const heading = $createCustomHeadingNode('h2')
       heading.append($createTextNode('Rich Text Editor Demo'))
       root.append(heading)
 
@@ -93,7 +122,7 @@ function prepopulateEditorState(editor: any) {
       root.append(list)
 
       // Code block
-      const codeBlock = $createCodeNode()
+      const codeBlock = $createCodeNode('js')
       codeBlock.append($createTextNode('// This is a code block\nfunction example() {\n  return "Hello World";\n}'))
       root.append(codeBlock)
 
@@ -112,39 +141,77 @@ const initialConfig = {
   editorState: null
 }
 
-export default function Editor() {
+export default function Editor({
+  headingPolicy = DEFAULT_HEADING_POLICY,
+  headingPasteMode = 'clamp',
+  sectionNumbering = false,
+  imageUploadAdapter,
+}: {
+  /** Heading levels the editor accepts; see createHeadingPolicy */
+  headingPolicy?: HeadingPolicy
+  /** 'relative' shifts pasted headings under the heading at the caret */
+  headingPasteMode?: HeadingPasteMode
+  /** Number h1-h3 "1.", "1.2", "1.2.3" in the example document; saved with it by serializeDocument and toggled from the toolbar */
+  sectionNumbering?: boolean
+  /** Storage for pasted, dropped and picked images; defaults to an in-memory blob store */
+  imageUploadAdapter?: ImageUploadAdapter
+}) {
   // Quiet known 0.15.x dev warnings for ArtificialNode
   patchLexicalWarnings()
   
   return (
     <LexicalComposer initialConfig={initialConfig}>
-      <div className="editor-wrapper">
-        <Toolbar />
-        <RichTextPlugin 
-          contentEditable={<ContentEditable className="editor-content" />} 
-          placeholder={<div />}
-          ErrorBoundary={() => <div>Error loading editor</div>}
-        />
+      <div className="editor-layout">
+        <div className="editor-wrapper">
+          <Toolbar headingPolicy={headingPolicy} />
+          <RichTextPlugin 
+            contentEditable={<ContentEditable className="editor-content" />} 
+            placeholder={<div />}
+            ErrorBoundary={() => <div>Error loading editor</div>}
+          />
+        </div>
+        <OutlinePanel />
       </div>
       <HistoryPlugin />
       <ListPlugin />
-      <SmartPastePlugin />
-      <HeadingPolicyPlugin />
+      <CheckListPlugin />
+      <LinkPlugin validateUrl={isAllowedUrl} />
+      <AutoLinkPlugin matchers={AUTO_LINK_MATCHERS} />
+      <TablePlugin hasTabHandler={false} hasCellBackgroundColor={false} />
+      <SmartPastePlugin headingPasteMode={headingPasteMode} />
+      <HeadingPolicyPlugin policy={headingPolicy} />
+      <LinkPolicyPlugin />
       <ListItemNormalizationPlugin />
-      <HeadingShortcutsPlugin />
-      <FloatingToolbar />
-      <ExampleContentPlugin />
+      <ListDepthPolicyPlugin />
+      <HeadingShortcutsPlugin policy={headingPolicy} />
+      <HeadingAnchorsPlugin />
+      <SectionNumberingPlugin />
+      <CollapsibleSectionsPlugin />
+      <DetailsPlugin />
+      <CodeHighlightPlugin />
+      <CodeEditingPlugin />
+      <TableEditingPlugin />
+      <ImagesPlugin uploadAdapter={imageUploadAdapter} />
+      <MarkdownShortcutsPlugin />
+      <FloatingToolbar headingPolicy={headingPolicy} />
+      <SlashCommandMenu headingPolicy={headingPolicy} />
+      <LinkPreviewPopover />
+      <SectionLinkPopover />
+      <CodeLanguagePicker />
+      <CodeCopyButton />
+      <TableCellContextMenu />
+      <ExampleContentPlugin sectionNumbering={sectionNumbering} />
     </LexicalComposer>
   )
 }
 
 // Plugin to add example content on first load
-function ExampleContentPlugin() {
+function ExampleContentPlugin({ sectionNumbering }: { sectionNumbering: boolean }) {
   const [editor] = useLexicalComposerContext()
   
   React.useEffect(() => {
-    prepopulateEditorState(editor)
-  }, [editor])
+    prepopulateEditorState(editor, sectionNumbering)
+  }, [editor, sectionNumbering])
   
   return null
 }
@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { act, cleanup, render, screen } from '@testing-library/react';
+import { LexicalComposer } from '@lexical/react/LexicalComposer';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { ContentEditable } from '@lexical/react/LexicalContentEditable';
+import LexicalErrorBoundary from '@lexical/react/LexicalErrorBoundary';
+import { RichTextPlugin } from '@lexical/react/LexicalRichTextPlugin';
+import { $createListItemNode, $createListNode, ListItemNode, ListNode, ListType } from '@lexical/list';
+import { $createParagraphNode, $createTextNode, $getRoot, LexicalEditor } from 'lexical';
+import { createHeadingPolicy } from '../constants/heading-policy';
+import { $createCustomHeadingNode, CustomHeadingNode } from '../nodes/CustomHeadingNode';
+import { useBlockType } from '../hooks/useBlockType';
+import { HeadingTagType } from '../types/editor-types';
+
+function CaptureEditor({ onEditor }: { onEditor: (editor: LexicalEditor) => void }) {
+  const [editor] = useLexicalComposerContext();
+  onEditor(editor);
+  return null;
+}
+
+const H1_H2 = createHeadingPolicy(['h1', 'h2']);
+
+function BlockTypeLabel() {
+  return <output aria-label="Block type">{useBlockType(H1_H2)}</output>;
+}
+
+describe('useBlockType', () => {
+  let editor: LexicalEditor;
+
+  afterEach(cleanup);
+
+  function renderEditor() {
+    render(
+      <LexicalComposer
+        initialConfig={{
+          namespace: 'block-type-test',
+          nodes: [CustomHeadingNode, ListNode, ListItemNode],
+          onError: (error) => { throw error; }
+        }}
+      >
+        <RichTextPlugin
+          contentEditable={<ContentEditable />}
+          placeholder={null}
+          ErrorBoundary={LexicalErrorBoundary}
+        />
+        <BlockTypeLabel />
+        <CaptureEditor onEditor={(instance) => { editor = instance; }} />
+      </LexicalComposer>
+    );
+  }
+
+  async function setCaretIn(block: 'paragraph' | HeadingTagType | ListType) {
+    await act(async () => {
+      editor.update(() => {
+        const text = $createTextNode('Text');
+        if (block === 'paragraph') {
+          $getRoot().clear().append($createParagraphNode().append(text));
+        } else if (block.startsWith('h')) {
+          $getRoot().clear().append($createCustomHeadingNode(block as HeadingTagType).append(text));
+        } else {
+          $getRoot().clear().append($createListNode(block as ListType).append($createListItemNode().append(text)));
+        }
+        text.select();
+      }, { discrete: true });
+    });
+    return screen.getByLabelText('Block type').textContent;
+  }
+
+  it('reports headings, lists by type and paragraphs as the document changes', async () => {
+    renderEditor();
+
+    expect(await setCaretIn('h2')).toBe('h2');
+    expect(await setCaretIn('number')).toBe('number');
+    expect(await setCaretIn('check')).toBe('check');
+    expect(await setCaretIn('bullet')).toBe('bullet');
+    expect(await setCaretIn('paragraph')).toBe('paragraph');
+  });
+
+  it('reports headings the policy disallows as paragraphs', async () => {
+    renderEditor();
+
+    expect(await setCaretIn('h3')).toBe('paragraph');
+  });
+});
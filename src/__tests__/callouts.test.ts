@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  $getSelection,
+  $isRangeSelection,
+  LexicalEditor
+} from 'lexical';
+import { $generateHtmlFromNodes, $generateNodesFromDOM } from '@lexical/html';
+import { $createQuoteNode, $isQuoteNode } from '@lexical/rich-text';
+import { $setBlocksType } from '@lexical/selection';
+import { sanitizeHTML } from '../config/sanitization-config';
+import { formatCallout, setCalloutStyle } from '../commands/block-commands';
+import { $createCalloutNode, $isCalloutNode, CalloutNode } from '../nodes/CalloutNode';
+import { getCalloutFromElement, parseCalloutEmoji } from '../utils/callouts';
+import { exportMarkdown, importMarkdown } from '../utils/markdown';
+import { createTestEditor } from './test-helpers';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const element = (html: string) => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container.firstElementChild!;
+};
+
+describe('Callout recognition', () => {
+  it('maps other tools\' callout markup onto the variants', () => {
+    expect(getCalloutFromElement(element('<div class="confluence-information-macro confluence-information-macro-note"></div>')))
+      .toEqual({ variant: 'warning', emoji: null });
+    expect(getCalloutFromElement(element('<div data-panel-type="error"></div>')))
+      .toEqual({ variant: 'danger', emoji: null });
+    expect(getCalloutFromElement(element('<div class="markdown-alert markdown-alert-tip"></div>')))
+      .toEqual({ variant: 'success', emoji: null });
+    expect(getCalloutFromElement(element('<figure class="callout block-color-yellow_background"><div><span class="icon">💡</span></div></figure>')))
+      .toEqual({ variant: 'warning', emoji: '💡' });
+    expect(getCalloutFromElement(element('<div class="note"></div>'))).toBeNull();
+  });
+
+  it('accepts exactly one emoji as icon', () => {
+    expect(parseCalloutEmoji(' ⚠️ ')).toBe('⚠️');
+    expect(parseCalloutEmoji('👍🏽')).toBe('👍🏽');
+    expect(parseCalloutEmoji('👩‍💻')).toBe('👩‍💻');
+    expect(parseCalloutEmoji('💡💡')).toBeNull();
+    expect(parseCalloutEmoji('A')).toBeNull();
+    expect(parseCalloutEmoji('<img src=x>')).toBeNull();
+  });
+
+  it('rewrites pasted callouts to <aside> without their icon and title', () => {
+    expect(sanitizeHTML(
+      '<div class="confluence-information-macro confluence-information-macro-warning">' +
+      '<span class="aui-icon confluence-information-macro-icon"></span>' +
+      '<div class="confluence-information-macro-body"><p>Careful</p></div></div>'
+    )).toBe('<aside data-callout="danger"><div><p>Careful</p></div></aside>');
+    expect(sanitizeHTML(
+      '<div class="markdown-alert markdown-alert-note"><p class="markdown-alert-title"><svg></svg>Note</p><p>Read me</p></div>'
+    )).toBe('<aside data-callout="info"><p>Read me</p></aside>');
+    expect(sanitizeHTML('<aside data-callout="success" data-callout-emoji="<b>x</b>" onclick="x">Hi</aside>'))
+      .toBe('<aside data-callout="success">Hi</aside>');
+  });
+});
+
+describe('Callouts', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+
+  beforeEach(() => {
+    editor = createTestEditor({
+      namespace: 'callouts-test',
+      onError: (error) => { throw error; }
+    });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+  });
+
+  afterEach(() => {
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  function setParagraph(text: string) {
+    editor.update(() => {
+      $getRoot().clear().append($createParagraphNode().append($createTextNode(text))).selectEnd();
+    }, { discrete: true });
+  }
+
+  const readBlocks = () => editor.getEditorState().read(() =>
+    $getRoot().getChildren().map(block => ({
+      type: block.getType(),
+      text: block.getTextContent(),
+      ...($isCalloutNode(block) ? { variant: block.getVariant(), emoji: block.getEmoji() } : {}),
+    }))
+  );
+
+  const calloutKey = () => editor.getEditorState().read(() => $getRoot().getChildren().find($isCalloutNode)!.getKey());
+
+  it('pastes a Notion callout as one callout block with its icon', () => {
+    const html = sanitizeHTML(
+      '<figure class="block-color-red_background callout"><div><span class="icon">🚨</span></div>' +
+      '<div><p>First</p><ul><li>Second</li></ul></div></figure><p>After</p>'
+    );
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+
+    editor.update(() => {
+      $getRoot().clear().append(...$generateNodesFromDOM(editor, doc));
+    }, { discrete: true });
+
+    expect(readBlocks()).toEqual([
+      { type: 'callout', text: 'First\nSecond', variant: 'danger', emoji: '🚨' },
+      { type: 'paragraph', text: 'After' },
+    ]);
+  });
+
+  it('exports <aside role="note"> and reads it back', () => {
+    editor.update(() => {
+      $getRoot().clear().append($createCalloutNode('warning', '⚠️').append($createTextNode('Mind the gap')));
+    }, { discrete: true });
+
+    const html = editor.getEditorState().read(() => $generateHtmlFromNodes(editor, null));
+    expect(html).toContain('<aside role="note" data-callout="warning" data-callout-emoji="⚠️">');
+
+    const doc = new DOMParser().parseFromString(sanitizeHTML(html), 'text/html');
+    editor.update(() => {
+      $getRoot().clear().append(...$generateNodesFromDOM(editor, doc));
+    }, { discrete: true });
+    expect(readBlocks()).toEqual([{ type: 'callout', text: 'Mind the gap', variant: 'warning', emoji: '⚠️' }]);
+  });
+
+  it('keeps the style through JSON and drops invalid ones', () => {
+    editor.update(() => {
+      $getRoot().clear().append($createCalloutNode('success', '✅').append($createTextNode('Done')));
+    }, { discrete: true });
+
+    const json = JSON.parse(JSON.stringify(editor.getEditorState().toJSON()));
+    editor.setEditorState(editor.parseEditorState(json));
+    expect(readBlocks()).toEqual([{ type: 'callout', text: 'Done', variant: 'success', emoji: '✅' }]);
+
+    json.root.children[0].variant = 'purple';
+    json.root.children[0].emoji = '<script>';
+    editor.setEditorState(editor.parseEditorState(json));
+    expect(readBlocks()).toEqual([{ type: 'callout', text: 'Done', variant: 'info', emoji: null }]);
+  });
+
+  it('converts paragraphs and quotes to callouts and back', async () => {
+    setParagraph('Heads up');
+    expect(formatCallout(editor, 'warning')).toBe(true);
+    await flush();
+    expect(readBlocks()).toEqual([{ type: 'callout', text: 'Heads up', variant: 'warning', emoji: null }]);
+
+    editor.update(() => {
+      const selection = $getSelection();
+      if ($isRangeSelection(selection)) $setBlocksType(selection, () => $createQuoteNode());
+    }, { discrete: true });
+    expect(editor.getEditorState().read(() => $isQuoteNode($getRoot().getFirstChild()))).toBe(true);
+
+    formatCallout(editor);
+    await flush();
+    expect(readBlocks()).toEqual([{ type: 'callout', text: 'Heads up', variant: 'info', emoji: null }]);
+  });
+
+  it('changes variant and icon, and rejects invalid ones', async () => {
+    setParagraph('Tip');
+    formatCallout(editor);
+    await flush();
+    const key = calloutKey();
+
+    expect(setCalloutStyle(editor, key, { variant: 'success', emoji: '💡' })).toBe(true);
+    expect(setCalloutStyle(editor, key, { emoji: 'not an emoji' })).toBe(false);
+    expect(setCalloutStyle(editor, key, { variant: 'purple' as CalloutNode['__variant'] })).toBe(false);
+    await flush();
+    expect(readBlocks()).toEqual([{ type: 'callout', text: 'Tip', variant: 'success', emoji: '💡' }]);
+
+    expect(setCalloutStyle(editor, key, { emoji: null })).toBe(true);
+    await flush();
+    expect(readBlocks()[0]).toMatchObject({ emoji: null });
+
+    editor.setEditable(false);
+    expect(setCalloutStyle(editor, key, { variant: 'danger' })).toBe(false);
+    expect(formatCallout(editor)).toBe(false);
+  });
+
+  it('round-trips GitHub alerts in Markdown', async () => {
+    const markdown = '> [!WARNING]\n> Back up first\n> then *upgrade*\n\n> Plain quote\n\n> [!TIP]';
+    importMarkdown(editor, markdown);
+    await flush();
+
+    expect(readBlocks()).toEqual([
+      { type: 'callout', text: 'Back up first\nthen upgrade', variant: 'warning', emoji: null },
+      { type: 'quote', text: 'Plain quote' },
+      { type: 'callout', text: '', variant: 'success', emoji: null },
+    ]);
+    expect(exportMarkdown(editor.getEditorState())).toBe(markdown);
+
+    importMarkdown(editor, '> [!IMPORTANT]\n> Read this\n\n> [!UNKNOWN]');
+    await flush();
+    expect(readBlocks()).toEqual([
+      { type: 'callout', text: 'Read this', variant: 'info', emoji: null },
+      { type: 'quote', text: '[!UNKNOWN]' },
+    ]);
+  });
+});
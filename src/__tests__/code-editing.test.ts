@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createLineBreakNode,
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  $getSelection,
+  $isParagraphNode,
+  $isRangeSelection,
+  createEditor,
+  INSERT_PARAGRAPH_COMMAND,
+  KEY_MODIFIER_COMMAND,
+  KEY_TAB_COMMAND,
+  LexicalEditor,
+  LineBreakNode,
+  ParagraphNode,
+  TextNode
+} from 'lexical';
+import { $createCodeNode, $isCodeHighlightNode, $isCodeNode, CodeHighlightNode, CodeNode, registerCodeHighlighting } from '@lexical/code';
+import { $createListItemNode, $createListNode, ListItemNode, ListNode } from '@lexical/list';
+import { registerCodeEditing } from '../plugins/CodeEditingPlugin';
+import {
+  indentCodeLines,
+  outdentCodeLines,
+  toggleCodeLineComments
+} from '../utils/code-editing';
+import { CODE_TOKENIZER } from '../utils/code-languages';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Code line operations', () => {
+  it('indents the selected lines and skips blank ones', () => {
+    expect(indentCodeLines({ text: 'a\n\nb\nc', start: 0, end: 4 }))
+      .toEqual({ text: '  a\n\n  b\nc', start: 0, end: 8 });
+  });
+
+  it('does not touch a line the selection only reaches the start of', () => {
+    expect(indentCodeLines({ text: 'a\nb', start: 0, end: 2 }).text).toBe('  a\nb');
+  });
+
+  it('outdents tabs and up to one indent of spaces', () => {
+    expect(outdentCodeLines({ text: '\ta\n    b\n c\nd', start: 0, end: 13 }))
+      .toEqual({ text: 'a\n  b\nc\nd', start: 0, end: 9 });
+  });
+
+  it('comments at the shallowest indentation and uncomments back', () => {
+    const code = { text: '  if (x) {\n    y();\n  }', start: 2, end: 23 };
+    const commented = toggleCodeLineComments(code, { start: '//' });
+    expect(commented.text).toBe('  // if (x) {\n  //   y();\n  // }');
+    expect(toggleCodeLineComments(commented, { start: '//' }).text).toBe(code.text);
+  });
+
+  it('wraps lines for languages with block comments only', () => {
+    const code = { text: 'a { color: red; }', start: 0, end: 0 };
+    const commented = toggleCodeLineComments(code, { start: '/*', end: '*/' });
+    expect(commented.text).toBe('/* a { color: red; } */');
+    expect(toggleCodeLineComments(commented, { start: '/*', end: '*/' }).text).toBe(code.text);
+  });
+});
+
+describe('Code editing keys', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+  let unregister: () => void;
+
+  beforeEach(() => {
+    editor = createEditor({
+      namespace: 'code-editing-test',
+      nodes: [CodeNode, CodeHighlightNode, LineBreakNode, ListNode, ListItemNode, ParagraphNode, TextNode],
+      onError: (error) => { throw error; }
+    });
+
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+    unregister = registerCodeEditing(editor);
+  });
+
+  afterEach(() => {
+    unregister();
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  /**
+   * Create a code block from lines, selecting from [line, offset] to [line, offset].
+   */
+  const setCode = (lines: string[], language: string | undefined, from: [number, number], to = from) => {
+    editor.update(() => {
+      const code = $createCodeNode(language);
+      const texts = lines.map((line, index) => {
+        if (index > 0) code.append($createLineBreakNode());
+        const text = $createTextNode(line);
+        code.append(text);
+        return text;
+      });
+      $getRoot().clear().append(code);
+      texts[from[0]].select(from[1], from[1]).focus.set(texts[to[0]].getKey(), to[1], 'text');
+    }, { discrete: true });
+  };
+
+  // Marks the caret with "|", or returns the selected text for ranges
+  const readCode = () => {
+    let text = '';
+    let selected = '';
+    editor.update(() => {
+      const selection = $getSelection();
+      if (!$isRangeSelection(selection)) return;
+      if (selection.isCollapsed()) {
+        selection.insertText('|');
+      } else {
+        selected = selection.getTextContent();
+      }
+      const code = $getRoot().getFirstChild();
+      text = $isCodeNode(code) ? code.getTextContent() : '';
+    }, { discrete: true });
+    return { text, selected };
+  };
+
+  const key = (init: KeyboardEventInit) => new KeyboardEvent('keydown', init);
+
+  it('inserts an indent at the caret on Tab', () => {
+    setCode(['ab'], 'js', [0, 1]);
+    expect(editor.dispatchCommand(KEY_TAB_COMMAND, key({ key: 'Tab' }))).toBe(true);
+    expect(readCode().text).toBe('a  |b');
+  });
+
+  it('indents and outdents every selected line, keeping the selection', () => {
+    setCode(['one', 'two', 'three'], 'js', [0, 1], [1, 2]);
+    editor.dispatchCommand(KEY_TAB_COMMAND, key({ key: 'Tab' }));
+    expect(readCode()).toEqual({ text: '  one\n  two\nthree', selected: 'ne\n  tw' });
+
+    editor.dispatchCommand(KEY_TAB_COMMAND, key({ key: 'Tab', shiftKey: true }));
+    expect(readCode()).toEqual({ text: 'one\ntwo\nthree', selected: 'ne\ntw' });
+  });
+
+  it('keeps the indentation of the current line on Enter', () => {
+    setCode(['if (x) {', '    y();'], 'js', [1, 8]);
+    expect(editor.dispatchCommand(INSERT_PARAGRAPH_COMMAND, undefined)).toBe(true);
+    expect(readCode().text).toBe('if (x) {\n    y();\n    |');
+  });
+
+  it('leaves the block on Enter after two blank lines at the end', async () => {
+    editor.update(() => {
+      const code = $createCodeNode('js').append($createTextNode('x'), $createLineBreakNode(), $createLineBreakNode());
+      $getRoot().clear().append(code);
+      code.selectEnd();
+    }, { discrete: true });
+    editor.dispatchCommand(INSERT_PARAGRAPH_COMMAND, undefined);
+    await flush();
+
+    const result = editor.getEditorState().read(() => {
+      const [code, paragraph] = $getRoot().getChildren();
+      const selection = $getSelection();
+      return {
+        codeText: code.getTextContent(),
+        isParagraph: $isParagraphNode(paragraph),
+        isCaretInParagraph: $isRangeSelection(selection) && selection.anchor.key === paragraph.getKey(),
+      };
+    });
+    expect(result).toEqual({ codeText: 'x', isParagraph: true, isCaretInParagraph: true });
+  });
+
+  it('toggles line comments for the block language on Mod+/', () => {
+    setCode(['a = 1', 'b = 2'], 'python', [0, 0], [1, 5]);
+    expect(editor.dispatchCommand(KEY_MODIFIER_COMMAND, key({ key: '/', ctrlKey: true }))).toBe(true);
+    expect(readCode().text).toBe('# a = 1\n# b = 2');
+
+    editor.dispatchCommand(KEY_MODIFIER_COMMAND, key({ key: '/', metaKey: true }));
+    expect(readCode().text).toBe('a = 1\nb = 2');
+  });
+
+  it('ignores Mod+/ in plain text blocks', () => {
+    setCode(['notes'], 'plain', [0, 2]);
+    expect(editor.dispatchCommand(KEY_MODIFIER_COMMAND, key({ key: '/', ctrlKey: true }))).toBe(false);
+    expect(readCode().text).toBe('no|tes');
+  });
+
+  it('leaves Tab and Enter to other handlers outside code', () => {
+    editor.update(() => {
+      const item = $createListItemNode().append($createTextNode('item'));
+      $getRoot().clear().append($createListNode('bullet').append(item), $createParagraphNode());
+      item.selectEnd();
+    }, { discrete: true });
+
+    expect(editor.dispatchCommand(KEY_TAB_COMMAND, key({ key: 'Tab' }))).toBe(false);
+    expect(editor.dispatchCommand(INSERT_PARAGRAPH_COMMAND, undefined)).toBe(false);
+    expect(editor.dispatchCommand(KEY_MODIFIER_COMMAND, key({ key: '/', ctrlKey: true }))).toBe(false);
+  });
+
+  it('works on highlighted code', async () => {
+    const unregisterHighlighting = registerCodeHighlighting(editor, CODE_TOKENIZER);
+    setCode(['const a = 1;'], 'js', [0, 0], [0, 12]);
+    await flush();
+
+    editor.dispatchCommand(KEY_MODIFIER_COMMAND, key({ key: '/', ctrlKey: true }));
+    await flush();
+    const result = editor.getEditorState().read(() => {
+      const code = $getRoot().getFirstChildOrThrow<CodeNode>();
+      return { text: code.getTextContent(), isHighlighted: code.getChildren().some($isCodeHighlightNode) };
+    });
+    expect(result).toEqual({ text: '// const a = 1;', isHighlighted: true });
+    unregisterHighlighting();
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { $getRoot, createEditor, LexicalEditor, ParagraphNode, TextNode } from 'lexical';
+import { $generateNodesFromDOM } from '@lexical/html';
+import {
+  $createCodeNode,
+  $isCodeHighlightNode,
+  $isCodeNode,
+  CodeHighlightNode,
+  CodeNode,
+  registerCodeHighlighting
+} from '@lexical/code';
+import { sanitizeHTML } from '../config/sanitization-config';
+import { setCodeLanguage } from '../commands/code-commands';
+import {
+  applyCodeLanguageAttributes,
+  CODE_LANGUAGE_OPTIONS,
+  CODE_TOKENIZER,
+  normalizeCodeLanguage,
+  PLAIN_CODE_LANGUAGE
+} from '../utils/code-languages';
+import { exportMarkdown, importMarkdown } from '../utils/markdown';
+import theme from '../theme';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('normalizeCodeLanguage', () => {
+  it('folds aliases onto the picker option sharing their grammar', () => {
+    expect(normalizeCodeLanguage('javascript')).toBe('js');
+    expect(normalizeCodeLanguage('TS')).toBe('typescript');
+    expect(normalizeCodeLanguage('python')).toBe('py');
+    expect(normalizeCodeLanguage('text')).toBe(PLAIN_CODE_LANGUAGE);
+  });
+
+  it('rejects empty and unsupported languages', () => {
+    expect(normalizeCodeLanguage('')).toBeNull();
+    expect(normalizeCodeLanguage(undefined)).toBeNull();
+    expect(normalizeCodeLanguage('cobol')).toBeNull();
+  });
+
+  it('offers plain text first and only languages Prism can highlight', () => {
+    expect(CODE_LANGUAGE_OPTIONS[0].value).toBe(PLAIN_CODE_LANGUAGE);
+    expect(CODE_LANGUAGE_OPTIONS.map(option => option.value)).toContain('typescript');
+    expect(CODE_LANGUAGE_OPTIONS.map(option => option.value)).not.toContain('clike');
+  });
+});
+
+describe('Code language on paste', () => {
+  it('keeps a validated language class on <pre> and drops other classes', () => {
+    expect(sanitizeHTML('<pre class="language-ts highlight"><code>x</code></pre>'))
+      .toBe('<pre class="language-typescript"><code>x</code></pre>');
+    expect(sanitizeHTML('<pre><code class="lang-python">x</code></pre>'))
+      .toBe('<pre class="language-py"><code>x</code></pre>');
+    expect(sanitizeHTML('<pre class="language-cobol">x</pre>')).toBe('<pre>x</pre>');
+    expect(sanitizeHTML('<p class="language-ts">x</p>')).toBe('<p>x</p>');
+  });
+
+  it('reads the language of a copied Lexical code block', () => {
+    expect(sanitizeHTML('<pre class="editor-code" data-highlight-language="rust">x</pre>'))
+      .toBe('<pre class="language-rust">x</pre>');
+  });
+
+  it('creates code blocks with the pasted language', () => {
+    const editor = createEditor({
+      namespace: 'code-paste-test',
+      nodes: [CodeNode, ParagraphNode, TextNode],
+      onError: (error) => { throw error; }
+    });
+
+    const doc = new DOMParser().parseFromString(
+      sanitizeHTML('<pre class="language-css"><code>a { color: red; }</code></pre>'),
+      'text/html'
+    );
+    applyCodeLanguageAttributes(doc.body);
+
+    let language: string | null | undefined;
+    editor.update(() => {
+      const [node] = $generateNodesFromDOM(editor, doc);
+      language = $isCodeNode(node) ? node.getLanguage() : null;
+    }, { discrete: true });
+
+    expect(language).toBe('css');
+  });
+});
+
+describe('Code block highlighting', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+  let unregister: () => void;
+
+  beforeEach(() => {
+    editor = createEditor({
+      namespace: 'code-highlight-test',
+      nodes: [CodeNode, CodeHighlightNode, ParagraphNode, TextNode],
+      theme,
+      onError: (error) => { throw error; }
+    });
+
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+    unregister = registerCodeHighlighting(editor, CODE_TOKENIZER);
+  });
+
+  afterEach(() => {
+    unregister();
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  const setCode = (text: string, language?: string) => {
+    editor.update(() => {
+      $getRoot().clear().append($createCodeNode(language).append(new TextNode(text)));
+    }, { discrete: true });
+  };
+
+  const readCode = () => editor.getEditorState().read(() => {
+    const code = $getRoot().getFirstChildOrThrow<CodeNode>();
+    return {
+      key: code.getKey(),
+      language: code.getLanguage(),
+      tokens: code.getChildren().filter($isCodeHighlightNode).map(node => node.getHighlightType()),
+    };
+  });
+
+  it('tokenizes code and renders theme classes', async () => {
+    setCode('const answer = 42;', 'js');
+    await flush();
+
+    expect(readCode().tokens).toContain('keyword');
+    expect(rootElement.querySelector('.editor-token-attr')?.textContent).toBe('const');
+  });
+
+  it('treats blocks without a language as plain text', async () => {
+    setCode('const answer = 42;');
+    await flush();
+
+    const { language, tokens } = readCode();
+    expect(language).toBe(PLAIN_CODE_LANGUAGE);
+    expect(tokens).not.toContain('keyword');
+  });
+
+  it('re-highlights when the language changes', async () => {
+    setCode('const answer = 42;');
+    await flush();
+
+    expect(setCodeLanguage(editor, readCode().key, 'javascript')).toBe(true);
+    await flush();
+
+    expect(readCode().language).toBe('js');
+    expect(readCode().tokens).toContain('keyword');
+  });
+
+  it('rejects unsupported languages and read-only editors', async () => {
+    setCode('x', 'js');
+    await flush();
+    const { key } = readCode();
+
+    expect(setCodeLanguage(editor, key, 'cobol')).toBe(false);
+    editor.setEditable(false);
+    expect(setCodeLanguage(editor, key, 'css')).toBe(false);
+    expect(readCode().language).toBe('js');
+  });
+
+  it('keeps the language through JSON', async () => {
+    setCode('x', 'rust');
+    await flush();
+
+    const json = JSON.stringify(editor.getEditorState().toJSON());
+    editor.setEditorState(editor.parseEditorState(json));
+    expect(readCode().language).toBe('rust');
+  });
+
+  it('keeps the language on the Markdown fence and leaves plain fences bare', async () => {
+    importMarkdown(editor, '```rust\nfn main() {}\n```\n\n```\nplain\n```');
+    await flush();
+
+    expect(exportMarkdown(editor.getEditorState())).toBe('```rust\nfn main() {}\n```\n\n```\nplain\n```');
+  });
+});
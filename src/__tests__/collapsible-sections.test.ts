@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getNodeByKey,
+  $getRoot,
+  $getSelection,
+  COMMAND_PRIORITY_EDITOR,
+  COPY_COMMAND,
+  createEditor,
+  KEY_MODIFIER_COMMAND,
+  LexicalEditor,
+  NodeKey,
+  ParagraphNode,
+  TextNode
+} from 'lexical';
+import { $createCustomHeadingNode, CustomHeadingNode } from '../nodes/CustomHeadingNode';
+import { registerCollapsibleSections, SECTION_TOGGLE_ATTRIBUTE } from '../plugins/CollapsibleSectionsPlugin';
+import { toggleSection } from '../commands/outline-commands';
+import { $extendSelectionOverCollapsedSections, $getHiddenBlocks } from '../utils/section-folding';
+
+type Block = ['h1' | 'h2' | 'h3' | 'p', string, 'collapsed'?];
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Collapsible sections', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+
+  /**
+   * Build a document from [tag, text, collapsed?] blocks; 'p' makes a paragraph.
+   * Returns the node keys in order.
+   */
+  function setDocument(blocks: Block[]): NodeKey[] {
+    const keys: NodeKey[] = [];
+    editor.update(() => {
+      const root = $getRoot().clear();
+      blocks.forEach(([tag, text, state]) => {
+        const block = tag === 'p' ? $createParagraphNode() : $createCustomHeadingNode(tag).setCollapsed(state === 'collapsed');
+        block.append($createTextNode(text));
+        root.append(block);
+        keys.push(block.getKey());
+      });
+    }, { discrete: true });
+    return keys;
+  }
+
+  const readHidden = () => editor.getEditorState().read(() => [...$getHiddenBlocks().keys()]);
+
+  const readCollapsed = (key: NodeKey) => editor.getEditorState().read(() =>
+    $getNodeByKey<CustomHeadingNode>(key)?.isCollapsed()
+  );
+
+  const placeCaret = (key: NodeKey) => {
+    editor.update(() => {
+      $getNodeByKey<ParagraphNode>(key)?.selectEnd();
+    }, { discrete: true });
+  };
+
+  beforeEach(() => {
+    editor = createEditor({
+      namespace: 'folding-test',
+      nodes: [CustomHeadingNode, ParagraphNode, TextNode],
+      onError: (error) => { throw error; }
+    });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+  });
+
+  afterEach(() => {
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  it('hides blocks up to the next heading of the same or a higher level', () => {
+    const keys = setDocument([
+      ['h1', 'Guide', 'collapsed'], ['p', 'Intro'], ['h2', 'Setup'], ['p', 'Steps'], ['h1', 'FAQ'], ['p', 'Answers']
+    ]);
+
+    expect(readHidden()).toEqual([keys[1], keys[2], keys[3]]);
+  });
+
+  it('folds a subsection without hiding its siblings', () => {
+    const keys = setDocument([
+      ['h1', 'Guide'], ['h2', 'Setup', 'collapsed'], ['h3', 'Install'], ['p', 'Steps'], ['h2', 'Usage']
+    ]);
+
+    expect(readHidden()).toEqual([keys[2], keys[3]]);
+  });
+
+  it('persists the collapsed state in JSON and defaults legacy headings to expanded', () => {
+    setDocument([['h1', 'Guide', 'collapsed'], ['p', 'Intro']]);
+
+    const json = editor.getEditorState().toJSON();
+    expect(json.root.children[0]).toMatchObject({ type: 'heading', collapsed: true });
+
+    editor.setEditorState(editor.parseEditorState(JSON.stringify(json)));
+    expect(editor.getEditorState().read(() => $getRoot().getFirstChildOrThrow<CustomHeadingNode>().isCollapsed()))
+      .toBe(true);
+
+    const legacy = JSON.parse(JSON.stringify(json));
+    delete legacy.root.children[0].collapsed;
+    editor.setEditorState(editor.parseEditorState(JSON.stringify(legacy)));
+    expect(editor.getEditorState().read(() => $getRoot().getFirstChildOrThrow<CustomHeadingNode>().isCollapsed()))
+      .toBe(false);
+  });
+
+  it('renders hidden blocks as hidden until found and marks foldable headings', async () => {
+    const unregister = registerCollapsibleSections(editor);
+    const keys = setDocument([['h1', 'Guide', 'collapsed'], ['p', 'Intro'], ['h1', 'FAQ'], ['p', 'Answers'], ['h1', 'Empty']]);
+    await flush();
+
+    expect(editor.getElementByKey(keys[1])?.getAttribute('hidden')).toBe('until-found');
+    expect(editor.getElementByKey(keys[3])?.hasAttribute('hidden')).toBe(false);
+    expect(editor.getElementByKey(keys[0])?.getAttribute(SECTION_TOGGLE_ATTRIBUTE)).toBe('collapsed');
+    expect(editor.getElementByKey(keys[2])?.getAttribute(SECTION_TOGGLE_ATTRIBUTE)).toBe('expanded');
+    expect(editor.getElementByKey(keys[4])?.hasAttribute(SECTION_TOGGLE_ATTRIBUTE)).toBe(false);
+
+    unregister();
+    expect(editor.getElementByKey(keys[1])?.hasAttribute('hidden')).toBe(false);
+    expect(editor.getElementByKey(keys[0])?.hasAttribute(SECTION_TOGGLE_ATTRIBUTE)).toBe(false);
+  });
+
+  it('folds the section at the caret and moves the caret to its heading', async () => {
+    const keys = setDocument([['h1', 'Guide'], ['p', 'Intro']]);
+    placeCaret(keys[1]);
+
+    expect(toggleSection(editor)).toBe(true);
+    await flush();
+
+    expect(readCollapsed(keys[0])).toBe(true);
+    expect(editor.getEditorState().read(() => $getSelection()?.getNodes()[0].getTopLevelElement()?.getKey()))
+      .toBe(keys[0]);
+
+    expect(toggleSection(editor, keys[0])).toBe(true);
+    await flush();
+    expect(readCollapsed(keys[0])).toBe(false);
+  });
+
+  it('toggles the section at the caret with Mod+Alt+.', async () => {
+    const unregister = registerCollapsibleSections(editor);
+    const keys = setDocument([['h1', 'Guide'], ['p', 'Intro']]);
+    placeCaret(keys[0]);
+
+    const event = new KeyboardEvent('keydown', { code: 'Period', key: '.', ctrlKey: true, altKey: true });
+    expect(editor.dispatchCommand(KEY_MODIFIER_COMMAND, event)).toBe(true);
+    await flush();
+
+    expect(readCollapsed(keys[0])).toBe(true);
+    unregister();
+  });
+
+  it('opens every section hiding the caret', async () => {
+    const unregister = registerCollapsibleSections(editor);
+    const keys = setDocument([['h1', 'Guide', 'collapsed'], ['h2', 'Setup', 'collapsed'], ['p', 'Steps']]);
+    await flush();
+
+    placeCaret(keys[2]);
+    await flush();
+
+    expect(readCollapsed(keys[0])).toBe(false);
+    expect(readCollapsed(keys[1])).toBe(false);
+    expect(editor.getElementByKey(keys[2])?.hasAttribute('hidden')).toBe(false);
+    unregister();
+  });
+
+  it('opens the section when find in page matches hidden text', async () => {
+    const unregister = registerCollapsibleSections(editor);
+    const keys = setDocument([['h1', 'Guide', 'collapsed'], ['p', 'Intro']]);
+    await flush();
+
+    editor.getElementByKey(keys[1])?.dispatchEvent(new Event('beforematch', { bubbles: true }));
+    await flush();
+
+    expect(readCollapsed(keys[0])).toBe(false);
+    unregister();
+  });
+
+  it('extends a copied range that ends in a collapsed heading over its section', () => {
+    setDocument([['p', 'Before'], ['h1', 'Guide', 'collapsed'], ['p', 'Intro'], ['h1', 'FAQ']]);
+
+    let extended = false;
+    let copiedText = '';
+    editor.update(() => {
+      const selection = $getRoot().getFirstChildOrThrow<ParagraphNode>().select(0, 0);
+      const heading = $getRoot().getChildAtIndex<CustomHeadingNode>(1)!;
+      selection.focus.set(heading.getFirstChildOrThrow().getKey(), 'Guide'.length, 'text');
+
+      extended = $extendSelectionOverCollapsedSections();
+      copiedText = $getSelection()?.getTextContent() ?? '';
+    }, { discrete: true });
+
+    expect(extended).toBe(true);
+    expect(copiedText).toBe('Before\nGuide\nIntro');
+  });
+
+  it('copies a collapsed section without moving the visible selection', async () => {
+    setDocument([['p', 'Before'], ['h1', 'Guide', 'collapsed'], ['p', 'Intro'], ['h1', 'FAQ']]);
+    const unregister = registerCollapsibleSections(editor);
+
+    // Stand-in for the rich text copy handler, which reads the selection in a queued update
+    let copiedText = '';
+    const unregisterCopy = editor.registerCommand(COPY_COMMAND, () => {
+      editor.update(() => {
+        copiedText = $getSelection()?.getTextContent() ?? '';
+      });
+      return true;
+    }, COMMAND_PRIORITY_EDITOR);
+
+    editor.update(() => {
+      const selection = $getRoot().getFirstChildOrThrow<ParagraphNode>().select(0, 0);
+      const heading = $getRoot().getChildAtIndex<CustomHeadingNode>(1)!;
+      selection.focus.set(heading.getFirstChildOrThrow().getKey(), 'Guide'.length, 'text');
+    }, { discrete: true });
+
+    editor.dispatchCommand(COPY_COMMAND, null);
+    await flush();
+
+    expect(copiedText).toBe('Before\nGuide\nIntro');
+    expect(editor.getEditorState().read(() => $getSelection()?.getTextContent())).toBe('Before\nGuide');
+
+    unregisterCopy();
+    unregister();
+  });
+
+  it('does not toggle in a read-only editor', () => {
+    const keys = setDocument([['h1', 'Guide'], ['p', 'Intro']]);
+    editor.setEditable(false);
+
+    expect(toggleSection(editor, keys[0])).toBe(false);
+    expect(readCollapsed(keys[0])).toBe(false);
+  });
+});
@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  $getSelection,
+  $isElementNode,
+  $isRangeSelection,
+  $isTextNode,
+  KEY_ARROW_DOWN_COMMAND,
+  KEY_MODIFIER_COMMAND,
+  LexicalEditor,
+  LexicalNode,
+  TextNode
+} from 'lexical';
+import { $generateHtmlFromNodes, $generateNodesFromDOM } from '@lexical/html';
+import { $setBlocksType } from '@lexical/selection';
+import { sanitizeHTML } from '../config/sanitization-config';
+import { insertDetails, toggleDetails } from '../commands/block-commands';
+import {
+  $createDetailsContentNode,
+  $createDetailsNode,
+  $createDetailsSummaryNode,
+  $isDetailsNode,
+  DetailsNode
+} from '../nodes/DetailsNode';
+import { registerDetails } from '../plugins/DetailsPlugin';
+import { createTestEditor } from './test-helpers';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const modifierEvent = (code: string) =>
+  new KeyboardEvent('keydown', { code, ctrlKey: true, altKey: true });
+
+describe('Toggle sanitization', () => {
+  it('keeps <details open> and drops open elsewhere', () => {
+    expect(sanitizeHTML('<details open="open" class="x"><summary onclick="x()">Q</summary><p>A</p></details>'))
+      .toBe('<details open=""><summary>Q</summary><p>A</p></details>');
+    expect(sanitizeHTML('<p open>x</p>')).toBe('<p>x</p>');
+  });
+});
+
+describe('Toggles', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+  let unregister: () => void;
+
+  beforeEach(() => {
+    editor = createTestEditor({
+      namespace: 'details-test',
+      onError: (error) => { throw error; }
+    });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+    unregister = registerDetails(editor);
+  });
+
+  afterEach(() => {
+    unregister();
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  // Tree shape as nested arrays: [type, text-or-children]
+  const describeNode = (node: LexicalNode): unknown => {
+    if ($isDetailsNode(node)) {
+      return ['details', node.isOpen(), ...node.getChildren().map(describeNode)];
+    }
+    if ($isElementNode(node) && node.getChildren().some(child => $isElementNode(child) && !child.isInline())) {
+      return [node.getType(), ...node.getChildren().map(describeNode)];
+    }
+    return $isElementNode(node) || $isTextNode(node) ? [node.getType(), node.getTextContent()] : [node.getType()];
+  };
+
+  const readTree = () => editor.getEditorState().read(() => $getRoot().getChildren().map(describeNode));
+
+  const readCaret = () => editor.getEditorState().read(() => {
+    const selection = $getSelection();
+    if (!$isRangeSelection(selection)) return null;
+    const node = selection.anchor.getNode();
+    return { type: ($isElementNode(node) ? node : node.getParentOrThrow()).getType(), offset: selection.anchor.offset };
+  });
+
+  function setToggle(open: boolean, summary: string, body: string) {
+    editor.update(() => {
+      $getRoot().clear().append(
+        $createDetailsNode(open).append(
+          $createDetailsSummaryNode().append($createTextNode(summary)),
+          $createDetailsContentNode().append($createParagraphNode().append($createTextNode(body)))
+        )
+      );
+    }, { discrete: true });
+  }
+
+  const detailsKey = () => editor.getEditorState().read(() => $getRoot().getFirstChildOrThrow<DetailsNode>().getKey());
+
+  it('pastes <details> with its summary first and loose content in paragraphs', () => {
+    const html = sanitizeHTML(
+      '<details><p>Body</p><summary><h3>Logs</h3></summary>loose <b>text</b><div>in div</div><hr></details>'
+    );
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+
+    editor.update(() => {
+      $getRoot().clear().append(...$generateNodesFromDOM(editor, doc));
+    }, { discrete: true });
+
+    expect(readTree()).toEqual([
+      ['details', false,
+        ['details-summary', 'Logs'],
+        ['details-content',
+          ['paragraph', 'Body'],
+          ['paragraph', 'loose text'],
+          ['paragraph', 'in div'],
+          ['horizontalrule'],
+        ],
+      ],
+    ]);
+  });
+
+  it('exports <details><summary> and reads it back', () => {
+    setToggle(true, 'FAQ', 'Answer');
+
+    const html = editor.getEditorState().read(() => $generateHtmlFromNodes(editor, null));
+    expect(html).toBe('<details open=""><summary><span style="white-space: pre-wrap;">FAQ</span></summary>' +
+      '<div><p dir="ltr"><span style="white-space: pre-wrap;">Answer</span></p></div></details>');
+
+    const doc = new DOMParser().parseFromString(sanitizeHTML(html), 'text/html');
+    editor.update(() => {
+      $getRoot().clear().append(...$generateNodesFromDOM(editor, doc));
+    }, { discrete: true });
+    expect(readTree()).toEqual([
+      ['details', true, ['details-summary', 'FAQ'], ['details-content', ['paragraph', 'Answer']]],
+    ]);
+  });
+
+  it('keeps the open state through JSON and hides a closed body', () => {
+    setToggle(false, 'Q', 'A');
+
+    const json = JSON.stringify(editor.getEditorState().toJSON());
+    editor.setEditorState(editor.parseEditorState(json));
+
+    expect(readTree()).toEqual([
+      ['details', false, ['details-summary', 'Q'], ['details-content', ['paragraph', 'A']]],
+    ]);
+    const content = rootElement.querySelector('.editor-details-content') ?? rootElement.firstElementChild!.children[1];
+    expect(content.getAttribute('hidden')).toBe('until-found');
+  });
+
+  it('inserts an open toggle with the caret in its summary', async () => {
+    editor.update(() => {
+      $getRoot().clear().append($createParagraphNode().append($createTextNode('Before'))).selectEnd();
+    }, { discrete: true });
+
+    expect(insertDetails(editor)).toBe(true);
+    await flush();
+
+    expect(readTree()).toEqual([
+      ['paragraph', 'Before'],
+      ['details', true, ['details-summary', ''], ['details-content', ['paragraph', '']]],
+      ['paragraph', ''],
+    ]);
+    expect(readCaret()).toEqual({ type: 'details-summary', offset: 0 });
+  });
+
+  it('opens on Enter in the summary and carries the text after the caret into the body', () => {
+    setToggle(false, 'Question', 'Answer');
+
+    editor.update(() => {
+      const summary = $getRoot().getFirstChildOrThrow<DetailsNode>().getSummary()!;
+      summary.getFirstChildOrThrow<TextNode>().select(5, 5);
+      const selection = $getSelection();
+      if ($isRangeSelection(selection)) selection.insertParagraph();
+    }, { discrete: true });
+
+    expect(readTree()).toEqual([
+      ['details', true,
+        ['details-summary', 'Quest'],
+        ['details-content', ['paragraph', 'ion'], ['paragraph', 'Answer']],
+      ],
+    ]);
+  });
+
+  it('toggles with Mod+Alt+. and moves the caret out of a closing body', async () => {
+    setToggle(true, 'Q', 'A');
+    editor.update(() => {
+      $getRoot().getFirstChildOrThrow<DetailsNode>().getContent()!.selectEnd();
+    }, { discrete: true });
+
+    expect(editor.dispatchCommand(KEY_MODIFIER_COMMAND, modifierEvent('Period'))).toBe(true);
+    await flush();
+    expect(readTree()[0]).toEqual(expect.arrayContaining(['details', false]));
+    expect(readCaret()).toEqual({ type: 'details-summary', offset: 1 });
+
+    expect(toggleDetails(editor, detailsKey())).toBe(true);
+    await flush();
+    expect(editor.getEditorState().read(() => $getRoot().getFirstChildOrThrow<DetailsNode>().isOpen())).toBe(true);
+
+    editor.setEditable(false);
+    expect(toggleDetails(editor, detailsKey())).toBe(false);
+  });
+
+  it('leaves Mod+Alt+. to collapsible sections outside toggles', () => {
+    editor.update(() => {
+      $getRoot().clear().append($createParagraphNode().append($createTextNode('Text'))).selectEnd();
+    }, { discrete: true });
+
+    expect(editor.dispatchCommand(KEY_MODIFIER_COMMAND, modifierEvent('Period'))).toBe(false);
+  });
+
+  it('opens a closed toggle when the caret lands in its body', async () => {
+    setToggle(false, 'Q', 'Hidden');
+
+    editor.update(() => {
+      $getRoot().getFirstChildOrThrow<DetailsNode>().getContent()!.selectStart();
+    }, { discrete: true });
+    await flush();
+
+    expect(editor.getEditorState().read(() => $getRoot().getFirstChildOrThrow<DetailsNode>().isOpen())).toBe(true);
+  });
+
+  it('adds a paragraph after a last toggle on ArrowDown at its end', async () => {
+    setToggle(true, 'Q', 'A');
+    editor.update(() => {
+      $getRoot().getFirstChildOrThrow<DetailsNode>().getContent()!.selectEnd();
+    }, { discrete: true });
+
+    editor.dispatchCommand(KEY_ARROW_DOWN_COMMAND, new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+    await flush();
+
+    expect(readTree()).toEqual([
+      ['details', true, ['details-summary', 'Q'], ['details-content', ['paragraph', 'A']]],
+      ['paragraph', ''],
+    ]);
+
+    // With a block after it the caret has somewhere to go, so nothing is added
+    editor.update(() => {
+      $getRoot().getFirstChildOrThrow<DetailsNode>().getContent()!.selectEnd();
+    }, { discrete: true });
+    editor.dispatchCommand(KEY_ARROW_DOWN_COMMAND, new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+    await flush();
+
+    expect(readTree()).toHaveLength(2);
+  });
+
+  it('unwraps the toggle on Backspace at the start of its summary or when the summary is reformatted', () => {
+    setToggle(false, 'Q', 'A');
+    // What Backspace calls at the start of a block (jsdom lacks Selection.modify)
+    editor.update(() => {
+      const summary = $getRoot().getFirstChildOrThrow<DetailsNode>().getSummary()!;
+      summary.selectStart();
+      summary.collapseAtStart();
+    }, { discrete: true });
+
+    expect(readTree()).toEqual([['paragraph', 'Q'], ['paragraph', 'A']]);
+
+    setToggle(true, 'Q', 'A');
+    editor.update(() => {
+      $getRoot().getFirstChildOrThrow<DetailsNode>().getSummary()!.selectEnd();
+      const selection = $getSelection();
+      if ($isRangeSelection(selection)) $setBlocksType(selection, () => $createParagraphNode());
+    }, { discrete: true });
+
+    expect(readTree()).toEqual([['paragraph', 'Q'], ['paragraph', 'A']]);
+  });
+
+  it('leaves a malformed toggle alone while the editor is read-only', () => {
+    editor.setEditable(false);
+    editor.update(() => {
+      $getRoot().clear().append(
+        $createDetailsNode(true).append($createDetailsContentNode().append($createParagraphNode().append($createTextNode('A'))))
+      );
+    }, { discrete: true });
+
+    expect(readTree()).toEqual([['details', true, ['details-content', ['paragraph', 'A']]]]);
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getNodeByKey,
+  $getRoot,
+  createEditor,
+  LexicalEditor,
+  NodeKey,
+  ParagraphNode,
+  TextNode
+} from 'lexical';
+import { $generateHtmlFromNodes, $generateNodesFromDOM } from '@lexical/html';
+import { HeadingNode } from '@lexical/rich-text';
+import {
+  $createCustomHeadingNode,
+  $createEditorHeadingNode,
+  $isCustomHeadingNode,
+  CustomHeadingNode
+} from '../nodes/CustomHeadingNode';
+import { registerHeadingAnchors } from '../plugins/HeadingAnchorsPlugin';
+import { resetHeadingAnchor } from '../commands/outline-commands';
+import { slugify, uniqueSlug } from '../utils/slug';
+import { createTestEditor } from './test-helpers';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const readSlugs = (editor: LexicalEditor) => editor.getEditorState().read(() =>
+  $getRoot().getChildren().filter($isCustomHeadingNode).map(heading => heading.getSlug())
+);
+
+describe('slugify', () => {
+  it('lowercases, strips accents and joins words with hyphens', () => {
+    expect(slugify('Getting Started')).toBe('getting-started');
+    expect(slugify('  Café & Crème brûlée!  ')).toBe('cafe-creme-brulee');
+    expect(slugify('1.2 Install (macOS)')).toBe('1-2-install-macos');
+  });
+
+  it('returns an empty string for text without usable characters', () => {
+    expect(slugify('!!!')).toBe('');
+  });
+});
+
+describe('uniqueSlug', () => {
+  it('appends the first free numeric suffix', () => {
+    expect(uniqueSlug('setup', new Set())).toBe('setup');
+    expect(uniqueSlug('setup', new Set(['setup']))).toBe('setup-2');
+    expect(uniqueSlug('setup', new Set(['setup', 'setup-2']))).toBe('setup-3');
+  });
+
+  it('falls back to "section" for an empty base', () => {
+    expect(uniqueSlug('', new Set())).toBe('section');
+  });
+});
+
+describe('Heading anchors', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+  let unregister: () => void;
+
+  /**
+   * Build a document from [tag, text] pairs; 'p' makes a paragraph.
+   * Returns the node keys in order.
+   */
+  function setDocument(blocks: [('h1' | 'h2' | 'h3' | 'p'), string][]): NodeKey[] {
+    const keys: NodeKey[] = [];
+    editor.update(() => {
+      const root = $getRoot().clear();
+      blocks.forEach(([tag, text]) => {
+        const block = tag === 'p' ? $createParagraphNode() : $createCustomHeadingNode(tag);
+        block.append($createTextNode(text));
+        root.append(block);
+        keys.push(block.getKey());
+      });
+    }, { discrete: true });
+    return keys;
+  }
+
+  beforeEach(() => {
+    editor = createEditor({
+      namespace: 'anchors-test',
+      nodes: [CustomHeadingNode, ParagraphNode, TextNode],
+      onError: (error) => { throw error; }
+    });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+
+    unregister = registerHeadingAnchors(editor);
+  });
+
+  afterEach(() => {
+    unregister();
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  it('derives unique slugs from heading text', async () => {
+    setDocument([['h1', 'Setup'], ['p', 'Body'], ['h2', 'Setup'], ['h2', 'Café au lait']]);
+    await flush();
+
+    expect(readSlugs(editor)).toEqual(['setup', 'setup-2', 'cafe-au-lait']);
+  });
+
+  it('renders the slug as the heading id', async () => {
+    const [key] = setDocument([['h2', 'Usage']]);
+    await flush();
+
+    expect(editor.getElementByKey(key)?.id).toBe('usage');
+  });
+
+  it('keeps the slug when the heading text changes', async () => {
+    const [key] = setDocument([['h2', 'Install'], ['p', 'Body']]);
+    await flush();
+
+    editor.update(() => {
+      const heading = $getNodeByKey<CustomHeadingNode>(key);
+      heading?.getFirstChildOrThrow<TextNode>().setTextContent('Installation guide');
+      $getRoot().getLastChildOrThrow<ParagraphNode>().selectEnd();
+    }, { discrete: true });
+    await flush();
+
+    expect(readSlugs(editor)).toEqual(['install']);
+  });
+
+  it('waits for the caret to leave a new heading before assigning its slug', async () => {
+    setDocument([['p', 'Intro']]);
+
+    editor.update(() => {
+      const heading = $createCustomHeadingNode('h2').append($createTextNode('G'));
+      $getRoot().append(heading);
+      heading.selectEnd();
+    }, { discrete: true });
+    await flush();
+    expect(readSlugs(editor)).toEqual(['']);
+
+    editor.update(() => {
+      const heading = $getRoot().getLastChildOrThrow<CustomHeadingNode>();
+      heading.getFirstChildOrThrow<TextNode>().setTextContent('Getting started');
+      $getRoot().getFirstChildOrThrow<ParagraphNode>().selectEnd();
+    }, { discrete: true });
+    await flush();
+
+    expect(readSlugs(editor)).toEqual(['getting-started']);
+  });
+
+  it('assigns the slug when only the caret leaves a new heading', async () => {
+    setDocument([['p', 'Intro']]);
+
+    editor.update(() => {
+      const heading = $createCustomHeadingNode('h2').append($createTextNode('Getting started'));
+      $getRoot().append(heading);
+      heading.selectEnd();
+    }, { discrete: true });
+    await flush();
+    expect(readSlugs(editor)).toEqual(['']);
+
+    editor.update(() => {
+      $getRoot().getFirstChildOrThrow<ParagraphNode>().selectEnd();
+    }, { discrete: true });
+    await flush();
+
+    expect(readSlugs(editor)).toEqual(['getting-started']);
+  });
+
+  it('assigns slugs to a document loaded after registration', async () => {
+    const source = createEditor({
+      namespace: 'anchors-source-test',
+      nodes: [CustomHeadingNode, ParagraphNode, TextNode],
+      onError: (error) => { throw error; }
+    });
+    source.update(() => {
+      $getRoot().append($createCustomHeadingNode('h1').append($createTextNode('Loaded')));
+    }, { discrete: true });
+
+    editor.setEditorState(editor.parseEditorState(JSON.stringify(source.getEditorState().toJSON())));
+    await flush();
+
+    expect(readSlugs(editor)).toEqual(['loaded']);
+  });
+
+  it('renames a pasted copy instead of the original heading', async () => {
+    setDocument([['p', 'Intro'], ['h2', 'Setup']]);
+    await flush();
+
+    // A copy pasted above the original arrives with the same slug
+    editor.update(() => {
+      const copy = $createCustomHeadingNode('h2', 'setup').append($createTextNode('Setup'));
+      $getRoot().getFirstChildOrThrow().insertBefore(copy);
+    }, { discrete: true });
+    await flush();
+
+    expect(readSlugs(editor)).toEqual(['setup-2', 'setup']);
+  });
+
+  it('resets a slug from the current text on request', async () => {
+    const [key] = setDocument([['h2', 'Install'], ['h2', 'Usage']]);
+    await flush();
+
+    editor.update(() => {
+      $getRoot().getFirstChildOrThrow<CustomHeadingNode>().getFirstChildOrThrow<TextNode>().setTextContent('Usage');
+    }, { discrete: true });
+    await flush();
+    expect(readSlugs(editor)).toEqual(['install', 'usage']);
+
+    expect(resetHeadingAnchor(editor, key)).toBe('usage-2');
+    await flush();
+    expect(readSlugs(editor)).toEqual(['usage-2', 'usage']);
+  });
+
+  it('does not assign slugs in a read-only editor', async () => {
+    editor.setEditable(false);
+    setDocument([['h2', 'Setup']]);
+    await flush();
+
+    expect(readSlugs(editor)).toEqual(['']);
+    expect(resetHeadingAnchor(editor, 'missing')).toBeNull();
+  });
+
+  it('exports the slug as id and imports it back from HTML', async () => {
+    setDocument([['h2', 'Setup']]);
+    await flush();
+
+    const html = editor.getEditorState().read(() => $generateHtmlFromNodes(editor, null));
+    expect(html).toContain('id="setup"');
+
+    const dom = new DOMParser().parseFromString('<h2 id="Quick Start">Start here</h2>', 'text/html');
+    editor.update(() => {
+      const nodes = $generateNodesFromDOM(editor, dom);
+      $getRoot().clear().append(...nodes);
+    }, { discrete: true });
+    await flush();
+
+    expect(readSlugs(editor)).toEqual(['quick-start']);
+  });
+});
+
+describe('$createEditorHeadingNode', () => {
+  it('creates the heading class the editor registered', () => {
+    const customEditor = createEditor({ nodes: [CustomHeadingNode], onError: console.error });
+    const stockEditor = createTestEditor();
+    let custom: HeadingNode | null = null;
+    let stock: HeadingNode | null = null;
+
+    customEditor.update(() => {
+      custom = $createEditorHeadingNode('h2');
+    }, { discrete: true });
+    stockEditor.update(() => {
+      stock = $createEditorHeadingNode('h2');
+    }, { discrete: true });
+
+    expect(custom).toBeInstanceOf(CustomHeadingNode);
+    expect(stock).toBeInstanceOf(HeadingNode);
+    expect(stock).not.toBeInstanceOf(CustomHeadingNode);
+  });
+});
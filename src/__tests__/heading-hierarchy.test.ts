@@ -0,0 +1,158 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { $createParagraphNode, $createTextNode, $getRoot, LexicalEditor } from 'lexical';
+import { $createHeadingNode, $isHeadingNode } from '@lexical/rich-text';
+import { createHeadingPolicy, HeadingHierarchyMode } from '../constants/heading-policy';
+import {
+  $findHeadingSkips,
+  HEADING_SKIP_CLASS,
+  registerHeadingPolicy
+} from '../plugins/HeadingPolicyPlugin';
+import { HeadingTagType } from '../types/editor-types';
+import { createTestEditor } from './test-helpers';
+
+const H1_H3 = ['h1', 'h2', 'h3'];
+
+describe('Heading Hierarchy', () => {
+  let editor: LexicalEditor;
+  let unregister: () => void;
+  let rootElement: HTMLDivElement | null = null;
+
+  afterEach(() => {
+    unregister?.();
+    if (rootElement) {
+      editor.setRootElement(null);
+      rootElement.remove();
+      rootElement = null;
+    }
+  });
+
+  const setup = (hierarchy: HeadingHierarchyMode, allowedTags: string[] = H1_H3) => {
+    editor = createTestEditor({ namespace: `heading-hierarchy-${hierarchy}-test` });
+    unregister = registerHeadingPolicy(editor, createHeadingPolicy(allowedTags, 'clamp', hierarchy));
+  };
+
+  const setHeadings = (...tags: (HeadingTagType | 'p')[]) => {
+    editor.update(() => {
+      const root = $getRoot().clear();
+      tags.forEach((tag, index) => {
+        const block = tag === 'p' ? $createParagraphNode() : $createHeadingNode(tag);
+        block.append($createTextNode(`Block ${index}`));
+        root.append(block);
+      });
+    }, { discrete: true });
+  };
+
+  const readTags = () => editor.getEditorState().read(() =>
+    $getRoot().getChildren().map(node => ($isHeadingNode(node) ? node.getTag() : 'p'))
+  );
+
+  describe('detection', () => {
+    it('finds headings that skip a level, ignoring paragraphs in between', () => {
+      setup('off');
+      setHeadings('h1', 'p', 'h3', 'h1', 'h2');
+
+      editor.getEditorState().read(() => {
+        const policy = createHeadingPolicy(H1_H3);
+        expect($findHeadingSkips(policy).map(node => node.getTextContent())).toEqual(['Block 2']);
+      });
+    });
+
+    it('lets the first heading start at any level and outdent freely', () => {
+      setup('off');
+      setHeadings('h3', 'h1', 'h2', 'h3', 'h1');
+
+      editor.getEditorState().read(() => {
+        expect($findHeadingSkips(createHeadingPolicy(H1_H3))).toHaveLength(0);
+      });
+    });
+
+    it('ranks levels by the allowed tags of the policy', () => {
+      setup('off', ['h1', 'h3']);
+      setHeadings('h1', 'h3');
+
+      editor.getEditorState().read(() => {
+        expect($findHeadingSkips(createHeadingPolicy(['h1', 'h3']))).toHaveLength(0);
+      });
+    });
+  });
+
+  describe('off', () => {
+    it('leaves skipped levels alone', () => {
+      setup('off');
+      setHeadings('h1', 'h3');
+      expect(readTags()).toEqual(['h1', 'h3']);
+    });
+  });
+
+  describe('relabel', () => {
+    it('relabels a skip to the next valid level, keeping its content', () => {
+      setup('relabel');
+      setHeadings('h1', 'h3');
+
+      expect(readTags()).toEqual(['h1', 'h2']);
+      editor.getEditorState().read(() => {
+        expect($getRoot().getLastChild()?.getTextContent()).toBe('Block 1');
+      });
+    });
+
+    it('checks later headings against relabeled ones', () => {
+      setup('relabel', ['h1', 'h2', 'h3', 'h4']);
+      setHeadings('h1', 'h3', 'h4', 'p', 'h2');
+      expect(readTags()).toEqual(['h1', 'h2', 'h3', 'p', 'h2']);
+    });
+
+    it('relabels after clamping disallowed levels', () => {
+      setup('relabel');
+      setHeadings('h1', 'h6');
+      expect(readTags()).toEqual(['h1', 'h2']);
+    });
+
+    it('recomputes when a heading in between is removed', () => {
+      setup('relabel');
+      setHeadings('h1', 'h2', 'h3');
+
+      editor.update(() => {
+        $getRoot().getChildAtIndex(1)?.remove();
+      }, { discrete: true });
+
+      expect(readTags()).toEqual(['h1', 'h2']);
+    });
+  });
+
+  describe('flag', () => {
+    const mount = () => {
+      rootElement = document.createElement('div');
+      rootElement.contentEditable = 'true';
+      document.body.appendChild(rootElement);
+      editor.setRootElement(rootElement);
+    };
+
+    const flaggedText = () =>
+      [...rootElement!.querySelectorAll(`.${HEADING_SKIP_CLASS}`)].map(element => element.textContent);
+
+    it('marks skipping headings without changing them', () => {
+      setup('flag');
+      mount();
+      setHeadings('h1', 'h3', 'h2');
+
+      expect(readTags()).toEqual(['h1', 'h3', 'h2']);
+      expect(flaggedText()).toEqual(['Block 1']);
+      expect(rootElement!.querySelector('[data-heading-skip]')?.textContent).toBe('Block 1');
+    });
+
+    it('clears the flag once the outline is fixed', () => {
+      setup('flag');
+      mount();
+      setHeadings('h1', 'h3');
+      expect(flaggedText()).toEqual(['Block 1']);
+
+      editor.update(() => {
+        const heading = $createHeadingNode('h2');
+        heading.append($createTextNode('Inserted'));
+        $getRoot().getFirstChild()?.insertAfter(heading);
+      }, { discrete: true });
+
+      expect(flaggedText()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  $isParagraphNode,
+  LexicalEditor,
+  SerializedTextNode
+} from 'lexical';
+import { $createHeadingNode, $isHeadingNode, SerializedHeadingNode } from '@lexical/rich-text';
+import { $createListItemNode, $createListNode } from '@lexical/list';
+import {
+  createHeadingPolicy,
+  DEFAULT_HEADING_POLICY,
+  describeAllowedHeadingTags,
+  getHeadingPolicy,
+  HeadingPolicy,
+  normalizeHeadingTag
+} from '../constants/heading-policy';
+import { CustomHeadingNode } from '../nodes/CustomHeadingNode';
+import { formatHeading } from '../commands/heading-commands';
+import { registerHeadingPolicy } from '../plugins/HeadingPolicyPlugin';
+import { HeadingTagType } from '../types/editor-types';
+import { createTestEditor } from './test-helpers';
+
+// "h2-h4 only, h1 reserved for the page title"
+const DOC_POLICY = createHeadingPolicy(['h2', 'h3', 'h4']);
+const DEMOTE_POLICY = createHeadingPolicy(['h1', 'h2', 'h3'], 'demote');
+const SPARSE_POLICY = createHeadingPolicy(['h1', 'h3']);
+
+function serializedHeading(tag: HeadingTagType): SerializedHeadingNode {
+  return {
+    type: 'heading',
+    tag,
+    format: '',
+    indent: 0,
+    version: 1,
+    direction: null,
+    children: []
+  };
+}
+
+function serializedText(text: string): SerializedTextNode {
+  return { type: 'text', text, format: 0, style: '', mode: 'normal', detail: 0, version: 1 };
+}
+
+describe('createHeadingPolicy', () => {
+  it('sorts tags and ignores unknown ones', () => {
+    const policy = createHeadingPolicy(['h4', 'h2', 'h9', 'h3']);
+    expect(policy.allowedTags).toEqual(['h2', 'h3', 'h4']);
+    expect(policy.mode).toBe('clamp');
+    expect(Object.isFrozen(policy)).toBe(true);
+  });
+
+  it('rejects a policy without any heading level', () => {
+    expect(() => createHeadingPolicy([])).toThrow('[HeadingPolicy]');
+    expect(() => createHeadingPolicy(['h7'])).toThrow('[HeadingPolicy]');
+  });
+
+  it('describes allowed tags for warnings', () => {
+    expect(describeAllowedHeadingTags(DEFAULT_HEADING_POLICY)).toBe('h1, h2, or h3');
+    expect(describeAllowedHeadingTags(SPARSE_POLICY)).toBe('h1 or h3');
+  });
+});
+
+describe('normalizeHeadingTag', () => {
+  it.each([
+    ['h2', 'h2', DEFAULT_HEADING_POLICY],
+    ['h5', 'h3', DEFAULT_HEADING_POLICY],
+    ['h1', 'h2', DOC_POLICY],
+    ['h6', 'h4', DOC_POLICY],
+    ['h2', 'h3', SPARSE_POLICY],
+    ['h4', 'h3', SPARSE_POLICY],
+    ['h2', 'h2', DEMOTE_POLICY],
+    ['h4', null, DEMOTE_POLICY]
+  ] as [string, HeadingTagType | null, HeadingPolicy][])(
+    'maps %s to %s',
+    (tag, expected, policy) => {
+      expect(normalizeHeadingTag(tag, policy)).toBe(expected);
+    }
+  );
+});
+
+describe('HeadingPolicy transform', () => {
+  let editor: LexicalEditor;
+  let unregister: () => void;
+
+  afterEach(() => {
+    unregister?.();
+  });
+
+  const insertHeading = (tag: HeadingTagType) => {
+    editor.update(() => {
+      const heading = $createHeadingNode(tag);
+      heading.append($createTextNode('Section'));
+      $getRoot().clear().append(heading);
+    }, { discrete: true });
+  };
+
+  const readFirstBlock = () => editor.getEditorState().read(() => {
+    const block = $getRoot().getFirstChild();
+    return {
+      tag: $isHeadingNode(block) ? block.getTag() : null,
+      isParagraph: $isParagraphNode(block),
+      text: $getRoot().getTextContent()
+    };
+  });
+
+  it('clamps h1 to h2 when h1 is reserved for the title', () => {
+    editor = createTestEditor({ namespace: 'heading-policy-doc-test' });
+    unregister = registerHeadingPolicy(editor, DOC_POLICY);
+
+    insertHeading('h1');
+    expect(readFirstBlock()).toEqual({ tag: 'h2', isParagraph: false, text: 'Section' });
+
+    insertHeading('h4');
+    expect(readFirstBlock().tag).toBe('h4');
+  });
+
+  it('demotes disallowed headings to paragraphs', () => {
+    editor = createTestEditor({ namespace: 'heading-policy-demote-test' });
+    unregister = registerHeadingPolicy(editor, DEMOTE_POLICY);
+
+    insertHeading('h5');
+    expect(readFirstBlock()).toEqual({ tag: null, isParagraph: true, text: 'Section' });
+  });
+
+  it('clamps into the gaps of a sparse policy', () => {
+    editor = createTestEditor({ namespace: 'heading-policy-sparse-test' });
+    unregister = registerHeadingPolicy(editor, SPARSE_POLICY);
+
+    insertHeading('h2');
+    expect(readFirstBlock().tag).toBe('h3');
+  });
+
+  it('makes the policy the editor default', () => {
+    editor = createTestEditor({ namespace: 'heading-policy-registry-test' });
+    expect(getHeadingPolicy(editor)).toBe(DEFAULT_HEADING_POLICY);
+
+    unregister = registerHeadingPolicy(editor, DOC_POLICY);
+    expect(getHeadingPolicy(editor)).toBe(DOC_POLICY);
+  });
+});
+
+describe('formatHeading with a policy', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+  let unregister: () => void;
+
+  beforeEach(() => {
+    editor = createTestEditor({ namespace: 'heading-policy-format-test' });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+
+    unregister = registerHeadingPolicy(editor, DOC_POLICY);
+
+    editor.update(() => {
+      const paragraph = $createParagraphNode();
+      paragraph.append($createTextNode('Title'));
+      $getRoot().clear().append(paragraph);
+      paragraph.selectEnd();
+    }, { discrete: true });
+  });
+
+  afterEach(() => {
+    unregister?.();
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  it('rejects levels outside the editor policy', async () => {
+    expect(formatHeading(editor, 'h1')).toBe(false);
+    expect(formatHeading(editor, 'h4')).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    editor.getEditorState().read(() => {
+      const block = $getRoot().getFirstChild();
+      expect($isHeadingNode(block) && block.getTag()).toBe('h4');
+    });
+  });
+
+  it('prefers an explicit policy over the editor policy', () => {
+    expect(formatHeading(editor, 'h4', { policy: DEFAULT_HEADING_POLICY })).toBe(false);
+    expect(formatHeading(editor, 'h1', { policy: DEFAULT_HEADING_POLICY })).toBe(true);
+  });
+
+  it('still blocks headings inside list items', () => {
+    editor.update(() => {
+      const item = $createListItemNode();
+      item.append($createTextNode('Item'));
+      $getRoot().clear().append($createListNode('bullet').append(item));
+      item.selectEnd();
+    }, { discrete: true });
+
+    expect(formatHeading(editor, 'h2')).toBe(false);
+  });
+});
+
+describe('CustomHeadingNode with a policy', () => {
+  let editor: LexicalEditor;
+  let unregister: () => void;
+
+  afterEach(() => {
+    unregister?.();
+  });
+
+  const setup = (policy: HeadingPolicy) => {
+    editor = createTestEditor({ namespace: 'heading-policy-node-test', nodes: [CustomHeadingNode] });
+    unregister = registerHeadingPolicy(editor, policy);
+  };
+
+  it('clamps JSON imports to the editor policy', () => {
+    setup(DOC_POLICY);
+
+    editor.update(() => {
+      const node = CustomHeadingNode.importJSON(serializedHeading('h1'));
+      expect(node.getTag()).toBe('h2');
+    }, { discrete: true });
+  });
+
+  it('loads disallowed JSON headings as paragraphs in demote mode', () => {
+    setup(DEMOTE_POLICY);
+
+    const heading = { ...serializedHeading('h5'), children: [serializedText('Deep')] };
+    editor.setEditorState(editor.parseEditorState({
+      root: {
+        type: 'root',
+        format: '',
+        indent: 0,
+        version: 1,
+        direction: null,
+        children: [serializedHeading('h2'), heading]
+      }
+    } as never));
+    // Transforms do not run on load, nor on a later update that leaves the node alone
+    editor.update(() => {}, { discrete: true });
+
+    editor.getEditorState().read(() => {
+      const [first, second] = $getRoot().getChildren();
+      expect($isHeadingNode(first) && first.getTag()).toBe('h2');
+      expect($isParagraphNode(second)).toBe(true);
+      expect(second.getTextContent()).toBe('Deep');
+    });
+  });
+
+  it('converts pasted headings through the editor policy', () => {
+    setup(SPARSE_POLICY);
+    const domMap = CustomHeadingNode.importDOM();
+
+    const convert = (tag: HeadingTagType) => {
+      const element = document.createElement(tag);
+      const node = domMap?.[tag]?.(element)?.conversion(element)?.node;
+      return !Array.isArray(node) && $isHeadingNode(node) ? node.getTag() : null;
+    };
+
+    editor.update(() => {
+      expect(convert('h2')).toBe('h3');
+      expect(convert('h1')).toBe('h1');
+    }, { discrete: true });
+  });
+
+  it('loads saved documents through the policy', () => {
+    setup(DOC_POLICY);
+
+    const state = editor.parseEditorState({
+      root: {
+        type: 'root',
+        format: '',
+        indent: 0,
+        version: 1,
+        direction: null,
+        children: [serializedHeading('h1'), serializedHeading('h4')]
+      }
+    } as never);
+
+    state.read(() => {
+      const tags = $getRoot().getChildren().map(node => ($isHeadingNode(node) ? node.getTag() : null));
+      expect(tags).toEqual(['h2', 'h4']);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  LexicalEditor,
+  PASTE_COMMAND,
+  SerializedLexicalNode
+} from 'lexical';
+import { $createHeadingNode, $isHeadingNode } from '@lexical/rich-text';
+import { createHeadingPolicy, DEFAULT_HEADING_POLICY } from '../constants/heading-policy';
+import { registerHeadingPolicy } from '../plugins/HeadingPolicyPlugin';
+import { setHeadingPasteMode } from '../plugins/SmartPastePlugin';
+import {
+  computeHeadingShift,
+  remapHeadingElements,
+  remapMarkdownHeadings,
+  remapSerializedHeadings
+} from '../utils/heading-remap';
+import { createTestEditor, mountPlugins, createMockPasteEvent } from './test-helpers';
+
+const H1_H4 = createHeadingPolicy(['h1', 'h2', 'h3', 'h4']);
+
+describe('Heading Shift', () => {
+  it('moves the shallowest pasted level one below the context', () => {
+    expect(computeHeadingShift([2, 3], 2, H1_H4)).toBe(1);
+    expect(computeHeadingShift([3, 4], 1, H1_H4)).toBe(-1);
+  });
+
+  it('starts at the shallowest allowed level without a heading context', () => {
+    expect(computeHeadingShift([3, 4], 0, H1_H4)).toBe(-2);
+    expect(computeHeadingShift([1], 0, createHeadingPolicy(['h2', 'h3']))).toBe(1);
+  });
+
+  it('does nothing without pasted headings', () => {
+    expect(computeHeadingShift([], 2, H1_H4)).toBe(0);
+  });
+});
+
+describe('Heading Remapping', () => {
+  it('renames HTML heading elements, keeping content and attributes', () => {
+    const doc = new DOMParser().parseFromString(
+      '<h2 dir="rtl">Section <b>A</b></h2><p>Body</p><h3>Detail</h3>',
+      'text/html'
+    );
+
+    expect(remapHeadingElements(doc.body, 2, H1_H4)).toBe(1);
+    expect(doc.body.innerHTML).toBe('<h3 dir="rtl">Section <b>A</b></h3><p>Body</p><h4>Detail</h4>');
+  });
+
+  it('remaps serialized headings without touching the payload', () => {
+    const heading = { type: 'heading', tag: 'h1', version: 1, children: [] };
+    const nodes: SerializedLexicalNode[] = [heading, { type: 'paragraph', version: 1 }];
+
+    const remapped = remapSerializedHeadings(nodes, 1, H1_H4);
+    expect(remapped.map(node => (node as { tag?: string }).tag)).toEqual(['h2', undefined]);
+    expect(heading.tag).toBe('h1');
+  });
+
+  it('remaps Markdown headings outside code fences', () => {
+    const markdown = '# Title\n\n```\n# comment\n```\n## Sub';
+    expect(remapMarkdownHeadings(markdown, 2, H1_H4)).toBe('### Title\n\n```\n# comment\n```\n#### Sub');
+  });
+});
+
+describe('Relative Heading Paste', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+  let cleanup: () => void;
+
+  const setup = async (policy = H1_H4) => {
+    editor = createTestEditor({ namespace: 'heading-remap-test' });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+
+    const cleanupPlugins = await mountPlugins(editor, { smartPaste: true });
+    const unregisterPolicy = registerHeadingPolicy(editor, policy);
+    cleanup = () => {
+      unregisterPolicy();
+      cleanupPlugins();
+    };
+
+    // "## Existing" followed by an empty paragraph holding the caret
+    editor.update(() => {
+      const heading = $createHeadingNode('h2');
+      heading.append($createTextNode('Existing'));
+      const paragraph = $createParagraphNode();
+      $getRoot().clear().append(heading, paragraph);
+      paragraph.select();
+    }, { discrete: true });
+  };
+
+  afterEach(() => {
+    cleanup?.();
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  const paste = async (data: { html?: string; text?: string }) => {
+    expect(editor.dispatchCommand(PASTE_COMMAND, createMockPasteEvent(data))).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  };
+
+  const readHeadingTags = () => editor.getEditorState().read(() =>
+    $getRoot().getChildren().filter($isHeadingNode).map(node => node.getTag())
+  );
+
+  describe('with relative mode', () => {
+    beforeEach(async () => {
+      await setup();
+      setHeadingPasteMode(editor, 'relative');
+    });
+
+    it('nests a pasted h2 section under the existing h2', async () => {
+      await paste({ html: '<h2>Pasted</h2><p>Text</p><h3>Detail</h3>' });
+      expect(readHeadingTags()).toEqual(['h2', 'h3', 'h4']);
+    });
+
+    it('shifts Markdown sections the same way', async () => {
+      await paste({ text: '# Pasted\n\nSome **bold** text\n\n## Detail' });
+      expect(readHeadingTags()).toEqual(['h2', 'h3', 'h4']);
+    });
+  });
+
+  it('only clamps what still overflows the policy', async () => {
+    await setup(DEFAULT_HEADING_POLICY);
+    setHeadingPasteMode(editor, 'relative');
+
+    await paste({ html: '<h2>Pasted</h2><h3>Detail</h3><h4>Deeper</h4>' });
+    expect(readHeadingTags()).toEqual(['h2', 'h3', 'h3', 'h3']);
+  });
+
+  it('keeps pasted levels in the default clamp mode', async () => {
+    await setup();
+
+    await paste({ html: '<h2>Pasted</h2><p>Text</p><h3>Detail</h3>' });
+    expect(readHeadingTags()).toEqual(['h2', 'h2', 'h3']);
+  });
+});
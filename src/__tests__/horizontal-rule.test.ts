@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  $getSelection,
+  $isNodeSelection,
+  $isParagraphNode,
+  $isRangeSelection,
+  KEY_BACKSPACE_COMMAND,
+  LexicalEditor
+} from 'lexical';
+import { $generateHtmlFromNodes, $generateNodesFromDOM } from '@lexical/html';
+import { registerMarkdownShortcuts } from '@lexical/markdown';
+import { registerRichText } from '@lexical/rich-text';
+import {
+  $createHorizontalRuleNode,
+  $isHorizontalRuleNode
+} from '@lexical/react/LexicalHorizontalRuleNode';
+import { sanitizeHTML } from '../config/sanitization-config';
+import { MARKDOWN_ELEMENT_TRANSFORMERS } from '../config/markdown-config';
+import { insertHorizontalRule } from '../commands/block-commands';
+import { exportMarkdown, importMarkdown } from '../utils/markdown';
+import { createTestEditor } from './test-helpers';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Horizontal rule', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+
+  beforeEach(() => {
+    editor = createTestEditor({ namespace: 'horizontal-rule-test' });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+  });
+
+  afterEach(() => {
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  const readBlocks = () => editor.getEditorState().read(() =>
+    $getRoot().getChildren().map(node => ($isHorizontalRuleNode(node) ? 'hr' : node.getTextContent()))
+  );
+
+  const setDocument = () => {
+    editor.update(() => {
+      $getRoot().clear().append(
+        $createParagraphNode().append($createTextNode('Above')),
+        $createHorizontalRuleNode(),
+        $createParagraphNode().append($createTextNode('Below'))
+      );
+    }, { discrete: true });
+  };
+
+  it('keeps pasted dividers', () => {
+    const html = sanitizeHTML('<p>Above</p><hr><p>Below</p>');
+    expect(html).toBe('<p>Above</p><hr><p>Below</p>');
+
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    editor.update(() => {
+      $getRoot().clear().append(...$generateNodesFromDOM(editor, doc));
+    }, { discrete: true });
+
+    expect(readBlocks()).toEqual(['Above', 'hr', 'Below']);
+  });
+
+  it('survives a JSON round trip', () => {
+    setDocument();
+
+    const json = JSON.stringify(editor.getEditorState().toJSON());
+    expect(json).toContain('"type":"horizontalrule"');
+    editor.setEditorState(editor.parseEditorState(json));
+    expect(readBlocks()).toEqual(['Above', 'hr', 'Below']);
+  });
+
+  it('exports <hr> to HTML', () => {
+    setDocument();
+
+    const html = editor.getEditorState().read(() => $generateHtmlFromNodes(editor));
+    expect(html).toContain('<hr>');
+  });
+
+  it('imports thematic breaks from Markdown and exports them as ---', async () => {
+    importMarkdown(editor, 'Above\n\n***\n\nBelow');
+    await flush();
+
+    expect(readBlocks()).toEqual(['Above', 'hr', 'Below']);
+    expect(exportMarkdown(editor.getEditorState())).toBe('Above\n\n---\n\nBelow');
+  });
+
+  it('inserts a divider above the block on "--- "', async () => {
+    const unregister = registerMarkdownShortcuts(editor, MARKDOWN_ELEMENT_TRANSFORMERS);
+    editor.update(() => {
+      const text = $createTextNode('---');
+      $getRoot().clear().append($createParagraphNode().append(text));
+      text.select(3, 3);
+    }, { discrete: true });
+    editor.update(() => {
+      const selection = $getSelection();
+      if ($isRangeSelection(selection)) selection.insertText(' ');
+    }, { discrete: true });
+    await flush();
+
+    const caretInParagraph = editor.getEditorState().read(() => {
+      const selection = $getSelection();
+      return $isRangeSelection(selection) && $isParagraphNode(selection.anchor.getNode());
+    });
+    expect(readBlocks()).toEqual(['hr', '']);
+    expect(caretInParagraph).toBe(true);
+    unregister();
+  });
+
+  it('inserts at the caret from the block menu command', async () => {
+    editor.update(() => {
+      const text = $createTextNode('AboveBelow');
+      $getRoot().clear().append($createParagraphNode().append(text));
+      text.select(5, 5);
+    }, { discrete: true });
+
+    expect(insertHorizontalRule(editor)).toBe(true);
+    await flush();
+    expect(readBlocks()).toEqual(['Above', 'hr', 'Below']);
+
+    editor.setEditable(false);
+    expect(insertHorizontalRule(editor)).toBe(false);
+  });
+
+  it('is selected by Backspace from an empty block below it', async () => {
+    const unregister = registerRichText(editor);
+    editor.update(() => {
+      const paragraph = $createParagraphNode();
+      $getRoot().clear().append($createParagraphNode().append($createTextNode('Above')), $createHorizontalRuleNode(), paragraph);
+      paragraph.select();
+    }, { discrete: true });
+
+    editor.dispatchCommand(KEY_BACKSPACE_COMMAND, new KeyboardEvent('keydown', { key: 'Backspace' }));
+    await flush();
+
+    const isRuleSelected = editor.getEditorState().read(() => {
+      const selection = $getSelection();
+      return $isNodeSelection(selection) && $isHorizontalRuleNode(selection.getNodes()[0]);
+    });
+    expect(readBlocks()).toEqual(['Above', 'hr']);
+    expect(isRuleSelected).toBe(true);
+    unregister();
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { LexicalComposer } from '@lexical/react/LexicalComposer';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { ContentEditable } from '@lexical/react/LexicalContentEditable';
+import LexicalErrorBoundary from '@lexical/react/LexicalErrorBoundary';
+import { RichTextPlugin } from '@lexical/react/LexicalRichTextPlugin';
+import {
+  $createNodeSelection,
+  $createParagraphNode,
+  $getRoot,
+  $setSelection,
+  ElementNode,
+  LexicalEditor
+} from 'lexical';
+import { $createImageNode, $isImageNode, ImageNode } from '../nodes/ImageNode';
+
+function CaptureEditor({ onEditor }: { onEditor: (editor: LexicalEditor) => void }) {
+  const [editor] = useLexicalComposerContext();
+  onEditor(editor);
+  return null;
+}
+
+describe('Image details form', () => {
+  afterEach(cleanup);
+
+  it('keeps the image when Backspace or Delete is pressed in its fields', async () => {
+    let editor!: LexicalEditor;
+    render(
+      <LexicalComposer initialConfig={{ namespace: 'image-details-test', nodes: [ImageNode], onError: (error) => { throw error; } }}>
+        <RichTextPlugin
+          contentEditable={<ContentEditable />}
+          placeholder={null}
+          ErrorBoundary={LexicalErrorBoundary}
+        />
+        <CaptureEditor onEditor={(instance) => { editor = instance; }} />
+      </LexicalComposer>
+    );
+
+    await act(async () => {
+      editor.update(() => {
+        const image = $createImageNode({ src: 'https://example.com/a.png', altText: 'Chart' });
+        $getRoot().clear().append($createParagraphNode().append(image));
+        const selection = $createNodeSelection();
+        selection.add(image.getKey());
+        $setSelection(selection);
+      }, { discrete: true });
+    });
+
+    const altInput = await screen.findByLabelText('Alt text');
+    await act(async () => {
+      fireEvent.keyDown(altInput, { key: 'Backspace', code: 'Backspace' });
+      fireEvent.keyDown(screen.getByLabelText('Caption'), { key: 'Delete', code: 'Delete' });
+    });
+
+    const hasImage = () => editor.getEditorState().read(() =>
+      $getRoot().getFirstChildOrThrow<ElementNode>().getChildren().some($isImageNode)
+    );
+    expect(hasImage()).toBe(true);
+
+    // The same key on the editor itself still deletes the selected image
+    await act(async () => {
+      fireEvent.keyDown(editor.getRootElement()!, { key: 'Backspace', code: 'Backspace' });
+    });
+    expect(hasImage()).toBe(false);
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  $isElementNode,
+  ElementNode,
+  LexicalEditor,
+  LexicalNode
+} from 'lexical';
+import { $generateHtmlFromNodes, $generateNodesFromDOM } from '@lexical/html';
+import { LinkNode } from '@lexical/link';
+import { DRAG_DROP_PASTE } from '@lexical/rich-text';
+import { isAllowedImageSrc, sanitizeHTML } from '../config/sanitization-config';
+import { insertImage, insertImageFiles, setImageAttributes } from '../commands/image-commands';
+import { $createImageNode, $isImageNode, ImageNode } from '../nodes/ImageNode';
+import { handleSmartPaste } from '../plugins/SmartPastePlugin';
+import { registerImages } from '../plugins/ImagesPlugin';
+import {
+  createMemoryImageUploadAdapter,
+  ImageUploadAdapter,
+  MAX_IMAGE_WIDTH,
+  setImageUploadAdapter
+} from '../utils/images';
+import { exportMarkdown, importMarkdown } from '../utils/markdown';
+import { createTestEditor } from './test-helpers';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const png = (name = 'photo.png') => new File(['png'], name, { type: 'image/png' });
+
+describe('Image sources', () => {
+  it('allows web, blob and raster data URLs only', () => {
+    expect(isAllowedImageSrc('https://example.com/a.png')).toBe(true);
+    expect(isAllowedImageSrc('blob:https://example.com/1234')).toBe(true);
+    expect(isAllowedImageSrc('data:image/png;base64,iVBORw0KGgo=')).toBe(true);
+    expect(isAllowedImageSrc('data:image/svg+xml;base64,PHN2Zz4=')).toBe(false);
+    expect(isAllowedImageSrc('java\tscript:alert(1)')).toBe(false);
+    expect(isAllowedImageSrc('')).toBe(false);
+  });
+
+  it('keeps images with allowed sources on paste and drops the rest', () => {
+    expect(sanitizeHTML('<img src="https://example.com/a.png" alt="A" title="Cap" width="320" style="float:left">'))
+      .toBe('<img src="https://example.com/a.png" alt="A" title="Cap" width="320">');
+    expect(sanitizeHTML('<img src="data:image/svg+xml;base64,PHN2Zz4=" alt="x">')).toBe('<img alt="x">');
+    expect(sanitizeHTML('<img src="javascript:alert(1)" onerror="alert(2)">')).toBe('<img>');
+    expect(sanitizeHTML('<img src="https://example.com/a.png" width="50%">')).toBe('<img src="https://example.com/a.png">');
+    expect(sanitizeHTML('<p width="100" alt="x">Text</p>')).toBe('<p>Text</p>');
+  });
+});
+
+describe('Images', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+  let unregister: () => void;
+  let uploaded: File[];
+
+  const adapter: ImageUploadAdapter = {
+    upload: async (file) => {
+      if (file.name.startsWith('broken')) {
+        throw new Error('storage unavailable');
+      }
+      uploaded.push(file);
+      return { src: `https://assets.example.com/${file.name}` };
+    },
+  };
+
+  beforeEach(() => {
+    editor = createTestEditor({
+      namespace: 'images-test',
+      nodes: [LinkNode],
+      onError: (error) => { throw error; }
+    });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+    unregister = registerImages(editor);
+
+    uploaded = [];
+    setImageUploadAdapter(editor, adapter);
+    setParagraph('Text');
+  });
+
+  afterEach(() => {
+    unregister();
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  function setParagraph(text: string) {
+    editor.update(() => {
+      $getRoot().clear().append($createParagraphNode().append($createTextNode(text))).selectEnd();
+    }, { discrete: true });
+  }
+
+  const readImages = () => editor.getEditorState().read(() => {
+    const images: ImageNode[] = [];
+    const visit = (node: LexicalNode) => {
+      if ($isImageNode(node)) images.push(node);
+      if ($isElementNode(node)) node.getChildren().forEach(visit);
+    };
+    visit($getRoot());
+    return images.map(image => ({
+      src: image.getSrc(),
+      altText: image.getAltText(),
+      caption: image.getCaption(),
+      width: image.getWidth(),
+    }));
+  });
+
+  const readText = () => editor.getEditorState().read(() => $getRoot().getTextContent());
+
+  it('converts pasted <img> and takes a figure caption without duplicating it', () => {
+    const html = sanitizeHTML(
+      '<figure><img src="https://example.com/cat.png" alt="A cat" width="200"><figcaption>Sleeping</figcaption></figure>' +
+      '<p>Before<img src="javascript:alert(1)">after</p>'
+    );
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+
+    editor.update(() => {
+      $getRoot().clear().append(...$generateNodesFromDOM(editor, doc));
+    }, { discrete: true });
+
+    expect(readImages()).toEqual([{ src: 'https://example.com/cat.png', altText: 'A cat', caption: 'Sleeping', width: 200 }]);
+    expect(readText()).not.toContain('Sleeping');
+    expect(readText()).toContain('Beforeafter');
+  });
+
+  it('keeps attributes through JSON and rejects unsafe sources from it', () => {
+    editor.update(() => {
+      $getRoot().clear().append($createParagraphNode().append(
+        $createImageNode({ src: 'https://example.com/a.png', altText: 'A', caption: 'Cap', width: 240 }),
+        $createImageNode({ src: 'javascript:alert(1)', width: 1 })
+      ));
+    }, { discrete: true });
+
+    const json = JSON.stringify(editor.getEditorState().toJSON());
+    editor.setEditorState(editor.parseEditorState(json));
+
+    expect(readImages()).toEqual([
+      { src: 'https://example.com/a.png', altText: 'A', caption: 'Cap', width: 240 },
+      { src: '', altText: '', caption: '', width: null },
+    ]);
+  });
+
+  it('exports <img> with alt, caption as title and width', async () => {
+    expect(insertImage(editor, { src: 'https://example.com/a.png', altText: 'A', caption: 'Cap', width: 240 })).toBe(true);
+    await flush();
+
+    const html = editor.getEditorState().read(() => $generateHtmlFromNodes(editor, null));
+    expect(html).toContain('<img src="https://example.com/a.png" alt="A" title="Cap" width="240">');
+  });
+
+  it('round-trips Markdown images and leaves unsafe sources as text', async () => {
+    const markdown = 'See ![A \\[cat\\]](https://example.com/cat%20one.png "The \\"cat\\"") and [a link](https://example.com)';
+    importMarkdown(editor, markdown);
+    await flush();
+
+    expect(readImages()).toEqual([
+      { src: 'https://example.com/cat%20one.png', altText: 'A [cat]', caption: 'The "cat"', width: null },
+    ]);
+    expect(exportMarkdown(editor.getEditorState())).toBe(markdown);
+
+    importMarkdown(editor, '![x](javascript:alert(1))');
+    await flush();
+    expect(readImages()).toEqual([]);
+  });
+
+  it('rejects unsafe sources and read-only editors on insert', () => {
+    expect(insertImage(editor, { src: 'data:text/html,boom' })).toBe(false);
+    editor.setEditable(false);
+    expect(insertImage(editor, { src: 'https://example.com/a.png' })).toBe(false);
+    expect(readImages()).toEqual([]);
+  });
+
+  it('uploads image files through the adapter and skips failures and other files', async () => {
+    const text = new File(['x'], 'notes.txt', { type: 'text/plain' });
+
+    expect(await insertImageFiles(editor, [png('one.png'), text, png('broken.png'), png('two.png')])).toBe(true);
+    await flush();
+
+    expect(uploaded.map(file => file.name)).toEqual(['one.png', 'two.png']);
+    expect(readImages().map(image => image.src)).toEqual([
+      'https://assets.example.com/one.png',
+      'https://assets.example.com/two.png',
+    ]);
+    expect(await insertImageFiles(editor, [text])).toBe(false);
+  });
+
+  it('reports adapters that reject or throw instead of rejecting itself', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    setImageUploadAdapter(editor, {
+      upload: (file) => {
+        if (file.name === 'sync.png') throw new Error('adapter misconfigured');
+        return Promise.reject(new Error('quota exceeded'));
+      },
+    });
+
+    await expect(insertImageFiles(editor, [png('async.png'), png('sync.png')])).resolves.toBe(false);
+    await flush();
+
+    expect(readImages()).toEqual([]);
+    expect(warn.mock.calls.map(([message]) => message)).toEqual([
+      '[Images] Upload of "async.png" failed: Error: quota exceeded',
+      '[Images] Upload of "sync.png" failed: Error: adapter misconfigured',
+    ]);
+    warn.mockRestore();
+  });
+
+  it('inserts pasted image files when there is no HTML', async () => {
+    const event = {
+      clipboardData: {
+        getData: () => '',
+        files: [png('screenshot.png')],
+        types: ['Files'],
+      },
+      preventDefault: vi.fn(),
+    } as unknown as ClipboardEvent;
+
+    expect(handleSmartPaste(editor, event)).toBe(true);
+    expect(event.preventDefault).toHaveBeenCalled();
+    await flush();
+    await flush();
+
+    expect(readImages().map(image => image.src)).toEqual(['https://assets.example.com/screenshot.png']);
+    expect(readText()).toBe('Text');
+  });
+
+  it('inserts dropped image files and leaves other drops alone', async () => {
+    expect(editor.dispatchCommand(DRAG_DROP_PASTE, [png('dropped.png')])).toBe(true);
+    await flush();
+    await flush();
+    expect(readImages().map(image => image.src)).toEqual(['https://assets.example.com/dropped.png']);
+
+    expect(editor.dispatchCommand(DRAG_DROP_PASTE, [new File(['x'], 'a.pdf', { type: 'application/pdf' })])).toBe(false);
+  });
+
+  it('updates alt text, caption and width within bounds', async () => {
+    insertImage(editor, { src: 'https://example.com/a.png' });
+    await flush();
+    const key = editor.getEditorState().read(() =>
+      $getRoot().getFirstChildOrThrow<ElementNode>().getChildren().find($isImageNode)!.getKey()
+    );
+
+    expect(setImageAttributes(editor, key, { altText: ' Chart ', caption: 'Q3', width: 320 })).toBe(true);
+    expect(setImageAttributes(editor, key, { width: MAX_IMAGE_WIDTH + 1 })).toBe(false);
+    await flush();
+
+    expect(readImages()).toEqual([{ src: 'https://example.com/a.png', altText: 'Chart', caption: 'Q3', width: 320 }]);
+  });
+});
+
+describe('createMemoryImageUploadAdapter', () => {
+  it('stores files as object URLs', async () => {
+    // jsdom has no object URLs
+    const original = URL.createObjectURL;
+    URL.createObjectURL = vi.fn(() => 'blob:http://localhost/1');
+
+    try {
+      expect(await createMemoryImageUploadAdapter().upload(png())).toEqual({ src: 'blob:http://localhost/1' });
+      expect(URL.createObjectURL).toHaveBeenCalled();
+    } finally {
+      URL.createObjectURL = original;
+    }
+  });
+});
@@ -87,4 +87,57 @@ describe('JSON Round-trip Tests', () => {
       expect(heading.getTextContent()).toBe('Formatted heading');
     });
   });
-});
\ No newline at end of file
+
+  it('preserves heading slugs through JSON round-trip', async () => {
+    await editor.update(() => {
+      const root = $getRoot();
+      root.clear();
+
+      const heading = $createCustomHeadingNode('h2', 'getting-started');
+      heading.append($createTextNode('Getting started, revised'));
+      root.append(heading);
+    });
+
+    const serializedState = editor.getEditorState().toJSON();
+    expect(serializedState.root.children[0]).toMatchObject({ type: 'heading', slug: 'getting-started' });
+
+    const newEditor = createEditor({
+      namespace: 'roundtrip-slug-test',
+      nodes: [CustomHeadingNode],
+      onError: console.error
+    });
+
+    newEditor.setEditorState(newEditor.parseEditorState(JSON.stringify(serializedState)));
+
+    // The slug is loaded as saved, not recomputed from the edited text
+    newEditor.getEditorState().read(() => {
+      const heading = $getRoot().getFirstChild() as CustomHeadingNode;
+      expect(heading.getSlug()).toBe('getting-started');
+    });
+  });
+
+  it('loads documents saved before slugs existed without one', () => {
+    const newEditor = createEditor({
+      namespace: 'roundtrip-legacy-test',
+      nodes: [CustomHeadingNode],
+      onError: console.error
+    });
+
+    const legacyState = {
+      root: {
+        type: 'root', version: 1, format: '', indent: 0, direction: null,
+        children: [{
+          type: 'heading', tag: 'h2', version: 1, format: '', indent: 0, direction: null,
+          children: [{ type: 'text', text: 'Old heading', version: 1, format: 0, style: '', mode: 'normal', detail: 0 }]
+        }]
+      }
+    };
+
+    newEditor.setEditorState(newEditor.parseEditorState(JSON.stringify(legacyState)));
+
+    newEditor.getEditorState().read(() => {
+      const heading = $getRoot().getFirstChild() as CustomHeadingNode;
+      expect(heading.getSlug()).toBe('');
+    });
+  });
+});
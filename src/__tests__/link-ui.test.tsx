@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { act, cleanup, fireEvent, render, screen, within } from '@testing-library/react';
+import { LexicalComposer } from '@lexical/react/LexicalComposer';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { ContentEditable } from '@lexical/react/LexicalContentEditable';
+import LexicalErrorBoundary from '@lexical/react/LexicalErrorBoundary';
+import { LinkPlugin } from '@lexical/react/LexicalLinkPlugin';
+import { RichTextPlugin } from '@lexical/react/LexicalRichTextPlugin';
+import { $createLinkNode, $isLinkNode, LinkNode } from '@lexical/link';
+import { $createParagraphNode, $createTextNode, $getRoot, $isTextNode, ElementNode, LexicalEditor, NodeKey } from 'lexical';
+import { isAllowedUrl } from '../config/sanitization-config';
+import FloatingToolbar, { normalizeLinkInput } from '../plugins/FloatingToolbar';
+import LinkPreviewPopover from '../plugins/LinkPreviewPopover';
+
+function CaptureEditor({ onEditor }: { onEditor: (editor: LexicalEditor) => void }) {
+  const [editor] = useLexicalComposerContext();
+  onEditor(editor);
+  return null;
+}
+
+describe('normalizeLinkInput', () => {
+  it('trims input and adds a scheme to bare domains and emails', () => {
+    expect(normalizeLinkInput('  example.com/docs ')).toBe('https://example.com/docs');
+    expect(normalizeLinkInput('team@example.com')).toBe('mailto:team@example.com');
+    expect(normalizeLinkInput(' http://example.com ')).toBe('http://example.com');
+    expect(normalizeLinkInput('#intro')).toBe('#intro');
+    expect(normalizeLinkInput('   ')).toBe('');
+  });
+
+  it('leaves other schemes for isAllowedUrl to reject', () => {
+    expect(normalizeLinkInput('javascript:alert(1)')).toBe('javascript:alert(1)');
+    expect(isAllowedUrl(normalizeLinkInput('javascript:alert(1)'))).toBe(false);
+  });
+});
+
+describe('Link UI', () => {
+  let editor: LexicalEditor;
+
+  // jsdom does not lay out ranges; the toolbar only needs a rectangle to position
+  // against, also from timers that fire after a test ends
+  beforeAll(() => {
+    Range.prototype.getBoundingClientRect ??= () => new DOMRect(0, 0, 40, 16);
+  });
+
+  afterEach(cleanup);
+
+  function renderEditor() {
+    render(
+      <LexicalComposer initialConfig={{ namespace: 'link-ui-test', nodes: [LinkNode], onError: (error) => { throw error; } }}>
+        <RichTextPlugin
+          contentEditable={<ContentEditable />}
+          placeholder={null}
+          ErrorBoundary={LexicalErrorBoundary}
+        />
+        <LinkPlugin validateUrl={isAllowedUrl} />
+        <FloatingToolbar />
+        <LinkPreviewPopover />
+        <CaptureEditor onEditor={(instance) => { editor = instance; }} />
+      </LexicalComposer>
+    );
+  }
+
+  /**
+   * Replace the document with "Read the " followed by "docs", linked to url
+   * when given, and select "docs". Returns the link's key.
+   */
+  async function setDocument(url: string | null): Promise<NodeKey | null> {
+    let linkKey: NodeKey | null = null;
+    await act(async () => {
+      editor.update(() => {
+        const docs = $createTextNode('docs');
+        const paragraph = $createParagraphNode().append($createTextNode('Read the '));
+        if (url) {
+          const link = $createLinkNode(url).append(docs);
+          paragraph.append(link);
+          linkKey = link.getKey();
+        } else {
+          paragraph.append(docs);
+        }
+        $getRoot().clear().append(paragraph);
+        docs.select(0, 4);
+      }, { discrete: true });
+    });
+    return linkKey;
+  }
+
+  const readLinks = () => editor.getEditorState().read(() =>
+    $getRoot().getFirstChildOrThrow<ElementNode>().getChildren().filter($isLinkNode).map(link => [link.getURL(), link.getTextContent()])
+  );
+
+  async function submitUrl(url: string) {
+    await act(async () => {
+      const input = screen.getByLabelText('Link URL');
+      fireEvent.change(input, { target: { value: url } });
+      fireEvent.submit(input.closest('form')!);
+    });
+  }
+
+  it('rejects disallowed URLs and links the selection once the URL is allowed', async () => {
+    renderEditor();
+    await setDocument(null);
+
+    await act(async () => {
+      fireEvent.click(await screen.findByTitle('Add link'));
+    });
+    await submitUrl('javascript:alert(1)');
+
+    expect(screen.getByRole('alert').textContent).toBe('Only http, https and mailto links are allowed');
+    expect(screen.getByLabelText('Link URL').getAttribute('aria-invalid')).toBe('true');
+    expect(readLinks()).toEqual([]);
+
+    await submitUrl('  example.com/docs ');
+    expect(readLinks()).toEqual([['https://example.com/docs', 'docs']]);
+  });
+
+  it('edits the URL of an existing link and unlinks it', async () => {
+    renderEditor();
+    await setDocument('https://old.example.com');
+
+    await act(async () => {
+      fireEvent.click(await screen.findByTitle('Edit link'));
+    });
+    expect((screen.getByLabelText('Link URL') as HTMLInputElement).value).toBe('https://old.example.com');
+
+    await submitUrl('https://new.example.com');
+    expect(readLinks()).toEqual([['https://new.example.com', 'docs']]);
+
+    await act(async () => {
+      fireEvent.click(await screen.findByTitle('Edit link'));
+    });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Unlink'));
+    });
+    expect(readLinks()).toEqual([]);
+    expect(editor.getEditorState().read(() => $getRoot().getTextContent())).toBe('Read the docs');
+  });
+
+  it('removes a hovered link from the preview popover, keeping its text', async () => {
+    renderEditor();
+    const linkKey = await setDocument('https://example.com');
+
+    await act(async () => {
+      fireEvent.mouseOver(editor.getElementByKey(linkKey!)!);
+    });
+    const popover = screen.getByRole('dialog', { name: 'Link preview' });
+    expect(within(popover).getByText('https://example.com')).toBeTruthy();
+
+    await act(async () => {
+      fireEvent.click(within(popover).getByText('Remove'));
+    });
+
+    expect(readLinks()).toEqual([]);
+    expect(editor.getEditorState().read(() =>
+      $getRoot().getFirstChildOrThrow<ElementNode>().getChildren().every($isTextNode)
+    )).toBe(true);
+    expect(editor.getEditorState().read(() => $getRoot().getTextContent())).toBe('Read the docs');
+    expect(screen.queryByRole('dialog', { name: 'Link preview' })).toBeNull();
+  });
+});
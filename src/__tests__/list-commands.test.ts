@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  COMMAND_PRIORITY_EDITOR,
+  LexicalEditor
+} from 'lexical';
+import {
+  $createListItemNode,
+  $createListNode,
+  $isListItemNode,
+  $isListNode,
+  INSERT_CHECK_LIST_COMMAND,
+  INSERT_ORDERED_LIST_COMMAND,
+  INSERT_UNORDERED_LIST_COMMAND,
+  REMOVE_LIST_COMMAND,
+  insertList,
+  removeList
+} from '@lexical/list';
+import { $dfs, mergeRegister } from '@lexical/utils';
+import { formatList, setListStart } from '../commands/list-commands';
+import { registerListItemNormalization } from '../plugins/ListItemNormalizationPlugin';
+import { exportMarkdown, importMarkdown } from '../utils/markdown';
+import { createTestEditor } from './test-helpers';
+
+/**
+ * Headless stand-in for ListPlugin's command handlers.
+ */
+function registerListCommands(editor: LexicalEditor): () => void {
+  return mergeRegister(
+    editor.registerCommand(INSERT_UNORDERED_LIST_COMMAND, () => {
+      insertList(editor, 'bullet');
+      return true;
+    }, COMMAND_PRIORITY_EDITOR),
+    editor.registerCommand(INSERT_ORDERED_LIST_COMMAND, () => {
+      insertList(editor, 'number');
+      return true;
+    }, COMMAND_PRIORITY_EDITOR),
+    editor.registerCommand(INSERT_CHECK_LIST_COMMAND, () => {
+      insertList(editor, 'check');
+      return true;
+    }, COMMAND_PRIORITY_EDITOR),
+    editor.registerCommand(REMOVE_LIST_COMMAND, () => {
+      removeList(editor);
+      return true;
+    }, COMMAND_PRIORITY_EDITOR)
+  );
+}
+
+describe('List Commands', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+  let unregister: () => void;
+
+  beforeEach(() => {
+    editor = createTestEditor({ namespace: 'list-commands-test' });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+
+    unregister = registerListCommands(editor);
+
+    editor.update(() => {
+      const paragraph = $createParagraphNode();
+      paragraph.append($createTextNode('Item'));
+      $getRoot().clear().append(paragraph);
+      paragraph.selectEnd();
+    }, { discrete: true });
+  });
+
+  afterEach(() => {
+    unregister?.();
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  // insertList schedules its own update; let it commit before reading
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  const getListType = () => editor.getEditorState().read(() => {
+    const list = $getRoot().getFirstChild();
+    return $isListNode(list) ? list.getListType() : null;
+  });
+
+  it('creates a numbered list and toggles it off again', async () => {
+    expect(formatList(editor, 'number')).toBe(true);
+    await flush();
+    expect(getListType()).toBe('number');
+
+    formatList(editor, 'number');
+    await flush();
+    expect(getListType()).toBeNull();
+  });
+
+  it('switches between list types', async () => {
+    formatList(editor, 'bullet');
+    await flush();
+    formatList(editor, 'check');
+    await flush();
+    expect(getListType()).toBe('check');
+  });
+
+  it('sets a custom start value on numbered lists', async () => {
+    formatList(editor, 'number');
+    await flush();
+    editor.update(() => {
+      const list = $getRoot().getFirstChild();
+      if ($isListNode(list)) {
+        list.setFormat('center');
+        list.setIndent(1);
+      }
+    }, { discrete: true });
+    expect(setListStart(editor, 5)).toBe(true);
+    await flush();
+
+    editor.getEditorState().read(() => {
+      const list = $getRoot().getFirstChild();
+      expect($isListNode(list) && list.getStart()).toBe(5);
+      expect($isListNode(list) && [list.getFormatType(), list.getIndent()]).toEqual(['center', 1]);
+      expect($getRoot().getTextContent()).toBe('Item');
+    });
+  });
+
+  it('rejects a start value outside numbered lists', async () => {
+    formatList(editor, 'bullet');
+    await flush();
+    expect(setListStart(editor, 3)).toBe(false);
+    expect(setListStart(editor, -1)).toBe(false);
+  });
+
+  it('does nothing in a read-only editor', async () => {
+    editor.setEditable(false);
+    expect(formatList(editor, 'check')).toBe(false);
+    await flush();
+    expect(getListType()).toBeNull();
+  });
+});
+
+describe('Check List Normalization', () => {
+  let editor: LexicalEditor;
+  let unregister: () => void;
+
+  beforeEach(() => {
+    editor = createTestEditor({ namespace: 'check-list-normalization-test' });
+    unregister = registerListItemNormalization(editor);
+  });
+
+  afterEach(() => {
+    unregister?.();
+  });
+
+  const insertBulletItems = (...texts: string[]) => {
+    editor.update(() => {
+      const list = $createListNode('bullet');
+      texts.forEach(text => {
+        const item = $createListItemNode();
+        item.append($createTextNode(text));
+        list.append(item);
+      });
+      $getRoot().clear().append(list);
+    }, { discrete: true });
+  };
+
+  it('turns [x] and [ ] markers into check list state', () => {
+    insertBulletItems('[x] Done', '- [ ] Todo');
+
+    editor.getEditorState().read(() => {
+      const list = $getRoot().getFirstChild();
+      expect($isListNode(list) && list.getListType()).toBe('check');
+
+      const items = $dfs().map(({ node }) => node).filter($isListItemNode);
+      expect(items.map(item => item.getTextContent())).toEqual(['Done', 'Todo']);
+      expect(items.map(item => item.getChecked())).toEqual([true, false]);
+    });
+  });
+
+  it('moves only the marked items into a check list', () => {
+    insertBulletItems('Milk', '[x] Bread', 'Eggs');
+
+    editor.getEditorState().read(() => {
+      const lists = $getRoot().getChildren().filter($isListNode);
+      expect(lists.map(list => [list.getListType(), list.getTextContent()])).toEqual([
+        ['bullet', 'Milk'],
+        ['check', 'Bread'],
+        ['bullet', 'Eggs'],
+      ]);
+    });
+  });
+
+  it('leaves brackets that are not task markers alone', () => {
+    insertBulletItems('[link] text');
+
+    editor.getEditorState().read(() => {
+      const list = $getRoot().getFirstChild();
+      expect($isListNode(list) && list.getListType()).toBe('bullet');
+      expect($getRoot().getTextContent()).toBe('[link] text');
+    });
+  });
+});
+
+describe('Check List Markdown', () => {
+  it('round-trips task list items', async () => {
+    const editor = createTestEditor({ namespace: 'check-list-markdown-test' });
+
+    importMarkdown(editor, '- [x] Ship it\n- [ ] Write docs');
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    editor.getEditorState().read(() => {
+      const list = $getRoot().getFirstChild();
+      expect($isListNode(list) && list.getListType()).toBe('check');
+    });
+    expect(exportMarkdown(editor.getEditorState())).toBe('- [x] Ship it\n- [ ] Write docs');
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  $isParagraphNode,
+  INDENT_CONTENT_COMMAND,
+  KEY_TAB_COMMAND,
+  LexicalEditor,
+  ParagraphNode,
+  TextNode
+} from 'lexical';
+import { registerRichText } from '@lexical/rich-text';
+import {
+  $createListItemNode,
+  $createListNode,
+  $getListDepth,
+  $isListItemNode,
+  $isListNode
+} from '@lexical/list';
+import { $dfs, mergeRegister } from '@lexical/utils';
+import { MAX_INDENT_LEVEL, MAX_LIST_DEPTH } from '../constants/list-policy';
+import { $clampListDepth, registerListDepthPolicy } from '../plugins/ListDepthPolicyPlugin';
+import { createTestEditor } from './test-helpers';
+
+/**
+ * Build a list nested `depth` levels deep, one item per level.
+ * Returns the text node of the deepest item.
+ */
+function $appendNestedList(depth: number): TextNode {
+  let list = $createListNode('bullet');
+  $getRoot().append(list);
+
+  let text = $createTextNode('Level 1');
+  list.append($createListItemNode().append(text));
+
+  for (let level = 2; level <= depth; level++) {
+    const nested = $createListNode('bullet');
+    list.append($createListItemNode().append(nested));
+    text = $createTextNode(`Level ${level}`);
+    nested.append($createListItemNode().append(text));
+    list = nested;
+  }
+
+  return text;
+}
+
+function $getMaxListDepth(): number {
+  return Math.max(0, ...$dfs().map(({ node }) => node).filter($isListNode).map(list => $getListDepth(list)));
+}
+
+describe('List Depth Policy', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+  let unregister: () => void;
+
+  beforeEach(() => {
+    editor = createTestEditor({ namespace: 'list-depth-policy-test' });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+
+    unregister = mergeRegister(registerRichText(editor), registerListDepthPolicy(editor));
+  });
+
+  afterEach(() => {
+    unregister?.();
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  it('clamps over-deep lists to the maximum depth, keeping item order', () => {
+    editor.update(() => {
+      $getRoot().clear();
+      $appendNestedList(MAX_LIST_DEPTH + 2);
+    }, { discrete: true });
+
+    editor.getEditorState().read(() => {
+      expect($getMaxListDepth()).toBe(MAX_LIST_DEPTH);
+
+      const items = $dfs().map(({ node }) => node)
+        .filter($isListItemNode)
+        .filter(item => !$isListNode(item.getFirstChild()))
+        .map(item => item.getTextContent());
+      expect(items).toEqual(['Level 1', 'Level 2', 'Level 3', 'Level 4', 'Level 5']);
+    });
+  });
+
+  it('keeps the content of over-deep items that also hold a nested list', () => {
+    editor.update(() => {
+      $getRoot().clear();
+      const deepest = $appendNestedList(MAX_LIST_DEPTH).getParentOrThrow().getParentOrThrow();
+      const mixed = $createListItemNode().append(
+        $createTextNode('Mixed'),
+        $createListNode('bullet').append($createListItemNode().append($createTextNode('Child')))
+      );
+      const overDeep = $createListNode('bullet').append(mixed);
+      deepest.append($createListItemNode().append(overDeep));
+      // Clamp the outer list first; the transform may reach the inner one first
+      $clampListDepth(overDeep);
+    }, { discrete: true });
+
+    editor.getEditorState().read(() => {
+      expect($getMaxListDepth()).toBe(MAX_LIST_DEPTH);
+
+      const deepest = $dfs().map(({ node }) => node)
+        .filter($isListNode)
+        .find(list => $getListDepth(list) === MAX_LIST_DEPTH);
+      expect(deepest?.getChildren().map(item => item.getTextContent()))
+        .toEqual([`Level ${MAX_LIST_DEPTH}`, 'Mixed', 'Child']);
+    });
+  });
+
+  it('leaves lists within the limit untouched', () => {
+    editor.update(() => {
+      $getRoot().clear();
+      $appendNestedList(MAX_LIST_DEPTH);
+    }, { discrete: true });
+
+    editor.getEditorState().read(() => {
+      expect($getMaxListDepth()).toBe(MAX_LIST_DEPTH);
+    });
+  });
+
+  it('indents a list item with Tab', () => {
+    editor.update(() => {
+      $getRoot().clear();
+      const list = $createListNode('bullet');
+      list.append($createListItemNode().append($createTextNode('First')));
+      const second = $createListItemNode();
+      list.append(second.append($createTextNode('Second')));
+      $getRoot().append(list);
+      second.selectStart();
+    }, { discrete: true });
+
+    editor.update(() => {
+      editor.dispatchCommand(KEY_TAB_COMMAND, new KeyboardEvent('keydown', { key: 'Tab' }));
+    }, { discrete: true });
+
+    editor.getEditorState().read(() => {
+      expect($getMaxListDepth()).toBe(2);
+    });
+  });
+
+  it('indents from anywhere in a list item but leaves Tab alone outside lists', () => {
+    editor.update(() => {
+      $getRoot().clear();
+      const list = $createListNode('bullet');
+      list.append($createListItemNode().append($createTextNode('First')));
+      const second = $createTextNode('Second');
+      list.append($createListItemNode().append(second));
+      $getRoot().append(list, $createParagraphNode().append($createTextNode('Plain')));
+      second.select(3, 3);
+    }, { discrete: true });
+
+    editor.update(() => {
+      editor.dispatchCommand(KEY_TAB_COMMAND, new KeyboardEvent('keydown', { key: 'Tab' }));
+    }, { discrete: true });
+    editor.getEditorState().read(() => {
+      expect($getMaxListDepth()).toBe(2);
+    });
+
+    editor.update(() => {
+      $getRoot().getLastChildOrThrow<ParagraphNode>().getFirstChildOrThrow<TextNode>().select(2, 2);
+    }, { discrete: true });
+
+    let handled = true;
+    editor.update(() => {
+      handled = editor.dispatchCommand(KEY_TAB_COMMAND, new KeyboardEvent('keydown', { key: 'Tab' }));
+    }, { discrete: true });
+
+    expect(handled).toBe(false);
+    editor.getEditorState().read(() => {
+      expect($getRoot().getLastChildOrThrow().getTextContent()).toBe('Plain');
+    });
+  });
+
+  it('blocks indenting past the maximum depth', () => {
+    editor.update(() => {
+      $getRoot().clear();
+      const text = $appendNestedList(MAX_LIST_DEPTH);
+      text.select(0, 0);
+    }, { discrete: true });
+
+    let handled = false;
+    editor.update(() => {
+      handled = editor.dispatchCommand(INDENT_CONTENT_COMMAND, undefined);
+    }, { discrete: true });
+
+    expect(handled).toBe(true);
+    editor.getEditorState().read(() => {
+      expect($getMaxListDepth()).toBe(MAX_LIST_DEPTH);
+    });
+  });
+
+  it('outdents with Shift+Tab', () => {
+    editor.update(() => {
+      $getRoot().clear();
+      const text = $appendNestedList(2);
+      text.select(0, 0);
+    }, { discrete: true });
+
+    editor.update(() => {
+      editor.dispatchCommand(KEY_TAB_COMMAND, new KeyboardEvent('keydown', { key: 'Tab', shiftKey: true }));
+    }, { discrete: true });
+
+    editor.getEditorState().read(() => {
+      expect($getMaxListDepth()).toBe(1);
+    });
+  });
+
+  it('caps paragraph indentation at the same level', () => {
+    editor.update(() => {
+      $getRoot().clear();
+      const paragraph = $createParagraphNode();
+      paragraph.append($createTextNode('Indented'));
+      $getRoot().append(paragraph);
+      paragraph.selectStart();
+    }, { discrete: true });
+
+    for (let i = 0; i < MAX_INDENT_LEVEL + 2; i++) {
+      editor.update(() => {
+        editor.dispatchCommand(INDENT_CONTENT_COMMAND, undefined);
+      }, { discrete: true });
+    }
+
+    editor.getEditorState().read(() => {
+      const paragraph = $getRoot().getFirstChild();
+      expect($isParagraphNode(paragraph) && paragraph.getIndent()).toBe(MAX_INDENT_LEVEL);
+    });
+  });
+});
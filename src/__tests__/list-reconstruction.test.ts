@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { $createTextNode, $getRoot, LexicalEditor, PASTE_COMMAND } from 'lexical';
+import { $createCodeNode, $isCodeNode } from '@lexical/code';
+import { $isListItemNode, $isListNode, ListNode } from '@lexical/list';
+import { isPlainTextList, $generateListNodesFromPlainText } from '../utils/list-reconstruction';
+import { createTestEditor, mountPlugins, createMockPasteEvent, prepareEditorForPaste, registerDefaultPaste } from './test-helpers';
+
+/**
+ * Describe a list as nested arrays of item text, e.g. ['a', ['b']].
+ */
+function describeList(list: ListNode): unknown[] {
+  return list.getChildren().map(child => {
+    const nested = $isListItemNode(child) ? child.getFirstChild() : null;
+    return $isListNode(nested) ? describeList(nested) : child.getTextContent();
+  });
+}
+
+describe('Plaintext List Detection', () => {
+  it('accepts glyph, hyphen and numbered lines', () => {
+    expect(isPlainTextList('• one\n• two')).toBe(true);
+    expect(isPlainTextList('1) first\n2) second')).toBe(true);
+    expect(isPlainTextList('- foo\n    ◦ bar')).toBe(true);
+  });
+
+  it('leaves prose with stray hyphens alone', () => {
+    expect(isPlainTextList('We met - briefly - on Monday.\nThen left.')).toBe(false);
+    expect(isPlainTextList('- only one line')).toBe(false);
+    expect(isPlainTextList('- one\nA sentence in between.\n- two')).toBe(false);
+  });
+});
+
+describe('Plaintext List Reconstruction', () => {
+  let editor: LexicalEditor;
+
+  beforeEach(() => {
+    editor = createTestEditor({ namespace: 'list-reconstruction-test' });
+  });
+
+  it('nests items by indentation and glyph tier', () => {
+    editor.update(() => {
+      const [list] = $generateListNodesFromPlainText('- foo\n    ◦ bar\n    ◦ baz\n- qux');
+      expect(list.getListType()).toBe('bullet');
+      expect(describeList(list)).toEqual(['foo', ['bar', 'baz'], 'qux']);
+    }, { discrete: true });
+  });
+
+  it('keeps the start number of ordered lists', () => {
+    editor.update(() => {
+      const [list] = $generateListNodesFromPlainText('3) three\n4) four');
+      expect(list.getListType()).toBe('number');
+      expect(list.getStart()).toBe(3);
+      expect(describeList(list)).toEqual(['three', 'four']);
+    }, { discrete: true });
+  });
+
+  it('starts a new list when the list type changes', () => {
+    editor.update(() => {
+      const lists = $generateListNodesFromPlainText('• a\n• b\n1. one\n2. two');
+      expect(lists.map(list => list.getListType())).toEqual(['bullet', 'number']);
+    }, { discrete: true });
+  });
+
+  it('clamps depth jumps to one level', () => {
+    editor.update(() => {
+      const [list] = $generateListNodesFromPlainText('• top\n            ▪ deep');
+      expect(describeList(list)).toEqual(['top', ['deep']]);
+    }, { discrete: true });
+  });
+});
+
+describe('Plaintext List Paste', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+  let cleanupPlugins: () => void;
+
+  beforeEach(async () => {
+    editor = createTestEditor({ namespace: 'list-paste-test' });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+
+    cleanupPlugins = await mountPlugins(editor, { smartPaste: true });
+    await prepareEditorForPaste(editor);
+  });
+
+  afterEach(() => {
+    cleanupPlugins?.();
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  it('pastes glyph lists as nested list nodes', async () => {
+    const handled = editor.dispatchCommand(
+      PASTE_COMMAND,
+      createMockPasteEvent({ text: '• Fruit\n    ◦ Apple\n• Bread' })
+    );
+    expect(handled).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    editor.getEditorState().read(() => {
+      const list = $getRoot().getChildren().find($isListNode);
+      expect(list && describeList(list)).toEqual(['Fruit', ['Apple'], 'Bread']);
+    });
+  });
+
+  it('pastes list lines into a code block unchanged', async () => {
+    const unregisterDefault = registerDefaultPaste(editor);
+
+    for (const text of ['- a\n- b\n- c', '1. one\n2. two']) {
+      editor.update(() => {
+        const code = $createCodeNode().append($createTextNode('x = 1'));
+        $getRoot().clear().append(code);
+        code.selectEnd();
+      }, { discrete: true });
+
+      editor.dispatchCommand(PASTE_COMMAND, createMockPasteEvent({ text }));
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      editor.getEditorState().read(() => {
+        const children = $getRoot().getChildren();
+        expect(children).toHaveLength(1);
+        expect($isCodeNode(children[0])).toBe(true);
+        expect(children[0].getTextContent()).toBe(`x = 1${text}`);
+      });
+    }
+    unregisterDefault();
+  });
+
+  it('defers prose to the default paste handler', () => {
+    const handled = editor.dispatchCommand(
+      PASTE_COMMAND,
+      createMockPasteEvent({ text: 'Costs went up - a lot.\nWe should - maybe - revisit.' })
+    );
+    expect(handled).toBe(false);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { $createTextNode, $getRoot, LexicalEditor, PASTE_COMMAND, UNDO_COMMAND } from 'lexical';
+import { $isHeadingNode } from '@lexical/rich-text';
+import { $isListNode } from '@lexical/list';
+import { $createCodeNode, $isCodeNode } from '@lexical/code';
+import { LinkNode, AutoLinkNode, $isLinkNode } from '@lexical/link';
+import { $dfs } from '@lexical/utils';
+import { createEmptyHistoryState, registerHistory } from '@lexical/history';
+import { requestPlainTextPaste } from '../plugins/SmartPastePlugin';
+import {
+  looksLikeMarkdown,
+  scoreMarkdownConfidence,
+  MARKDOWN_CONFIDENCE_THRESHOLD
+} from '../utils/markdown-detection';
+import { createTestEditor, mountPlugins, createMockPasteEvent, prepareEditorForPaste, registerDefaultPaste } from './test-helpers';
+
+const README = [
+  '# Project',
+  '',
+  'Install with `npm install` and read [the docs](https://example.com).',
+  '',
+  '## Usage',
+  '',
+  '- Build',
+  '- Test',
+  '',
+  '```javascript',
+  'runTests()',
+  '```',
+].join('\n');
+
+describe('Markdown Detection Heuristics', () => {
+  it('scores README-style text above the threshold', () => {
+    expect(scoreMarkdownConfidence(README)).toBeGreaterThanOrEqual(MARKDOWN_CONFIDENCE_THRESHOLD);
+    expect(looksLikeMarkdown(README)).toBe(true);
+  });
+
+  it('treats prose with a stray hyphen as plain text', () => {
+    const prose = [
+      'We met on Tuesday to review the plan.',
+      'Everyone agreed - mostly - that the timeline is fine.',
+      'Next steps will follow by email.',
+    ].join('\n');
+    expect(looksLikeMarkdown(prose)).toBe(false);
+  });
+
+  it('ignores a single weak line but accepts a single strong one', () => {
+    expect(looksLikeMarkdown('- milk')).toBe(false);
+    expect(looksLikeMarkdown('## Heading')).toBe(true);
+  });
+
+  it('returns zero for empty input', () => {
+    expect(scoreMarkdownConfidence('')).toBe(0);
+    expect(scoreMarkdownConfidence('   \n  ')).toBe(0);
+  });
+});
+
+describe('Markdown Paste', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+  let cleanupPlugins: () => void;
+
+  beforeEach(async () => {
+    editor = createTestEditor({
+      namespace: 'markdown-paste-test',
+      nodes: [LinkNode, AutoLinkNode]
+    });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+
+    cleanupPlugins = await mountPlugins(editor, { smartPaste: true });
+    await prepareEditorForPaste(editor);
+  });
+
+  afterEach(() => {
+    cleanupPlugins?.();
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  it('converts plaintext Markdown into rich nodes', async () => {
+    const handled = editor.dispatchCommand(PASTE_COMMAND, createMockPasteEvent({ text: README }));
+    expect(handled).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    editor.getEditorState().read(() => {
+      const children = $getRoot().getChildren();
+      const headings = children.filter($isHeadingNode).map(heading => heading.getTag());
+      expect(headings).toEqual(['h1', 'h2']);
+      expect(children.some($isListNode)).toBe(true);
+      expect(children.find($isCodeNode)?.getLanguage()).toBe('javascript');
+
+      const link = $dfs().map(({ node }) => node).find($isLinkNode);
+      expect(link?.getURL()).toBe('https://example.com');
+      expect($getRoot().getTextContent()).not.toContain('Type here...');
+    });
+  });
+
+  it('clamps h4-h6 from pasted Markdown to h3', async () => {
+    editor.dispatchCommand(PASTE_COMMAND, createMockPasteEvent({ text: '#### Deep\n\n###### Deeper' }));
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    editor.getEditorState().read(() => {
+      const tags = $getRoot().getChildren().filter($isHeadingNode).map(heading => heading.getTag());
+      expect(tags).toEqual(['h3', 'h3']);
+    });
+  });
+
+  it('defers plain prose to the default paste handler', () => {
+    const handled = editor.dispatchCommand(
+      PASTE_COMMAND,
+      createMockPasteEvent({ text: 'Just a sentence - nothing more.' })
+    );
+    expect(handled).toBe(false);
+  });
+
+  it('pastes Markdown-looking text into a code block unchanged', async () => {
+    const unregisterDefault = registerDefaultPaste(editor);
+    editor.update(() => {
+      const code = $createCodeNode('python').append($createTextNode('x = 1'));
+      $getRoot().clear().append(code);
+      code.selectEnd();
+    }, { discrete: true });
+
+    editor.dispatchCommand(PASTE_COMMAND, createMockPasteEvent({ text: '# install deps\npip install requests' }));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    unregisterDefault();
+
+    editor.getEditorState().read(() => {
+      const children = $getRoot().getChildren();
+      expect(children).toHaveLength(1);
+      expect($isCodeNode(children[0])).toBe(true);
+      expect(children[0].getTextContent()).toBe('x = 1# install deps\npip install requests');
+    });
+  });
+
+  it('inserts the raw text when plain text paste was requested', async () => {
+    requestPlainTextPaste(editor);
+    const handled = editor.dispatchCommand(PASTE_COMMAND, createMockPasteEvent({ text: README }));
+    expect(handled).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    editor.getEditorState().read(() => {
+      expect($getRoot().getChildren().some($isHeadingNode)).toBe(false);
+      expect($getRoot().getTextContent()).toContain('# Project');
+    });
+  });
+
+  it('reverts the whole Markdown paste with a single undo', async () => {
+    const unregisterHistory = registerHistory(editor, createEmptyHistoryState(), 0);
+    await prepareEditorForPaste(editor);
+
+    editor.dispatchCommand(PASTE_COMMAND, createMockPasteEvent({ text: README }));
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    editor.dispatchCommand(UNDO_COMMAND, undefined);
+
+    editor.getEditorState().read(() => {
+      expect($getRoot().getTextContent()).toBe('Type here...');
+    });
+    unregisterHistory();
+  });
+});
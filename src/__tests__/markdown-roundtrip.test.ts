@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { $getRoot, LexicalEditor } from 'lexical';
+import { $isHeadingNode, $isQuoteNode } from '@lexical/rich-text';
+import { $isListNode, $isListItemNode } from '@lexical/list';
+import { $isCodeNode } from '@lexical/code';
+import { LinkNode, AutoLinkNode, $isLinkNode } from '@lexical/link';
+import { $dfs } from '@lexical/utils';
+import { exportMarkdown, importMarkdown } from '../utils/markdown';
+import { createTestEditor } from './test-helpers';
+
+const SAMPLE_DOCUMENT = [
+  '# Title',
+  '',
+  'Intro with **bold**, *italic* and `inline code`.',
+  '',
+  '## Section',
+  '',
+  '> Quoted text',
+  '',
+  '- First',
+  '- Second',
+  '    - Nested',
+  '        - Deeper',
+  '- Third',
+  '',
+  '1. One',
+  '2. Two',
+  '',
+  '```ts',
+  'const answer = 42;',
+  '```',
+  '',
+  'See [the docs](https://example.com) for more.',
+].join('\n');
+
+describe('Markdown Round-trip Tests', () => {
+  let editor: LexicalEditor;
+
+  beforeEach(() => {
+    editor = createTestEditor({
+      namespace: 'markdown-roundtrip-test',
+      nodes: [LinkNode, AutoLinkNode]
+    });
+  });
+
+  it('keeps md -> editor -> md stable', async () => {
+    importMarkdown(editor, SAMPLE_DOCUMENT);
+    await Promise.resolve();
+
+    const exported = exportMarkdown(editor.getEditorState());
+    expect(exported).toBe(SAMPLE_DOCUMENT);
+
+    // Second pass must be a fixed point
+    importMarkdown(editor, exported);
+    await Promise.resolve();
+    expect(exportMarkdown(editor.getEditorState())).toBe(exported);
+  });
+
+  it('imports every supported block type', async () => {
+    importMarkdown(editor, SAMPLE_DOCUMENT);
+    await Promise.resolve();
+
+    editor.getEditorState().read(() => {
+      const children = $getRoot().getChildren();
+
+      expect($isHeadingNode(children[0])).toBe(true);
+      expect(children.some($isQuoteNode)).toBe(true);
+
+      const code = children.find($isCodeNode);
+      expect(code?.getLanguage()).toBe('ts');
+      expect(code?.getTextContent()).toBe('const answer = 42;');
+
+      const lists = children.filter($isListNode);
+      expect(lists.map(list => list.getListType())).toEqual(['bullet', 'number']);
+
+      const nestedItems = $dfs(lists[0])
+        .map(({ node }) => node)
+        .filter($isListItemNode)
+        .filter(item => !$isListNode(item.getFirstChild()) && item.getTextContent() === 'Deeper');
+      expect(nestedItems).toHaveLength(1);
+      expect(nestedItems[0].getIndent()).toBe(2);
+
+      const link = $dfs().map(({ node }) => node).find($isLinkNode);
+      expect(link?.getURL()).toBe('https://example.com');
+    });
+  });
+
+  it('routes imported headings through the H1-H3 policy', async () => {
+    importMarkdown(editor, '#### Deep\n\n###### Deeper\n\n## Kept');
+    await Promise.resolve();
+
+    editor.getEditorState().read(() => {
+      const tags = $getRoot().getChildren()
+        .filter($isHeadingNode)
+        .map(heading => heading.getTag());
+      expect(tags).toEqual(['h3', 'h3', 'h2']);
+    });
+
+    expect(exportMarkdown(editor.getEditorState())).toBe('### Deep\n\n### Deeper\n\n## Kept');
+  });
+
+  it('drops links that fail the URL scheme allowlist', async () => {
+    importMarkdown(editor, 'Click [here](javascript:alert(1)) or [there](https://example.com)');
+    await Promise.resolve();
+
+    editor.getEditorState().read(() => {
+      const urls = $dfs().map(({ node }) => node).filter($isLinkNode).map(link => link.getURL());
+      expect(urls).toEqual(['https://example.com']);
+    });
+  });
+
+  it('does not import into a read-only editor', () => {
+    editor.setEditable(false);
+    expect(importMarkdown(editor, '# Title')).toBe(false);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $createRangeSelection,
+  $getRoot,
+  $getSelection,
+  $isRangeSelection,
+  $setSelection,
+  LexicalEditor,
+  UNDO_COMMAND,
+  ElementNode,
+} from 'lexical';
+import { $isHeadingNode, $isQuoteNode } from '@lexical/rich-text';
+import { $createListItemNode, $createListNode, $isListNode } from '@lexical/list';
+import { $isCodeNode } from '@lexical/code';
+import { registerMarkdownShortcuts } from '@lexical/markdown';
+import { createEmptyHistoryState, registerHistory } from '@lexical/history';
+import { MARKDOWN_ELEMENT_TRANSFORMERS } from '../config/markdown-config';
+import { createTestEditor } from './test-helpers';
+
+/**
+ * Seed a block with text and place the caret at its end, then type one
+ * more character so the shortcut listener sees a single-keystroke change.
+ * createBlock returns the top-level block and the element that holds the text.
+ */
+async function typeAtLineStart(
+  editor: LexicalEditor,
+  createBlock: () => [ElementNode, ElementNode],
+  prefix: string,
+  lastChar = ' '
+): Promise<void> {
+  editor.update(() => {
+    const root = $getRoot();
+    root.clear();
+    const [block, container] = createBlock();
+    const text = $createTextNode(prefix);
+    container.append(text);
+    root.append(block);
+
+    const selection = $createRangeSelection();
+    selection.anchor.set(text.getKey(), prefix.length, 'text');
+    selection.focus.set(text.getKey(), prefix.length, 'text');
+    $setSelection(selection);
+  }, { discrete: true });
+
+  editor.update(() => {
+    const selection = $getSelection();
+    if ($isRangeSelection(selection)) {
+      selection.insertText(lastChar);
+    }
+  }, { discrete: true });
+
+  // The shortcut conversion runs in a follow-up update scheduled by the listener
+  await new Promise(resolve => setTimeout(resolve, 0));
+}
+
+function paragraph(): [ElementNode, ElementNode] {
+  const node = $createParagraphNode();
+  return [node, node];
+}
+
+describe('Markdown Shortcuts', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+  let cleanup: () => void;
+
+  beforeEach(() => {
+    editor = createTestEditor({ namespace: 'markdown-shortcuts-test' });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+
+    const unregisterShortcuts = registerMarkdownShortcuts(editor, MARKDOWN_ELEMENT_TRANSFORMERS);
+    const unregisterHistory = registerHistory(editor, createEmptyHistoryState(), 0);
+    cleanup = () => {
+      unregisterShortcuts();
+      unregisterHistory();
+    };
+  });
+
+  afterEach(() => {
+    cleanup();
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  it.each([
+    ['#', 'h1'],
+    ['##', 'h2'],
+    ['###', 'h3'],
+  ])('converts "%s " into %s', async (prefix, tag) => {
+    await typeAtLineStart(editor, paragraph, prefix);
+
+    editor.getEditorState().read(() => {
+      const block = $getRoot().getFirstChild();
+      expect($isHeadingNode(block)).toBe(true);
+      expect($isHeadingNode(block) && block.getTag()).toBe(tag);
+      expect(block?.getTextContent()).toBe('');
+    });
+  });
+
+  it.each(['####', '#####', '######'])('caps "%s " at h3', async (prefix) => {
+    await typeAtLineStart(editor, paragraph, prefix);
+
+    editor.getEditorState().read(() => {
+      const block = $getRoot().getFirstChild();
+      expect($isHeadingNode(block) && block.getTag()).toBe('h3');
+    });
+  });
+
+  it('converts list, quote and code block prefixes', async () => {
+    await typeAtLineStart(editor, paragraph, '-');
+    editor.getEditorState().read(() => {
+      const block = $getRoot().getFirstChild();
+      expect($isListNode(block) && block.getListType()).toBe('bullet');
+    });
+
+    await typeAtLineStart(editor, paragraph, '1.');
+    editor.getEditorState().read(() => {
+      const block = $getRoot().getFirstChild();
+      expect($isListNode(block) && block.getListType()).toBe('number');
+    });
+
+    await typeAtLineStart(editor, paragraph, '>');
+    editor.getEditorState().read(() => {
+      expect($isQuoteNode($getRoot().getFirstChild())).toBe(true);
+    });
+
+    await typeAtLineStart(editor, paragraph, '```ts');
+    editor.getEditorState().read(() => {
+      const block = $getRoot().getFirstChild();
+      expect($isCodeNode(block)).toBe(true);
+      expect($isCodeNode(block) && block.getLanguage()).toBe('ts');
+    });
+  });
+
+  it('refuses heading conversion inside list items', async () => {
+    await typeAtLineStart(editor, () => {
+      const list = $createListNode('bullet');
+      const item = $createListItemNode();
+      list.append(item);
+      return [list, item];
+    }, '##');
+
+    editor.getEditorState().read(() => {
+      const block = $getRoot().getFirstChild();
+      expect($isListNode(block)).toBe(true);
+      expect(block?.getTextContent()).toBe('## ');
+    });
+  });
+
+  it('reverts a conversion with a single undo', async () => {
+    await typeAtLineStart(editor, paragraph, '##');
+
+    editor.getEditorState().read(() => {
+      expect($isHeadingNode($getRoot().getFirstChild())).toBe(true);
+    });
+
+    editor.dispatchCommand(UNDO_COMMAND, undefined);
+
+    editor.getEditorState().read(() => {
+      const block = $getRoot().getFirstChild();
+      expect(block?.getType()).toBe('paragraph');
+      expect(block?.getTextContent()).toBe('## ');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  LexicalEditor,
+  NodeKey
+} from 'lexical';
+import { $createHeadingNode, $isHeadingNode } from '@lexical/rich-text';
+import { moveSection } from '../commands/outline-commands';
+import { $getCaretHeading, $getOutline, $getSectionNodes } from '../utils/outline';
+import { HeadingTagType } from '../types/editor-types';
+import { createTestEditor } from './test-helpers';
+
+/**
+ * Build a document from [tag, text] pairs; 'p' makes a paragraph.
+ * Returns the node keys in order.
+ */
+function setDocument(editor: LexicalEditor, blocks: [HeadingTagType | 'p', string][]): NodeKey[] {
+  const keys: NodeKey[] = [];
+  editor.update(() => {
+    const root = $getRoot().clear();
+    blocks.forEach(([tag, text]) => {
+      const block = tag === 'p' ? $createParagraphNode() : $createHeadingNode(tag);
+      block.append($createTextNode(text));
+      root.append(block);
+      keys.push(block.getKey());
+    });
+  }, { discrete: true });
+  return keys;
+}
+
+const readTexts = (editor: LexicalEditor) => editor.getEditorState().read(() =>
+  $getRoot().getChildren().map(node => node.getTextContent())
+);
+
+describe('Document Outline', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+
+  beforeEach(() => {
+    editor = createTestEditor({ namespace: 'outline-test' });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+  });
+
+  afterEach(() => {
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  it('lists headings in document order', () => {
+    setDocument(editor, [['h1', 'Title'], ['p', 'Intro'], ['h2', 'Setup'], ['h3', 'Install']]);
+
+    editor.getEditorState().read(() => {
+      expect($getOutline().map(item => [item.tag, item.level, item.text])).toEqual([
+        ['h1', 1, 'Title'],
+        ['h2', 2, 'Setup'],
+        ['h3', 3, 'Install']
+      ]);
+    });
+  });
+
+  it('finds the heading of the section holding the caret', () => {
+    const keys = setDocument(editor, [['p', 'Preface'], ['h2', 'Setup'], ['p', 'Body']]);
+
+    editor.update(() => {
+      $getRoot().getLastChild()?.selectEnd();
+    }, { discrete: true });
+    editor.getEditorState().read(() => {
+      expect($getCaretHeading()?.getKey()).toBe(keys[1]);
+    });
+
+    editor.update(() => {
+      $getRoot().getFirstChild()?.selectEnd();
+    }, { discrete: true });
+    editor.getEditorState().read(() => {
+      expect($getCaretHeading()).toBeNull();
+    });
+  });
+
+  it('ends a section at the next heading of the same or higher level', () => {
+    setDocument(editor, [
+      ['h2', 'A'], ['p', 'a'], ['h3', 'A.1'], ['p', 'a1'], ['h2', 'B'], ['p', 'b']
+    ]);
+
+    editor.getEditorState().read(() => {
+      const [first] = $getRoot().getChildren().filter($isHeadingNode);
+      expect($getSectionNodes(first).map(node => node.getTextContent())).toEqual(['A', 'a', 'A.1', 'a1']);
+    });
+  });
+
+  describe('moveSection', () => {
+    let keys: NodeKey[];
+
+    beforeEach(() => {
+      keys = setDocument(editor, [
+        ['h2', 'A'], ['p', 'a'], ['h3', 'A.1'], ['h2', 'B'], ['p', 'b'], ['h2', 'C']
+      ]);
+    });
+
+    it('moves a section with its subsections before another heading', async () => {
+      expect(moveSection(editor, keys[3], keys[0], 'before')).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(readTexts(editor)).toEqual(['B', 'b', 'A', 'a', 'A.1', 'C']);
+    });
+
+    it('drops after the target heading content, before the next heading', async () => {
+      expect(moveSection(editor, keys[5], keys[0], 'after')).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(readTexts(editor)).toEqual(['A', 'a', 'C', 'A.1', 'B', 'b']);
+    });
+
+    it('moves a section to the end after the last heading', async () => {
+      expect(moveSection(editor, keys[0], keys[5], 'after')).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(readTexts(editor)).toEqual(['B', 'b', 'C', 'A', 'a', 'A.1']);
+    });
+
+    it('refuses to move a section into itself', () => {
+      expect(moveSection(editor, keys[0], keys[2], 'before')).toBe(false);
+      expect(moveSection(editor, keys[0], keys[0], 'after')).toBe(false);
+      expect(readTexts(editor)).toEqual(['A', 'a', 'A.1', 'B', 'b', 'C']);
+    });
+
+    it('does nothing in a read-only editor', () => {
+      editor.setEditable(false);
+      expect(moveSection(editor, keys[3], keys[0], 'before')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  $isTextNode,
+  KEY_MODIFIER_COMMAND,
+  LexicalEditor,
+  PASTE_COMMAND
+} from 'lexical';
+import { $createListItemNode, $createListNode, $isListItemNode } from '@lexical/list';
+import { $isHeadingNode } from '@lexical/rich-text';
+import { $dfs } from '@lexical/utils';
+import { PASTE_AS_PLAIN_TEXT_COMMAND } from '../commands/paste-commands';
+import { registerPlainTextPaste } from '../plugins/SmartPastePlugin';
+import { normalizePlainTextPaste } from '../utils/list-normalization';
+import { createTestEditor, mountPlugins, createMockPasteEvent, prepareEditorForPaste } from './test-helpers';
+
+describe('Plain Text Normalization', () => {
+  it('converts NBSP and CRLF line endings', () => {
+    expect(normalizePlainTextPaste('a\u00a0b\r\nc')).toBe('a b\nc');
+  });
+
+  it('keeps list prefixes outside list items', () => {
+    expect(normalizePlainTextPaste('- one\n- two')).toBe('- one\n- two');
+  });
+
+  it('strips list prefixes when pasting into a list item', () => {
+    expect(normalizePlainTextPaste('•\u00a0one\n2. two', { insideListItem: true })).toBe('one\ntwo');
+  });
+});
+
+describe('PASTE_AS_PLAIN_TEXT_COMMAND', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+  let cleanupPlugins: () => void;
+  let unregisterPlainText: () => void;
+
+  beforeEach(async () => {
+    editor = createTestEditor({ namespace: 'plain-text-paste-test' });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+
+    cleanupPlugins = await mountPlugins(editor, { smartPaste: true });
+    unregisterPlainText = registerPlainTextPaste(editor);
+    await prepareEditorForPaste(editor);
+  });
+
+  afterEach(() => {
+    unregisterPlainText?.();
+    cleanupPlugins?.();
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  it('inserts unformatted text with NBSP normalized', () => {
+    editor.update(() => {
+      editor.dispatchCommand(PASTE_AS_PLAIN_TEXT_COMMAND, '## Not\u00a0a heading');
+    }, { discrete: true });
+
+    editor.getEditorState().read(() => {
+      expect($getRoot().getChildren().some($isHeadingNode)).toBe(false);
+      expect($getRoot().getTextContent()).toBe('## Not a heading');
+
+      const formatted = $dfs().map(({ node }) => node).filter($isTextNode).filter(node => node.getFormat() !== 0);
+      expect(formatted).toHaveLength(0);
+    });
+  });
+
+  it('strips list prefixes when the caret is inside a list item', () => {
+    editor.update(() => {
+      const list = $createListNode('bullet');
+      const item = $createListItemNode();
+      list.append(item);
+      $getRoot().clear().append(list);
+      item.select();
+    }, { discrete: true });
+
+    editor.update(() => {
+      editor.dispatchCommand(PASTE_AS_PLAIN_TEXT_COMMAND, '- Milk');
+    }, { discrete: true });
+
+    editor.getEditorState().read(() => {
+      const item = $dfs().map(({ node }) => node).find($isListItemNode);
+      expect(item?.getTextContent()).toBe('Milk');
+    });
+  });
+
+  it('returns false for whitespace-only text', () => {
+    let handled = true;
+    editor.update(() => {
+      handled = editor.dispatchCommand(PASTE_AS_PLAIN_TEXT_COMMAND, ' \u00a0 ');
+    }, { discrete: true });
+
+    expect(handled).toBe(false);
+  });
+
+  it('does nothing in a read-only editor', () => {
+    editor.setEditable(false);
+
+    let handled = true;
+    editor.update(() => {
+      handled = editor.dispatchCommand(PASTE_AS_PLAIN_TEXT_COMMAND, 'text');
+    }, { discrete: true });
+
+    expect(handled).toBe(false);
+    editor.getEditorState().read(() => {
+      expect($getRoot().getTextContent()).toBe('Type here...');
+    });
+  });
+
+  it('Mod+Shift+V pastes HTML clipboard content as plain text', async () => {
+    editor.update(() => {
+      const paragraph = $createParagraphNode();
+      paragraph.append($createTextNode(''));
+      $getRoot().clear().append(paragraph);
+      paragraph.select();
+    }, { discrete: true });
+
+    editor.dispatchCommand(
+      KEY_MODIFIER_COMMAND,
+      new KeyboardEvent('keydown', { key: 'V', ctrlKey: true, shiftKey: true })
+    );
+    const handled = editor.dispatchCommand(
+      PASTE_COMMAND,
+      createMockPasteEvent({ html: '<h2>Title</h2>', text: 'Title' })
+    );
+    expect(handled).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    editor.getEditorState().read(() => {
+      expect($getRoot().getChildren().some($isHeadingNode)).toBe(false);
+      expect($getRoot().getTextContent()).toBe('Title');
+    });
+  });
+});
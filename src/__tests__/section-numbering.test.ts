@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  createEditor,
+  LexicalEditor,
+  NodeKey,
+  ParagraphNode,
+  TextNode
+} from 'lexical';
+import { $generateHtmlFromNodes } from '@lexical/html';
+import { $createQuoteNode, QuoteNode } from '@lexical/rich-text';
+import { $createCustomHeadingNode, CustomHeadingNode } from '../nodes/CustomHeadingNode';
+import { registerSectionNumbering, SECTION_NUMBER_ATTRIBUTE } from '../plugins/SectionNumberingPlugin';
+import {
+  $getSectionNumbers,
+  $getSectionNumbersForExport,
+  formatSectionNumber,
+  isSectionNumberingEnabled,
+  setSectionNumbering
+} from '../utils/section-numbering';
+import { exportMarkdown } from '../utils/markdown';
+import { loadDocument, serializeDocument } from '../utils/document';
+import { HeadingTagType } from '../types/editor-types';
+
+type Block = [HeadingTagType | 'p' | 'quote', string];
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('formatSectionNumber', () => {
+  it('ends top-level numbers with a dot and joins deeper ones', () => {
+    expect(formatSectionNumber([1])).toBe('1.');
+    expect(formatSectionNumber([1, 2])).toBe('1.2');
+    expect(formatSectionNumber([1, 2, 3])).toBe('1.2.3');
+  });
+});
+
+describe('Section numbering', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+
+  /**
+   * Build a document from [type, text] pairs; 'quote' wraps an h2 in a quote.
+   * Returns the keys of the top-level blocks (the heading for quotes).
+   */
+  function setDocument(blocks: Block[]): NodeKey[] {
+    const keys: NodeKey[] = [];
+    editor.update(() => {
+      const root = $getRoot().clear();
+      blocks.forEach(([type, text]) => {
+        if (type === 'p') {
+          const paragraph = $createParagraphNode().append($createTextNode(text));
+          root.append(paragraph);
+          keys.push(paragraph.getKey());
+        } else if (type === 'quote') {
+          const heading = $createCustomHeadingNode('h2').append($createTextNode(text));
+          root.append($createQuoteNode().append(heading));
+          keys.push(heading.getKey());
+        } else {
+          const heading = $createCustomHeadingNode(type).append($createTextNode(text));
+          root.append(heading);
+          keys.push(heading.getKey());
+        }
+      });
+    }, { discrete: true });
+    return keys;
+  }
+
+  const readNumbers = (keys: NodeKey[]) => editor.getEditorState().read(() => {
+    const numbers = $getSectionNumbers();
+    return keys.map(key => numbers.get(key) ?? null);
+  });
+
+  beforeEach(() => {
+    editor = createEditor({
+      namespace: 'numbering-test',
+      nodes: [CustomHeadingNode, QuoteNode, ParagraphNode, TextNode],
+      onError: (error) => { throw error; }
+    });
+
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+  });
+
+  afterEach(() => {
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  it('numbers h1-h3 hierarchically', () => {
+    const keys = setDocument([
+      ['h1', 'Intro'], ['h2', 'Scope'], ['h2', 'Terms'], ['h3', 'Actors'], ['p', 'Body'], ['h1', 'Design'], ['h2', 'API']
+    ]);
+
+    expect(readNumbers(keys)).toEqual(['1.', '1.1', '1.2', '1.2.1', null, '2.', '2.1']);
+  });
+
+  it('leaves h4-h6 unnumbered without breaking the sequence', () => {
+    const keys = setDocument([['h1', 'Intro'], ['h4', 'Aside'], ['h2', 'Scope']]);
+
+    expect(readNumbers(keys)).toEqual(['1.', null, '1.1']);
+  });
+
+  it('starts at the shallowest level used and counts skipped levels as 0', () => {
+    expect(readNumbers(setDocument([['h2', 'Scope'], ['h3', 'Terms'], ['h2', 'Design']])))
+      .toEqual(['1.', '1.1', '2.']);
+
+    expect(readNumbers(setDocument([['h1', 'Intro'], ['h3', 'Detail']])))
+      .toEqual(['1.', '1.0.1']);
+  });
+
+  it('skips headings inside quotes', () => {
+    const keys = setDocument([['h1', 'Intro'], ['quote', 'Quoted'], ['h2', 'Scope']]);
+
+    expect(readNumbers(keys)).toEqual(['1.', null, '1.1']);
+  });
+
+  it('renders numbers as an attribute, never as text, while the document is numbered', async () => {
+    const unregister = registerSectionNumbering(editor);
+    const keys = setDocument([['h1', 'Intro'], ['h2', 'Scope']]);
+    await flush();
+    expect(editor.getElementByKey(keys[1])?.hasAttribute(SECTION_NUMBER_ATTRIBUTE)).toBe(false);
+
+    expect(setSectionNumbering(editor, true)).toBe(true);
+    await flush();
+    expect(editor.getElementByKey(keys[1])?.getAttribute(SECTION_NUMBER_ATTRIBUTE)).toBe('1.1');
+    expect(editor.getElementByKey(keys[1])?.textContent).toBe('Scope');
+    editor.getEditorState().read(() => {
+      expect($getRoot().getTextContent()).not.toContain('1.1');
+    });
+
+    setSectionNumbering(editor, false);
+    await flush();
+    expect(editor.getElementByKey(keys[1])?.hasAttribute(SECTION_NUMBER_ATTRIBUTE)).toBe(false);
+    unregister();
+  });
+
+  it('includes numbers in HTML export only while enabled', async () => {
+    setDocument([['h1', 'Intro'], ['h2', 'Scope']]);
+    const exportHtml = () => editor.getEditorState().read(() => $generateHtmlFromNodes(editor, null));
+
+    expect(exportHtml()).not.toContain('section-number');
+
+    setSectionNumbering(editor, true);
+    await flush();
+    expect(exportHtml()).toContain('<span class="section-number">1.1 </span>');
+  });
+
+  it('numbers an export pass once per committed state', async () => {
+    setDocument([['h1', 'Intro'], ['h2', 'Scope']]);
+    const readExportNumbers = () => editor.getEditorState().read(() => $getSectionNumbersForExport(editor));
+
+    expect(readExportNumbers()).toBe(readExportNumbers());
+
+    const before = readExportNumbers();
+    setDocument([['h2', 'Scope'], ['h1', 'Intro']]);
+    expect(readExportNumbers()).not.toBe(before);
+  });
+
+  it('saves the setting beside the document and restores it on load', () => {
+    setDocument([['h1', 'Intro'], ['h2', 'Scope']]);
+    setSectionNumbering(editor, true);
+    const json = JSON.stringify(serializeDocument(editor));
+    expect(JSON.parse(json).sectionNumbering).toBe(true);
+    // The node tree itself is plain Lexical JSON
+    expect(editor.getEditorState().toJSON().root).not.toHaveProperty('sectionNumbering');
+
+    // A fresh editor, no plugin: the setting comes from the saved document alone
+    const headless = createEditor({
+      namespace: 'numbering-headless-test',
+      nodes: [CustomHeadingNode, QuoteNode, ParagraphNode, TextNode],
+      onError: (error) => { throw error; }
+    });
+    loadDocument(headless, json);
+    expect(isSectionNumberingEnabled(headless)).toBe(true);
+    expect(headless.getEditorState().read(() => $generateHtmlFromNodes(headless, null)))
+      .toContain('<span class="section-number">1.1 </span>');
+
+    // Loading an unnumbered document turns numbering off
+    setSectionNumbering(editor, false);
+    expect(serializeDocument(editor)).not.toHaveProperty('sectionNumbering');
+    loadDocument(headless, serializeDocument(editor));
+    expect(isSectionNumberingEnabled(headless)).toBe(false);
+  });
+
+  it('leaves editors that never turn it on alone', () => {
+    setSectionNumbering(editor, true);
+    const other = createEditor({ namespace: 'numbering-other-test', onError: (error) => { throw error; } });
+
+    expect(isSectionNumberingEnabled(other)).toBe(false);
+    expect(other.getEditorState().toJSON().root).not.toHaveProperty('sectionNumbering');
+  });
+
+  it('includes numbers in Markdown export on request', () => {
+    setDocument([['h1', 'Intro'], ['quote', 'Quoted'], ['h2', 'Scope']]);
+
+    expect(exportMarkdown(editor.getEditorState(), { sectionNumbers: true }))
+      .toBe('# 1. Intro\n\n> Quoted\n\n## 1.1 Scope');
+    expect(exportMarkdown(editor.getEditorState())).toBe('# Intro\n\n> Quoted\n\n## Scope');
+
+    setSectionNumbering(editor, true);
+    expect(exportMarkdown(editor.getEditorState(), { sectionNumbers: isSectionNumberingEnabled(editor) }))
+      .toBe('# 1. Intro\n\n> Quoted\n\n## 1.1 Scope');
+  });
+});
@@ -1,5 +1,21 @@
-import { describe, it, expect } from 'vitest';
-import { sanitizeHTML } from '../config/sanitization-config';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { $getRoot, $createParagraphNode, $createTextNode, LexicalEditor } from 'lexical';
+import { $generateNodesFromDOM } from '@lexical/html';
+import { LinkNode, AutoLinkNode, $createLinkNode, $createAutoLinkNode, $isLinkNode } from '@lexical/link';
+import { $dfs } from '@lexical/utils';
+import { sanitizeHTML, isAllowedUrl } from '../config/sanitization-config';
+import { registerLinkPolicy, parseEditorStateWithLinkPolicy } from '../plugins/LinkPolicyPlugin';
+import { createTestEditor } from './test-helpers';
+
+/**
+ * Collect the URL of every link node in the current tree.
+ */
+function $collectLinkUrls(): string[] {
+  return $dfs()
+    .map(({ node }) => node)
+    .filter($isLinkNode)
+    .map(node => node.getURL());
+}
 
 /**
  * Critical security verification tests.
@@ -198,4 +214,136 @@ describe('Security Verification Tests', () => {
       expect(result.length).toBeGreaterThan(1000);
     });
   });
-});
\ No newline at end of file
+
+  describe('URL Allowlist', () => {
+    it('should accept http, https, mailto and hash URLs', () => {
+      expect(isAllowedUrl('https://example.com')).toBe(true);
+      expect(isAllowedUrl('http://example.com')).toBe(true);
+      expect(isAllowedUrl('mailto:test@example.com')).toBe(true);
+      expect(isAllowedUrl('#section')).toBe(true);
+    });
+
+    it('should reject script, data and empty URLs', () => {
+      expect(isAllowedUrl('javascript:alert(1)')).toBe(false);
+      expect(isAllowedUrl('JavaScript:alert(1)')).toBe(false);
+      expect(isAllowedUrl('data:text/html,<script>alert(1)</script>')).toBe(false);
+      expect(isAllowedUrl('vbscript:msgbox(1)')).toBe(false);
+      expect(isAllowedUrl('')).toBe(false);
+    });
+
+    it('should reject schemes obfuscated with whitespace or control characters', () => {
+      expect(isAllowedUrl(' javascript:alert(1)')).toBe(false);
+      expect(isAllowedUrl('java\tscript:alert(1)')).toBe(false);
+      expect(isAllowedUrl('\u0000javascript:alert(1)')).toBe(false);
+    });
+  });
+
+  describe('Link Node Policy', () => {
+    let editor: LexicalEditor;
+
+    beforeEach(() => {
+      editor = createTestEditor({
+        namespace: 'link-policy-test',
+        nodes: [LinkNode, AutoLinkNode]
+      });
+      registerLinkPolicy(editor);
+    });
+
+    it('should keep sanitized https links from pasted HTML', async () => {
+      const sanitized = sanitizeHTML('<p>See <a href="https://example.com" title="Docs">the docs</a></p>');
+
+      await editor.update(() => {
+        const doc = new DOMParser().parseFromString(sanitized, 'text/html');
+        $getRoot().clear().append(...$generateNodesFromDOM(editor, doc));
+      });
+
+      editor.getEditorState().read(() => {
+        const links = $dfs().map(({ node }) => node).filter($isLinkNode);
+        expect(links).toHaveLength(1);
+        expect(links[0].getURL()).toBe('https://example.com');
+        expect(links[0].getTitle()).toBe('Docs');
+        expect(links[0].getRel()).toBe('noopener noreferrer ugc');
+        expect(links[0].getTextContent()).toBe('the docs');
+      });
+    });
+
+    it('should never create a javascript: link from pasted HTML', async () => {
+      const sanitized = sanitizeHTML('<p>Hi <a href="javascript:alert(1)">Click me</a></p>');
+
+      await editor.update(() => {
+        const doc = new DOMParser().parseFromString(sanitized, 'text/html');
+        $getRoot().clear().append(...$generateNodesFromDOM(editor, doc));
+      });
+
+      editor.getEditorState().read(() => {
+        expect($collectLinkUrls()).toEqual([]);
+        expect($getRoot().getTextContent()).toContain('Click me');
+      });
+    });
+
+    it('should unwrap programmatically inserted javascript: links', async () => {
+      await editor.update(() => {
+        const paragraph = $createParagraphNode();
+        const link = $createLinkNode('javascript:alert(1)');
+        link.append($createTextNode('Click me'));
+        const autoLink = $createAutoLinkNode('data:text/html,boom');
+        autoLink.append($createTextNode('auto'));
+        paragraph.append(link, autoLink);
+        $getRoot().clear().append(paragraph);
+      });
+
+      editor.getEditorState().read(() => {
+        expect($collectLinkUrls()).toEqual([]);
+        expect($getRoot().getTextContent()).toBe('Click meauto');
+      });
+    });
+
+    it('should unwrap a link whose URL is edited to a disallowed scheme', async () => {
+      await editor.update(() => {
+        const paragraph = $createParagraphNode();
+        const link = $createLinkNode('https://example.com');
+        link.append($createTextNode('Edited'));
+        paragraph.append(link);
+        $getRoot().clear().append(paragraph);
+      });
+
+      await editor.update(() => {
+        const link = $dfs().map(({ node }) => node).find($isLinkNode);
+        link?.setURL('javascript:alert(1)');
+      });
+
+      editor.getEditorState().read(() => {
+        expect($collectLinkUrls()).toEqual([]);
+        expect($getRoot().getTextContent()).toBe('Edited');
+      });
+    });
+
+    it('should strip javascript: links from imported JSON before commit', () => {
+      const serializedLink = (url: string, type: 'link' | 'autolink') => ({
+        type, url, rel: null, target: null, title: null, version: 1,
+        format: '', indent: 0, direction: 'ltr',
+        children: [{ type: 'text', text: url, detail: 0, format: 0, mode: 'normal', style: '', version: 1 }]
+      });
+      const json = {
+        root: {
+          type: 'root', version: 1, format: '', indent: 0, direction: 'ltr',
+          children: [{
+            type: 'paragraph', version: 1, format: '', indent: 0, direction: 'ltr',
+            children: [
+              serializedLink('javascript:alert(1)', 'link'),
+              serializedLink('https://example.com', 'link'),
+              serializedLink('javascript:alert(2)', 'autolink')
+            ]
+          }]
+        }
+      };
+
+      const editorState = parseEditorStateWithLinkPolicy(editor, JSON.stringify(json));
+
+      editorState.read(() => {
+        expect($collectLinkUrls()).toEqual(['https://example.com']);
+        expect($getRoot().getTextContent()).toContain('javascript:alert(1)');
+      });
+    });
+  });
+});
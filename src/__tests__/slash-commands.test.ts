@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  $setSelection,
+  COMMAND_PRIORITY_EDITOR,
+  createEditor,
+  ElementNode,
+  LexicalEditor,
+  TextNode
+} from 'lexical';
+import { $createHeadingNode, $isHeadingNode } from '@lexical/rich-text';
+import { $createListItemNode, $createListNode, $isListNode, INSERT_UNORDERED_LIST_COMMAND, insertList } from '@lexical/list';
+import { TableCellNode, TableNode, TableRowNode } from '@lexical/table';
+import { createHeadingPolicy } from '../constants/heading-policy';
+import { applySlashBlock, filterSlashBlocks, getSlashBlocks, SlashBlockType } from '../plugins/SlashCommandMenu';
+import { TableOfContentsNode } from '../nodes/TableOfContentsNode';
+import { fuzzyScore } from '../utils/fuzzy-match';
+import { createTestEditor } from './test-helpers';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('fuzzyScore', () => {
+  it('matches characters in order, ignoring case', () => {
+    expect(fuzzyScore('hd2', 'Heading 2')).not.toBeNull();
+    expect(fuzzyScore('2h', 'Heading 2')).toBeNull();
+    expect(fuzzyScore('', 'Quote')).toBe(0);
+  });
+
+  it('ranks prefixes and word starts above scattered matches', () => {
+    expect(fuzzyScore('ta', 'Table')!).toBeGreaterThan(fuzzyScore('ta', 'Toggle details')!);
+    expect(fuzzyScore('cl', 'Check List')!).toBeGreaterThan(fuzzyScore('cl', 'Callout')!);
+  });
+});
+
+describe('Slash command menu', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+
+  beforeEach(() => {
+    editor = createTestEditor({
+      namespace: 'slash-commands-test',
+      nodes: [TableOfContentsNode, TableNode, TableRowNode, TableCellNode],
+      onError: (error) => { throw error; }
+    });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+  });
+
+  afterEach(() => {
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  const labels = (query: string) => filterSlashBlocks(getSlashBlocks(editor), query).map(block => block.label);
+
+  const readBlocks = () => editor.getEditorState().read(() =>
+    $getRoot().getChildren().map(node => [
+      $isHeadingNode(node) ? node.getTag() : $isListNode(node) ? node.getListType() : node.getType(),
+      node.getTextContent(),
+    ])
+  );
+
+  /**
+   * Type "/query" at the end of a block, then pick a block the way the menu
+   * does: the query node is split off and removed in the same update.
+   */
+  function pick(createBlock: () => ElementNode, typed: string, type: Exclude<SlashBlockType, 'image'>): void {
+    editor.update(() => {
+      const block = createBlock();
+      const text = $createTextNode(typed);
+      $getRoot().clear().append(block);
+      ($isListNode(block) ? block.getFirstChildOrThrow<ElementNode>() : block).append(text);
+      text.selectEnd();
+    }, { discrete: true });
+
+    editor.update(() => {
+      const text = $getRoot().getLastDescendant() as TextNode;
+      const slash = text.getTextContent().lastIndexOf('/');
+      const query = slash === 0 ? text : text.splitText(slash)[1];
+      query.remove();
+      applySlashBlock(editor, type);
+    }, { discrete: true });
+  }
+
+  it('lists every registered block, headings from the policy', () => {
+    expect(labels('')).toEqual([
+      'Paragraph', 'Heading 1', 'Heading 2', 'Heading 3', 'Quote', 'Callout', 'Toggle', 'Code Block',
+      'Bullet List', 'Numbered List', 'Check List', 'Table of Contents', 'Divider', 'Table', 'Image',
+    ]);
+
+    const policy = createHeadingPolicy(['h2', 'h4']);
+    expect(getSlashBlocks(editor, policy).filter(block => block.label.startsWith('Heading')).map(block => block.type))
+      .toEqual(['h2', 'h4']);
+
+    // A bare editor only knows paragraphs
+    expect(getSlashBlocks(createEditor()).map(block => block.label)).toEqual(['Paragraph']);
+  });
+
+  it('finds blocks by fuzzy label or keyword, best match first', () => {
+    expect(labels('h2')[0]).toBe('Heading 2');
+    expect(labels('bul')[0]).toBe('Bullet List');
+    expect(labels('nl')[0]).toBe('Numbered List');
+    expect(labels('todo')).toEqual(['Check List']);
+    expect(labels('hr')[0]).toBe('Divider');
+    expect(labels('acc')).toEqual(['Toggle']);
+    expect(labels('zzz')).toEqual([]);
+  });
+
+  it('turns the block into a heading and drops the typed command', async () => {
+    pick(() => $createParagraphNode().append($createTextNode('Intro ')), '/h2', 'h2');
+    await flush();
+
+    expect(readBlocks()).toEqual([['h2', 'Intro ']]);
+  });
+
+  it('toggles an active heading back to a paragraph, as the toolbar does', async () => {
+    pick(() => $createHeadingNode('h2'), '/h2', 'h2');
+    await flush();
+
+    expect(readBlocks()).toEqual([['paragraph', '']]);
+  });
+
+  it('keeps list items out of headings', async () => {
+    pick(() => $createListNode('bullet').append($createListItemNode()), '/h1', 'h1');
+    await flush();
+
+    expect(readBlocks()).toEqual([['bullet', '']]);
+  });
+
+  it('converts with $setBlocksType and inserts blocks after removing the slash', async () => {
+    pick(() => $createParagraphNode().append($createTextNode('Said')), ' /quo', 'quote');
+    await flush();
+    expect(readBlocks()).toEqual([['quote', 'Said ']]);
+
+    pick(() => $createParagraphNode().append($createTextNode('Above')), ' /div', 'hr');
+    await flush();
+    expect(readBlocks().map(([type]) => type)).toEqual(['paragraph', 'horizontalrule', 'paragraph']);
+    expect(readBlocks()[0]).toEqual(['paragraph', 'Above ']);
+  });
+
+  it('formats lists through formatList', async () => {
+    const unregister = editor.registerCommand(INSERT_UNORDERED_LIST_COMMAND, () => {
+      insertList(editor, 'bullet');
+      return true;
+    }, COMMAND_PRIORITY_EDITOR);
+
+    pick(() => $createParagraphNode().append($createTextNode('Item')), ' /bul', 'bullet');
+    await flush();
+    unregister();
+
+    expect(readBlocks()).toEqual([['bullet', 'Item ']]);
+  });
+
+  it('reports whether a block was converted', async () => {
+    editor.update(() => {
+      $getRoot().clear().append($createParagraphNode().append($createTextNode('Said')));
+      $setSelection(null);
+    }, { discrete: true });
+    expect(applySlashBlock(editor, 'code')).toBe(false);
+
+    editor.update(() => {
+      $getRoot().getFirstChildOrThrow<ElementNode>().selectEnd();
+    }, { discrete: true });
+    expect(applySlashBlock(editor, 'code')).toBe(true);
+    await flush();
+    expect(readBlocks()).toEqual([['code', 'Said']]);
+  });
+
+  it('does nothing in a read-only editor', () => {
+    editor.setEditable(false);
+    expect(applySlashBlock(editor, 'quote')).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  createEditor,
+  LexicalEditor,
+  ParagraphNode,
+  TextNode
+} from 'lexical';
+import { $generateHtmlFromNodes } from '@lexical/html';
+import { ListItemNode, ListNode } from '@lexical/list';
+import { $createCustomHeadingNode, CustomHeadingNode } from '../nodes/CustomHeadingNode';
+import {
+  $createTableOfContentsNode,
+  $isTableOfContentsNode,
+  TableOfContentsNode
+} from '../nodes/TableOfContentsNode';
+import { insertTableOfContents } from '../commands/outline-commands';
+import { createHeadingPolicy, setHeadingPolicy } from '../constants/heading-policy';
+import { exportMarkdown, importMarkdown } from '../utils/markdown';
+import { $getTocEntries, TocEntry } from '../utils/toc';
+import { slugify } from '../utils/slug';
+import { HeadingTagType } from '../types/editor-types';
+
+type Block = [HeadingTagType | 'p' | 'toc', string?];
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/** [text, children] pairs, for comparing nesting without node keys */
+type Shape = [string, Shape[]];
+const shapeOf = (entries: TocEntry[]): Shape[] =>
+  entries.map(({ item, children }) => [item.text, shapeOf(children)]);
+
+describe('Table of contents', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+
+  /**
+   * Build a document from blocks; headings get a slug from their text.
+   */
+  function setDocument(blocks: Block[]): void {
+    editor.update(() => {
+      const root = $getRoot().clear();
+      blocks.forEach(([type, text = '']) => {
+        if (type === 'toc') {
+          root.append($createTableOfContentsNode());
+        } else if (type === 'p') {
+          root.append($createParagraphNode().append($createTextNode(text)));
+        } else {
+          root.append($createCustomHeadingNode(type, slugify(text)).append($createTextNode(text)));
+        }
+      });
+    }, { discrete: true });
+  }
+
+  const readEntries = () => editor.getEditorState().read(() =>
+    shapeOf($getTocEntries(createHeadingPolicy(['h1', 'h2', 'h3'])))
+  );
+
+  beforeEach(() => {
+    editor = createEditor({
+      namespace: 'toc-test',
+      nodes: [CustomHeadingNode, TableOfContentsNode, ParagraphNode, TextNode, ListNode, ListItemNode],
+      onError: (error) => { throw error; }
+    });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+  });
+
+  afterEach(() => {
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  it('nests headings by level', () => {
+    setDocument([['h1', 'Guide'], ['h2', 'Setup'], ['h3', 'Install'], ['h2', 'Usage'], ['h1', 'FAQ']]);
+
+    expect(readEntries()).toEqual([
+      ['Guide', [['Setup', [['Install', []]]], ['Usage', []]]],
+      ['FAQ', []]
+    ]);
+  });
+
+  it('nests a skipped level under the nearest shallower heading', () => {
+    setDocument([['h1', 'Guide'], ['h3', 'Details'], ['h2', 'Usage']]);
+
+    expect(readEntries()).toEqual([
+      ['Guide', [['Details', []], ['Usage', []]]]
+    ]);
+  });
+
+  it('lists only levels the heading policy allows, ranked within the policy', () => {
+    setDocument([['h1', 'Title'], ['h2', 'Setup'], ['h4', 'Flags'], ['h2', 'Usage']]);
+
+    const entries = editor.getEditorState().read(() =>
+      shapeOf($getTocEntries(createHeadingPolicy(['h2', 'h3', 'h4'])))
+    );
+    expect(entries).toEqual([
+      ['Setup', [['Flags', []]]],
+      ['Usage', []]
+    ]);
+  });
+
+  it('exports HTML as a linked list that follows heading changes', () => {
+    setDocument([['toc'], ['h1', 'Guide'], ['h2', 'Setup']]);
+
+    const html = editor.getEditorState().read(() => $generateHtmlFromNodes(editor, null));
+    expect(html).toContain(
+      '<nav data-lexical-toc="true" aria-label="Table of contents"><ul><li><a href="#guide">Guide</a>' +
+      '<ul><li><a href="#setup">Setup</a></li></ul></li></ul></nav>'
+    );
+
+    editor.update(() => {
+      $getRoot().getLastChildOrThrow<CustomHeadingNode>().getFirstChildOrThrow<TextNode>().setTextContent('Install');
+    }, { discrete: true });
+
+    const updated = editor.getEditorState().read(() => $generateHtmlFromNodes(editor, null));
+    expect(updated).toContain('<a href="#setup">Install</a>');
+  });
+
+  it('respects the editor heading policy in exports', () => {
+    setHeadingPolicy(editor, createHeadingPolicy(['h2', 'h3']));
+    setDocument([['toc'], ['h1', 'Title'], ['h2', 'Setup']]);
+
+    const html = editor.getEditorState().read(() => $generateHtmlFromNodes(editor, null));
+    expect(html).not.toContain('#title');
+    expect(html).toContain('<a href="#setup">Setup</a>');
+  });
+
+  it('exports Markdown as a nested list of anchor links', () => {
+    setDocument([['toc'], ['h1', 'Guide'], ['h2', 'Setup [beta]'], ['p', 'Body']]);
+
+    expect(exportMarkdown(editor.getEditorState())).toBe(
+      '- [Guide](#guide)\n' +
+      '    - [Setup \\[beta\\]](#setup-beta)\n\n' +
+      '# Guide\n\n' +
+      '## Setup [beta]\n\n' +
+      'Body'
+    );
+  });
+
+  it('imports a [TOC] Markdown line as a table of contents', async () => {
+    importMarkdown(editor, '[TOC]\n\n# Guide');
+    await flush();
+
+    editor.getEditorState().read(() => {
+      expect($isTableOfContentsNode($getRoot().getFirstChild())).toBe(true);
+    });
+  });
+
+  it('survives a JSON round-trip', () => {
+    setDocument([['toc'], ['h1', 'Guide']]);
+
+    const json = JSON.stringify(editor.getEditorState().toJSON());
+    expect(json).toContain('"type":"table-of-contents"');
+
+    editor.setEditorState(editor.parseEditorState(json));
+    editor.getEditorState().read(() => {
+      expect($isTableOfContentsNode($getRoot().getFirstChild())).toBe(true);
+    });
+  });
+
+  it('inserts a table of contents at the caret', async () => {
+    setDocument([['p', 'Intro'], ['h1', 'Guide']]);
+    editor.update(() => {
+      $getRoot().getFirstChildOrThrow<ParagraphNode>().selectEnd();
+    }, { discrete: true });
+
+    expect(insertTableOfContents(editor)).toBe(true);
+    await flush();
+
+    editor.getEditorState().read(() => {
+      const types = $getRoot().getChildren().map(node => node.getType());
+      expect(types.slice(0, 3)).toEqual(['paragraph', 'table-of-contents', 'paragraph']);
+      expect(types).toContain('heading');
+    });
+  });
+
+  it('does not insert in a read-only editor', () => {
+    setDocument([['p', 'Intro']]);
+    editor.setEditable(false);
+
+    expect(insertTableOfContents(editor)).toBe(false);
+  });
+});
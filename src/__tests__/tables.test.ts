@@ -0,0 +1,288 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  $createParagraphNode,
+  $createTextNode,
+  $getRoot,
+  $getSelection,
+  $isRangeSelection,
+  ElementNode,
+  KEY_TAB_COMMAND,
+  LexicalEditor
+} from 'lexical';
+import { $generateHtmlFromNodes, $generateNodesFromDOM } from '@lexical/html';
+import {
+  $getTableCellNodeFromLexicalNode,
+  $isTableNode,
+  TableCellNode,
+  TableNode,
+  TableRowNode
+} from '@lexical/table';
+import { sanitizeHTML } from '../config/sanitization-config';
+import {
+  deleteTableColumn,
+  deleteTableRow,
+  insertTable,
+  insertTableColumn,
+  insertTableRow,
+  toggleTableHeaderRow
+} from '../commands/table-commands';
+import { registerTableEditing } from '../plugins/TableEditingPlugin';
+import { $hasHeaderRow, formatTableRow, isTableDelimiterRow, parseTableRow } from '../utils/tables';
+import { exportMarkdown, importMarkdown } from '../utils/markdown';
+import { createTestEditor } from './test-helpers';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const TABLE_NODES = [TableNode, TableRowNode, TableCellNode];
+
+describe('Table paste sanitization', () => {
+  it('keeps table structure and valid cell spans', () => {
+    expect(sanitizeHTML('<table><tbody><tr><th colspan="2">a</th></tr><tr><td rowspan="1">b</td><td>c</td></tr></tbody></table>'))
+      .toBe('<table><tbody><tr><th colspan="2">a</th></tr><tr><td rowspan="1">b</td><td>c</td></tr></tbody></table>');
+  });
+
+  it('drops styling, invalid or oversized spans, and spans outside cells', () => {
+    expect(sanitizeHTML('<table style="width:100%"><tr><td style="color:red" colspan="0">a</td><td rowspan="1e9">b</td><td colspan="101">c</td></tr></table>'))
+      .toBe('<table><tbody><tr><td>a</td><td>b</td><td>c</td></tr></tbody></table>');
+    expect(sanitizeHTML('<p colspan="2">x</p>')).toBe('<p>x</p>');
+  });
+});
+
+describe('Table utilities', () => {
+  it('parses and formats Markdown rows with escaped pipes', () => {
+    expect(parseTableRow('| a | b \\| c |')).toEqual(['a', 'b | c']);
+    expect(parseTableRow('not a row')).toBeNull();
+    expect(formatTableRow(['a', 'b | c'])).toBe('| a | b \\| c |');
+  });
+
+  it('recognizes delimiter rows', () => {
+    expect(isTableDelimiterRow('| --- | :-: | --: |')).toBe(true);
+    expect(isTableDelimiterRow('| a | b |')).toBe(false);
+  });
+});
+
+describe('Tables', () => {
+  let editor: LexicalEditor;
+  let rootElement: HTMLDivElement;
+  let unregister: () => void;
+
+  beforeEach(() => {
+    editor = createTestEditor({
+      namespace: 'tables-test',
+      nodes: TABLE_NODES,
+      onError: (error) => { throw error; }
+    });
+
+    // Selection only survives between updates when the editor has a DOM root
+    rootElement = document.createElement('div');
+    rootElement.contentEditable = 'true';
+    document.body.appendChild(rootElement);
+    editor.setRootElement(rootElement);
+    unregister = registerTableEditing(editor);
+  });
+
+  afterEach(() => {
+    unregister();
+    editor.setRootElement(null);
+    rootElement.remove();
+  });
+
+  // Rows of cell texts, with header cells as "#text"
+  const readTable = () => editor.getEditorState().read(() => {
+    const table = $getRoot().getChildren().find($isTableNode);
+    return table?.getChildren<TableRowNode>().map(row =>
+      row.getChildren<TableCellNode>().map(cell => `${cell.hasHeader() ? '#' : ''}${cell.getTextContent()}`)
+    ) ?? null;
+  });
+
+  // [row, column] of the cell holding the caret
+  const readCaretCell = () => editor.getEditorState().read(() => {
+    const selection = $getSelection();
+    const cell = $isRangeSelection(selection) ? $getTableCellNodeFromLexicalNode(selection.anchor.getNode()) : null;
+    if (!cell) return null;
+    const row = cell.getParentOrThrow();
+    return [row.getIndexWithinParent(), cell.getIndexWithinParent()];
+  });
+
+  const insertTableWithText = async (rows: string[][]) => {
+    editor.update(() => {
+      $getRoot().clear().append($createParagraphNode()).selectStart();
+    }, { discrete: true });
+    insertTable(editor, { rows: rows.length, columns: rows[0].length });
+    await flush();
+    editor.update(() => {
+      const table = $getRoot().getChildren().find($isTableNode)!;
+      table.getChildren<TableRowNode>().forEach((row, rowIndex) => {
+        row.getChildren<TableCellNode>().forEach((cell, columnIndex) => {
+          cell.getFirstChildOrThrow<ElementNode>().append($createTextNode(rows[rowIndex][columnIndex]));
+        });
+      });
+      table.getFirstDescendant()?.selectStart();
+    }, { discrete: true });
+  };
+
+  const tab = (shiftKey = false) =>
+    editor.dispatchCommand(KEY_TAB_COMMAND, new KeyboardEvent('keydown', { key: 'Tab', shiftKey }));
+
+  it('pastes spreadsheet HTML as a table with a header row', () => {
+    const html = sanitizeHTML(
+      '<google-sheets-html-origin><table style="border:1px"><tbody>' +
+      '<tr><th>Name</th><th>Qty</th></tr><tr><td>Apples</td><td style="font-weight:bold">3</td></tr>' +
+      '</tbody></table></google-sheets-html-origin>'
+    );
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+
+    editor.update(() => {
+      $getRoot().clear().append(...$generateNodesFromDOM(editor, doc));
+    }, { discrete: true });
+
+    expect(readTable()).toEqual([['#Name', '#Qty'], ['Apples', '3']]);
+  });
+
+  it('keeps the header row through JSON and exports <th> cells to HTML', async () => {
+    await insertTableWithText([['a', 'b'], ['c', 'd']]);
+
+    const json = JSON.stringify(editor.getEditorState().toJSON());
+    editor.setEditorState(editor.parseEditorState(json));
+    expect(readTable()).toEqual([['#a', '#b'], ['c', 'd']]);
+
+    const html = editor.getEditorState().read(() => $generateHtmlFromNodes(editor, null));
+    expect(html).toContain('<th');
+    expect(html).toContain('<td');
+  });
+
+  it('round-trips Markdown tables with and without a header row', async () => {
+    const markdown = '| Name | Notes |\n| --- | --- |\n| **Apples** | a \\| b |\n\n| x | y |';
+    importMarkdown(editor, markdown);
+    await flush();
+
+    expect(readTable()).toEqual([['#Name', '#Notes'], ['Apples', 'a | b']]);
+    expect(exportMarkdown(editor.getEditorState())).toBe(markdown);
+  });
+
+  it('keeps a stray delimiter row as text', async () => {
+    importMarkdown(editor, '| --- | --- |');
+    await flush();
+
+    expect(exportMarkdown(editor.getEditorState())).toBe('| --- | --- |');
+  });
+
+  it('inserts a table with a header row and the caret in the first cell', async () => {
+    editor.update(() => {
+      $getRoot().clear().append($createParagraphNode()).selectStart();
+    }, { discrete: true });
+
+    expect(insertTable(editor, { rows: 2, columns: 3 })).toBe(true);
+
+    await flush();
+    expect(readTable()).toEqual([['#', '#', '#'], ['', '', '']]);
+    expect(readCaretCell()).toEqual([0, 0]);
+
+    expect(insertTable(editor)).toBe(false);
+  });
+
+  it('inserts and deletes rows and columns around a cell', async () => {
+    await insertTableWithText([['a', 'b'], ['c', 'd']]);
+    const cellKey = editor.getEditorState().read(() =>
+      $getRoot().getChildren().find($isTableNode)!.getLastChildOrThrow<TableRowNode>().getLastChildOrThrow().getKey()
+    );
+
+    expect(insertTableRow(editor, 'below', cellKey)).toBe(true);
+
+    await flush();
+    expect(readTable()).toEqual([['#a', '#b'], ['c', 'd'], ['', '']]);
+
+    expect(insertTableColumn(editor, 'left', cellKey)).toBe(true);
+
+    await flush();
+    expect(readTable()?.map(row => row.length)).toEqual([3, 3, 3]);
+
+    expect(deleteTableColumn(editor, cellKey)).toBe(true);
+
+    await flush();
+    expect(readTable()).toEqual([['#a', '#'], ['c', ''], ['', '']]);
+  });
+
+  it('deletes the caret row and removes the table with its last row', async () => {
+    await insertTableWithText([['a', 'b'], ['c', 'd']]);
+
+    expect(deleteTableRow(editor)).toBe(true);
+
+    await flush();
+    expect(readTable()).toEqual([['c', 'd']]);
+
+    expect(deleteTableRow(editor)).toBe(true);
+
+    await flush();
+    expect(readTable()).toBeNull();
+  });
+
+  it('toggles the header row', async () => {
+    await insertTableWithText([['a', 'b'], ['c', 'd']]);
+
+    expect(toggleTableHeaderRow(editor)).toBe(true);
+
+    await flush();
+    expect(readTable()).toEqual([['a', 'b'], ['c', 'd']]);
+    expect(editor.getEditorState().read(() => $hasHeaderRow($getRoot().getChildren().find($isTableNode)!))).toBe(false);
+
+    expect(toggleTableHeaderRow(editor)).toBe(true);
+
+    await flush();
+    expect(readTable()).toEqual([['#a', '#b'], ['c', 'd']]);
+  });
+
+  it('rejects table edits outside tables and in read-only editors', async () => {
+    await insertTableWithText([['a']]);
+    editor.update(() => {
+      $getRoot().append($createParagraphNode()).selectEnd();
+    }, { discrete: true });
+    expect(insertTableRow(editor, 'below')).toBe(false);
+
+    editor.update(() => {
+      $getRoot().getFirstDescendant()?.selectStart();
+    }, { discrete: true });
+    editor.setEditable(false);
+    expect(insertTableRow(editor, 'below')).toBe(false);
+    expect(toggleTableHeaderRow(editor)).toBe(false);
+    expect(readTable()).toEqual([['#a']]);
+  });
+
+  it('moves between cells with Tab and Shift+Tab', async () => {
+    await insertTableWithText([['a', 'b'], ['c', 'd']]);
+
+    expect(tab()).toBe(true);
+    await flush();
+    expect(readCaretCell()).toEqual([0, 1]);
+
+    tab();
+    await flush();
+    expect(readCaretCell()).toEqual([1, 0]);
+
+    tab(true);
+    await flush();
+    expect(readCaretCell()).toEqual([0, 1]);
+  });
+
+  it('adds a row on Tab in the last cell and stays put on Shift+Tab in the first', async () => {
+    await insertTableWithText([['a', 'b']]);
+
+    expect(tab(true)).toBe(true);
+    await flush();
+    expect(readCaretCell()).toEqual([0, 0]);
+
+    tab();
+    tab();
+    await flush();
+    expect(readTable()).toEqual([['#a', '#b'], ['', '']]);
+    expect(readCaretCell()).toEqual([1, 0]);
+  });
+
+  it('leaves Tab alone outside tables', () => {
+    editor.update(() => {
+      $getRoot().clear().append($createParagraphNode().append($createTextNode('x'))).selectEnd();
+    }, { discrete: true });
+
+    expect(tab()).toBe(false);
+  });
+});
@@ -1,7 +1,11 @@
-import { createEditor, LexicalEditor, ParagraphNode, TextNode } from 'lexical';
+import { $getSelection, $isRangeSelection, COMMAND_PRIORITY_EDITOR, createEditor, LexicalEditor, PASTE_COMMAND, ParagraphNode, TextNode } from 'lexical';
 import { HeadingNode, QuoteNode } from '@lexical/rich-text';
 import { ListNode, ListItemNode } from '@lexical/list';
 import { CodeNode } from '@lexical/code';
+import { HorizontalRuleNode } from '@lexical/react/LexicalHorizontalRuleNode';
+import { CalloutNode } from '../nodes/CalloutNode';
+import { DetailsContentNode, DetailsNode, DetailsSummaryNode } from '../nodes/DetailsNode';
+import { ImageNode } from '../nodes/ImageNode';
 import type { Klass, LexicalNode } from 'lexical';
 
 /**
@@ -28,7 +32,13 @@ export function createTestEditor(options: {
     ListNode,
     ListItemNode,
     QuoteNode,
-    CodeNode
+    CalloutNode,
+    DetailsNode,
+    DetailsSummaryNode,
+    DetailsContentNode,
+    CodeNode,
+    HorizontalRuleNode,
+    ImageNode
   ];
   
   // Merge with any additional nodes, avoiding duplicates
@@ -143,6 +153,23 @@ export function createMockPasteEvent(data: {
   } as ClipboardEvent;
 }
 
+/**
+ * Registers what the rich text paste handler does with plain text, for
+ * pastes SmartPaste defers. registerRichText itself needs drag and clipboard
+ * event classes that jsdom lacks.
+ */
+export function registerDefaultPaste(editor: LexicalEditor): () => void {
+  return editor.registerCommand(PASTE_COMMAND, (event) => {
+    const selection = $getSelection();
+    const text = 'clipboardData' in event ? event.clipboardData?.getData('text/plain') : null;
+    if (!$isRangeSelection(selection) || !text) {
+      return false;
+    }
+    selection.insertRawText(text);
+    return true;
+  }, COMMAND_PRIORITY_EDITOR);
+}
+
 /**
  * Helper to insert HTML content and wait for transforms
  */
@@ -4,6 +4,8 @@ import { HeadingNode, $createHeadingNode, $createQuoteNode } from '@lexical/rich
 import { ListNode, ListItemNode } from '@lexical/list';
 import { CodeNode } from '@lexical/code';
 import { QuoteNode } from '@lexical/rich-text';
+import { createHeadingPolicy } from '../constants/heading-policy';
+import { registerHeadingPolicy } from '../plugins/HeadingPolicyPlugin';
 
 describe('Undo Atomicity - Single Operation Reverts All Changes', () => {
   let editor: LexicalEditor;
@@ -178,6 +180,53 @@ describe('Undo Atomicity - Single Operation Reverts All Changes', () => {
     });
   });
 
+  it('should revert hierarchy relabeling together with the paste', async () => {
+    const unregisterPolicy = registerHeadingPolicy(
+      editor,
+      createHeadingPolicy(['h1', 'h2', 'h3'], 'clamp', 'relabel')
+    );
+
+    await editor.update(() => {
+      const root = $getRoot();
+      root.clear();
+
+      const para = $createParagraphNode();
+      para.append($createTextNode('Start state'));
+      root.append(para);
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    // h1 -> h3 skips a level and h6 must be clamped first
+    await editor.update(() => {
+      const root = $getRoot();
+      (['h1', 'h3', 'h6'] as const).forEach(tag => {
+        const heading = $createHeadingNode(tag);
+        heading.append($createTextNode(`Pasted ${tag}`));
+        root.append(heading);
+      });
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    await editor.getEditorState().read(() => {
+      const tags = $getRoot().getChildren().slice(1).map(node => (node as HeadingNode).getTag());
+      expect(tags).toEqual(['h1', 'h2', 'h3']);
+    });
+
+    // Normalization ran inside the paste update, so one undo reverts everything
+    editor.dispatchCommand(UNDO_COMMAND, undefined);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    await editor.getEditorState().read(() => {
+      const children = $getRoot().getChildren();
+      expect(children.length).toBe(1);
+      expect(children[0]?.getTextContent()).toBe('Start state');
+    });
+
+    unregisterPolicy();
+  });
+
   it('should handle failed paste without corrupting undo history', async () => {
     // Set up initial state
     await editor.update(() => {
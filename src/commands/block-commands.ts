@@ -0,0 +1,184 @@
+import { $createParagraphNode, $getNodeByKey, $getSelection, $isRangeSelection, LexicalEditor, NodeKey } from 'lexical';
+import { $setBlocksType } from '@lexical/selection';
+import { $findMatchingParent, $insertNodeToNearestRoot } from '@lexical/utils';
+import { $createHorizontalRuleNode } from '@lexical/react/LexicalHorizontalRuleNode';
+import { $createCalloutNode, $isCalloutNode } from '../nodes/CalloutNode';
+import {
+  $createDetailsContentNode,
+  $createDetailsNode,
+  $createDetailsSummaryNode,
+  $isDetailsNode
+} from '../nodes/DetailsNode';
+import { CalloutVariant, DEFAULT_CALLOUT_VARIANT, normalizeCalloutVariant, parseCalloutEmoji } from '../utils/callouts';
+import { logDevWarning } from '../utils/dev-logger';
+
+/**
+ * Editable callout style; omitted parts are left as they are.
+ */
+export interface CalloutStyleUpdate {
+  variant?: CalloutVariant;
+  /** null removes the icon */
+  emoji?: string | null;
+}
+
+/**
+ * Insert a divider at the caret, splitting the block there. The caret moves
+ * to the start of the block below the divider.
+ *
+ * @returns true if the divider was inserted
+ */
+export function insertHorizontalRule(editor: LexicalEditor): boolean {
+  let success = false;
+
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  editor.update(() => {
+    if (!$isRangeSelection($getSelection())) {
+      logDevWarning('Blocks', 'Divider not inserted: no caret in the document');
+      return;
+    }
+    $insertNodeToNearestRoot($createHorizontalRuleNode());
+    success = true;
+  });
+
+  return success;
+}
+
+/**
+ * Turn the selected blocks into callouts, as the toolbar does for quotes.
+ * Quotes convert back the same way.
+ *
+ * @returns true if the blocks were converted
+ */
+export function formatCallout(editor: LexicalEditor, variant: CalloutVariant = DEFAULT_CALLOUT_VARIANT): boolean {
+  let success = false;
+
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  editor.update(() => {
+    const selection = $getSelection();
+    if (!$isRangeSelection(selection)) {
+      logDevWarning('Blocks', 'Callout not applied: no caret in the document');
+      return;
+    }
+    $setBlocksType(selection, () => $createCalloutNode(variant));
+    success = true;
+  });
+
+  return success;
+}
+
+/**
+ * Change a callout's variant or icon.
+ *
+ * @returns true if the callout was updated, false if blocked or the style is invalid
+ */
+export function setCalloutStyle(editor: LexicalEditor, key: NodeKey, style: CalloutStyleUpdate): boolean {
+  let success = false;
+  const { variant, emoji } = style;
+
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  if (variant !== undefined && normalizeCalloutVariant(variant) !== variant) {
+    logDevWarning('Blocks', `Unknown callout variant "${variant}"`);
+    return false;
+  }
+
+  if (emoji !== undefined && emoji !== null && parseCalloutEmoji(emoji) === null) {
+    logDevWarning('Blocks', 'Callout icon must be a single emoji');
+    return false;
+  }
+
+  editor.update(() => {
+    const node = $getNodeByKey(key);
+    if (!$isCalloutNode(node)) {
+      return;
+    }
+    if (variant !== undefined) {
+      node.setVariant(variant);
+    }
+    if (emoji !== undefined) {
+      node.setEmoji(emoji === null ? null : parseCalloutEmoji(emoji));
+    }
+    success = true;
+  });
+
+  return success;
+}
+
+/**
+ * Insert an open toggle at the caret, splitting the block there. The caret
+ * moves into its empty summary.
+ *
+ * @returns true if the toggle was inserted
+ */
+export function insertDetails(editor: LexicalEditor): boolean {
+  let success = false;
+
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  editor.update(() => {
+    if (!$isRangeSelection($getSelection())) {
+      logDevWarning('Blocks', 'Toggle not inserted: no caret in the document');
+      return;
+    }
+    const summary = $createDetailsSummaryNode();
+    $insertNodeToNearestRoot(
+      $createDetailsNode(true).append(summary, $createDetailsContentNode().append($createParagraphNode()))
+    );
+    summary.select();
+    success = true;
+  });
+
+  return success;
+}
+
+/**
+ * Open or close a toggle. Without a key, toggles the innermost toggle
+ * holding the caret; closing from inside its body moves the caret to the
+ * end of its summary, so the caret never sits in hidden text.
+ *
+ * @returns true if the toggle was opened or closed
+ */
+export function toggleDetails(editor: LexicalEditor, key?: NodeKey): boolean {
+  let success = false;
+
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  editor.update(() => {
+    const selection = $getSelection();
+    const caretNode = $isRangeSelection(selection) ? selection.anchor.getNode() : null;
+    const details = key === undefined
+      ? (caretNode && $findMatchingParent(caretNode, $isDetailsNode))
+      : $getNodeByKey(key);
+    if (!$isDetailsNode(details)) {
+      logDevWarning('Blocks', 'Toggle not opened or closed: no toggle found');
+      return;
+    }
+
+    const open = !details.isOpen();
+    details.setOpen(open);
+    const content = details.getContent();
+    if (!open && caretNode && content && content.isParentOf(caretNode)) {
+      details.getSummary()?.selectEnd();
+    }
+    success = true;
+  });
+
+  return success;
+}
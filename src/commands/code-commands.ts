@@ -0,0 +1,35 @@
+import { $getNodeByKey, LexicalEditor, NodeKey } from 'lexical';
+import { $isCodeNode } from '@lexical/code';
+import { normalizeCodeLanguage } from '../utils/code-languages';
+import { logCommandWarning } from '../utils/dev-logger';
+
+/**
+ * Set the language of a code block. Highlighting re-tokenizes the block
+ * in the same update, so one undo restores the previous language.
+ *
+ * @returns true if the language was set, false if blocked or unsupported
+ */
+export function setCodeLanguage(editor: LexicalEditor, key: NodeKey, language: string): boolean {
+  let success = false;
+  const normalized = normalizeCodeLanguage(language);
+
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  if (!normalized) {
+    logCommandWarning(`Code language "${language}" is not supported.`);
+    return false;
+  }
+
+  editor.update(() => {
+    const node = $getNodeByKey(key);
+    if ($isCodeNode(node)) {
+      node.setLanguage(normalized);
+      success = true;
+    }
+  });
+
+  return success;
+}
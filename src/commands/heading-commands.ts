@@ -1,26 +1,34 @@
 import { LexicalEditor } from 'lexical';
 import { $getSelection, $isRangeSelection, $createParagraphNode } from 'lexical';
 import { $setBlocksType } from '@lexical/selection';
-import { $createHeadingNode, $isHeadingNode } from '@lexical/rich-text';
+import { $isHeadingNode } from '@lexical/rich-text';
 import { $getNearestNodeOfType } from '@lexical/utils';
 import { $isListItemNode, ListItemNode } from '@lexical/list';
 import { BlockType, HeadingTagType } from '../types/editor-types';
-import { isAllowedHeadingTag } from '../constants/heading-policy';
+import {
+  describeAllowedHeadingTags,
+  getHeadingPolicy,
+  HeadingPolicy,
+  isAllowedHeadingTag
+} from '../constants/heading-policy';
+import { $createEditorHeadingNode } from '../nodes/CustomHeadingNode';
 import { logCommandWarning } from '../utils/dev-logger';
 
 /**
  * Format the selected blocks as a heading or paragraph.
  * Always blocks converting list items to maintain content structure.
  * Supports toggle behavior: clicking active heading switches to paragraph.
+ * Heading tags are checked against options.policy, defaulting to the editor's policy.
  * 
  * @returns true if the conversion was successful, false if blocked or failed
  */
 export function formatHeading(
   editor: LexicalEditor,
   blockType: BlockType,
-  options: { enableToggle?: boolean } = {}
+  options: { enableToggle?: boolean; policy?: HeadingPolicy } = {}
 ): boolean {
   let success = false;
+  const policy = options.policy ?? getHeadingPolicy(editor);
   
   // Early return if not editable
   if (!editor.isEditable()) {
@@ -55,8 +63,8 @@ export function formatHeading(
     }
 
     // Validate heading tags
-    if (blockType !== 'paragraph' && !isAllowedHeadingTag(blockType)) {
-      logCommandWarning(`Heading tag ${blockType} is not allowed. Use h1, h2, or h3.`);
+    if (blockType !== 'paragraph' && !isAllowedHeadingTag(blockType, policy)) {
+      logCommandWarning(`Heading tag ${blockType} is not allowed. Use ${describeAllowedHeadingTags(policy)}.`);
       return;
     }
 
@@ -65,7 +73,7 @@ export function formatHeading(
       if (blockType === 'paragraph') {
         $setBlocksType(selection, () => $createParagraphNode());
       } else {
-        $setBlocksType(selection, () => $createHeadingNode(blockType as HeadingTagType));
+        $setBlocksType(selection, () => $createEditorHeadingNode(blockType as HeadingTagType));
       }
       success = true;
     } catch (error) {
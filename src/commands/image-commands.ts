@@ -0,0 +1,136 @@
+import { $getNodeByKey, $getRoot, $getSelection, $insertNodes, $isRangeSelection, LexicalEditor, NodeKey } from 'lexical';
+import { $createImageNode, $isImageNode, ImagePayload } from '../nodes/ImageNode';
+import { isAllowedImageSrc } from '../config/sanitization-config';
+import { getImageFiles, getImageUploadAdapter, parseImageWidth } from '../utils/images';
+import { logDevWarning } from '../utils/dev-logger';
+
+/**
+ * Editable image attributes; omitted ones are left as they are.
+ */
+export interface ImageAttributes {
+  altText?: string;
+  caption?: string;
+  /** null restores the natural width */
+  width?: number | null;
+}
+
+/**
+ * Insert an image at the caret.
+ *
+ * @returns true if the image was inserted, false if blocked or the source is not allowed
+ */
+export function insertImage(editor: LexicalEditor, payload: ImagePayload): boolean {
+  let success = false;
+
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  if (!isAllowedImageSrc(payload.src)) {
+    logDevWarning('Images', 'Image not inserted: source is not allowed');
+    return false;
+  }
+
+  editor.update(() => {
+    if (!$isRangeSelection($getSelection())) {
+      logDevWarning('Images', 'Image not inserted: no caret in the document');
+      return;
+    }
+    $insertNodes([$createImageNode(payload)]);
+    success = true;
+  });
+
+  return success;
+}
+
+/**
+ * Upload image files through the editor's ImageUploadAdapter and insert the
+ * stored images at the selection, in one update. Files that are not
+ * accepted images or fail to upload are skipped.
+ *
+ * Uploads are asynchronous: the images land wherever the selection is once
+ * they finish, or at the end of the document if the editor lost it. Failed
+ * uploads are reported through logDevWarning and never reject the promise.
+ *
+ * @returns true if at least one image was inserted
+ */
+export async function insertImageFiles(editor: LexicalEditor, files: ArrayLike<File>): Promise<boolean> {
+  const images = getImageFiles(files);
+
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  if (images.length === 0) {
+    logDevWarning('Images', 'No supported image files to insert');
+    return false;
+  }
+
+  const adapter = getImageUploadAdapter(editor);
+  // An adapter may also throw synchronously; either way only that file is skipped
+  const results = await Promise.allSettled(images.map(file => Promise.resolve().then(() => adapter.upload(file))));
+  const sources = results.flatMap((result, index) => {
+    if (result.status === 'rejected') {
+      logDevWarning('Images', `Upload of "${images[index].name}" failed: ${result.reason}`);
+      return [];
+    }
+    if (!isAllowedImageSrc(result.value.src)) {
+      logDevWarning('Images', `Upload of "${images[index].name}" returned a source that is not allowed`);
+      return [];
+    }
+    return [result.value.src];
+  });
+
+  // The editor may have turned read-only while uploading
+  if (sources.length === 0 || !editor.isEditable()) {
+    return false;
+  }
+
+  editor.update(() => {
+    const selection = $getSelection() ?? $getRoot().selectEnd();
+    selection.insertNodes(sources.map(src => $createImageNode({ src })));
+  });
+
+  return true;
+}
+
+/**
+ * Update an image's alt text, caption or width.
+ *
+ * @returns true if the image was updated, false if blocked or the width is out of bounds
+ */
+export function setImageAttributes(editor: LexicalEditor, key: NodeKey, attributes: ImageAttributes): boolean {
+  let success = false;
+  const { altText, caption, width } = attributes;
+
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  if (width !== undefined && width !== null && parseImageWidth(width) === null) {
+    logDevWarning('Images', `Image width ${width} is out of bounds`);
+    return false;
+  }
+
+  editor.update(() => {
+    const node = $getNodeByKey(key);
+    if (!$isImageNode(node)) {
+      return;
+    }
+    if (altText !== undefined) {
+      node.setAltText(altText.trim());
+    }
+    if (caption !== undefined) {
+      node.setCaption(caption.trim());
+    }
+    if (width !== undefined) {
+      node.setWidth(width);
+    }
+    success = true;
+  });
+
+  return success;
+}
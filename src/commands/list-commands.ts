@@ -0,0 +1,97 @@
+import { LexicalEditor } from 'lexical';
+import { $getSelection, $isRangeSelection } from 'lexical';
+import {
+  $createListNode,
+  INSERT_CHECK_LIST_COMMAND,
+  INSERT_ORDERED_LIST_COMMAND,
+  INSERT_UNORDERED_LIST_COMMAND,
+  ListNode,
+  REMOVE_LIST_COMMAND
+} from '@lexical/list';
+import { $getNearestNodeOfType } from '@lexical/utils';
+import { ListBlockType } from '../types/editor-types';
+import { logDevWarning } from '../utils/dev-logger';
+
+const INSERT_LIST_COMMANDS = {
+  bullet: INSERT_UNORDERED_LIST_COMMAND,
+  number: INSERT_ORDERED_LIST_COMMAND,
+  check: INSERT_CHECK_LIST_COMMAND,
+} as const;
+
+/**
+ * Get the list type at the selection anchor, using the innermost list
+ * so nested lists of a different type report correctly.
+ * Must be called inside an editor read or update.
+ */
+export function $getSelectedListType(): ListBlockType | null {
+  const selection = $getSelection();
+  if (!$isRangeSelection(selection)) {
+    return null;
+  }
+
+  const list = $getNearestNodeOfType(selection.anchor.getNode(), ListNode);
+  return list ? list.getListType() : null;
+}
+
+/**
+ * Format the selected blocks as a list of the given type.
+ * Toggle behavior: applying the active list type removes the list.
+ *
+ * @returns true if the command was dispatched, false if blocked
+ */
+export function formatList(editor: LexicalEditor, listType: ListBlockType): boolean {
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  let currentType: ListBlockType | null = null;
+  editor.getEditorState().read(() => {
+    currentType = $getSelectedListType();
+  });
+
+  if (currentType === listType) {
+    return editor.dispatchCommand(REMOVE_LIST_COMMAND, undefined);
+  }
+
+  return editor.dispatchCommand(INSERT_LIST_COMMANDS[listType], undefined);
+}
+
+/**
+ * Set the start value of the numbered list at the selection.
+ * ListNode has no start setter (and does not re-render its start
+ * attribute), so the list is replaced with an equivalent node that keeps
+ * its children, format, indent and direction.
+ *
+ * @returns true if the start value was applied
+ */
+export function setListStart(editor: LexicalEditor, start: number): boolean {
+  if (!editor.isEditable() || !Number.isInteger(start) || start < 0) {
+    return false;
+  }
+
+  let success = false;
+  editor.update(() => {
+    const selection = $getSelection();
+    if (!$isRangeSelection(selection)) {
+      return;
+    }
+
+    const list = $getNearestNodeOfType(selection.anchor.getNode(), ListNode);
+    if (!list || list.getListType() !== 'number') {
+      logDevWarning('formatList', 'List start can only be set on numbered lists.');
+      return;
+    }
+
+    if (list.getStart() !== start) {
+      const replacement = $createListNode('number', start);
+      replacement.setFormat(list.getFormatType());
+      replacement.setIndent(list.getIndent());
+      replacement.setDirection(list.getDirection());
+      list.replace(replacement, true);
+    }
+    success = true;
+  });
+
+  return success;
+}
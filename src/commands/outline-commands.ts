@@ -0,0 +1,136 @@
+import { $getNodeByKey, $getSelection, $isRangeSelection, LexicalEditor, NodeKey } from 'lexical';
+import { $isHeadingNode } from '@lexical/rich-text';
+import { $insertNodeToNearestRoot } from '@lexical/utils';
+import { $isCustomHeadingNode } from '../nodes/CustomHeadingNode';
+import { $createTableOfContentsNode } from '../nodes/TableOfContentsNode';
+import { $resetHeadingSlug } from '../utils/heading-anchors';
+import { $getCaretHeading, $moveSection, SectionDropPosition } from '../utils/outline';
+import { $isFoldableHeading, $setSectionCollapsed } from '../utils/section-folding';
+import { logDevWarning } from '../utils/dev-logger';
+
+/**
+ * Move a whole section (heading plus its content) next to another heading.
+ * Runs as a single update, so one undo restores the previous order.
+ *
+ * @returns true if the section was moved, false if blocked or a no-op
+ */
+export function moveSection(
+  editor: LexicalEditor,
+  sourceKey: NodeKey,
+  targetKey: NodeKey,
+  position: SectionDropPosition
+): boolean {
+  let success = false;
+
+  // Early return if not editable
+  if (!editor.isEditable() || sourceKey === targetKey) {
+    return false;
+  }
+
+  editor.update(() => {
+    success = $moveSection(sourceKey, targetKey, position);
+
+    if (!success) {
+      logDevWarning('Outline', 'Section not moved: target is inside the section or not a top-level heading');
+    }
+  });
+
+  return success;
+}
+
+/**
+ * Put the caret at the start of a heading.
+ *
+ * @returns true if the heading exists
+ */
+export function selectHeading(editor: LexicalEditor, key: NodeKey): boolean {
+  let success = false;
+
+  editor.update(() => {
+    const heading = $getNodeByKey(key);
+    if ($isHeadingNode(heading)) {
+      heading.selectStart();
+      success = true;
+    }
+  });
+
+  return success;
+}
+
+/**
+ * Derive a heading's anchor from its current text again.
+ * Existing links to the section stop working.
+ *
+ * @returns the new slug, or null if blocked or the heading has no anchor support
+ */
+export function resetHeadingAnchor(editor: LexicalEditor, key: NodeKey): string | null {
+  let slug: string | null = null;
+
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return null;
+  }
+
+  editor.update(() => {
+    const heading = $getNodeByKey(key);
+    if ($isCustomHeadingNode(heading)) {
+      slug = $resetHeadingSlug(heading);
+    } else {
+      logDevWarning('Outline', 'Anchor not reset: node is not a CustomHeadingNode');
+    }
+  });
+
+  return slug;
+}
+
+/**
+ * Fold or unfold a section. Without a key, toggles the section holding the
+ * caret; folding from inside the section moves the caret to its heading.
+ *
+ * @returns true if the section was toggled
+ */
+export function toggleSection(editor: LexicalEditor, key?: NodeKey): boolean {
+  let success = false;
+
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  editor.update(() => {
+    const heading = key === undefined ? $getCaretHeading() : $getNodeByKey(key);
+    if (!heading || !$isFoldableHeading(heading)) {
+      logDevWarning('Outline', 'Section not toggled: no top-level heading with content to fold');
+      return;
+    }
+    $setSectionCollapsed(heading, !heading.isCollapsed());
+    success = true;
+  });
+
+  return success;
+}
+
+/**
+ * Insert a table of contents block at the caret, splitting the block there.
+ *
+ * @returns true if the block was inserted
+ */
+export function insertTableOfContents(editor: LexicalEditor): boolean {
+  let success = false;
+
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  editor.update(() => {
+    if (!$isRangeSelection($getSelection())) {
+      logDevWarning('Outline', 'Table of contents not inserted: no caret in the document');
+      return;
+    }
+    $insertNodeToNearestRoot($createTableOfContentsNode());
+    success = true;
+  });
+
+  return success;
+}
@@ -0,0 +1,28 @@
+import { LexicalCommand, RangeSelection, createCommand } from 'lexical';
+import { $getNearestNodeOfType } from '@lexical/utils';
+import { ListItemNode } from '@lexical/list';
+import { normalizePlainTextPaste } from '../utils/list-normalization';
+
+/**
+ * Insert the payload as unformatted text at the current selection.
+ * Bound to Mod+Shift+V by SmartPastePlugin and exposed in the toolbar.
+ */
+export const PASTE_AS_PLAIN_TEXT_COMMAND: LexicalCommand<string> = createCommand('PASTE_AS_PLAIN_TEXT_COMMAND');
+
+/**
+ * Insert plain text at the selection with NBSP and list-prefix normalization.
+ * Must be called inside an editor update.
+ *
+ * @returns true if any text was inserted
+ */
+export function $insertPlainText(selection: RangeSelection, text: string): boolean {
+  const listItem = $getNearestNodeOfType(selection.anchor.getNode(), ListItemNode);
+  const normalized = normalizePlainTextPaste(text, { insideListItem: listItem !== null });
+
+  if (!normalized.trim()) {
+    return false;
+  }
+
+  selection.insertRawText(normalized);
+  return true;
+}
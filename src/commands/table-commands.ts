@@ -0,0 +1,152 @@
+import { $getNodeByKey, $getSelection, $isRangeSelection, LexicalEditor, NodeKey } from 'lexical';
+import {
+  $createTableNodeWithDimensions,
+  $deleteTableColumn__EXPERIMENTAL,
+  $deleteTableRow__EXPERIMENTAL,
+  $getTableNodeFromLexicalNodeOrThrow,
+  $insertTableColumn__EXPERIMENTAL,
+  $insertTableRow__EXPERIMENTAL,
+  $isTableCellNode,
+  TableCellNode
+} from '@lexical/table';
+import { $insertNodeToNearestRoot } from '@lexical/utils';
+import { $getSelectedTableCell, $hasHeaderRow, $setHeaderRow } from '../utils/tables';
+import { logDevWarning } from '../utils/dev-logger';
+
+export interface TableDimensions {
+  rows: number;
+  columns: number;
+}
+
+const DEFAULT_TABLE_DIMENSIONS: TableDimensions = { rows: 3, columns: 3 };
+
+/**
+ * Cell a table command acts on: the given cell, with the caret moved into it
+ * unless the selection is already there, else the cell holding the caret.
+ */
+function $resolveTableCell(cellKey?: NodeKey): TableCellNode | null {
+  const selected = $getSelectedTableCell();
+  if (cellKey === undefined || selected?.getKey() === cellKey) {
+    return selected;
+  }
+
+  const cell = $getNodeByKey(cellKey);
+  if (!$isTableCellNode(cell)) {
+    return null;
+  }
+  cell.selectStart();
+  return cell;
+}
+
+/**
+ * Run a table edit on a cell as a single update (one undo step).
+ */
+function updateTableCell(
+  editor: LexicalEditor,
+  cellKey: NodeKey | undefined,
+  action: string,
+  edit: (cell: TableCellNode) => void
+): boolean {
+  let success = false;
+
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  editor.update(() => {
+    const cell = $resolveTableCell(cellKey);
+    if (!cell) {
+      logDevWarning('Tables', `${action}: no table cell at the caret`);
+      return;
+    }
+    edit(cell);
+    success = true;
+  });
+
+  return success;
+}
+
+/**
+ * Insert a table at the caret, splitting the block there, with a header row
+ * and the caret in the first cell.
+ *
+ * @returns true if the table was inserted
+ */
+export function insertTable(editor: LexicalEditor, { rows, columns }: TableDimensions = DEFAULT_TABLE_DIMENSIONS): boolean {
+  let success = false;
+
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  editor.update(() => {
+    if (!$isRangeSelection($getSelection())) {
+      logDevWarning('Tables', 'Table not inserted: no caret in the document');
+      return;
+    }
+    if ($getSelectedTableCell()) {
+      logDevWarning('Tables', 'Table not inserted: tables cannot be nested');
+      return;
+    }
+    const table = $createTableNodeWithDimensions(rows, columns, { rows: true, columns: false });
+    $insertNodeToNearestRoot(table);
+    table.selectStart();
+    success = true;
+  });
+
+  return success;
+}
+
+/**
+ * Insert an empty row above or below the cell's row.
+ */
+export function insertTableRow(editor: LexicalEditor, position: 'above' | 'below', cellKey?: NodeKey): boolean {
+  return updateTableCell(editor, cellKey, 'Row not inserted', () => {
+    $insertTableRow__EXPERIMENTAL(position === 'below');
+  });
+}
+
+/**
+ * Insert an empty column left or right of the cell's column.
+ */
+export function insertTableColumn(editor: LexicalEditor, position: 'left' | 'right', cellKey?: NodeKey): boolean {
+  return updateTableCell(editor, cellKey, 'Column not inserted', () => {
+    $insertTableColumn__EXPERIMENTAL(position === 'right');
+  });
+}
+
+/**
+ * Delete the cell's row; deleting the last row removes the table.
+ */
+export function deleteTableRow(editor: LexicalEditor, cellKey?: NodeKey): boolean {
+  return updateTableCell(editor, cellKey, 'Row not deleted', (cell) => {
+    const table = $getTableNodeFromLexicalNodeOrThrow(cell);
+    if (table.getChildrenSize() === 1) {
+      table.selectPrevious();
+      table.remove();
+      return;
+    }
+    $deleteTableRow__EXPERIMENTAL();
+  });
+}
+
+/**
+ * Delete the cell's column; deleting the last column removes the table.
+ */
+export function deleteTableColumn(editor: LexicalEditor, cellKey?: NodeKey): boolean {
+  return updateTableCell(editor, cellKey, 'Column not deleted', () => {
+    $deleteTableColumn__EXPERIMENTAL();
+  });
+}
+
+/**
+ * Turn the first row of the cell's table into a header row, or back.
+ */
+export function toggleTableHeaderRow(editor: LexicalEditor, cellKey?: NodeKey): boolean {
+  return updateTableCell(editor, cellKey, 'Header row not toggled', (cell) => {
+    const table = $getTableNodeFromLexicalNodeOrThrow(cell);
+    $setHeaderRow(table, !$hasHeaderRow(table));
+  });
+}
@@ -1,19 +1,40 @@
-import { HeadingNode, QuoteNode } from '@lexical/rich-text';
+import { QuoteNode } from '@lexical/rich-text';
 import { ListNode, ListItemNode } from '@lexical/list';
-import { CodeNode } from '@lexical/code';
+import { CodeHighlightNode, CodeNode } from '@lexical/code';
+import { LinkNode, AutoLinkNode } from '@lexical/link';
+import { HorizontalRuleNode } from '@lexical/react/LexicalHorizontalRuleNode';
+import { TableCellNode, TableNode, TableRowNode } from '@lexical/table';
 import { ParagraphNode, TextNode } from 'lexical';
+import { CalloutNode } from '../nodes/CalloutNode';
+import { CustomHeadingNode } from '../nodes/CustomHeadingNode';
+import { DetailsContentNode, DetailsNode, DetailsSummaryNode } from '../nodes/DetailsNode';
+import { ImageNode } from '../nodes/ImageNode';
+import { TableOfContentsNode } from '../nodes/TableOfContentsNode';
 import theme from '../theme';
 
 export const editorConfig = {
   namespace: 'ProductionEditor',
   nodes: [
-    HeadingNode, // Stock node with policy enforced via HeadingPolicyPlugin
+    CustomHeadingNode, // Section anchors; policy enforced via HeadingPolicyPlugin
     ParagraphNode,
     TextNode,
     QuoteNode,
+    CalloutNode, // Info/warning/danger/success blocks, see utils/callouts
+    DetailsNode, // Toggle blocks; structure kept valid by DetailsPlugin
+    DetailsSummaryNode,
+    DetailsContentNode,
     ListNode,
     ListItemNode,
     CodeNode,
+    CodeHighlightNode, // Syntax tokens, see CodeHighlightPlugin
+    LinkNode, // Scheme allowlist enforced via LinkPolicyPlugin
+    AutoLinkNode,
+    TableOfContentsNode, // Live list of headings, see utils/toc
+    HorizontalRuleNode, // Divider; selected and deleted through its decorator
+    TableNode, // Tables, see TableEditingPlugin and TableCellContextMenu
+    TableRowNode,
+    TableCellNode,
+    ImageNode, // Stored by URL via the ImageUploadAdapter, see utils/images
   ],
   theme: {
     ...theme,
@@ -21,6 +42,9 @@ export const editorConfig = {
       h1: 'editor-h1',
       h2: 'editor-h2', 
       h3: 'editor-h3',
+      h4: 'editor-h4',
+      h5: 'editor-h5',
+      h6: 'editor-h6',
     }
   },
   onError: (error: Error) => {
@@ -0,0 +1,369 @@
+/**
+ * Markdown transformer set shared by import, export and typing shortcuts.
+ *
+ * Covers exactly the nodes registered in editorConfig. The stock HEADING
+ * transformer is replaced so imported headings go through the same heading
+ * policy that HeadingPolicyPlugin enforces (#### becomes h3 under H1-H3).
+ */
+
+import {
+  $convertFromMarkdownString,
+  BOLD_ITALIC_STAR,
+  BOLD_ITALIC_UNDERSCORE,
+  BOLD_STAR,
+  BOLD_UNDERSCORE,
+  CHECK_LIST,
+  CODE,
+  ElementTransformer,
+  HEADING,
+  INLINE_CODE,
+  ITALIC_STAR,
+  ITALIC_UNDERSCORE,
+  LINK,
+  ORDERED_LIST,
+  QUOTE,
+  TextMatchTransformer,
+  Transformer,
+  UNORDERED_LIST,
+} from '@lexical/markdown';
+import { $isCodeNode } from '@lexical/code';
+import {
+  $computeTableMapSkipCellCheck,
+  $createTableCellNode,
+  $createTableNode,
+  $createTableRowNode,
+  $isTableCellNode,
+  $isTableNode,
+  $isTableRowNode,
+  TableCellHeaderStates,
+  TableCellNode,
+  TableNode,
+  TableRowNode
+} from '@lexical/table';
+import {
+  $createHorizontalRuleNode,
+  $isHorizontalRuleNode,
+  HorizontalRuleNode
+} from '@lexical/react/LexicalHorizontalRuleNode';
+import { $isHeadingNode } from '@lexical/rich-text';
+import {
+  $createLineBreakNode,
+  $createParagraphNode,
+  $createTextNode,
+  $isElementNode,
+  NodeKey
+} from 'lexical';
+import {
+  $getHeadingPolicy,
+  ALL_HEADING_TAGS,
+  createHeadingPolicy,
+  getHeadingLevel,
+  normalizeHeadingTag
+} from '../constants/heading-policy';
+import { $createCalloutNode, $isCalloutNode, CalloutNode } from '../nodes/CalloutNode';
+import { $createEditorHeadingNode } from '../nodes/CustomHeadingNode';
+import { $createImageNode, $isImageNode, ImageNode } from '../nodes/ImageNode';
+import {
+  $createTableOfContentsNode,
+  $isTableOfContentsNode,
+  TableOfContentsNode
+} from '../nodes/TableOfContentsNode';
+import { isAllowedImageSrc } from './sanitization-config';
+import { CALLOUT_GITHUB_ALERTS, GITHUB_ALERT_VARIANTS } from '../utils/callouts';
+import { normalizeCodeLanguage, PLAIN_CODE_LANGUAGE } from '../utils/code-languages';
+import {
+  $hasHeaderRow,
+  formatTableDelimiterRow,
+  formatTableRow,
+  isTableDelimiterRow,
+  parseTableRow
+} from '../utils/tables';
+import { $getTocEntries, tocToMarkdown } from '../utils/toc';
+
+/**
+ * Heading transformer that maps levels onto the active editor's heading policy.
+ * Export is unchanged: the tree never contains disallowed levels.
+ */
+export const POLICY_HEADING: ElementTransformer = {
+  ...HEADING,
+  replace: (parentNode, children, match) => {
+    const tag = normalizeHeadingTag(`h${match[1].length}`, $getHeadingPolicy());
+    const node = tag ? $createEditorHeadingNode(tag) : $createParagraphNode();
+    node.append(...children);
+    parentNode.replace(node);
+    node.select(0, 0);
+  },
+};
+
+/**
+ * Fenced code transformer that keeps the block language on the fence.
+ * Plain text blocks export a bare fence, as they were most likely written.
+ */
+export const CODE_BLOCK: ElementTransformer = {
+  ...CODE,
+  export: (node) => {
+    if (!$isCodeNode(node)) {
+      return null;
+    }
+    const language = node.getLanguage();
+    const fence = normalizeCodeLanguage(language) === PLAIN_CODE_LANGUAGE ? '' : language ?? '';
+    const textContent = node.getTextContent();
+    return '```' + fence + (textContent ? '\n' + textContent : '') + '\n```';
+  },
+};
+
+/**
+ * Quote transformer whose lines also continue a callout right above them,
+ * since a GitHub alert is a quote whose first line is "[!NOTE]".
+ */
+export const QUOTE_BLOCK: ElementTransformer = {
+  ...QUOTE,
+  replace: (parentNode, children, match, isImport) => {
+    const callout = isImport ? parentNode.getPreviousSibling() : null;
+    if (!$isCalloutNode(callout)) {
+      QUOTE.replace(parentNode, children, match, isImport);
+      return;
+    }
+    if (!callout.isEmpty()) {
+      callout.append($createLineBreakNode());
+    }
+    callout.append(...children);
+    parentNode.remove();
+  },
+};
+
+/**
+ * Callout as a GitHub alert ("> [!WARNING]" followed by quoted lines). The
+ * variant maps onto the closest alert type; the icon has no Markdown syntax
+ * and is not exported. Must come before QUOTE_BLOCK, which continues it.
+ * Listed only in MARKDOWN_TRANSFORMERS: it is not a typing shortcut.
+ */
+export const CALLOUT: ElementTransformer = {
+  dependencies: [CalloutNode],
+  export: (node, exportChildren) => {
+    if (!$isCalloutNode(node)) {
+      return null;
+    }
+    const content = exportChildren(node);
+    const lines = content ? content.split('\n').map(line => `> ${line}`) : [];
+    return [`> [!${CALLOUT_GITHUB_ALERTS[node.getVariant()]}]`, ...lines].join('\n');
+  },
+  regExp: new RegExp(`^>\\s?\\[!(${Object.keys(GITHUB_ALERT_VARIANTS).join('|')})\\]\\s*$`, 'i'),
+  replace: (parentNode, _children, match) => {
+    parentNode.replace($createCalloutNode(GITHUB_ALERT_VARIANTS[match[1].toUpperCase()]));
+  },
+  type: 'element',
+};
+
+/**
+ * Thematic break ("---", "***" or "___" on its own line) as a divider.
+ * Typed as a shortcut, the divider goes above the current block, which keeps
+ * the caret and anything after it.
+ */
+export const HORIZONTAL_RULE: ElementTransformer = {
+  dependencies: [HorizontalRuleNode],
+  export: (node) => {
+    return $isHorizontalRuleNode(node) ? '---' : null;
+  },
+  regExp: /^(?:---|\*\*\*|___)\s?$/,
+  replace: (parentNode, _children, _match, isImport) => {
+    const rule = $createHorizontalRuleNode();
+    if (isImport) {
+      parentNode.replace(rule);
+      return;
+    }
+    parentNode.insertBefore(rule);
+    parentNode.selectStart();
+  },
+  type: 'element',
+};
+
+const IMAGE_PATTERN = String.raw`!\[((?:[^\]\\]|\\.)*)\]\(([^()\s]+)(?:\s+"((?:[^"\\]|\\.)*)")?\)`;
+
+const escapeImageText = (text: string, special: RegExp) => text.replace(special, char => `\\${char}`);
+const unescapeImageText = (text: string) => text.replace(/\\(.)/g, '$1');
+
+/**
+ * Image as ![alt](src "caption"). Sources outside the image allowlist stay
+ * literal text. The width has no Markdown syntax and is not exported.
+ * Must come before LINK, which would otherwise take the "[alt](src)" part.
+ */
+export const IMAGE: TextMatchTransformer = {
+  dependencies: [ImageNode],
+  export: (node) => {
+    if (!$isImageNode(node)) {
+      return null;
+    }
+    // Markdown destinations end at whitespace or an unbalanced paren
+    const src = node.getSrc().replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+    const caption = node.getCaption();
+    const title = caption ? ` "${escapeImageText(caption, /["\\]/g)}"` : '';
+    return `![${escapeImageText(node.getAltText(), /[[\]\\]/g)}](${src}${title})`;
+  },
+  importRegExp: new RegExp(IMAGE_PATTERN),
+  regExp: new RegExp(`${IMAGE_PATTERN}$`),
+  replace: (textNode, match) => {
+    const [, altText, src, caption = ''] = match;
+    if (!isAllowedImageSrc(src)) {
+      return;
+    }
+    textNode.replace($createImageNode({
+      src,
+      altText: unescapeImageText(altText),
+      caption: unescapeImageText(caption),
+    }));
+  },
+  trigger: ')',
+  type: 'text-match',
+};
+
+/**
+ * Cell content: inline Markdown, with "<br>" separating paragraphs since a
+ * table row must stay on one line.
+ */
+function $createMarkdownTableCell(markdown: string): TableCellNode {
+  const cell = $createTableCellNode(TableCellHeaderStates.NO_STATUS);
+  $convertFromMarkdownString(markdown.replace(/<br\s*\/?>/gi, '\n'), MARKDOWN_TEXT_TRANSFORMERS, cell);
+  return cell;
+}
+
+/**
+ * GFM table. Each "| a | b |" line becomes a row of the table right above
+ * it, if the column count matches, or starts a new table; the delimiter row
+ * turns the first row into a header row. Tables without a header row export
+ * without a delimiter row, so they round-trip unchanged.
+ * Merged cells export their content once, at their top-left position.
+ * Listed only in MARKDOWN_TRANSFORMERS: it is not a typing shortcut.
+ */
+export const TABLE: ElementTransformer = {
+  dependencies: [TableNode, TableRowNode, TableCellNode],
+  export: (node, exportChildren) => {
+    if (!$isTableNode(node)) {
+      return null;
+    }
+    const [map] = $computeTableMapSkipCellCheck(node, null, null);
+    const lines = map.map((row, rowIndex) => formatTableRow(row.map(({ cell, startRow, startColumn }, columnIndex) =>
+      startRow === rowIndex && startColumn === columnIndex
+        ? cell.getChildren().map(child => ($isElementNode(child) ? exportChildren(child) : child.getTextContent())).join('<br>')
+        : ''
+    )));
+    if ($hasHeaderRow(node)) {
+      lines.splice(1, 0, formatTableDelimiterRow(map[0]?.length ?? 0));
+    }
+    return lines.join('\n');
+  },
+  regExp: /^\|.+\|\s*$/,
+  replace: (parentNode, _children, match) => {
+    const previous = parentNode.getPreviousSibling();
+    const cells = parseTableRow(match[0]);
+
+    if (isTableDelimiterRow(match[0])) {
+      const headerRow = $isTableNode(previous) && previous.getChildrenSize() === 1 ? previous.getFirstChild() : null;
+      if ($isTableRowNode(headerRow)) {
+        headerRow.getChildren().filter($isTableCellNode).forEach(cell => cell.setHeaderStyles(TableCellHeaderStates.ROW));
+        parentNode.remove();
+      } else {
+        // Not under a table's first row: keep the line as text
+        parentNode.append($createTextNode(match[0]));
+      }
+      return;
+    }
+    if (!cells) {
+      return;
+    }
+    const row = $createTableRowNode().append(...cells.map($createMarkdownTableCell));
+    const table = $isTableNode(previous) ? previous : null;
+    const previousRow = table?.getLastChild();
+    if (table && $isTableRowNode(previousRow) && previousRow.getChildrenSize() === cells.length) {
+      table.append(row);
+      parentNode.remove();
+      return;
+    }
+    parentNode.replace($createTableNode().append(row));
+  },
+  type: 'element',
+};
+
+// Markdown export reads a bare editor state, so the editor's policy is unknown.
+// The tree only holds allowed levels already, and nesting depends on their order alone.
+const TOC_EXPORT_POLICY = createHeadingPolicy(ALL_HEADING_TAGS);
+
+/**
+ * Table of contents: exported as a nested list of anchor links, so the
+ * Markdown stays readable anywhere. A "[TOC]" line imports as a live TOC.
+ * Listed only in MARKDOWN_TRANSFORMERS: it is not a typing shortcut.
+ */
+export const TABLE_OF_CONTENTS: ElementTransformer = {
+  dependencies: [TableOfContentsNode],
+  export: (node) => {
+    if (!$isTableOfContentsNode(node)) {
+      return null;
+    }
+    return tocToMarkdown($getTocEntries(TOC_EXPORT_POLICY));
+  },
+  regExp: /^\[TOC\]\s*$/i,
+  replace: (parentNode) => {
+    parentNode.replace($createTableOfContentsNode());
+  },
+  type: 'element',
+};
+
+/**
+ * Heading transformer that exports section numbers ("## 1.2 Setup").
+ * Export-only: list it before MARKDOWN_TRANSFORMERS so it wins for headings.
+ *
+ * @param numbers section numbers by heading key, from $getSectionNumbers
+ */
+export function createSectionNumberedHeading(numbers: ReadonlyMap<NodeKey, string>): ElementTransformer {
+  return {
+    ...POLICY_HEADING,
+    export: (node, exportChildren) => {
+      const number = numbers.get(node.getKey());
+      if (!$isHeadingNode(node) || !number) {
+        return null;
+      }
+      return `${'#'.repeat(getHeadingLevel(node.getTag()))} ${number} ${exportChildren(node)}`;
+    },
+  };
+}
+
+/**
+ * Block-level transformers, in match priority order.
+ * CHECK_LIST must precede UNORDERED_LIST, which would otherwise claim "- [ ]".
+ */
+export const MARKDOWN_ELEMENT_TRANSFORMERS: ElementTransformer[] = [
+  POLICY_HEADING,
+  QUOTE_BLOCK,
+  CODE_BLOCK,
+  HORIZONTAL_RULE,
+  CHECK_LIST,
+  UNORDERED_LIST,
+  ORDERED_LIST,
+];
+
+/**
+ * Inline transformers, also used for table cell content.
+ * Text-format order matters: combined bold+italic must match before bold or italic alone.
+ */
+export const MARKDOWN_TEXT_TRANSFORMERS: Transformer[] = [
+  INLINE_CODE,
+  BOLD_ITALIC_STAR,
+  BOLD_ITALIC_UNDERSCORE,
+  BOLD_STAR,
+  BOLD_UNDERSCORE,
+  ITALIC_STAR,
+  ITALIC_UNDERSCORE,
+  IMAGE,
+  LINK,
+];
+
+/**
+ * All transformers for the editor's supported Markdown subset.
+ */
+export const MARKDOWN_TRANSFORMERS: Transformer[] = [
+  TABLE_OF_CONTENTS,
+  TABLE,
+  CALLOUT,
+  ...MARKDOWN_ELEMENT_TRANSFORMERS,
+  ...MARKDOWN_TEXT_TRANSFORMERS,
+];
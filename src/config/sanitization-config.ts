@@ -6,6 +6,15 @@
  */
 
 import DOMPurify from 'dompurify';
+import {
+  CALLOUT_EMOJI_ATTRIBUTE,
+  CALLOUT_VARIANT_ATTRIBUTE,
+  CalloutStyle,
+  getCalloutChrome,
+  getCalloutFromElement
+} from '../utils/callouts';
+import { getCodeLanguageFromElement } from '../utils/code-languages';
+import { parseImageWidth } from '../utils/images';
 
 // Guard to prevent duplicate hook registration during HMR/React StrictMode
 let hooksRegistered = false;
@@ -17,18 +26,28 @@ let hooksRegistered = false;
 export const ALLOWED_TAGS = [
   // Block elements
   'p',           // ParagraphNode
-  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', // HeadingNode (h4-h6 will be normalized to h3 by Stage 2)
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', // HeadingNode (levels outside the HeadingPolicy are normalized by Stage 2)
   'ul', 'ol',    // ListNode
   'li',          // ListItemNode
   'blockquote',  // QuoteNode
-  'pre',         // CodeNode (block)
+  'aside',       // CalloutNode; other tools' callout markup is rewritten to it by Hook 6
+  'pre',         // CodeNode (block); keeps a language-x class, see Hook 3
   'hr',          // HorizontalRuleNode
+  'table',       // TableNode
+  'thead', 'tbody', 'tfoot', // Row groups: their rows go straight into the TableNode
+  'tr',          // TableRowNode
+  'th', 'td',    // TableCellNode (th: header cell); spans validated by Hook 4
+  'figure',      // Unwrapped; its figcaption becomes the caption of the ImageNode inside
+  'figcaption',
+  'details',     // DetailsNode (toggle); open state validated by Hook 7
+  'summary',     // DetailsSummaryNode
   
   // Inline elements
   'strong',      // TextNode with bold format
   'em',          // TextNode with italic format
   'code',        // TextNode with code format
   'a',           // LinkNode
+  'img',         // ImageNode; src and width validated by Hook 5
   'br'           // LineBreakNode
 ] as const;
 
@@ -38,9 +57,23 @@ export const ALLOWED_TAGS = [
  */
 export const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
   a: ['href', 'title', 'target', 'rel'], // Links: allow title for accessibility
+  td: ['colspan', 'rowspan'], // Merged cells
+  th: ['colspan', 'rowspan'],
+  img: ['src', 'alt', 'title', 'width'], // title: exported caption
+  details: ['open'],
   // All other tags: no attributes allowed (removes style, onclick, etc.)
 };
 
+/**
+ * Largest colspan/rowspan kept on paste. Spans expand into the table map,
+ * so an oversized one would create a huge table from a tiny paste.
+ */
+export const MAX_TABLE_CELL_SPAN = 100;
+
+const CELL_SPAN_ATTRIBUTES = ['colspan', 'rowspan'];
+
+const IMAGE_ONLY_ATTRIBUTES = ['src', 'alt', 'width'];
+
 /**
  * Explicitly allowed URI schemes - only safe protocols.
  */
@@ -52,6 +85,44 @@ export const ALLOWED_SCHEMES = ['http', 'https', 'mailto'] as const;
  */
 export const ALLOWED_URI_REGEXP = /^(?:https?:|mailto:|#)/i;
 
+/**
+ * Image source validation: web URLs, blob: URLs from the upload adapter,
+ * and inline raster data. SVG data URLs are rejected since SVG can carry script.
+ */
+export const ALLOWED_IMAGE_SRC_REGEXP = /^(?:https?:|blob:|data:image\/(?:png|gif|jpeg|webp);base64,)/i;
+
+/**
+ * Whitespace and control characters browsers ignore inside URL schemes
+ * (e.g. "java\tscript:"). Mirrors DOMPurify's ATTR_WHITESPACE stripping.
+ */
+const URL_WHITESPACE = /[\u0000-\u0020\u00A0\u1680\u180E\u2000-\u2029\u205F\u3000]/g;
+
+/**
+ * Check a URL against the same allowlist DOMPurify enforces on paste.
+ * Used by every non-HTML insert path (JSON import, link editing, programmatic
+ * insertion) so links are held to one policy regardless of origin.
+ */
+export function isAllowedUrl(url: string): boolean {
+  if (!url || typeof url !== 'string') {
+    return false;
+  }
+
+  const normalized = url.replace(URL_WHITESPACE, '');
+  return ALLOWED_URI_REGEXP.test(normalized);
+}
+
+/**
+ * Check an image source against ALLOWED_IMAGE_SRC_REGEXP. Every path that
+ * creates an ImageNode (paste, Markdown, JSON, uploads) goes through it.
+ */
+export function isAllowedImageSrc(src: string): boolean {
+  if (!src || typeof src !== 'string') {
+    return false;
+  }
+
+  return ALLOWED_IMAGE_SRC_REGEXP.test(src.replace(URL_WHITESPACE, ''));
+}
+
 /**
  * Production-hardened DOMPurify configuration for Smart Paste sanitization.
  * This creates a secure, predictable HTML structure that maps cleanly to Lexical nodes.
@@ -65,6 +136,11 @@ export const SANITIZATION_CONFIG: DOMPurify.Config = {
   
   // URL sanitization for links
   ALLOWED_URI_REGEXP,
+
+  // DOMPurify checks other attribute values against ALLOWED_URI_REGEXP too;
+  // spans and widths are plain numbers, validated by Hooks 4 and 5 instead;
+  // open is a boolean attribute, validated by Hook 7
+  ADD_URI_SAFE_ATTR: [...CELL_SPAN_ATTRIBUTES, 'width', 'open'],
   
   // Security hardening: explicitly forbidden elements
   FORBID_SCRIPTS: true,
@@ -157,6 +233,113 @@ function registerSecurityHooks() {
     }
   });
 
+  // Hook 3: Keep code block languages. Classes are forbidden, so the language is
+  // read before attributes are stripped and written back as one validated class.
+  const codeLanguages = new WeakMap<Element, string>();
+
+  DOMPurify.addHook('beforeSanitizeAttributes', function(currentNode) {
+    if (currentNode.nodeName === 'PRE') {
+      const language = getCodeLanguageFromElement(currentNode as Element);
+      if (language) {
+        codeLanguages.set(currentNode as Element, language);
+      }
+    }
+  });
+
+  DOMPurify.addHook('afterSanitizeAttributes', function(currentNode) {
+    const language = codeLanguages.get(currentNode as Element);
+    if (language) {
+      (currentNode as Element).setAttribute('class', `language-${language}`);
+    }
+  });
+
+  // Hook 4: Cell spans. ALLOWED_ATTR is one flat list, so spans are dropped from
+  // anything but cells, and kept only as small positive integers.
+  DOMPurify.addHook('afterSanitizeAttributes', function(currentNode) {
+    if (currentNode.nodeType !== 1) {
+      return;
+    }
+    const element = currentNode as Element;
+    const isCell = element.nodeName === 'TD' || element.nodeName === 'TH';
+    CELL_SPAN_ATTRIBUTES.forEach(attr => {
+      const value = element.getAttribute(attr);
+      if (value === null) {
+        return;
+      }
+      const span = /^\s*\d+\s*$/.test(value) ? Number(value) : NaN;
+      if (!isCell || !(span >= 1 && span <= MAX_TABLE_CELL_SPAN)) {
+        element.removeAttribute(attr);
+      }
+    });
+  });
+
+  // Hook 5: Images. src, alt and width are dropped from anything but <img>;
+  // src must pass the image allowlist and width must be a sane pixel count.
+  DOMPurify.addHook('uponSanitizeAttribute', function(currentNode, hookEvent) {
+    const { attrName, attrValue } = hookEvent;
+    if (!IMAGE_ONLY_ATTRIBUTES.includes(attrName)) {
+      return;
+    }
+    if (currentNode.nodeName !== 'IMG') {
+      hookEvent.keepAttr = false;
+    } else if (attrName === 'src' && !isAllowedImageSrc(attrValue)) {
+      hookEvent.keepAttr = false;
+    } else if (attrName === 'width' && parseImageWidth(attrValue) === null) {
+      hookEvent.keepAttr = false;
+    }
+  });
+
+  // Hook 6: Callouts. Confluence, GitHub and Notion mark callouts with classes
+  // and data attributes on elements such as <div>, which are all stripped. The
+  // callout is recognized first, renamed to <aside> with its icon and title
+  // removed, and its style written back once Hook 2 has cleared data attributes.
+  const callouts = new WeakMap<Element, CalloutStyle>();
+
+  DOMPurify.addHook('beforeSanitizeElements', function(currentNode) {
+    if (currentNode.nodeType !== 1 || callouts.has(currentNode as Element)) {
+      return;
+    }
+    const element = currentNode as Element;
+    const callout = getCalloutFromElement(element);
+    if (!callout) {
+      return;
+    }
+    getCalloutChrome(element).forEach(chrome => chrome.remove());
+
+    let aside = element;
+    if (element.nodeName !== 'ASIDE') {
+      // The iterator moves on to the replacement, which is sanitized like any element
+      aside = element.ownerDocument.createElement('aside');
+      aside.append(...Array.from(element.childNodes));
+      element.replaceWith(aside);
+    }
+    callouts.set(aside, callout);
+  });
+
+  DOMPurify.addHook('afterSanitizeAttributes', function(currentNode) {
+    const callout = callouts.get(currentNode as Element);
+    if (!callout) {
+      return;
+    }
+    const element = currentNode as Element;
+    element.setAttribute(CALLOUT_VARIANT_ATTRIBUTE, callout.variant);
+    if (callout.emoji) {
+      element.setAttribute(CALLOUT_EMOJI_ATTRIBUTE, callout.emoji);
+    }
+  });
+
+  // Hook 7: Toggles. open is kept on <details> only, as a bare boolean attribute.
+  DOMPurify.addHook('afterSanitizeAttributes', function(currentNode) {
+    if (currentNode.nodeType !== 1 || !(currentNode as Element).hasAttribute('open')) {
+      return;
+    }
+    const element = currentNode as Element;
+    element.removeAttribute('open');
+    if (element.nodeName === 'DETAILS') {
+      element.setAttribute('open', '');
+    }
+  });
+
   hooksRegistered = true;
 }
 
@@ -3,35 +3,170 @@
  * Single source of truth to prevent drift across components.
  */
 
+import { $getEditor, LexicalEditor } from 'lexical';
 import { HeadingTagType } from '../types/editor-types';
 
 /**
- * Heading levels allowed in the editor.
- * Commands, toolbar, and transforms should only work with these tags.
+ * What happens to a heading whose level the policy does not allow.
+ * - clamp: map to the nearest allowed level (h4 becomes h3 under H1-H3)
+ * - demote: turn the heading into a paragraph, keeping its text
  */
-export const ALLOWED_HEADING_TAGS: readonly HeadingTagType[] = ['h1', 'h2', 'h3'] as const;
+export type HeadingPolicyMode = 'clamp' | 'demote';
+
+/**
+ * Optional outline check for skipped levels (h1 followed directly by h3).
+ * - off: headings may jump any number of levels
+ * - relabel: a skipping heading becomes the next valid level (h3 after h1 becomes h2)
+ * - flag: skipping headings are marked in the DOM but left unchanged
+ */
+export type HeadingHierarchyMode = 'off' | 'relabel' | 'flag';
+
+/**
+ * Heading policy for a document type.
+ * One object drives the transform, commands, shortcuts, node import and toolbars.
+ */
+export interface HeadingPolicy {
+  /** Allowed heading tags, shallowest first */
+  readonly allowedTags: readonly HeadingTagType[];
+  readonly mode: HeadingPolicyMode;
+  readonly hierarchy: HeadingHierarchyMode;
+}
 
 /**
  * All HTML heading tags that might be encountered in paste/import.
  * Used for normalization detection and DOM processing.
  */
-export const ALL_HEADING_TAGS: readonly string[] = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'] as const;
+export const ALL_HEADING_TAGS: readonly HeadingTagType[] = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'] as const;
+
+/**
+ * Build a heading policy, validating and sorting the allowed tags.
+ *
+ * @throws Error if no valid heading tag is allowed
+ */
+export function createHeadingPolicy(
+  allowedTags: readonly string[],
+  mode: HeadingPolicyMode = 'clamp',
+  hierarchy: HeadingHierarchyMode = 'off'
+): HeadingPolicy {
+  const tags = ALL_HEADING_TAGS.filter(tag => allowedTags.includes(tag));
+
+  if (tags.length === 0) {
+    throw new Error('[HeadingPolicy] A heading policy must allow at least one of h1-h6');
+  }
+
+  return Object.freeze({ allowedTags: Object.freeze(tags), mode, hierarchy });
+}
+
+/**
+ * Default policy: H1-H3, deeper levels clamped to h3.
+ */
+export const DEFAULT_HEADING_POLICY: HeadingPolicy = createHeadingPolicy(['h1', 'h2', 'h3']);
 
 /**
- * Tags that should be normalized to h3 to preserve content.
+ * Heading levels allowed by the default policy.
  */
-export const DISALLOWED_HEADING_TAGS: readonly string[] = ['h4', 'h5', 'h6'] as const;
+export const ALLOWED_HEADING_TAGS: readonly HeadingTagType[] = DEFAULT_HEADING_POLICY.allowedTags;
 
 /**
- * Check if a heading tag is allowed in the editor.
+ * Tags the default policy normalizes to h3.
  */
-export function isAllowedHeadingTag(tag: string): tag is HeadingTagType {
-  return ALLOWED_HEADING_TAGS.includes(tag as HeadingTagType);
+export const DISALLOWED_HEADING_TAGS: readonly string[] = ALL_HEADING_TAGS.filter(
+  tag => !ALLOWED_HEADING_TAGS.includes(tag)
+);
+
+/**
+ * Check if a heading tag is allowed by the policy.
+ */
+export function isAllowedHeadingTag(
+  tag: string,
+  policy: HeadingPolicy = DEFAULT_HEADING_POLICY
+): tag is HeadingTagType {
+  return policy.allowedTags.includes(tag as HeadingTagType);
 }
 
 /**
- * Check if a heading tag should be normalized.
+ * Check if a heading tag should be normalized under the policy.
  */
-export function shouldNormalizeHeadingTag(tag: string): boolean {
-  return DISALLOWED_HEADING_TAGS.includes(tag);
-}
\ No newline at end of file
+export function shouldNormalizeHeadingTag(
+  tag: string,
+  policy: HeadingPolicy = DEFAULT_HEADING_POLICY
+): boolean {
+  return ALL_HEADING_TAGS.includes(tag as HeadingTagType) && !isAllowedHeadingTag(tag, policy);
+}
+
+/**
+ * Map any heading tag onto the policy.
+ * Clamp mode picks the next allowed level at or below the tag, falling back
+ * to the deepest allowed level (h4 becomes h3, h1 becomes h2 under H2-H4).
+ *
+ * @returns the allowed tag, or null when demote mode turns it into a paragraph
+ */
+export function normalizeHeadingTag(
+  tag: string,
+  policy: HeadingPolicy = DEFAULT_HEADING_POLICY
+): HeadingTagType | null {
+  if (isAllowedHeadingTag(tag, policy)) {
+    return tag;
+  }
+
+  if (policy.mode === 'demote') {
+    return null;
+  }
+
+  const level = ALL_HEADING_TAGS.indexOf(tag as HeadingTagType);
+  const deeper = policy.allowedTags.find(allowed => ALL_HEADING_TAGS.indexOf(allowed) >= level);
+  return level !== -1 && deeper ? deeper : policy.allowedTags[policy.allowedTags.length - 1];
+}
+
+/**
+ * Numeric level of a heading tag (h3 -> 3), or 0 for anything else.
+ */
+export function getHeadingLevel(tag: string): number {
+  return ALL_HEADING_TAGS.indexOf(tag as HeadingTagType) + 1;
+}
+
+/**
+ * Position of an allowed tag in the policy's outline (0 for the shallowest).
+ * Levels are ranked by allowed tags, so h1 then h3 is no skip under a sparse H1/H3 policy.
+ *
+ * @returns the rank, or -1 for tags the policy does not allow
+ */
+export function getHeadingRank(tag: string, policy: HeadingPolicy = DEFAULT_HEADING_POLICY): number {
+  return policy.allowedTags.indexOf(tag as HeadingTagType);
+}
+
+/**
+ * Human-readable list of allowed tags for warnings, e.g. "h1, h2, or h3".
+ */
+export function describeAllowedHeadingTags(policy: HeadingPolicy = DEFAULT_HEADING_POLICY): string {
+  const tags = [...policy.allowedTags];
+  if (tags.length <= 2) {
+    return tags.join(' or ');
+  }
+  return `${tags.slice(0, -1).join(', ')}, or ${tags[tags.length - 1]}`;
+}
+
+// Policy per editor, so static node methods (importJSON, importDOM) can resolve it
+const editorPolicies = new WeakMap<LexicalEditor, HeadingPolicy>();
+
+/**
+ * Set the heading policy for an editor. HeadingPolicyPlugin calls this on mount.
+ */
+export function setHeadingPolicy(editor: LexicalEditor, policy: HeadingPolicy): void {
+  editorPolicies.set(editor, policy);
+}
+
+/**
+ * Get the heading policy for an editor, falling back to the default.
+ */
+export function getHeadingPolicy(editor: LexicalEditor): HeadingPolicy {
+  return editorPolicies.get(editor) ?? DEFAULT_HEADING_POLICY;
+}
+
+/**
+ * Get the heading policy of the active editor.
+ * Must be called inside an editor read, update or state parse.
+ */
+export function $getHeadingPolicy(): HeadingPolicy {
+  return getHeadingPolicy($getEditor());
+}
@@ -0,0 +1,24 @@
+/**
+ * Shared constants for list nesting policy enforcement.
+ * Single source of truth for indentation commands and the clamp transform.
+ */
+
+/**
+ * Maximum list nesting depth, counting the top-level list as 1.
+ * Matches the three glyph tiers (•, ◦, ▪) recognized by detectListDepth.
+ */
+export const MAX_LIST_DEPTH = 3;
+
+/**
+ * Maximum indent level for blocks, 0-based.
+ * A list item at MAX_LIST_DEPTH has indent MAX_LIST_DEPTH - 1; paragraphs
+ * share the same ceiling so indentation looks consistent across blocks.
+ */
+export const MAX_INDENT_LEVEL = MAX_LIST_DEPTH - 1;
+
+/**
+ * Check if a list nesting depth (1-based) is allowed in the editor.
+ */
+export function isAllowedListDepth(depth: number): boolean {
+  return depth >= 1 && depth <= MAX_LIST_DEPTH;
+}
@@ -1,67 +1,82 @@
 import { useState, useEffect, useRef } from 'react';
 import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
-import { 
-  $getSelection, 
+import {
+  $getSelection,
   $isRangeSelection,
   COMMAND_PRIORITY_CRITICAL,
   SELECTION_CHANGE_COMMAND
 } from 'lexical';
-import { $isListNode } from '@lexical/list';
+import { $isListNode, ListNode } from '@lexical/list';
+import { $getNearestNodeOfType, mergeRegister } from '@lexical/utils';
 import { BlockType } from '../types/editor-types';
 import { CustomHeadingNode } from '../nodes/CustomHeadingNode';
+import { getHeadingPolicy, HeadingPolicy, isAllowedHeadingTag } from '../constants/heading-policy';
 
 /**
  * Hook to detect the current block type at the selection.
- * Uses the custom heading node for proper type detection.
+ * Uses the custom heading node for proper type detection and
+ * reports lists by type (bullet, number, check). Follows both selection
+ * changes and edits, such as a block turned into a heading from a toolbar.
+ *
+ * @param policy - headings it disallows report as 'paragraph'; defaults to the editor's policy
  */
-export function useBlockType(): BlockType {
+export function useBlockType(policy?: HeadingPolicy): BlockType {
   const [editor] = useLexicalComposerContext();
   const [blockType, setBlockType] = useState<BlockType>('paragraph');
   const previousBlockTypeRef = useRef<BlockType>(blockType);
 
   useEffect(() => {
-    return editor.registerCommand(
-      SELECTION_CHANGE_COMMAND,
-      () => {
-        const selection = $getSelection();
-        
-        if (!$isRangeSelection(selection)) {
-          return false;
-        }
+    const updateBlockType = () => {
+      const selection = $getSelection();
 
-        const anchorNode = selection.anchor.getNode();
-        let element;
-        
-        try {
-          element = anchorNode.getTopLevelElementOrThrow();
-        } catch {
-          return false;
-        }
+      if (!$isRangeSelection(selection)) {
+        return;
+      }
 
-        let newBlockType: BlockType = 'paragraph';
+      const anchorNode = selection.anchor.getNode();
+      let element;
 
-        // Use custom heading node check
-        if (element instanceof CustomHeadingNode) {
-          const tag = element.getTag();
-          if (tag === 'h1' || tag === 'h2' || tag === 'h3') {
-            newBlockType = tag;
-          }
-        } else if ($isListNode(element)) {
-          // Show lists as 'paragraph' in the heading toolbar
-          newBlockType = 'paragraph';
-        }
-        
-        // Only update if changed to prevent unnecessary re-renders
-        if (newBlockType !== previousBlockTypeRef.current) {
-          previousBlockTypeRef.current = newBlockType;
-          setBlockType(newBlockType);
+      try {
+        element = anchorNode.getTopLevelElementOrThrow();
+      } catch {
+        return;
+      }
+
+      let newBlockType: BlockType = 'paragraph';
+
+      // Use custom heading node check
+      if (element instanceof CustomHeadingNode) {
+        const tag = element.getTag();
+        if (isAllowedHeadingTag(tag, policy ?? getHeadingPolicy(editor))) {
+          newBlockType = tag;
         }
+      } else if ($isListNode(element)) {
+        // Innermost list wins so a nested check list reports 'check'
+        const list = $getNearestNodeOfType(anchorNode, ListNode);
+        newBlockType = (list ?? element).getListType();
+      }
 
-        return false;
-      },
-      COMMAND_PRIORITY_CRITICAL
+      // Only update if changed to prevent unnecessary re-renders
+      if (newBlockType !== previousBlockTypeRef.current) {
+        previousBlockTypeRef.current = newBlockType;
+        setBlockType(newBlockType);
+      }
+    };
+
+    return mergeRegister(
+      editor.registerCommand(
+        SELECTION_CHANGE_COMMAND,
+        () => {
+          updateBlockType();
+          return false;
+        },
+        COMMAND_PRIORITY_CRITICAL
+      ),
+      editor.registerUpdateListener(({ editorState }) => {
+        editorState.read(updateBlockType);
+      })
     );
-  }, [editor]);
+  }, [editor, policy]);
 
   return blockType;
-}
\ No newline at end of file
+}
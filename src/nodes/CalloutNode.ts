@@ -0,0 +1,191 @@
+import {
+  $applyNodeReplacement,
+  $createParagraphNode,
+  DOMConversionMap,
+  DOMConversionOutput,
+  DOMExportOutput,
+  EditorConfig,
+  ElementNode,
+  LexicalNode,
+  NodeKey,
+  ParagraphNode,
+  RangeSelection,
+  SerializedElementNode,
+  Spread
+} from 'lexical';
+import {
+  CALLOUT_EMOJI_ATTRIBUTE,
+  CALLOUT_VARIANT_ATTRIBUTE,
+  CalloutVariant,
+  DEFAULT_CALLOUT_VARIANT,
+  normalizeCalloutVariant,
+  parseCalloutEmoji
+} from '../utils/callouts';
+import { $flattenToInline } from '../utils/inline-content';
+
+export type SerializedCalloutNode = Spread<
+  {
+    variant: CalloutVariant;
+    emoji: string | null;
+  },
+  SerializedElementNode
+>;
+
+function $convertCalloutElement(domNode: HTMLElement): DOMConversionOutput {
+  return {
+    node: $createCalloutNode(
+      normalizeCalloutVariant(domNode.getAttribute(CALLOUT_VARIANT_ATTRIBUTE)) ?? DEFAULT_CALLOUT_VARIANT,
+      parseCalloutEmoji(domNode.getAttribute(CALLOUT_EMOJI_ATTRIBUTE))
+    ),
+    // Pasted callouts often hold paragraphs or lists; a callout holds one block's worth
+    after: $flattenToInline,
+  };
+}
+
+/**
+ * Callout (admonition) block: a quote-like block with a variant that sets
+ * its color, and an optional emoji icon shown before the text. Like a quote
+ * it holds inline content directly, so $setBlocksType converts between the two.
+ *
+ * Pasted callouts from other tools arrive as <aside data-callout>, see
+ * Hook 6 in sanitization-config.
+ */
+export class CalloutNode extends ElementNode {
+  /** @internal */
+  __variant: CalloutVariant;
+  /** @internal */
+  __emoji: string | null;
+
+  static getType(): string {
+    return 'callout';
+  }
+
+  static clone(node: CalloutNode): CalloutNode {
+    return new CalloutNode(node.__variant, node.__emoji, node.__key);
+  }
+
+  constructor(variant: CalloutVariant = DEFAULT_CALLOUT_VARIANT, emoji: string | null = null, key?: NodeKey) {
+    super(key);
+    this.__variant = variant;
+    this.__emoji = emoji;
+  }
+
+  /**
+   * Unknown variants fall back to info and invalid icons are dropped, so a
+   * saved document cannot smuggle markup in through the emoji.
+   */
+  static importJSON(serializedNode: SerializedCalloutNode): CalloutNode {
+    const node = $createCalloutNode(
+      normalizeCalloutVariant(serializedNode.variant) ?? DEFAULT_CALLOUT_VARIANT,
+      parseCalloutEmoji(serializedNode.emoji)
+    );
+    node.setFormat(serializedNode.format);
+    node.setIndent(serializedNode.indent);
+    node.setDirection(serializedNode.direction);
+    return node;
+  }
+
+  exportJSON(): SerializedCalloutNode {
+    return {
+      ...super.exportJSON(),
+      type: 'callout',
+      version: 1,
+      variant: this.__variant,
+      emoji: this.__emoji,
+    };
+  }
+
+  static importDOM(): DOMConversionMap | null {
+    return {
+      aside: () => ({
+        conversion: $convertCalloutElement,
+        priority: 0,
+      }),
+    };
+  }
+
+  /**
+   * Exported as <aside role="note">, with the style in data attributes so
+   * the callout survives a copy into another editor of ours.
+   */
+  exportDOM(): DOMExportOutput {
+    const element = document.createElement('aside');
+    element.setAttribute('role', 'note');
+    element.setAttribute(CALLOUT_VARIANT_ATTRIBUTE, this.__variant);
+    if (this.__emoji) {
+      element.setAttribute(CALLOUT_EMOJI_ATTRIBUTE, this.__emoji);
+    }
+    return { element };
+  }
+
+  createDOM(config: EditorConfig): HTMLElement {
+    const element = document.createElement('div');
+    element.setAttribute('role', 'note');
+    this.updateCalloutDOM(element, config);
+    return element;
+  }
+
+  updateDOM(prevNode: CalloutNode, dom: HTMLElement, config: EditorConfig): boolean {
+    if (prevNode.__variant !== this.__variant || prevNode.__emoji !== this.__emoji) {
+      this.updateCalloutDOM(dom, config);
+    }
+    return false;
+  }
+
+  /** The icon is drawn by CSS from the attribute, so it is never part of the text. */
+  private updateCalloutDOM(element: HTMLElement, config: EditorConfig): void {
+    const className = config.theme.callout;
+    if (className !== undefined) {
+      element.className = `${className} ${className}-${this.__variant}`;
+    }
+    element.setAttribute(CALLOUT_VARIANT_ATTRIBUTE, this.__variant);
+    if (this.__emoji) {
+      element.setAttribute(CALLOUT_EMOJI_ATTRIBUTE, this.__emoji);
+    } else {
+      element.removeAttribute(CALLOUT_EMOJI_ATTRIBUTE);
+    }
+  }
+
+  getVariant(): CalloutVariant {
+    return this.getLatest().__variant;
+  }
+
+  setVariant(variant: CalloutVariant): void {
+    this.getWritable().__variant = variant;
+  }
+
+  getEmoji(): string | null {
+    return this.getLatest().__emoji;
+  }
+
+  setEmoji(emoji: string | null): void {
+    this.getWritable().__emoji = emoji;
+  }
+
+  // Enter leaves the callout, as it does a quote; Shift+Enter adds a line
+  insertNewAfter(_selection: RangeSelection, restoreSelection = true): ParagraphNode {
+    const paragraph = $createParagraphNode();
+    paragraph.setDirection(this.getDirection());
+    this.insertAfter(paragraph, restoreSelection);
+    return paragraph;
+  }
+
+  // Backspace at the start turns the callout back into a paragraph
+  collapseAtStart(): true {
+    const paragraph = $createParagraphNode();
+    this.getChildren().forEach(child => paragraph.append(child));
+    this.replace(paragraph);
+    return true;
+  }
+}
+
+export function $createCalloutNode(
+  variant: CalloutVariant = DEFAULT_CALLOUT_VARIANT,
+  emoji: string | null = null
+): CalloutNode {
+  return $applyNodeReplacement(new CalloutNode(variant, emoji));
+}
+
+export function $isCalloutNode(node: LexicalNode | null | undefined): node is CalloutNode {
+  return node instanceof CalloutNode;
+}
@@ -1,58 +1,89 @@
 import { 
+  $createHeadingNode,
   HeadingNode, 
   SerializedHeadingNode 
 } from '@lexical/rich-text';
 import { 
   DOMConversionMap, 
   DOMConversionOutput, 
+  DOMExportOutput,
+  EditorConfig,
+  LexicalEditor,
   NodeKey,
-  $createParagraphNode
+  RangeSelection,
+  Spread,
+  $createParagraphNode,
+  $getEditor,
+  isHTMLElement
 } from 'lexical';
 import { HeadingTagType } from '../types/editor-types';
+import {
+  $getHeadingPolicy,
+  ALL_HEADING_TAGS,
+  isAllowedHeadingTag,
+  normalizeHeadingTag
+} from '../constants/heading-policy';
 import { logHeadingWarning } from '../utils/dev-logger';
+import { $getSectionNumbersForExport, isSectionNumberingEnabled } from '../utils/section-numbering';
+import { slugify } from '../utils/slug';
 
-// DRY constants to avoid drift across methods
-const ALLOWED_TAGS: readonly HeadingTagType[] = ['h1', 'h2', 'h3'] as const;
-const ALL_HEADING_TAGS: readonly string[] = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'] as const;
+export type SerializedCustomHeadingNode = Spread<
+  {
+    slug?: string;
+    collapsed?: boolean;
+  },
+  SerializedHeadingNode
+>;
 
 /**
- * CustomHeadingNode extends HeadingNode to limit supported heading levels to H1-H3.
- * H4-H6 are explicitly blocked during import/paste operations and remapped in JSON imports.
+ * CustomHeadingNode extends HeadingNode to limit supported heading levels
+ * to those allowed by the active editor's HeadingPolicy (H1-H3 by default).
+ * Disallowed levels are remapped during import/paste operations and JSON imports.
+ *
+ * Each heading also carries a slug, rendered as its `id` so sections can be
+ * linked to. The slug is persisted rather than recomputed, so editing the
+ * heading text does not break links; HeadingAnchorsPlugin assigns it once.
+ *
+ * A heading can be collapsed to fold its section. Only the flag lives here;
+ * CollapsibleSectionsPlugin hides the section's blocks.
  */
 export class CustomHeadingNode extends HeadingNode {
+  /** @internal */
+  __slug: string;
+  /** @internal */
+  __collapsed: boolean;
+
   static getType(): string {
     return 'heading';
   }
 
   static clone(node: CustomHeadingNode): CustomHeadingNode {
-    return new CustomHeadingNode(node.getTag(), node.getKey());
+    const clone = new CustomHeadingNode(node.getTag(), node.__slug, node.getKey());
+    clone.__collapsed = node.__collapsed;
+    return clone;
   }
 
   /**
    * Guard against importing disallowed heading levels from JSON (saved documents).
-   * H4-H6 are downgraded to H3 to preserve content without data loss.
+   * Disallowed levels are clamped (h4-h6 become h3 by default) to preserve content,
+   * or become paragraphs when the policy demotes. Transforms do not run when a
+   * saved state is loaded, so the policy has to hold here.
    */
-  static importJSON(serializedNode: SerializedHeadingNode): CustomHeadingNode {
-    const { tag, format, indent, direction } = serializedNode;
+  static importJSON(serializedNode: SerializedCustomHeadingNode): CustomHeadingNode {
+    const { tag, format, indent, direction, slug, collapsed } = serializedNode;
+    const policy = $getHeadingPolicy();
+    const normalizedTag = normalizeHeadingTag(tag, policy);
     
-    // Only allow h1, h2, h3
-    if (ALLOWED_TAGS.includes(tag as HeadingTagType)) {
-      const node = new CustomHeadingNode(tag as HeadingTagType);
-      if (typeof format === 'number') {
-        node.setFormat(format);
-      }
-      if (typeof indent === 'number') {
-        node.setIndent(indent);
-      }
-      if (direction != null) {
-        node.setDirection(direction);
-      }
-      return node;
+    if (!isAllowedHeadingTag(tag, policy)) {
+      logHeadingWarning(`Heading level ${tag} is not supported. Converting to ${normalizedTag ?? 'paragraph'}.`);
     }
     
-    // Downgrade h4-h6 to h3 to preserve content
-    logHeadingWarning(`Heading level ${tag} is not supported. Converting to h3.`);
-    const node = new CustomHeadingNode('h3');
+    // Demote: Lexical accepts any node here and appends the serialized children
+    // to it, the signature is inherited from HeadingNode
+    const node = normalizedTag
+      ? new CustomHeadingNode(normalizedTag, slug)
+      : ($createParagraphNode() as unknown as CustomHeadingNode);
+    
     if (typeof format === 'number') {
       node.setFormat(format);
     }
@@ -62,17 +93,62 @@ export class CustomHeadingNode extends HeadingNode {
     if (direction != null) {
       node.setDirection(direction);
     }
+    if (collapsed && $isCustomHeadingNode(node)) {
+      node.setCollapsed(true);
+    }
     return node;
   }
 
-  exportJSON(): SerializedHeadingNode {
+  exportJSON(): SerializedCustomHeadingNode {
     return {
       ...super.exportJSON(),
       tag: this.getTag(),
+      slug: this.getSlug(),
+      collapsed: this.isCollapsed(),
       version: 1,
     };
   }
 
+  createDOM(config: EditorConfig): HTMLElement {
+    const element = super.createDOM(config);
+    if (this.__slug) {
+      element.id = this.__slug;
+    }
+    return element;
+  }
+
+  updateDOM(prevNode: CustomHeadingNode, dom: HTMLElement): boolean {
+    if (prevNode.__slug !== this.__slug) {
+      if (this.__slug) {
+        dom.id = this.__slug;
+      } else {
+        dom.removeAttribute('id');
+      }
+    }
+    return false;
+  }
+
+  exportDOM(editor: LexicalEditor): DOMExportOutput {
+    const output = super.exportDOM(editor);
+    if (!output.element || !isHTMLElement(output.element)) {
+      return output;
+    }
+
+    if (this.__slug) {
+      output.element.id = this.__slug;
+    }
+
+    // Numbers are decoration in the editor; exported HTML needs them as text
+    const number = isSectionNumberingEnabled(editor) ? $getSectionNumbersForExport(editor).get(this.getKey()) : undefined;
+    if (number) {
+      const span = document.createElement('span');
+      span.className = 'section-number';
+      span.textContent = `${number} `;
+      output.element.prepend(span);
+    }
+    return output;
+  }
+
   static importDOM(): DOMConversionMap | null {
     const domMap: DOMConversionMap = {};
     
@@ -87,49 +163,111 @@ export class CustomHeadingNode extends HeadingNode {
     return domMap;
   }
 
-  constructor(tag: HeadingTagType, key?: NodeKey) {
+  constructor(tag: HeadingTagType, slug = '', key?: NodeKey) {
     super(tag, key);
+    this.__slug = slug;
+    this.__collapsed = false;
+  }
+
+  /**
+   * The section anchor, or an empty string if none was assigned yet.
+   */
+  getSlug(): string {
+    return this.getLatest().__slug;
+  }
+
+  setSlug(slug: string): this {
+    const writable = this.getWritable();
+    writable.__slug = slug;
+    return writable;
   }
 
   /**
-   * Override insertNewAfter to use our custom factory function
-   * instead of the default $createHeadingNode from @lexical/rich-text
+   * Whether the section under this heading is folded.
    */
-  insertNewAfter(): CustomHeadingNode {
-    const newNode = $createCustomHeadingNode(this.getTag());
-    this.insertAfter(newNode);
-    return newNode;
+  isCollapsed(): boolean {
+    return this.getLatest().__collapsed;
+  }
+
+  setCollapsed(collapsed: boolean): this {
+    const writable = this.getWritable();
+    writable.__collapsed = collapsed;
+    return writable;
+  }
+
+  /**
+   * Mirrors HeadingNode.insertNewAfter with our custom factory function
+   * instead of the default $createHeadingNode from @lexical/rich-text:
+   * Enter at the end starts a paragraph, Enter mid-heading splits it.
+   * The split-off tail starts without a slug and gets its own.
+   */
+  insertNewAfter(selection?: RangeSelection, restoreSelection = true): CustomHeadingNode {
+    const anchorOffset = selection ? selection.anchor.offset : 0;
+    const newElement = anchorOffset === this.getTextContentSize() || !selection
+      ? $createParagraphNode()
+      : $createCustomHeadingNode(this.getTag());
+    newElement.setDirection(this.getDirection());
+    this.insertAfter(newElement, restoreSelection);
+
+    // Enter at the start moves the whole heading down: its anchor moves with it
+    if (anchorOffset === 0 && !this.isEmpty() && selection) {
+      if ($isCustomHeadingNode(newElement)) {
+        newElement.setSlug(this.getSlug());
+      }
+      const paragraph = $createParagraphNode();
+      paragraph.select();
+      this.replace(paragraph, true);
+    }
+    // Lexical accepts any block here, the signature is inherited from HeadingNode
+    return newElement as CustomHeadingNode;
   }
 }
 
 function convertHeadingElement(element: HTMLElement): DOMConversionOutput {
   const tag = element.tagName.toLowerCase();
   
-  // Allow h1, h2, h3 as-is
-  if (ALLOWED_TAGS.includes(tag as HeadingTagType)) {
-    return {
-      node: $createCustomHeadingNode(tag as HeadingTagType),
-    };
+  // This shouldn't happen, but return null for safety
+  if (!ALL_HEADING_TAGS.includes(tag as HeadingTagType)) {
+    return { node: null };
   }
   
-  // Downcast h4, h5, h6 to h3 to preserve content
-  if (ALL_HEADING_TAGS.includes(tag)) {
-    logHeadingWarning(`Pasted heading level ${tag} is not supported. Converting to h3.`);
+  // Keep existing anchors; collisions are resolved by HeadingAnchorsPlugin
+  const slug = slugify(element.id);
+
+  // Allowed levels as-is
+  const policy = $getHeadingPolicy();
+  if (isAllowedHeadingTag(tag, policy)) {
     return {
-      node: $createCustomHeadingNode('h3'),
+      node: $createCustomHeadingNode(tag, slug),
     };
   }
   
-  // This shouldn't happen, but return null for safety
-  return { node: null };
+  // Remap disallowed levels to preserve content
+  const normalizedTag = normalizeHeadingTag(tag, policy);
+  logHeadingWarning(`Pasted heading level ${tag} is not supported. Converting to ${normalizedTag ?? 'paragraph'}.`);
+  return {
+    node: normalizedTag ? $createCustomHeadingNode(normalizedTag, slug) : $createParagraphNode(),
+  };
 }
 
 /**
  * Factory function to create CustomHeadingNode instances.
- * This ensures all heading nodes use our custom class with h1-h3 restrictions.
+ * This ensures all heading nodes use our custom class with heading policy restrictions.
+ */
+export function $createCustomHeadingNode(tag: HeadingTagType, slug = ''): CustomHeadingNode {
+  return new CustomHeadingNode(tag, slug);
+}
+
+/**
+ * Create a heading with whichever class the active editor registered for the
+ * 'heading' type. Shared commands and plugins use this so they work both in
+ * the app (CustomHeadingNode) and in editors built with the stock HeadingNode.
  */
-export function $createCustomHeadingNode(tag: HeadingTagType): CustomHeadingNode {
-  return new CustomHeadingNode(tag);
+export function $createEditorHeadingNode(tag: HeadingTagType): HeadingNode {
+  const registered = $getEditor()._nodes.get(CustomHeadingNode.getType());
+  return registered?.klass === CustomHeadingNode
+    ? $createCustomHeadingNode(tag)
+    : $createHeadingNode(tag);
 }
 
 /**
@@ -0,0 +1,349 @@
+import {
+  $applyNodeReplacement,
+  $createParagraphNode,
+  $isBlockElementNode,
+  $isDecoratorNode,
+  ArtificialNode__DO_NOT_USE,
+  DOMConversionMap,
+  DOMConversionOutput,
+  DOMExportOutput,
+  EditorConfig,
+  ElementNode,
+  LexicalNode,
+  NodeKey,
+  ParagraphNode,
+  RangeSelection,
+  SerializedElementNode,
+  Spread
+} from 'lexical';
+import { $flattenToInline } from '../utils/inline-content';
+
+export type SerializedDetailsNode = Spread<
+  {
+    open: boolean;
+  },
+  SerializedElementNode
+>;
+
+/**
+ * Hidden bodies use hidden="until-found", as collapsed sections do: the
+ * browser's find can still match them and fires `beforematch`, which opens
+ * the toggle (see DetailsPlugin).
+ */
+const HIDDEN_VALUE = 'until-found';
+
+function setClassName(element: HTMLElement, className: string | undefined): void {
+  if (className !== undefined) {
+    element.className = className;
+  }
+}
+
+/**
+ * Attribute on an open toggle; CSS turns the chevron from it.
+ */
+export const DETAILS_OPEN_ATTRIBUTE = 'data-open';
+
+/**
+ * Attribute marking a summary; CSS draws the chevron left of it.
+ */
+export const DETAILS_SUMMARY_ATTRIBUTE = 'data-details-summary';
+
+/**
+ * Arrange a pasted <details>: its <summary> (or an empty one) comes first and
+ * everything else goes into the body, with loose inline content in paragraphs.
+ */
+function $arrangeDetailsChildren(children: LexicalNode[]): LexicalNode[] {
+  const summary = children.find($isDetailsSummaryNode) ?? $createDetailsSummaryNode();
+  const content = $createDetailsContentNode();
+  let paragraph: ParagraphNode | null = null;
+
+  children.forEach(child => {
+    if (child === summary) {
+      return;
+    }
+    if ($isDetailsSummaryNode(child) || child instanceof ArtificialNode__DO_NOT_USE) {
+      // A second summary, or the inline run of a block Lexical has no node for (such as a <div>)
+      content.append($createParagraphNode().append(...child.getChildren()));
+      paragraph = null;
+    } else if ($isBlockElementNode(child) || ($isDecoratorNode(child) && !child.isInline())) {
+      content.append(child);
+      paragraph = null;
+    } else {
+      if (paragraph === null) {
+        paragraph = $createParagraphNode();
+        content.append(paragraph);
+      }
+      paragraph.append(child);
+    }
+  });
+
+  if (content.isEmpty()) {
+    content.append($createParagraphNode());
+  }
+  return [summary, content];
+}
+
+function $convertDetailsElement(domNode: HTMLElement): DOMConversionOutput {
+  return {
+    node: $createDetailsNode(domNode.hasAttribute('open')),
+    after: $arrangeDetailsChildren,
+  };
+}
+
+/**
+ * Toggle block, exported as <details>: a summary line that is always shown
+ * and a body of blocks that opens and closes. Only the open state lives
+ * here; DetailsPlugin keeps the structure valid and handles the keyboard.
+ *
+ * Children are always exactly [DetailsSummaryNode, DetailsContentNode].
+ */
+export class DetailsNode extends ElementNode {
+  /** @internal */
+  __open: boolean;
+
+  static getType(): string {
+    return 'details';
+  }
+
+  static clone(node: DetailsNode): DetailsNode {
+    return new DetailsNode(node.__open, node.__key);
+  }
+
+  constructor(open = true, key?: NodeKey) {
+    super(key);
+    this.__open = open;
+  }
+
+  static importJSON(serializedNode: SerializedDetailsNode): DetailsNode {
+    return $createDetailsNode(serializedNode.open === true);
+  }
+
+  exportJSON(): SerializedDetailsNode {
+    return {
+      ...super.exportJSON(),
+      type: 'details',
+      version: 1,
+      open: this.__open,
+    };
+  }
+
+  static importDOM(): DOMConversionMap | null {
+    return {
+      details: () => ({
+        conversion: $convertDetailsElement,
+        priority: 1,
+      }),
+    };
+  }
+
+  exportDOM(): DOMExportOutput {
+    const element = document.createElement('details');
+    if (this.__open) {
+      element.setAttribute('open', '');
+    }
+    return { element };
+  }
+
+  /**
+   * A <div> rather than <details>: browsers toggle <details> on their own
+   * when its summary is clicked or typed into, which fights the editor.
+   */
+  createDOM(config: EditorConfig): HTMLElement {
+    const element = document.createElement('div');
+    setClassName(element, config.theme.details);
+    element.toggleAttribute(DETAILS_OPEN_ATTRIBUTE, this.__open);
+    return element;
+  }
+
+  // The body's DOM is the second child; its own createDOM covers new bodies
+  updateDOM(prevNode: DetailsNode, dom: HTMLElement): boolean {
+    if (prevNode.__open !== this.__open) {
+      dom.toggleAttribute(DETAILS_OPEN_ATTRIBUTE, this.__open);
+      if (this.__open) {
+        dom.children[1]?.removeAttribute('hidden');
+      } else {
+        dom.children[1]?.setAttribute('hidden', HIDDEN_VALUE);
+      }
+    }
+    return false;
+  }
+
+  isOpen(): boolean {
+    return this.getLatest().__open;
+  }
+
+  setOpen(open: boolean): void {
+    this.getWritable().__open = open;
+  }
+
+  getSummary(): DetailsSummaryNode | null {
+    const summary = this.getFirstChild();
+    return $isDetailsSummaryNode(summary) ? summary : null;
+  }
+
+  getContent(): DetailsContentNode | null {
+    const content = this.getLastChild();
+    return $isDetailsContentNode(content) ? content : null;
+  }
+}
+
+/**
+ * The always-visible line of a toggle. Holds inline content, like a paragraph.
+ */
+export class DetailsSummaryNode extends ElementNode {
+  static getType(): string {
+    return 'details-summary';
+  }
+
+  static clone(node: DetailsSummaryNode): DetailsSummaryNode {
+    return new DetailsSummaryNode(node.__key);
+  }
+
+  static importJSON(serializedNode: SerializedElementNode): DetailsSummaryNode {
+    const node = $createDetailsSummaryNode();
+    node.setFormat(serializedNode.format);
+    node.setIndent(serializedNode.indent);
+    node.setDirection(serializedNode.direction);
+    return node;
+  }
+
+  exportJSON(): SerializedElementNode {
+    return {
+      ...super.exportJSON(),
+      type: 'details-summary',
+      version: 1,
+    };
+  }
+
+  static importDOM(): DOMConversionMap | null {
+    return {
+      summary: () => ({
+        conversion: () => ({ node: $createDetailsSummaryNode(), after: $flattenToInline }),
+        priority: 1,
+      }),
+    };
+  }
+
+  exportDOM(): DOMExportOutput {
+    return { element: document.createElement('summary') };
+  }
+
+  createDOM(config: EditorConfig): HTMLElement {
+    const element = document.createElement('div');
+    setClassName(element, config.theme.detailsSummary);
+    element.setAttribute(DETAILS_SUMMARY_ATTRIBUTE, '');
+    return element;
+  }
+
+  updateDOM(): false {
+    return false;
+  }
+
+  /**
+   * Enter opens the toggle and continues in a new first line of its body,
+   * taking the text after the caret along.
+   */
+  insertNewAfter(_selection: RangeSelection, restoreSelection = true): ParagraphNode {
+    const paragraph = $createParagraphNode();
+    const details = this.getParent();
+    const content = $isDetailsNode(details) ? details.getContent() : null;
+
+    if (!$isDetailsNode(details) || !content) {
+      this.insertAfter(paragraph, restoreSelection);
+      return paragraph;
+    }
+    details.setOpen(true);
+    const first = content.getFirstChild();
+    if (first) {
+      first.insertBefore(paragraph, restoreSelection);
+    } else {
+      content.append(paragraph);
+    }
+    return paragraph;
+  }
+
+  /**
+   * Backspace at the start unwraps the toggle: the summary moves out, and
+   * DetailsPlugin turns it into a paragraph followed by the body's blocks.
+   */
+  collapseAtStart(): true {
+    this.getParentOrThrow().insertBefore(this);
+    return true;
+  }
+}
+
+/**
+ * Body of a toggle. A shadow root, so its blocks behave like top-level ones
+ * (Enter, lists and block formatting stay inside it).
+ */
+export class DetailsContentNode extends ElementNode {
+  static getType(): string {
+    return 'details-content';
+  }
+
+  static clone(node: DetailsContentNode): DetailsContentNode {
+    return new DetailsContentNode(node.__key);
+  }
+
+  static importJSON(): DetailsContentNode {
+    return $createDetailsContentNode();
+  }
+
+  exportJSON(): SerializedElementNode {
+    return {
+      ...super.exportJSON(),
+      type: 'details-content',
+      version: 1,
+    };
+  }
+
+  static importDOM(): DOMConversionMap | null {
+    return null;
+  }
+
+  exportDOM(): DOMExportOutput {
+    return { element: document.createElement('div') };
+  }
+
+  createDOM(config: EditorConfig): HTMLElement {
+    const element = document.createElement('div');
+    setClassName(element, config.theme.detailsContent);
+    const parent = this.getParent();
+    if (!$isDetailsNode(parent) || !parent.isOpen()) {
+      element.setAttribute('hidden', HIDDEN_VALUE);
+    }
+    return element;
+  }
+
+  updateDOM(): false {
+    return false;
+  }
+
+  isShadowRoot(): boolean {
+    return true;
+  }
+}
+
+export function $createDetailsNode(open = true): DetailsNode {
+  return $applyNodeReplacement(new DetailsNode(open));
+}
+
+export function $createDetailsSummaryNode(): DetailsSummaryNode {
+  return $applyNodeReplacement(new DetailsSummaryNode());
+}
+
+export function $createDetailsContentNode(): DetailsContentNode {
+  return $applyNodeReplacement(new DetailsContentNode());
+}
+
+export function $isDetailsNode(node: LexicalNode | null | undefined): node is DetailsNode {
+  return node instanceof DetailsNode;
+}
+
+export function $isDetailsSummaryNode(node: LexicalNode | null | undefined): node is DetailsSummaryNode {
+  return node instanceof DetailsSummaryNode;
+}
+
+export function $isDetailsContentNode(node: LexicalNode | null | undefined): node is DetailsContentNode {
+  return node instanceof DetailsContentNode;
+}
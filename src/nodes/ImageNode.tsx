@@ -0,0 +1,405 @@
+import {
+  KeyboardEvent as ReactKeyboardEvent,
+  PointerEvent as ReactPointerEvent,
+  useCallback,
+  useEffect,
+  useRef,
+  useState
+} from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import useLexicalEditable from '@lexical/react/useLexicalEditable';
+import { useLexicalNodeSelection } from '@lexical/react/useLexicalNodeSelection';
+import { mergeRegister } from '@lexical/utils';
+import {
+  $applyNodeReplacement,
+  $getNodeByKey,
+  $getSelection,
+  $isNodeSelection,
+  CLICK_COMMAND,
+  COMMAND_PRIORITY_LOW,
+  DecoratorNode,
+  DOMConversionMap,
+  DOMConversionOutput,
+  DOMExportOutput,
+  EditorConfig,
+  KEY_BACKSPACE_COMMAND,
+  KEY_DELETE_COMMAND,
+  LexicalNode,
+  NodeKey,
+  SerializedLexicalNode,
+  Spread
+} from 'lexical';
+import { isAllowedImageSrc } from '../config/sanitization-config';
+import { setImageAttributes } from '../commands/image-commands';
+import { clampImageWidth, parseImageWidth } from '../utils/images';
+
+export interface ImagePayload {
+  src: string;
+  altText?: string;
+  caption?: string;
+  /** CSS pixels; null or omitted renders the natural width */
+  width?: number | null;
+  key?: NodeKey;
+}
+
+export type SerializedImageNode = Spread<
+  {
+    src: string;
+    altText: string;
+    caption: string;
+    width: number | null;
+  },
+  SerializedLexicalNode
+>;
+
+/**
+ * Alt text and caption fields, shown under a selected image.
+ * Values are committed on blur and Enter, so typing is not one undo step per key.
+ */
+function ImageDetailsForm({ nodeKey, altText, caption, onFocusChange }: {
+  nodeKey: NodeKey;
+  altText: string;
+  caption: string;
+  /** Focusing a field can clear the node selection; the form stays up while it has focus */
+  onFocusChange: (hasFocus: boolean) => void;
+}) {
+  const [editor] = useLexicalComposerContext();
+  const [draftAlt, setDraftAlt] = useState(altText);
+  const [draftCaption, setDraftCaption] = useState(caption);
+
+  useEffect(() => setDraftAlt(altText), [altText]);
+  useEffect(() => setDraftCaption(caption), [caption]);
+
+  const commit = () => {
+    if (draftAlt !== altText || draftCaption !== caption) {
+      setImageAttributes(editor, nodeKey, { altText: draftAlt, caption: draftCaption });
+    }
+  };
+
+  const onKeyDown = (e: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commit();
+    } else if (e.key === 'Escape') {
+      setDraftAlt(altText);
+      setDraftCaption(caption);
+    }
+  };
+
+  return (
+    <span
+      className="editor-image-details"
+      onFocus={() => onFocusChange(true)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) onFocusChange(false);
+      }}
+    >
+      <input
+        aria-label="Alt text"
+        placeholder="Alt text"
+        value={draftAlt}
+        onChange={(e) => setDraftAlt(e.target.value)}
+        onBlur={commit}
+        onKeyDown={onKeyDown}
+      />
+      <input
+        aria-label="Caption"
+        placeholder="Caption"
+        value={draftCaption}
+        onChange={(e) => setDraftCaption(e.target.value)}
+        onBlur={commit}
+        onKeyDown={onKeyDown}
+      />
+    </span>
+  );
+}
+
+/**
+ * Image with click-to-select, Delete/Backspace removal, a corner resize
+ * handle and alt text/caption fields while selected.
+ */
+function ImageComponent({ nodeKey, src, altText, caption, width }: {
+  nodeKey: NodeKey;
+  src: string;
+  altText: string;
+  caption: string;
+  width: number | null;
+}) {
+  const [editor] = useLexicalComposerContext();
+  const isEditable = useLexicalEditable();
+  const [isSelected, setSelected, clearSelection] = useLexicalNodeSelection(nodeKey);
+  const imageRef = useRef<HTMLImageElement>(null);
+  // Width while the resize handle is dragged; committed on release
+  const [resizeWidth, setResizeWidth] = useState<number | null>(null);
+  const [isEditingDetails, setEditingDetails] = useState(false);
+
+  const $onDelete = useCallback((event: KeyboardEvent) => {
+    // Keys typed in the alt text and caption fields bubble up to the editor;
+    // they edit the field, not the document
+    const target = event.target as HTMLElement | null;
+    if (target instanceof HTMLInputElement || target?.closest?.('.editor-image-details')) {
+      return false;
+    }
+    if (isSelected && $isNodeSelection($getSelection())) {
+      event.preventDefault();
+      const node = $getNodeByKey(nodeKey);
+      if ($isImageNode(node)) {
+        node.remove();
+        return true;
+      }
+    }
+    return false;
+  }, [isSelected, nodeKey]);
+
+  useEffect(() => {
+    return mergeRegister(
+      editor.registerCommand(
+        CLICK_COMMAND,
+        (event: MouseEvent) => {
+          if (event.target !== imageRef.current) {
+            return false;
+          }
+          if (!event.shiftKey) {
+            clearSelection();
+          }
+          setSelected(!isSelected);
+          return true;
+        },
+        COMMAND_PRIORITY_LOW
+      ),
+      editor.registerCommand(KEY_DELETE_COMMAND, $onDelete, COMMAND_PRIORITY_LOW),
+      editor.registerCommand(KEY_BACKSPACE_COMMAND, $onDelete, COMMAND_PRIORITY_LOW)
+    );
+  }, [clearSelection, editor, isSelected, nodeKey, $onDelete, setSelected]);
+
+  const onResizeStart = (e: ReactPointerEvent<HTMLSpanElement>) => {
+    const image = imageRef.current;
+    if (!image) return;
+    e.preventDefault();
+
+    const startX = e.clientX;
+    const startWidth = image.getBoundingClientRect().width;
+    const maxWidth = editor.getRootElement()?.clientWidth ?? Infinity;
+    const widthAt = (clientX: number) => clampImageWidth(Math.min(maxWidth, startWidth + clientX - startX));
+
+    const onMove = (moveEvent: PointerEvent) => setResizeWidth(widthAt(moveEvent.clientX));
+    const onUp = (upEvent: PointerEvent) => {
+      document.removeEventListener('pointermove', onMove);
+      document.removeEventListener('pointerup', onUp);
+      setResizeWidth(null);
+      setImageAttributes(editor, nodeKey, { width: widthAt(upEvent.clientX) });
+    };
+    document.addEventListener('pointermove', onMove);
+    document.addEventListener('pointerup', onUp);
+  };
+
+  const displayWidth = resizeWidth ?? width;
+
+  return (
+    <>
+      {isAllowedImageSrc(src) ? (
+        <img
+          ref={imageRef}
+          className={isSelected ? 'editor-image-selected' : undefined}
+          src={src}
+          alt={altText}
+          draggable={false}
+          style={displayWidth ? { width: `${displayWidth}px` } : undefined}
+        />
+      ) : (
+        <span className="editor-image-missing">{altText || 'Image unavailable'}</span>
+      )}
+      {isSelected && isEditable && (
+        <span
+          className="editor-image-resizer"
+          role="separator"
+          aria-label="Resize image"
+          onPointerDown={onResizeStart}
+        />
+      )}
+      {caption && <span className="editor-image-caption">{caption}</span>}
+      {(isSelected || isEditingDetails) && isEditable && (
+        <ImageDetailsForm nodeKey={nodeKey} altText={altText} caption={caption} onFocusChange={setEditingDetails} />
+      )}
+    </>
+  );
+}
+
+/**
+ * Caption of an image: its title, or the figcaption of the <figure> around it.
+ */
+function getImageCaption(domNode: HTMLImageElement): string {
+  const figcaption = domNode.closest('figure')?.querySelector('figcaption');
+  return (figcaption?.textContent ?? domNode.title).trim();
+}
+
+function $convertImageElement(domNode: HTMLElement): DOMConversionOutput {
+  const image = domNode as HTMLImageElement;
+  const src = image.getAttribute('src') ?? '';
+  if (!isAllowedImageSrc(src)) {
+    return { node: null };
+  }
+  return {
+    node: $createImageNode({
+      src,
+      altText: image.alt,
+      caption: getImageCaption(image),
+      width: parseImageWidth(image.getAttribute('width')),
+    }),
+  };
+}
+
+/**
+ * Inline image stored by URL. Bytes go through the ImageUploadAdapter (see
+ * utils/images); sources outside the image allowlist are rejected on every
+ * import path and never rendered.
+ */
+export class ImageNode extends DecoratorNode<JSX.Element> {
+  __src: string;
+  __altText: string;
+  __caption: string;
+  __width: number | null;
+
+  static getType(): string {
+    return 'image';
+  }
+
+  static clone(node: ImageNode): ImageNode {
+    return new ImageNode(node.__src, node.__altText, node.__caption, node.__width, node.__key);
+  }
+
+  constructor(src: string, altText = '', caption = '', width: number | null = null, key?: NodeKey) {
+    super(key);
+    this.__src = src;
+    this.__altText = altText;
+    this.__caption = caption;
+    this.__width = width;
+  }
+
+  /**
+   * JSON also arrives from the clipboard, so the source and width are checked
+   * like pasted HTML; a rejected source leaves an "unavailable" placeholder.
+   */
+  static importJSON(serializedNode: SerializedImageNode): ImageNode {
+    const { src, altText, caption, width } = serializedNode;
+    return $createImageNode({
+      src: isAllowedImageSrc(src) ? src : '',
+      altText,
+      caption,
+      width: parseImageWidth(width),
+    });
+  }
+
+  exportJSON(): SerializedImageNode {
+    return {
+      type: 'image',
+      version: 1,
+      src: this.__src,
+      altText: this.__altText,
+      caption: this.__caption,
+      width: this.__width,
+    };
+  }
+
+  /**
+   * <img> becomes an image unless its source is rejected. A <figcaption>
+   * next to an image is dropped: the image has already taken it as caption.
+   */
+  static importDOM(): DOMConversionMap | null {
+    return {
+      img: () => ({
+        conversion: $convertImageElement,
+        priority: 0,
+      }),
+      figcaption: (domNode: HTMLElement) => {
+        if (!domNode.closest('figure')?.querySelector('img')) {
+          return null;
+        }
+        return {
+          conversion: () => ({ node: null, forChild: () => null }),
+          priority: 0,
+        };
+      },
+    };
+  }
+
+  /**
+   * The caption exports as title: images are inline, so a <figure> would
+   * break the surrounding paragraph.
+   */
+  exportDOM(): DOMExportOutput {
+    const element = document.createElement('img');
+    if (isAllowedImageSrc(this.__src)) {
+      element.setAttribute('src', this.__src);
+    }
+    element.setAttribute('alt', this.__altText);
+    if (this.__caption) {
+      element.setAttribute('title', this.__caption);
+    }
+    if (this.__width !== null) {
+      element.setAttribute('width', String(this.__width));
+    }
+    return { element };
+  }
+
+  createDOM(config: EditorConfig): HTMLElement {
+    const element = document.createElement('span');
+    const className = config.theme.image;
+    if (className !== undefined) {
+      element.className = className;
+    }
+    return element;
+  }
+
+  updateDOM(): false {
+    return false;
+  }
+
+  getSrc(): string {
+    return this.getLatest().__src;
+  }
+
+  getAltText(): string {
+    return this.getLatest().__altText;
+  }
+
+  setAltText(altText: string): void {
+    this.getWritable().__altText = altText;
+  }
+
+  getCaption(): string {
+    return this.getLatest().__caption;
+  }
+
+  setCaption(caption: string): void {
+    this.getWritable().__caption = caption;
+  }
+
+  getWidth(): number | null {
+    return this.getLatest().__width;
+  }
+
+  setWidth(width: number | null): void {
+    this.getWritable().__width = width;
+  }
+
+  decorate(): JSX.Element {
+    return (
+      <ImageComponent
+        nodeKey={this.getKey()}
+        src={this.__src}
+        altText={this.__altText}
+        caption={this.__caption}
+        width={this.__width}
+      />
+    );
+  }
+}
+
+export function $createImageNode({ src, altText, caption, width, key }: ImagePayload): ImageNode {
+  return $applyNodeReplacement(new ImageNode(src, altText, caption, width ?? null, key));
+}
+
+export function $isImageNode(node: LexicalNode | null | undefined): node is ImageNode {
+  return node instanceof ImageNode;
+}
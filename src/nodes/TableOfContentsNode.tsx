@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import {
+  $applyNodeReplacement,
+  DecoratorNode,
+  DOMConversionMap,
+  DOMExportOutput,
+  LexicalEditor,
+  LexicalNode,
+  NodeKey,
+  SerializedLexicalNode
+} from 'lexical';
+import { getHeadingPolicy } from '../constants/heading-policy';
+import { selectHeading } from '../commands/outline-commands';
+import { isSameOutline } from '../utils/outline';
+import { $getTocEntries, createTocListElement, TocEntry } from '../utils/toc';
+
+export type SerializedTableOfContentsNode = SerializedLexicalNode;
+
+const TOC_ATTRIBUTE = 'data-lexical-toc';
+
+function flattenEntries(entries: TocEntry[]): TocEntry['item'][] {
+  return entries.flatMap(entry => [entry.item, ...flattenEntries(entry.children)]);
+}
+
+function TocList({ entries, onSelect }: { entries: TocEntry[]; onSelect: (key: NodeKey) => void }) {
+  return (
+    <ul className="editor-toc-list">
+      {entries.map(({ item, children }) => (
+        <li key={item.key} className="editor-toc-item">
+          <a
+            href={item.slug ? `#${item.slug}` : undefined}
+            onClick={(e) => {
+              e.preventDefault();
+              onSelect(item.key);
+            }}
+          >
+            {item.text || 'Untitled'}
+          </a>
+          {children.length > 0 && <TocList entries={children} onSelect={onSelect} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Live view of the document headings, kept in sync by an update listener.
+ */
+function TableOfContents() {
+  const [editor] = useLexicalComposerContext();
+  const [entries, setEntries] = useState<TocEntry[]>([]);
+
+  useEffect(() => {
+    const readEntries = () => {
+      editor.getEditorState().read(() => {
+        const next = $getTocEntries(getHeadingPolicy(editor));
+        // Keep the previous tree when nothing changed to avoid re-rendering on every keystroke
+        setEntries(previous =>
+          isSameOutline(flattenEntries(previous), flattenEntries(next)) ? previous : next
+        );
+      });
+    };
+
+    readEntries();
+    return editor.registerUpdateListener(readEntries);
+  }, [editor]);
+
+  const handleSelect = (key: NodeKey) => {
+    editor.getElementByKey(key)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    selectHeading(editor, key);
+    editor.focus();
+  };
+
+  return (
+    <nav aria-label="Table of contents">
+      <div className="editor-toc-title">Contents</div>
+      {entries.length === 0 ? (
+        <p className="editor-toc-empty">Add headings to build the table of contents</p>
+      ) : (
+        <TocList entries={entries} onSelect={handleSelect} />
+      )}
+    </nav>
+  );
+}
+
+/**
+ * Block that lists the document's headings as a nested, linked table of contents.
+ * Stores nothing but its position: the list is derived from the headings on
+ * every render and export, so it can never go stale.
+ */
+export class TableOfContentsNode extends DecoratorNode<JSX.Element> {
+  static getType(): string {
+    return 'table-of-contents';
+  }
+
+  static clone(node: TableOfContentsNode): TableOfContentsNode {
+    return new TableOfContentsNode(node.__key);
+  }
+
+  static importJSON(_serializedNode: SerializedTableOfContentsNode): TableOfContentsNode {
+    return $createTableOfContentsNode();
+  }
+
+  exportJSON(): SerializedTableOfContentsNode {
+    return {
+      type: 'table-of-contents',
+      version: 1,
+    };
+  }
+
+  /**
+   * Only our own exported TOCs come back as a TOC; any other <nav> is left
+   * to the default conversion.
+   */
+  static importDOM(): DOMConversionMap | null {
+    return {
+      nav: (domNode: HTMLElement) => {
+        if (!domNode.hasAttribute(TOC_ATTRIBUTE)) {
+          return null;
+        }
+        return {
+          conversion: () => ({ node: $createTableOfContentsNode() }),
+          priority: 1,
+        };
+      },
+    };
+  }
+
+  /**
+   * Export a real linked list of the current headings.
+   */
+  exportDOM(editor: LexicalEditor): DOMExportOutput {
+    const element = document.createElement('nav');
+    element.setAttribute(TOC_ATTRIBUTE, 'true');
+    element.setAttribute('aria-label', 'Table of contents');
+    element.append(createTocListElement($getTocEntries(getHeadingPolicy(editor))));
+    return { element };
+  }
+
+  createDOM(): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'editor-toc';
+    return element;
+  }
+
+  updateDOM(): false {
+    return false;
+  }
+
+  decorate(): JSX.Element {
+    return <TableOfContents />;
+  }
+}
+
+export function $createTableOfContentsNode(): TableOfContentsNode {
+  return $applyNodeReplacement(new TableOfContentsNode());
+}
+
+export function $isTableOfContentsNode(node: LexicalNode | null | undefined): node is TableOfContentsNode {
+  return node instanceof TableOfContentsNode;
+}
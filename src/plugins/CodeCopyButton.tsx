@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from 'react'
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext'
+import { $getNearestNodeFromDOMNode, $getNodeByKey, NodeKey } from 'lexical'
+import { $isCodeNode } from '@lexical/code'
+import { $findMatchingParent } from '@lexical/utils'
+
+// Grace period so the pointer can travel from the code block onto the button
+const HIDE_DELAY_MS = 250
+
+type HoveredCodeBlock = {
+  key: NodeKey
+  top: number
+  left: number
+}
+
+/**
+ * Hover button in the bottom-right corner of a code block that copies its
+ * raw text, without highlighting markup or the language label. Works in
+ * read-only editors too.
+ */
+export default function CodeCopyButton() {
+  const [editor] = useLexicalComposerContext()
+  const [hoveredCode, setHoveredCode] = useState<HoveredCodeBlock | null>(null)
+  const [isCopied, setIsCopied] = useState(false)
+  const hideTimerRef = useRef<number | null>(null)
+
+  const cancelHide = () => {
+    if (hideTimerRef.current !== null) {
+      window.clearTimeout(hideTimerRef.current)
+      hideTimerRef.current = null
+    }
+  }
+
+  const scheduleHide = () => {
+    cancelHide()
+    hideTimerRef.current = window.setTimeout(() => {
+      setHoveredCode(null)
+      setIsCopied(false)
+    }, HIDE_DELAY_MS)
+  }
+
+  // Track hover over code blocks rendered by CodeNode (inline code maps to a TextNode and is skipped)
+  useEffect(() => {
+    const handleMouseOver = (e: MouseEvent) => {
+      const element = (e.target as HTMLElement | null)?.closest<HTMLElement>('code')
+      if (!element) return
+
+      let code: HoveredCodeBlock | null = null
+      editor.getEditorState().read(() => {
+        const node = $getNearestNodeFromDOMNode(element)
+        const codeNode = node ? $findMatchingParent(node, $isCodeNode) : null
+        const codeElement = codeNode ? editor.getElementByKey(codeNode.getKey()) : null
+        if ($isCodeNode(codeNode) && codeElement) {
+          const rect = codeElement.getBoundingClientRect()
+          code = {
+            key: codeNode.getKey(),
+            top: rect.bottom + window.scrollY,
+            left: rect.right + window.scrollX,
+          }
+        }
+      })
+
+      if (code) {
+        cancelHide()
+        setHoveredCode(previous => {
+          if (previous?.key !== code?.key) setIsCopied(false)
+          return code
+        })
+      }
+    }
+
+    const handleMouseOut = (e: MouseEvent) => {
+      const element = (e.target as HTMLElement | null)?.closest('code')
+      if (element) scheduleHide()
+    }
+
+    const unregisterRoot = editor.registerRootListener((rootElement, prevRootElement) => {
+      prevRootElement?.removeEventListener('mouseover', handleMouseOver)
+      prevRootElement?.removeEventListener('mouseout', handleMouseOut)
+      rootElement?.addEventListener('mouseover', handleMouseOver)
+      rootElement?.addEventListener('mouseout', handleMouseOut)
+    })
+
+    return () => {
+      unregisterRoot()
+      const rootElement = editor.getRootElement()
+      rootElement?.removeEventListener('mouseover', handleMouseOver)
+      rootElement?.removeEventListener('mouseout', handleMouseOut)
+      cancelHide()
+    }
+  }, [editor])
+
+  // Follow the block as it grows and hide when it disappears (undo, delete, conversion)
+  useEffect(() => {
+    if (!hoveredCode) return
+
+    return editor.registerUpdateListener(({ editorState }) => {
+      editorState.read(() => {
+        const element = editor.getElementByKey(hoveredCode.key)
+        if (!$isCodeNode($getNodeByKey(hoveredCode.key)) || !element) {
+          setHoveredCode(null)
+          return
+        }
+        const rect = element.getBoundingClientRect()
+        const top = rect.bottom + window.scrollY
+        const left = rect.right + window.scrollX
+        if (top !== hoveredCode.top || left !== hoveredCode.left) {
+          setHoveredCode({ ...hoveredCode, top, left })
+        }
+      })
+    })
+  }, [editor, hoveredCode])
+
+  if (!hoveredCode) return null
+
+  const handleCopy = async () => {
+    const text = editor.getEditorState().read(() => $getNodeByKey(hoveredCode.key)?.getTextContent())
+    if (text === undefined) return
+
+    try {
+      await navigator.clipboard.writeText(text)
+      setIsCopied(true)
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.warn('[CodeCopy] Copy to clipboard failed:', error)
+      }
+    }
+  }
+
+  return (
+    <div
+      className="code-copy-button"
+      style={{
+        position: 'absolute',
+        top: `${hoveredCode.top}px`,
+        left: `${hoveredCode.left}px`,
+        zIndex: 1000,
+      }}
+      onMouseEnter={cancelHide}
+      onMouseLeave={scheduleHide}
+    >
+      <button
+        type="button"
+        className="floating-toolbar-btn"
+        onClick={handleCopy}
+        title="Copy code"
+      >
+        {isCopied ? 'Copied' : 'Copy'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+import { useEffect } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { mergeRegister } from '@lexical/utils';
+import {
+  COMMAND_PRIORITY_NORMAL,
+  INSERT_PARAGRAPH_COMMAND,
+  KEY_MODIFIER_COMMAND,
+  KEY_TAB_COMMAND,
+  LexicalEditor
+} from 'lexical';
+import { $indentCode, $insertCodeLineBreak, $toggleCodeComments } from '../utils/code-editing';
+import { logDevWarning } from '../utils/dev-logger';
+
+// Singleton pattern: track registered editors to prevent duplicate registrations
+const registeredEditors = new WeakSet<LexicalEditor>();
+
+/**
+ * Register code-aware keys on an editor. Each handler declines unless the
+ * selection is inside a single code block, so lists and the rest of the
+ * document keep their own Tab and Enter handling. Runs before the code
+ * highlighter's handlers. Exposed separately from the React plugin so
+ * headless editors and tests share the exact same behavior.
+ */
+export function registerCodeEditing(editor: LexicalEditor): () => void {
+  return mergeRegister(
+    editor.registerCommand(
+      KEY_TAB_COMMAND,
+      (event: KeyboardEvent) => {
+        if (!$indentCode(event.shiftKey)) {
+          return false;
+        }
+        event.preventDefault();
+        return true;
+      },
+      COMMAND_PRIORITY_NORMAL
+    ),
+    // Enter arrives here from both keydown and beforeinput
+    editor.registerCommand(INSERT_PARAGRAPH_COMMAND, $insertCodeLineBreak, COMMAND_PRIORITY_NORMAL),
+    editor.registerCommand(
+      KEY_MODIFIER_COMMAND,
+      (event: KeyboardEvent) => {
+        const { ctrlKey, metaKey, altKey, shiftKey, key } = event;
+        if (!(ctrlKey || metaKey) || altKey || shiftKey || key !== '/' || !$toggleCodeComments()) {
+          return false;
+        }
+        event.preventDefault();
+        return true;
+      },
+      COMMAND_PRIORITY_NORMAL
+    )
+  );
+}
+
+/**
+ * Plugin for code block editing:
+ * - Tab: indent (one indent at a caret, every selected line otherwise)
+ * - Shift+Tab: outdent the current or selected lines
+ * - Enter: new line keeping the current indentation
+ * - Mod+/: toggle line comments for the block's language
+ *
+ * Uses singleton pattern to prevent duplicate registrations across
+ * React StrictMode, hot reload, and feature toggles.
+ */
+export function CodeEditingPlugin(): null {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    // Singleton guard: prevent duplicate registrations
+    if (registeredEditors.has(editor)) {
+      logDevWarning('CodeEditing', 'Editor already registered, skipping duplicate registration');
+      return;
+    }
+
+    registeredEditors.add(editor);
+    const unregister = registerCodeEditing(editor);
+
+    return () => {
+      unregister();
+      registeredEditors.delete(editor);
+    };
+  }, [editor]);
+
+  return null;
+}
@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { registerCodeHighlighting } from '@lexical/code';
+import { LexicalEditor } from 'lexical';
+import { CODE_TOKENIZER } from '../utils/code-languages';
+import { logDevWarning } from '../utils/dev-logger';
+
+// Singleton pattern: track registered editors to prevent duplicate registrations
+const registeredEditors = new WeakSet<LexicalEditor>();
+
+/**
+ * Plugin that tokenizes code blocks into CodeHighlightNodes for their
+ * language, styled through theme.codeHighlight. Blocks without a language
+ * are plain text. Requires CodeNode and CodeHighlightNode.
+ *
+ * Uses singleton pattern to prevent duplicate registrations across
+ * React StrictMode, hot reload, and feature toggles.
+ */
+export function CodeHighlightPlugin(): null {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    // Singleton guard: prevent duplicate registrations
+    if (registeredEditors.has(editor)) {
+      logDevWarning('CodeHighlight', 'Editor already registered, skipping duplicate registration');
+      return;
+    }
+
+    registeredEditors.add(editor);
+    const unregister = registerCodeHighlighting(editor, CODE_TOKENIZER);
+
+    return () => {
+      unregister();
+      registeredEditors.delete(editor);
+    };
+  }, [editor]);
+
+  return null;
+}
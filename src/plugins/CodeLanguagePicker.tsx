@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react'
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext'
+import { $getSelection, $isRangeSelection, NodeKey } from 'lexical'
+import { $isCodeNode, getLanguageFriendlyName } from '@lexical/code'
+import { $findMatchingParent } from '@lexical/utils'
+import { setCodeLanguage } from '../commands/code-commands'
+import { CODE_LANGUAGE_OPTIONS, getCodeBlockLanguage } from '../utils/code-languages'
+
+type ActiveCodeBlock = {
+  key: NodeKey
+  language: string
+  top: number
+  left: number
+}
+
+const isSameCodeBlock = (a: ActiveCodeBlock | null, b: ActiveCodeBlock | null) =>
+  a === b || (!!a && !!b && a.key === b.key && a.language === b.language && a.top === b.top && a.left === b.left)
+
+/**
+ * Language dropdown pinned to the top-right corner of the code block
+ * holding the caret. It stays up while the dropdown itself has focus,
+ * because the editor keeps its selection on blur.
+ */
+export default function CodeLanguagePicker() {
+  const [editor] = useLexicalComposerContext()
+  const [codeBlock, setCodeBlock] = useState<ActiveCodeBlock | null>(null)
+
+  useEffect(() => {
+    const updateCodeBlock = () => {
+      const next = editor.getEditorState().read((): ActiveCodeBlock | null => {
+        const selection = $getSelection()
+        if (!$isRangeSelection(selection)) return null
+
+        const node = $findMatchingParent(selection.anchor.getNode(), $isCodeNode)
+        const element = node ? editor.getElementByKey(node.getKey()) : null
+        if (!$isCodeNode(node) || !element) return null
+
+        const rect = element.getBoundingClientRect()
+        return {
+          key: node.getKey(),
+          language: getCodeBlockLanguage(node),
+          top: rect.top + window.scrollY,
+          left: rect.right + window.scrollX,
+        }
+      })
+
+      // Keep the previous object when nothing moved to avoid re-rendering on every keystroke
+      setCodeBlock(previous => (isSameCodeBlock(previous, next) ? previous : next))
+    }
+
+    updateCodeBlock()
+    window.addEventListener('resize', updateCodeBlock)
+    const unregister = editor.registerUpdateListener(updateCodeBlock)
+
+    return () => {
+      unregister()
+      window.removeEventListener('resize', updateCodeBlock)
+    }
+  }, [editor])
+
+  if (!codeBlock) return null
+
+  const isListed = CODE_LANGUAGE_OPTIONS.some(option => option.value === codeBlock.language)
+
+  return (
+    <div
+      className="code-language-picker"
+      style={{
+        position: 'absolute',
+        top: `${codeBlock.top}px`,
+        left: `${codeBlock.left}px`,
+        zIndex: 1000,
+      }}
+    >
+      <select
+        aria-label="Code language"
+        value={codeBlock.language}
+        disabled={!editor.isEditable()}
+        onChange={(e) => setCodeLanguage(editor, codeBlock.key, e.target.value)}
+      >
+        {!isListed && (
+          <option value={codeBlock.language}>{getLanguageFriendlyName(codeBlock.language)}</option>
+        )}
+        {CODE_LANGUAGE_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+import { useEffect } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { mergeRegister } from '@lexical/utils';
+import {
+  $getNearestNodeFromDOMNode,
+  $getRoot,
+  $getSelection,
+  $isRangeSelection,
+  $setSelection,
+  COMMAND_PRIORITY_LOW,
+  COPY_COMMAND,
+  CUT_COMMAND,
+  EditorState,
+  KEY_MODIFIER_COMMAND,
+  LexicalEditor,
+  NodeKey
+} from 'lexical';
+import { toggleSection } from '../commands/outline-commands';
+import {
+  $extendSelectionOverCollapsedSections,
+  $getHiddenBlocks,
+  $isFoldableHeading,
+  $revealNode
+} from '../utils/section-folding';
+import { logDevWarning } from '../utils/dev-logger';
+
+// Singleton pattern: track registered editors to prevent duplicate registrations
+const registeredEditors = new WeakSet<LexicalEditor>();
+
+/**
+ * Attribute marking a foldable heading; CSS draws the chevron in the gutter from it.
+ */
+export const SECTION_TOGGLE_ATTRIBUTE = 'data-section-toggle';
+
+/**
+ * Hidden blocks use hidden="until-found": the browser's find can still match
+ * them and fires `beforematch`, which opens the section.
+ */
+const HIDDEN_VALUE = 'until-found';
+
+/**
+ * Fold sections on an editor: hide the blocks of collapsed sections, draw the
+ * gutter chevrons and open a section again when the caret or the browser's
+ * find lands inside it. Exposed separately from the React plugin so headless
+ * editors and tests share the exact same behavior.
+ *
+ * Shortcut: Mod+Alt+. toggles the section holding the caret.
+ */
+export function registerCollapsibleSections(editor: LexicalEditor): () => void {
+  let hiddenKeys = new Set<NodeKey>();
+  let toggleKeys = new Set<NodeKey>();
+
+  const renderSections = (editorState: EditorState) => {
+    const { hidden, toggles } = editorState.read(() => {
+      const collapsedByKey = new Map<NodeKey, boolean>();
+      $getRoot().getChildren().filter($isFoldableHeading).forEach(heading => {
+        collapsedByKey.set(heading.getKey(), heading.isCollapsed());
+      });
+      return { hidden: new Set($getHiddenBlocks().keys()), toggles: collapsedByKey };
+    });
+
+    hiddenKeys.forEach(key => {
+      if (!hidden.has(key)) {
+        editor.getElementByKey(key)?.removeAttribute('hidden');
+      }
+    });
+    hidden.forEach(key => {
+      editor.getElementByKey(key)?.setAttribute('hidden', HIDDEN_VALUE);
+    });
+
+    toggleKeys.forEach(key => {
+      if (!toggles.has(key)) {
+        editor.getElementByKey(key)?.removeAttribute(SECTION_TOGGLE_ATTRIBUTE);
+      }
+    });
+    toggles.forEach((collapsed, key) => {
+      editor.getElementByKey(key)?.setAttribute(SECTION_TOGGLE_ATTRIBUTE, collapsed ? 'collapsed' : 'expanded');
+    });
+
+    hiddenKeys = hidden;
+    toggleKeys = new Set(toggles.keys());
+  };
+
+  // A caret never stays in hidden text: open whatever section hides it
+  const revealCaret = (editorState: EditorState) => {
+    const needsReveal = editorState.read(() => {
+      const selection = $getSelection();
+      if (!$isRangeSelection(selection) || !selection.isCollapsed()) {
+        return false;
+      }
+      const block = selection.anchor.getNode().getTopLevelElement();
+      return block !== null && $getHiddenBlocks().has(block.getKey());
+    });
+
+    if (needsReveal && editor.isEditable()) {
+      editor.update(() => {
+        const selection = $getSelection();
+        if ($isRangeSelection(selection)) {
+          $revealNode(selection.anchor.getNode());
+        }
+      }, { tag: 'history-merge' });
+    }
+  };
+
+  // Find in page: open the section before the browser scrolls to the match
+  const handleBeforeMatch = (event: Event) => {
+    if (!editor.isEditable()) {
+      return;
+    }
+    editor.update(() => {
+      const node = $getNearestNodeFromDOMNode(event.target as Node);
+      if (node) {
+        $revealNode(node);
+      }
+    }, { tag: 'history-merge' });
+  };
+
+  // The chevron is drawn left of the heading, so a press there is a gutter click
+  const handleMouseDown = (event: MouseEvent) => {
+    const element = (event.target as HTMLElement | null)?.closest<HTMLElement>(`[${SECTION_TOGGLE_ATTRIBUTE}]`);
+    if (!element || event.button !== 0 || event.clientX >= element.getBoundingClientRect().left) {
+      return;
+    }
+
+    const key = editor.getEditorState().read(() => $getNearestNodeFromDOMNode(element)?.getKey());
+    if (key) {
+      // Keep the caret where it is
+      event.preventDefault();
+      toggleSection(editor, key);
+    }
+  };
+
+  renderSections(editor.getEditorState());
+
+  return mergeRegister(
+    editor.registerUpdateListener(({ editorState }) => {
+      renderSections(editorState);
+      revealCaret(editorState);
+    }),
+    editor.registerRootListener((rootElement, prevRootElement) => {
+      prevRootElement?.removeEventListener('beforematch', handleBeforeMatch);
+      prevRootElement?.removeEventListener('mousedown', handleMouseDown);
+      rootElement?.addEventListener('beforematch', handleBeforeMatch);
+      rootElement?.addEventListener('mousedown', handleMouseDown);
+    }),
+    editor.registerCommand(
+      KEY_MODIFIER_COMMAND,
+      (event: KeyboardEvent) => {
+        const { ctrlKey, metaKey, altKey, shiftKey, code } = event;
+        // Match the physical key: Alt changes the typed character on macOS
+        if (!(ctrlKey || metaKey) || !altKey || shiftKey || code !== 'Period') {
+          return false;
+        }
+        event.preventDefault();
+        toggleSection(editor);
+        return true;
+      },
+      COMMAND_PRIORITY_LOW
+    ),
+    // Runs before the rich text handlers, which then copy the extended range
+    editor.registerCommand(COPY_COMMAND, () => {
+      const selection = $getSelection();
+      const original = $isRangeSelection(selection) ? selection.clone() : null;
+      if (!$extendSelectionOverCollapsedSections()) {
+        return false;
+      }
+      // Rich text copies in an update it queues after this one; queue the
+      // restore behind that so copying never moves the visible selection
+      editor.update(() => {
+        editor.update(() => $setSelection(original));
+      });
+      return false;
+    }, COMMAND_PRIORITY_LOW),
+    // Cut removes the extended range, so the selection collapses there anyway
+    editor.registerCommand(CUT_COMMAND, () => {
+      $extendSelectionOverCollapsedSections();
+      return false;
+    }, COMMAND_PRIORITY_LOW),
+    () => {
+      editor.getRootElement()?.removeEventListener('beforematch', handleBeforeMatch);
+      editor.getRootElement()?.removeEventListener('mousedown', handleMouseDown);
+      hiddenKeys.forEach(key => editor.getElementByKey(key)?.removeAttribute('hidden'));
+      toggleKeys.forEach(key => editor.getElementByKey(key)?.removeAttribute(SECTION_TOGGLE_ATTRIBUTE));
+    }
+  );
+}
+
+/**
+ * Plugin for collapsible sections: a gutter chevron (or Mod+Alt+.) folds a
+ * heading's section up to the next heading of the same or a higher level.
+ * The collapsed state is saved with the heading; copy, cut and find treat
+ * the hidden blocks as part of the document.
+ *
+ * Uses singleton pattern to prevent duplicate registrations across
+ * React StrictMode, hot reload, and feature toggles.
+ */
+export function CollapsibleSectionsPlugin(): null {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    // Singleton guard: prevent duplicate registrations
+    if (registeredEditors.has(editor)) {
+      logDevWarning('CollapsibleSections', 'Editor already registered, skipping duplicate registration');
+      return;
+    }
+
+    registeredEditors.add(editor);
+    const unregister = registerCollapsibleSections(editor);
+
+    return () => {
+      unregister();
+      registeredEditors.delete(editor);
+    };
+  }, [editor]);
+
+  return null;
+}
@@ -0,0 +1,247 @@
+import { useEffect } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $findMatchingParent, mergeRegister } from '@lexical/utils';
+import {
+  $createParagraphNode,
+  $getNearestNodeFromDOMNode,
+  $getSelection,
+  $isRangeSelection,
+  COMMAND_PRIORITY_LOW,
+  COMMAND_PRIORITY_NORMAL,
+  EditorState,
+  KEY_ARROW_DOWN_COMMAND,
+  KEY_ARROW_LEFT_COMMAND,
+  KEY_ARROW_RIGHT_COMMAND,
+  KEY_ARROW_UP_COMMAND,
+  KEY_MODIFIER_COMMAND,
+  LexicalEditor,
+  LexicalNode
+} from 'lexical';
+import { toggleDetails } from '../commands/block-commands';
+import {
+  $isDetailsContentNode,
+  $isDetailsNode,
+  $isDetailsSummaryNode,
+  DETAILS_SUMMARY_ATTRIBUTE,
+  DetailsContentNode,
+  DetailsNode,
+  DetailsSummaryNode
+} from '../nodes/DetailsNode';
+import { logDevWarning } from '../utils/dev-logger';
+
+// Singleton pattern: track registered editors to prevent duplicate registrations
+const registeredEditors = new WeakSet<LexicalEditor>();
+
+/**
+ * Open every closed toggle around a node, innermost first.
+ */
+function $openDetailsAround(node: LexicalNode): void {
+  let details = $findMatchingParent(node, $isDetailsNode);
+  while ($isDetailsNode(details)) {
+    const content = details.getContent();
+    if (!details.isOpen() && content && content.isParentOf(node)) {
+      details.setOpen(true);
+    }
+    details = $findMatchingParent(details.getParentOrThrow(), $isDetailsNode);
+  }
+}
+
+/**
+ * Arrow keys cannot leave a toggle with no block before or after it, since
+ * there is nothing to move to. Up/Left at the very start adds a paragraph
+ * before it, Down/Right at the very end one after it.
+ */
+function $escapeDetails(direction: 'backward' | 'forward'): boolean {
+  const selection = $getSelection();
+  if (!$isRangeSelection(selection) || !selection.isCollapsed()) {
+    return false;
+  }
+  const anchor = selection.anchor;
+  const details = $findMatchingParent(anchor.getNode(), $isDetailsNode);
+  if (!$isDetailsNode(details)) {
+    return false;
+  }
+
+  if (direction === 'backward') {
+    const first = details.getFirstDescendant();
+    const atStart = anchor.offset === 0 && (anchor.key === first?.getKey() || anchor.key === details.getSummary()?.getKey());
+    if (atStart && details.getPreviousSibling() === null) {
+      details.insertBefore($createParagraphNode());
+    }
+    return false;
+  }
+
+  // The end is the body's last text when open, the summary's when closed
+  const summary = details.getSummary();
+  const last = details.isOpen() ? details.getLastDescendant() : summary?.getLastDescendant() ?? summary;
+  const atEnd = last !== null && last !== undefined && anchor.key === last.getKey() && anchor.offset === last.getTextContentSize();
+  if (atEnd && details.getNextSibling() === null) {
+    details.insertAfter($createParagraphNode());
+  }
+  return false;
+}
+
+/**
+ * Register toggle blocks on an editor: keep every toggle shaped as
+ * [summary, body], open a closed toggle when the caret or the browser's find
+ * lands in its body, and handle the chevron, shortcut and arrow keys.
+ * Exposed separately from the React plugin so headless editors and tests
+ * share the exact same behavior.
+ *
+ * Shortcut: Mod+Alt+. toggles the toggle holding the caret. It falls through
+ * to CollapsibleSectionsPlugin outside toggles, so the same keys fold
+ * whatever is nearest.
+ */
+export function registerDetails(editor: LexicalEditor): () => void {
+  // A caret never stays in hidden text: open whatever toggle hides it
+  const revealCaret = (editorState: EditorState) => {
+    const needsReveal = editorState.read(() => {
+      const selection = $getSelection();
+      if (!$isRangeSelection(selection) || !selection.isCollapsed()) {
+        return false;
+      }
+      const content = $findMatchingParent(selection.anchor.getNode(), $isDetailsContentNode);
+      const details = content?.getParent();
+      return $isDetailsNode(details) && !details.isOpen();
+    });
+
+    if (needsReveal && editor.isEditable()) {
+      editor.update(() => {
+        const selection = $getSelection();
+        if ($isRangeSelection(selection)) {
+          $openDetailsAround(selection.anchor.getNode());
+        }
+      }, { tag: 'history-merge' });
+    }
+  };
+
+  // Find in page: open the toggle before the browser scrolls to the match
+  const handleBeforeMatch = (event: Event) => {
+    if (!editor.isEditable()) {
+      return;
+    }
+    editor.update(() => {
+      const node = $getNearestNodeFromDOMNode(event.target as Node);
+      if (node) {
+        $openDetailsAround(node);
+      }
+    }, { tag: 'history-merge' });
+  };
+
+  // The chevron is drawn left of the summary text, so a press there is a chevron click
+  const handleMouseDown = (event: MouseEvent) => {
+    const summary = (event.target as HTMLElement | null)?.closest<HTMLElement>(`[${DETAILS_SUMMARY_ATTRIBUTE}]`);
+    if (!summary || event.button !== 0 || event.clientX >= summary.getBoundingClientRect().left) {
+      return;
+    }
+
+    const key = editor.getEditorState().read(() => {
+      const node = $getNearestNodeFromDOMNode(summary);
+      return $isDetailsSummaryNode(node) ? node.getParent()?.getKey() : undefined;
+    });
+    if (key) {
+      // Keep the caret where it is
+      event.preventDefault();
+      toggleDetails(editor, key);
+    }
+  };
+
+  return mergeRegister(
+    // A summary or body outside a toggle, or a toggle missing either, is
+    // unwrapped rather than left half-built (after Backspace, block
+    // formatting or a partial paste)
+    editor.registerNodeTransform(DetailsNode, (node) => {
+      if (!editor.isEditable()) {
+        return;
+      }
+      const children = node.getChildren();
+      if (children.length !== 2 || !$isDetailsSummaryNode(children[0]) || !$isDetailsContentNode(children[1])) {
+        children.forEach(child => node.insertBefore(child));
+        node.remove();
+      }
+    }),
+    editor.registerNodeTransform(DetailsSummaryNode, (node) => {
+      if (!editor.isEditable()) {
+        return;
+      }
+      if (!$isDetailsNode(node.getParent())) {
+        node.replace($createParagraphNode(), true);
+      }
+    }),
+    editor.registerNodeTransform(DetailsContentNode, (node) => {
+      if (!editor.isEditable()) {
+        return;
+      }
+      if (!$isDetailsNode(node.getParent())) {
+        node.getChildren().forEach(child => node.insertBefore(child));
+        node.remove();
+      } else if (node.isEmpty()) {
+        node.append($createParagraphNode());
+      }
+    }),
+    editor.registerUpdateListener(({ editorState }) => revealCaret(editorState)),
+    editor.registerRootListener((rootElement, prevRootElement) => {
+      prevRootElement?.removeEventListener('beforematch', handleBeforeMatch);
+      prevRootElement?.removeEventListener('mousedown', handleMouseDown);
+      rootElement?.addEventListener('beforematch', handleBeforeMatch);
+      rootElement?.addEventListener('mousedown', handleMouseDown);
+    }),
+    // Ahead of CollapsibleSectionsPlugin, which shares the shortcut
+    editor.registerCommand(
+      KEY_MODIFIER_COMMAND,
+      (event: KeyboardEvent) => {
+        const { ctrlKey, metaKey, altKey, shiftKey, code } = event;
+        // Match the physical key: Alt changes the typed character on macOS
+        if (!(ctrlKey || metaKey) || !altKey || shiftKey || code !== 'Period') {
+          return false;
+        }
+        const selection = $getSelection();
+        if (!$isRangeSelection(selection) || !$findMatchingParent(selection.anchor.getNode(), $isDetailsNode)) {
+          return false;
+        }
+        event.preventDefault();
+        toggleDetails(editor);
+        return true;
+      },
+      COMMAND_PRIORITY_NORMAL
+    ),
+    editor.registerCommand(KEY_ARROW_UP_COMMAND, () => $escapeDetails('backward'), COMMAND_PRIORITY_LOW),
+    editor.registerCommand(KEY_ARROW_LEFT_COMMAND, () => $escapeDetails('backward'), COMMAND_PRIORITY_LOW),
+    editor.registerCommand(KEY_ARROW_DOWN_COMMAND, () => $escapeDetails('forward'), COMMAND_PRIORITY_LOW),
+    editor.registerCommand(KEY_ARROW_RIGHT_COMMAND, () => $escapeDetails('forward'), COMMAND_PRIORITY_LOW),
+    () => {
+      editor.getRootElement()?.removeEventListener('beforematch', handleBeforeMatch);
+      editor.getRootElement()?.removeEventListener('mousedown', handleMouseDown);
+    }
+  );
+}
+
+/**
+ * Plugin for toggle blocks (<details>): the summary line stays visible and
+ * the body opens and closes with the chevron, Mod+Alt+. or Enter on the
+ * summary. The open state is saved with the toggle.
+ *
+ * Uses singleton pattern to prevent duplicate registrations across
+ * React StrictMode, hot reload, and feature toggles.
+ */
+export function DetailsPlugin(): null {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    // Singleton guard: prevent duplicate registrations
+    if (registeredEditors.has(editor)) {
+      logDevWarning('Details', 'Editor already registered, skipping duplicate registration');
+      return;
+    }
+
+    registeredEditors.add(editor);
+    const unregister = registerDetails(editor);
+
+    return () => {
+      unregister();
+      registeredEditors.delete(editor);
+    };
+  }, [editor]);
+
+  return null;
+}
@@ -3,26 +3,40 @@ import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext
 import {
   $getSelection,
   $isRangeSelection,
+  $setSelection,
   FORMAT_TEXT_COMMAND,
   SELECTION_CHANGE_COMMAND,
   COMMAND_PRIORITY_LOW,
+  RangeSelection,
 } from 'lexical'
-import {
-  INSERT_UNORDERED_LIST_COMMAND,
-  REMOVE_LIST_COMMAND,
-  $isListNode,
-} from '@lexical/list'
+import { $isListNode } from '@lexical/list'
 import {
   $createQuoteNode,
   $isQuoteNode,
 } from '@lexical/rich-text'
 import { $createHeadingNode, $isHeadingNode } from '@lexical/rich-text'
 // Note: useLexicalIsEditable not available in current version
-import { isAllowedHeadingTag } from '../constants/heading-policy'
+import {
+  DEFAULT_HEADING_POLICY,
+  HeadingPolicy,
+  isAllowedHeadingTag,
+  normalizeHeadingTag,
+} from '../constants/heading-policy'
 import { formatHeading } from '../commands/heading-commands'
+import { formatList, $getSelectedListType } from '../commands/list-commands'
+import { insertTableOfContents } from '../commands/outline-commands'
+import { formatCallout, insertDetails, insertHorizontalRule } from '../commands/block-commands'
+import { insertTable } from '../commands/table-commands'
+import { $isCalloutNode } from '../nodes/CalloutNode'
+import { $isDetailsNode } from '../nodes/DetailsNode'
+import { HeadingTagType, ListBlockType } from '../types/editor-types'
 import { $setBlocksType } from '@lexical/selection'
 import { $createParagraphNode } from 'lexical'
 import { $createCodeNode, $isCodeNode } from '@lexical/code'
+import { $isLinkNode, TOGGLE_LINK_COMMAND } from '@lexical/link'
+import { $findMatchingParent } from '@lexical/utils'
+import { isAllowedUrl } from '../config/sanitization-config'
+import { LINK_SECURITY_ATTRIBUTES } from './LinkPolicyPlugin'
 
 // SVG Icons
 const ChevronDownIcon = () => (
@@ -37,20 +51,57 @@ const DropdownChevronIcon = () => (
   </svg>
 )
 
-type BlockType = 'paragraph' | 'h1' | 'h2' | 'h3' | 'quote' | 'code' | 'bullet'
+const LinkIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"></path>
+    <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"></path>
+  </svg>
+)
+
+/**
+ * Normalize user-typed link input: bare domains get https://, bare emails get mailto:.
+ * The result still has to pass isAllowedUrl before it is applied.
+ */
+export function normalizeLinkInput(input: string): string {
+  const url = input.trim()
+  if (!url || /^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith('#')) {
+    return url
+  }
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(url)) {
+    return `mailto:${url}`
+  }
+  return `https://${url}`
+}
+
+type BlockType = 'paragraph' | HeadingTagType | 'quote' | 'callout' | 'details' | 'code' | ListBlockType | 'toc' | 'hr' | 'table'
 
-const BLOCKS: {label: string; type: BlockType}[] = [
-  {label: 'Paragraph', type: 'paragraph'},
-  {label: 'Heading 1', type: 'h1'},
-  {label: 'Heading 2', type: 'h2'},
-  {label: 'Heading 3', type: 'h3'},
-  {label: 'Quote', type: 'quote'},
-  {label: 'Code Block', type: 'code'},
-  {label: 'Bullet List', type: 'bullet'},
-]
+/**
+ * Block menu entries; heading entries come from the heading policy.
+ */
+function getBlocks(policy: HeadingPolicy): {label: string; type: BlockType}[] {
+  return [
+    {label: 'Paragraph', type: 'paragraph'},
+    ...policy.allowedTags.map(tag => ({label: `Heading ${tag.slice(1)}`, type: tag})),
+    {label: 'Quote', type: 'quote'},
+    {label: 'Callout', type: 'callout'},
+    {label: 'Toggle', type: 'details'},
+    {label: 'Code Block', type: 'code'},
+    {label: 'Bullet List', type: 'bullet'},
+    {label: 'Numbered List', type: 'number'},
+    {label: 'Check List', type: 'check'},
+    {label: 'Table of Contents', type: 'toc'},
+    {label: 'Divider', type: 'hr'},
+    {label: 'Table', type: 'table'},
+  ]
+}
 
-export default function FloatingToolbar() {
+export default function FloatingToolbar({
+  headingPolicy = DEFAULT_HEADING_POLICY,
+}: {
+  headingPolicy?: HeadingPolicy
+}) {
   const [editor] = useLexicalComposerContext()
+  const blocks = getBlocks(headingPolicy)
   const toolbarRef = useRef<HTMLDivElement>(null)
   
   // State
@@ -61,6 +112,60 @@ export default function FloatingToolbar() {
   const [isCode, setIsCode] = useState(false)
   const [blockType, setBlockType] = useState<BlockType>('paragraph')
   const [position, setPosition] = useState({ top: 0, left: 0 })
+  const [isLink, setIsLink] = useState(false)
+  const [isLinkEditorOpen, setIsLinkEditorOpen] = useState(false)
+  const [linkUrl, setLinkUrl] = useState('')
+  const [linkError, setLinkError] = useState<string | null>(null)
+  
+  // Refs read from Lexical listeners, which would otherwise see stale state
+  const isLinkEditorOpenRef = useRef(false)
+  const savedSelectionRef = useRef<RangeSelection | null>(null)
+  const currentLinkUrlRef = useRef('')
+  
+  const closeLinkEditor = () => {
+    isLinkEditorOpenRef.current = false
+    savedSelectionRef.current = null
+    setIsLinkEditorOpen(false)
+    setLinkError(null)
+  }
+  
+  // Open the inline URL editor, remembering the selection it applies to
+  const openLinkEditor = () => {
+    if (!editor.isEditable()) return
+    
+    editor.getEditorState().read(() => {
+      const selection = $getSelection()
+      savedSelectionRef.current = $isRangeSelection(selection) ? selection.clone() : null
+    })
+    
+    isLinkEditorOpenRef.current = true
+    setLinkUrl(currentLinkUrlRef.current)
+    setLinkError(null)
+    setIsDropdownOpen(false)
+    setIsLinkEditorOpen(true)
+  }
+  
+  // Apply (or remove, when url is null) a link on the saved selection
+  const applyLink = (url: string | null) => {
+    if (url !== null && !isAllowedUrl(url)) {
+      setLinkError('Only http, https and mailto links are allowed')
+      return
+    }
+    
+    const savedSelection = savedSelectionRef.current
+    editor.update(() => {
+      if (savedSelection) {
+        $setSelection(savedSelection.clone())
+      }
+      editor.dispatchCommand(
+        TOGGLE_LINK_COMMAND,
+        url === null ? null : { url, ...LINK_SECURITY_ATTRIBUTES }
+      )
+    })
+    
+    closeLinkEditor()
+    editor.focus()
+  }
   
   // Handle block type changes with unified command usage
   const handleBlockTypeChange = (type: BlockType) => {
@@ -73,8 +178,8 @@ export default function FloatingToolbar() {
     }
     
     // Use formatHeading for all heading and paragraph changes
-    if (type === 'paragraph' || ['h1', 'h2', 'h3'].includes(type)) {
-      const success = formatHeading(editor, type, { enableToggle: true })
+    if (type === 'paragraph' || isAllowedHeadingTag(type, headingPolicy)) {
+      const success = formatHeading(editor, type, { enableToggle: true, policy: headingPolicy })
       if (!success && import.meta.env.DEV) {
         console.warn(`[FloatingToolbar] Failed to change block type to ${type}`)
       }
@@ -82,6 +187,42 @@ export default function FloatingToolbar() {
       return
     }
     
+    if (type === 'bullet' || type === 'number' || type === 'check') {
+      formatList(editor, type)
+      editor.focus()
+      return
+    }
+    
+    if (type === 'callout') {
+      formatCallout(editor)
+      editor.focus()
+      return
+    }
+    
+    if (type === 'details') {
+      insertDetails(editor)
+      editor.focus()
+      return
+    }
+    
+    if (type === 'toc') {
+      insertTableOfContents(editor)
+      editor.focus()
+      return
+    }
+    
+    if (type === 'hr') {
+      insertHorizontalRule(editor)
+      editor.focus()
+      return
+    }
+    
+    if (type === 'table') {
+      insertTable(editor)
+      editor.focus()
+      return
+    }
+    
     // Handle other block types directly
     editor.update(() => {
       const selection = $getSelection()
@@ -94,16 +235,6 @@ export default function FloatingToolbar() {
         case 'code':
           $setBlocksType(selection, () => $createCodeNode())
           break
-        case 'bullet': {
-          const anchor = selection.anchor.getNode()
-          const element = anchor.getTopLevelElementOrThrow()
-          if ($isListNode(element) && element.getListType() === 'bullet') {
-            editor.dispatchCommand(REMOVE_LIST_COMMAND, undefined)
-          } else {
-            editor.dispatchCommand(INSERT_UNORDERED_LIST_COMMAND, undefined)
-          }
-          break
-        }
       }
     })
     
@@ -124,6 +255,11 @@ export default function FloatingToolbar() {
         setIsItalic(selection.hasFormat('italic'))
         setIsCode(selection.hasFormat('code'))
         
+        // Update link state
+        const linkNode = $findMatchingParent(selection.anchor.getNode(), $isLinkNode)
+        currentLinkUrlRef.current = $isLinkNode(linkNode) ? linkNode.getURL() : ''
+        setIsLink($isLinkNode(linkNode))
+        
         // Update block type
         const anchor = selection.anchor.getNode()
         let element = null
@@ -145,20 +281,21 @@ export default function FloatingToolbar() {
           setBlockType('code')
         } else if ($isHeadingNode(element)) {
           const tag = element.getTag()
-          if (isAllowedHeadingTag(tag)) {
-            setBlockType(tag)
-          } else {
-            // This shouldn't happen due to policy, but handle gracefully
-            setBlockType('h3') // Show as h3 since that's what it will be normalized to
-          }
+          // Disallowed levels shouldn't exist due to policy; show what they normalize to
+          setBlockType(normalizeHeadingTag(tag, headingPolicy) ?? 'paragraph')
         } else if ($isQuoteNode(element)) {
           setBlockType('quote')
-        } else if ($isListNode(element) && element.getListType() === 'bullet') {
-          setBlockType('bullet')
+        } else if ($isCalloutNode(element)) {
+          setBlockType('callout')
+        } else if ($isDetailsNode(element)) {
+          setBlockType('details')
+        } else if ($isListNode(element)) {
+          setBlockType($getSelectedListType() ?? element.getListType())
         } else {
           setBlockType('paragraph')
         }
-      } else {
+      } else if (!isLinkEditorOpenRef.current) {
+        // Keep the toolbar while the URL input owns focus
         setIsVisible(false)
       }
     })
@@ -202,18 +339,22 @@ export default function FloatingToolbar() {
     setPosition({ top, left })
   }
   
-  // Handle click outside dropdown
+  // Handle click outside dropdown or link editor
   useEffect(() => {
-    if (isDropdownOpen) {
+    if (isDropdownOpen || isLinkEditorOpen) {
       const handleClickOutside = (e: MouseEvent) => {
         if (toolbarRef.current && !toolbarRef.current.contains(e.target as Node)) {
           setIsDropdownOpen(false)
+          if (isLinkEditorOpenRef.current) {
+            closeLinkEditor()
+            updateToolbarState()
+          }
         }
       }
       document.addEventListener('mousedown', handleClickOutside)
       return () => document.removeEventListener('mousedown', handleClickOutside)
     }
-  }, [isDropdownOpen])
+  }, [isDropdownOpen, isLinkEditorOpen])
   
   // Register listeners
   useEffect(() => {
@@ -275,6 +416,52 @@ export default function FloatingToolbar() {
         zIndex: 1000,
       }}
     >
+      {isLinkEditorOpen ? (
+        <form
+          className="floating-toolbar-link-editor"
+          onSubmit={(e) => {
+            e.preventDefault()
+            applyLink(normalizeLinkInput(linkUrl))
+          }}
+        >
+          <input
+            autoFocus
+            type="text"
+            className={`floating-toolbar-link-input ${linkError ? 'invalid' : ''}`}
+            value={linkUrl}
+            placeholder="Paste or type a link"
+            aria-label="Link URL"
+            aria-invalid={linkError !== null}
+            onChange={(e) => {
+              setLinkUrl(e.target.value)
+              setLinkError(null)
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                e.preventDefault()
+                closeLinkEditor()
+                editor.focus()
+              }
+            }}
+          />
+          <button type="submit" className="floating-toolbar-btn" title="Apply link">
+            Apply
+          </button>
+          {isLink && (
+            <button
+              type="button"
+              className="floating-toolbar-btn"
+              title="Remove link"
+              onClick={() => applyLink(null)}
+            >
+              Unlink
+            </button>
+          )}
+          {linkError && (
+            <div className="floating-toolbar-link-error" role="alert">{linkError}</div>
+          )}
+        </form>
+      ) : (
       <div className="floating-toolbar-content">
         {/* Block type dropdown */}
         <div className="relative">
@@ -283,12 +470,12 @@ export default function FloatingToolbar() {
             onClick={() => setIsDropdownOpen(!isDropdownOpen)}
             onMouseDown={(e) => e.preventDefault()} // Prevent selection loss
           >
-            <span>{BLOCKS.find(b => b.type === blockType)?.label || 'Paragraph'}</span>
+            <span>{blocks.find(b => b.type === blockType)?.label || 'Paragraph'}</span>
             <DropdownChevronIcon />
           </button>
           {isDropdownOpen && (
             <div className="floating-toolbar-dropdown-menu">
-              {BLOCKS.map((block) => (
+              {blocks.map((block) => (
                 <button
                   key={block.type}
                   className={`floating-toolbar-dropdown-item ${blockType === block.type ? 'active' : ''}`}
@@ -336,7 +523,17 @@ export default function FloatingToolbar() {
         >
           &lt;/&gt;
         </button>
+        <button 
+          className={`floating-toolbar-btn ${isLink ? 'active' : ''}`}
+          onClick={openLinkEditor}
+          onMouseDown={(e) => e.preventDefault()}
+          title={isLink ? 'Edit link' : 'Add link'}
+          aria-pressed={isLink}
+        >
+          <LinkIcon />
+        </button>
       </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,103 @@
+import { useEffect } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $getNodeByKey, $getSelection, $isRangeSelection, EditorState, LexicalEditor, NodeKey } from 'lexical';
+import { $findMatchingParent } from '@lexical/utils';
+import { $isCustomHeadingNode } from '../nodes/CustomHeadingNode';
+import {
+  $applyHeadingSlugChanges,
+  $findHeadingSlugChanges,
+  $getHeadingSlugs
+} from '../utils/heading-anchors';
+import { logDevWarning } from '../utils/dev-logger';
+
+// Singleton pattern: track registered editors to prevent duplicate registrations
+const registeredEditors = new WeakSet<LexicalEditor>();
+
+/**
+ * Whether an update may need new slugs: edits inside a heading mark it dirty
+ * along with its ancestors, a whole new editor state (setEditorState) only
+ * marks the root, and a caret leaving a heading lets a new one take its slug.
+ */
+function mayChangeSlugs(
+  dirtyElements: ReadonlyMap<NodeKey, boolean>,
+  dirtyLeaves: ReadonlySet<NodeKey>,
+  editorState: EditorState,
+  prevEditorState: EditorState
+): boolean {
+  if (dirtyLeaves.size === 0 && dirtyElements.size === 1 && dirtyElements.has('root')) {
+    return true;
+  }
+
+  const keys = [...dirtyElements.keys()];
+  const hasHeading = (state: EditorState) => state.read(() => keys.some(key => $isCustomHeadingNode($getNodeByKey(key))));
+  const caretWasInHeading = prevEditorState.read(() => {
+    const selection = $getSelection();
+    return $isRangeSelection(selection) && $findMatchingParent(selection.anchor.getNode(), $isCustomHeadingNode) !== null;
+  });
+  return caretWasInHeading || hasHeading(editorState) || hasHeading(prevEditorState);
+}
+
+/**
+ * Register slug assignment on an editor.
+ * Slugs are assigned after the update that created the need for them, merged
+ * into its history entry, because the previous state decides which of two
+ * duplicates keeps its slug. Exposed separately from the React plugin so
+ * headless editors and tests share the exact same behavior.
+ */
+export function registerHeadingAnchors(editor: LexicalEditor): () => void {
+  const assignSlugs = (editorState: EditorState, prevEditorState: EditorState) => {
+    if (!editor.isEditable()) {
+      return;
+    }
+
+    const previousSlugs = prevEditorState.read($getHeadingSlugs);
+    const changes = editorState.read(() => $findHeadingSlugChanges(previousSlugs));
+
+    if (changes.size > 0) {
+      editor.update(() => {
+        $applyHeadingSlugChanges(changes);
+      }, { tag: 'history-merge' });
+    }
+  };
+
+  // Content loaded before registration gets its slugs right away
+  const currentState = editor.getEditorState();
+  assignSlugs(currentState, currentState);
+
+  return editor.registerUpdateListener(({ editorState, prevEditorState, dirtyElements, dirtyLeaves }) => {
+    // Selection moves and edits outside headings can't change a slug
+    if (mayChangeSlugs(dirtyElements, dirtyLeaves, editorState, prevEditorState)) {
+      assignSlugs(editorState, prevEditorState);
+    }
+  });
+}
+
+/**
+ * Plugin that gives every heading a persisted, unique slug, rendered as its
+ * `id` so sections can be linked to. Requires CustomHeadingNode; headings of
+ * the stock HeadingNode are left alone.
+ *
+ * Uses singleton pattern to prevent duplicate registrations across
+ * React StrictMode, hot reload, and feature toggles.
+ */
+export function HeadingAnchorsPlugin(): null {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    // Singleton guard: prevent duplicate registrations
+    if (registeredEditors.has(editor)) {
+      logDevWarning('HeadingAnchors', 'Editor already registered, skipping duplicate registration');
+      return;
+    }
+
+    registeredEditors.add(editor);
+    const unregister = registerHeadingAnchors(editor);
+
+    return () => {
+      unregister();
+      registeredEditors.delete(editor);
+    };
+  }, [editor]);
+
+  return null;
+}
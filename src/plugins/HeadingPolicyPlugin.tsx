@@ -2,15 +2,36 @@ import { useEffect } from 'react';
 import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
 import { 
   HeadingNode, 
-  $createHeadingNode
+  $isHeadingNode
 } from '@lexical/rich-text';
-import { LexicalEditor } from 'lexical';
-import { shouldNormalizeHeadingTag } from '../constants/heading-policy';
+import { mergeRegister } from '@lexical/utils';
+import {
+  $createParagraphNode,
+  $getRoot,
+  ElementNode,
+  LexicalEditor,
+  NodeKey,
+  RootNode
+} from 'lexical';
+import {
+  DEFAULT_HEADING_POLICY,
+  getHeadingRank,
+  HeadingPolicy,
+  normalizeHeadingTag,
+  setHeadingPolicy,
+  shouldNormalizeHeadingTag
+} from '../constants/heading-policy';
+import { $createEditorHeadingNode, $isCustomHeadingNode } from '../nodes/CustomHeadingNode';
 import { logHeadingWarning } from '../utils/dev-logger';
 
 // Singleton pattern: track registered editors to prevent duplicate registrations
 const registeredEditors = new WeakSet<LexicalEditor>();
 
+/**
+ * Class added to headings that skip a level when the policy flags hierarchy.
+ */
+export const HEADING_SKIP_CLASS = 'editor-heading-skip';
+
 // Rate-limit warnings to once per session per message type
 const warnedMessages = new Set<string>();
 
@@ -22,14 +43,198 @@ function logOncePerSession(message: string): void {
 }
 
 /**
- * Plugin that enforces H1-H3 heading policy through a single node transform.
- * The transform is the sole enforcer - it normalizes h4-h6 to h3 after any update,
+ * Replace a heading that violates the policy with an allowed heading,
+ * or a paragraph in demote mode. Content, format, indent and direction are kept.
+ *
+ * @returns true if the node was replaced
+ */
+export function $applyHeadingPolicy(node: HeadingNode, policy: HeadingPolicy): boolean {
+  const tag = node.getTag();
+
+  // Idempotence: early return for allowed tags
+  if (!shouldNormalizeHeadingTag(tag, policy)) {
+    return false;
+  }
+
+  const normalizedTag = normalizeHeadingTag(tag, policy);
+  $replaceHeading(node, normalizedTag ? $createEditorHeadingNode(normalizedTag) : $createParagraphNode());
+
+  logOncePerSession(
+    `[HeadingPolicy] Normalized ${tag} heading to ${normalizedTag ?? 'paragraph'} to maintain consistency`
+  );
+  return true;
+}
+
+/**
+ * Swap a heading for another block, keeping content, format, indent, direction
+ * and, between headings, the section anchor and collapsed state.
+ */
+function $replaceHeading(node: HeadingNode, newNode: ElementNode): void {
+  // CRITICAL: Preserve all content and attributes
+  newNode.setFormat(node.getFormat());
+  newNode.setIndent(node.getIndent());
+  newNode.setDirection(node.getDirection());
+  if ($isCustomHeadingNode(node) && $isCustomHeadingNode(newNode)) {
+    newNode.setSlug(node.getSlug());
+    newNode.setCollapsed(node.isCollapsed());
+  }
+
+  // Create stable snapshot of children before moving them
+  const children = [...node.getChildren()];
+
+  // Move children to preserve text and inline formatting
+  children.forEach(child => {
+    // Detach from original node first, then append to new node
+    child.remove();
+    newNode.append(child);
+  });
+
+  // Replace in tree (atomic operation)
+  node.replace(newNode);
+}
+
+/**
+ * Find top-level headings that skip a level relative to the heading before
+ * them (h1 followed directly by h3). The first heading may start at any level.
+ * Headings the policy has not normalized yet are ignored.
+ */
+export function $findHeadingSkips(policy: HeadingPolicy): HeadingNode[] {
+  const skips: HeadingNode[] = [];
+  let previousRank = -1;
+
+  $getRoot().getChildren().forEach(child => {
+    if (!$isHeadingNode(child)) {
+      return;
+    }
+
+    const rank = getHeadingRank(child.getTag(), policy);
+    if (rank === -1) {
+      return;
+    }
+
+    if (previousRank !== -1 && rank > previousRank + 1) {
+      skips.push(child);
+    }
+    previousRank = rank;
+  });
+
+  return skips;
+}
+
+/**
+ * Relabel every skipping heading to the next valid level. Later headings are
+ * checked against the relabeled level, so h1, h3, h4 becomes h1, h2, h3.
+ *
+ * @returns true if any heading was relabeled
+ */
+export function $relabelHeadingSkips(policy: HeadingPolicy): boolean {
+  let relabeled = false;
+  let previousRank = -1;
+
+  $getRoot().getChildren().forEach(child => {
+    if (!$isHeadingNode(child)) {
+      return;
+    }
+
+    const rank = getHeadingRank(child.getTag(), policy);
+    if (rank === -1) {
+      return;
+    }
+
+    if (previousRank !== -1 && rank > previousRank + 1) {
+      const tag = policy.allowedTags[previousRank + 1];
+      logOncePerSession(`[HeadingPolicy] Relabeled skipped ${child.getTag()} heading to ${tag}`);
+      $replaceHeading(child, $createEditorHeadingNode(tag));
+      previousRank = previousRank + 1;
+      relabeled = true;
+    } else {
+      previousRank = rank;
+    }
+  });
+
+  return relabeled;
+}
+
+/**
+ * Register the optional hierarchy check for a policy.
+ * Relabeling runs as a root transform, in the same update as the edit or paste
+ * that caused the skip, so a single undo reverts both. Flags only touch the DOM,
+ * so they are applied after reconciliation instead.
+ */
+function registerHeadingHierarchy(editor: LexicalEditor, policy: HeadingPolicy): () => void {
+  if (policy.hierarchy === 'relabel') {
+    return editor.registerNodeTransform(RootNode, () => {
+      if (!editor.isEditable()) {
+        return;
+      }
+      $relabelHeadingSkips(policy);
+    });
+  }
+
+  if (policy.hierarchy === 'flag') {
+    let flaggedKeys = new Set<NodeKey>();
+
+    return editor.registerUpdateListener(({ editorState }) => {
+      const skippedKeys = editorState.read(
+        () => new Set($findHeadingSkips(policy).map(node => node.getKey()))
+      );
+
+      new Set([...flaggedKeys, ...skippedKeys]).forEach(key => {
+        const element = editor.getElementByKey(key);
+        if (!element) {
+          return;
+        }
+        const skipped = skippedKeys.has(key);
+        element.classList.toggle(HEADING_SKIP_CLASS, skipped);
+        element.toggleAttribute('data-heading-skip', skipped);
+      });
+      flaggedKeys = skippedKeys;
+    });
+  }
+
+  return () => {};
+}
+
+/**
+ * Register the heading policy transform on an editor and make the policy the
+ * editor's active one. Exposed separately from the React plugin so headless
+ * editors and tests share the exact same enforcement.
+ */
+export function registerHeadingPolicy(
+  editor: LexicalEditor,
+  policy: HeadingPolicy = DEFAULT_HEADING_POLICY
+): () => void {
+  setHeadingPolicy(editor, policy);
+
+  return mergeRegister(
+    // Node transform: the ONLY level enforcement point
+    editor.registerNodeTransform(HeadingNode, (node) => {
+      // Guard: Only transform if editor is editable
+      if (!editor.isEditable()) {
+        return;
+      }
+
+      $applyHeadingPolicy(node, policy);
+    }),
+    registerHeadingHierarchy(editor, policy)
+  );
+}
+
+/**
+ * Plugin that enforces the heading policy through a single node transform.
+ * The transform is the sole enforcer - it normalizes disallowed levels after any update,
  * regardless of how the content arrived (paste, JSON load, programmatic insertion).
+ * Defaults to H1-H3 with h4-h6 clamped to h3. Policies with a hierarchy mode
+ * also relabel or flag headings that skip a level.
  * 
  * Uses singleton pattern to prevent duplicate registrations across
  * React StrictMode, hot reload, and feature toggles.
  */
-export function HeadingPolicyPlugin(): null {
+export function HeadingPolicyPlugin({
+  policy = DEFAULT_HEADING_POLICY
+}: {
+  policy?: HeadingPolicy;
+}): null {
   const [editor] = useLexicalComposerContext();
 
   useEffect(() => {
@@ -44,51 +249,14 @@ export function HeadingPolicyPlugin(): null {
     // Mark editor as registered
     registeredEditors.add(editor);
 
-    // Node transform: the ONLY policy enforcement point
-    const unregisterTransform = editor.registerNodeTransform(HeadingNode, (node) => {
-      // Guard: Only transform if editor is editable
-      if (!editor.isEditable()) {
-        return;
-      }
-      
-      const tag = node.getTag();
-      
-      // Idempotence: early return for h1-h3 (already allowed)
-      if (!shouldNormalizeHeadingTag(tag)) {
-        return;
-      }
-      
-      // Transform disallowed headings (h4-h6) to h3
-      // Create replacement node
-      const newNode = $createHeadingNode('h3');
-      
-      // CRITICAL: Preserve all content and attributes
-      newNode.setFormat(node.getFormat());
-      newNode.setIndent(node.getIndent());
-      newNode.setDirection(node.getDirection());
-      
-      // Create stable snapshot of children before moving them
-      const children = [...node.getChildren()];
-      
-      // Move children to preserve text and inline formatting
-      children.forEach(child => {
-        // Detach from original node first, then append to new node
-        child.remove();
-        newNode.append(child);
-      });
-      
-      // Replace in tree (atomic operation)
-      node.replace(newNode);
-      
-      logOncePerSession(`[HeadingPolicy] Normalized ${tag} heading to h3 to maintain consistency`);
-    });
+    const unregisterTransform = registerHeadingPolicy(editor, policy);
 
     return () => {
       unregisterTransform();
       // Remove from registry on cleanup
       registeredEditors.delete(editor);
     };
-  }, [editor]);
+  }, [editor, policy]);
 
   return null;
-}
\ No newline at end of file
+}
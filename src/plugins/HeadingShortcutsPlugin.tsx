@@ -5,16 +5,25 @@ import {
   COMMAND_PRIORITY_HIGH
 } from 'lexical';
 import { formatHeading } from '../commands/heading-commands';
+import {
+  DEFAULT_HEADING_POLICY,
+  HeadingPolicy,
+  isAllowedHeadingTag
+} from '../constants/heading-policy';
 import { BlockType } from '../types/editor-types';
 
 /**
  * Plugin that adds keyboard shortcuts for heading formatting:
- * - Mod+Alt+1: Convert to H1
- * - Mod+Alt+2: Convert to H2  
- * - Mod+Alt+3: Convert to H3
+ * - Mod+Alt+1 … Mod+Alt+6: Convert to H1 … H6, for levels the policy allows
  * - Mod+Alt+0: Convert to Normal paragraph
+ *
+ * Shortcuts for disallowed levels are not handled, so the key falls through.
  */
-export function HeadingShortcutsPlugin(): null {
+export function HeadingShortcutsPlugin({
+  policy = DEFAULT_HEADING_POLICY
+}: {
+  policy?: HeadingPolicy;
+}): null {
   const [editor] = useLexicalComposerContext();
 
   useEffect(() => {
@@ -27,26 +36,17 @@ export function HeadingShortcutsPlugin(): null {
         if (isModifier && altKey && !shiftKey) {
           let blockType: BlockType | null = null;
           
-          switch (key) {
-            case '1':
-              blockType = 'h1';
-              break;
-            case '2':
-              blockType = 'h2';
-              break;
-            case '3':
-              blockType = 'h3';
-              break;
-            case '0':
-              blockType = 'paragraph';
-              break;
-            default:
-              return false;
+          if (key === '0') {
+            blockType = 'paragraph';
+          } else if (/^[1-6]$/.test(key) && isAllowedHeadingTag(`h${key}`, policy)) {
+            blockType = `h${key}` as BlockType;
+          } else {
+            return false;
           }
 
           if (blockType) {
             event.preventDefault();
-            const success = formatHeading(editor, blockType);
+            const success = formatHeading(editor, blockType, { policy });
             
             // Could add user feedback here based on success
             if (!success && import.meta.env.DEV) {
@@ -61,7 +61,7 @@ export function HeadingShortcutsPlugin(): null {
       },
       COMMAND_PRIORITY_HIGH
     );
-  }, [editor]);
+  }, [editor, policy]);
 
   return null;
-}
\ No newline at end of file
+}
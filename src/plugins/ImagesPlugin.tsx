@@ -0,0 +1,70 @@
+import { useEffect } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { DRAG_DROP_PASTE } from '@lexical/rich-text';
+import { COMMAND_PRIORITY_NORMAL, LexicalEditor } from 'lexical';
+import { insertImageFiles } from '../commands/image-commands';
+import { getImageFiles, ImageUploadAdapter, setImageUploadAdapter } from '../utils/images';
+import { logDevWarning } from '../utils/dev-logger';
+
+// Singleton pattern: track registered editors to prevent duplicate registrations
+const registeredEditors = new WeakSet<LexicalEditor>();
+
+/**
+ * Register image file drops. Rich text moves the caret to the drop point
+ * and dispatches DRAG_DROP_PASTE with the files; image files are uploaded
+ * and inserted there, anything else is left to other handlers.
+ * Exposed separately from the React plugin for headless editors and tests.
+ */
+export function registerImages(editor: LexicalEditor): () => void {
+  return editor.registerCommand(
+    DRAG_DROP_PASTE,
+    (files) => {
+      if (getImageFiles(files).length === 0) {
+        return false;
+      }
+      void insertImageFiles(editor, files);
+      return true;
+    },
+    COMMAND_PRIORITY_NORMAL
+  );
+}
+
+/**
+ * Plugin for images dropped into the editor. Pasted image files are handled
+ * by SmartPastePlugin; both go through the same upload adapter.
+ *
+ * Uses singleton pattern to prevent duplicate registrations across
+ * React StrictMode, hot reload, and feature toggles.
+ */
+export function ImagesPlugin({
+  uploadAdapter
+}: {
+  /** Where image files are stored; defaults to the in-memory blob store */
+  uploadAdapter?: ImageUploadAdapter;
+}): null {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    if (uploadAdapter) {
+      setImageUploadAdapter(editor, uploadAdapter);
+    }
+  }, [editor, uploadAdapter]);
+
+  useEffect(() => {
+    // Singleton guard: prevent duplicate registrations
+    if (registeredEditors.has(editor)) {
+      logDevWarning('Images', 'Editor already registered, skipping duplicate registration');
+      return;
+    }
+
+    registeredEditors.add(editor);
+    const unregister = registerImages(editor);
+
+    return () => {
+      unregister();
+      registeredEditors.delete(editor);
+    };
+  }, [editor]);
+
+  return null;
+}
@@ -0,0 +1,160 @@
+import { useEffect } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { createLinkMatcherWithRegExp, LinkMatcher } from '@lexical/react/LexicalAutoLinkPlugin';
+import { AutoLinkNode, LinkNode, $isLinkNode } from '@lexical/link';
+import { $dfs, mergeRegister } from '@lexical/utils';
+import {
+  EditorState,
+  LexicalEditor,
+  LexicalNode,
+  SerializedEditorState
+} from 'lexical';
+import { isAllowedUrl } from '../config/sanitization-config';
+import { logDevWarning } from '../utils/dev-logger';
+
+// Singleton pattern: track registered editors to prevent duplicate registrations
+const registeredEditors = new WeakSet<LexicalEditor>();
+
+// Rate-limit warnings to once per session per message type
+const warnedMessages = new Set<string>();
+
+function logOncePerSession(message: string): void {
+  if (!warnedMessages.has(message)) {
+    warnedMessages.add(message);
+    logDevWarning('LinkPolicy', message);
+  }
+}
+
+const URL_REGEX =
+  /((https?:\/\/(www\.)?)|(www\.))[-a-zA-Z0-9@:%._+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_+.~#?&//=]*)/;
+
+const EMAIL_REGEX =
+  /(([^<>()[\]\\.,;:\s@"]+(\.[^<>()[\]\\.,;:\s@"]+)*)|(".+"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))/;
+
+/**
+ * Matchers for AutoLinkPlugin. Bare "www." hosts are upgraded to https so
+ * generated URLs always satisfy the scheme allowlist.
+ */
+export const AUTO_LINK_MATCHERS: LinkMatcher[] = [
+  createLinkMatcherWithRegExp(URL_REGEX, (text) => {
+    return text.startsWith('http') ? text : `https://${text}`;
+  }),
+  createLinkMatcherWithRegExp(EMAIL_REGEX, (text) => `mailto:${text}`),
+];
+
+/**
+ * Security attributes applied to links created inside the editor.
+ * Matches what the sanitizer's afterSanitizeAttributes hook forces on paste.
+ */
+export const LINK_SECURITY_ATTRIBUTES = {
+  rel: 'noopener noreferrer ugc',
+  target: '_blank',
+} as const;
+
+/**
+ * Remove a link node while keeping its text in place as plain inline content.
+ */
+export function $unwrapLinkNode(node: LinkNode): void {
+  // Create stable snapshot of children before moving them
+  const children = [...node.getChildren()];
+  children.forEach(child => {
+    node.insertBefore(child);
+  });
+  node.remove();
+}
+
+/**
+ * Unwrap a link whose URL fails the scheme allowlist.
+ *
+ * @returns true if the link was removed
+ */
+export function $unwrapDisallowedLink(node: LinkNode): boolean {
+  const url = node.getURL();
+  if (isAllowedUrl(url)) {
+    return false;
+  }
+
+  $unwrapLinkNode(node);
+
+  logOncePerSession(`Removed link with disallowed URL scheme: ${url.slice(0, 32)}`);
+  return true;
+}
+
+/**
+ * Walk the tree (or the subtree under startNode) and unwrap every disallowed link.
+ * Transforms do not run when a state is loaded via setEditorState, so
+ * JSON imports go through parseEditorStateWithLinkPolicy instead.
+ */
+export function $enforceLinkPolicy(startNode?: LexicalNode): void {
+  $dfs(startNode).forEach(({ node }) => {
+    if ($isLinkNode(node) && node.isAttached()) {
+      $unwrapDisallowedLink(node);
+    }
+  });
+}
+
+/**
+ * Parse a serialized editor state, enforcing the link policy before the
+ * state can be committed. Use this for every saved-document load.
+ */
+export function parseEditorStateWithLinkPolicy(
+  editor: LexicalEditor,
+  serializedState: string | SerializedEditorState
+): EditorState {
+  return editor.parseEditorState(serializedState, () => {
+    $enforceLinkPolicy();
+  });
+}
+
+/**
+ * Register the link policy transforms on an editor.
+ * Exposed separately from the React plugin so headless editors and tests
+ * share the exact same enforcement.
+ */
+export function registerLinkPolicy(editor: LexicalEditor): () => void {
+  const transform = (node: LinkNode) => {
+    // Guard: Only transform if editor is editable
+    if (!editor.isEditable()) {
+      return;
+    }
+    $unwrapDisallowedLink(node);
+  };
+
+  // AutoLinkNode has its own type, so it needs its own transform
+  return mergeRegister(
+    editor.registerNodeTransform(LinkNode, transform),
+    editor.registerNodeTransform(AutoLinkNode, transform)
+  );
+}
+
+/**
+ * Plugin that enforces the URL scheme allowlist on every link in the tree.
+ * Stage 1 (DOMPurify) already strips unsafe hrefs from pasted HTML; this
+ * transform is the backstop for programmatic insertion and URL edits.
+ *
+ * Uses singleton pattern to prevent duplicate registrations across
+ * React StrictMode, hot reload, and feature toggles.
+ */
+export function LinkPolicyPlugin(): null {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    // Singleton guard: prevent duplicate registrations
+    if (registeredEditors.has(editor)) {
+      if (import.meta.env.DEV) {
+        logDevWarning('LinkPolicy', 'Editor already registered, skipping duplicate registration');
+      }
+      return;
+    }
+
+    registeredEditors.add(editor);
+    const unregister = registerLinkPolicy(editor);
+
+    return () => {
+      unregister();
+      registeredEditors.delete(editor);
+    };
+  }, [editor]);
+
+  return null;
+}
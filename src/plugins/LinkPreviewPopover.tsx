@@ -0,0 +1,191 @@
+import { useEffect, useRef, useState } from 'react'
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext'
+import { $getNodeByKey, NodeKey } from 'lexical'
+import { $isLinkNode } from '@lexical/link'
+import { $dfs } from '@lexical/utils'
+import { isAllowedUrl } from '../config/sanitization-config'
+import { $unwrapLinkNode } from './LinkPolicyPlugin'
+
+// Grace period so the pointer can travel from the link into the popover
+const HIDE_DELAY_MS = 250
+
+type HoveredLink = {
+  key: NodeKey
+  url: string
+  top: number
+  left: number
+}
+
+/**
+ * Hover popover for links inside the editor.
+ * Shows the target URL with open / copy / remove actions.
+ */
+export default function LinkPreviewPopover() {
+  const [editor] = useLexicalComposerContext()
+  const [hoveredLink, setHoveredLink] = useState<HoveredLink | null>(null)
+  const [isCopied, setIsCopied] = useState(false)
+  const hideTimerRef = useRef<number | null>(null)
+
+  const cancelHide = () => {
+    if (hideTimerRef.current !== null) {
+      window.clearTimeout(hideTimerRef.current)
+      hideTimerRef.current = null
+    }
+  }
+
+  const scheduleHide = () => {
+    cancelHide()
+    hideTimerRef.current = window.setTimeout(() => {
+      setHoveredLink(null)
+      setIsCopied(false)
+    }, HIDE_DELAY_MS)
+  }
+
+  // Track hover over anchors rendered by LinkNode/AutoLinkNode
+  useEffect(() => {
+    const handleMouseOver = (e: MouseEvent) => {
+      const anchor = (e.target as HTMLElement | null)?.closest('a')
+      if (!anchor) return
+
+      let link: HoveredLink | null = null
+      // A read only: match the anchor against each link's element, since
+      // DOM-to-node lookups need the active editor that state reads don't set
+      editor.getEditorState().read(() => {
+        const linkNode = $dfs()
+          .map(({ node }) => node)
+          .filter($isLinkNode)
+          .find(node => editor.getElementByKey(node.getKey()) === anchor)
+        if (linkNode) {
+          const rect = anchor.getBoundingClientRect()
+          link = {
+            key: linkNode.getKey(),
+            url: linkNode.getURL(),
+            top: rect.bottom + window.scrollY + 6,
+            left: rect.left + window.scrollX,
+          }
+        }
+      })
+
+      if (link) {
+        cancelHide()
+        setIsCopied(false)
+        setHoveredLink(link)
+      }
+    }
+
+    const handleMouseOut = (e: MouseEvent) => {
+      const anchor = (e.target as HTMLElement | null)?.closest('a')
+      if (anchor) scheduleHide()
+    }
+
+    const unregisterRoot = editor.registerRootListener((rootElement, prevRootElement) => {
+      prevRootElement?.removeEventListener('mouseover', handleMouseOver)
+      prevRootElement?.removeEventListener('mouseout', handleMouseOut)
+      rootElement?.addEventListener('mouseover', handleMouseOver)
+      rootElement?.addEventListener('mouseout', handleMouseOut)
+    })
+
+    return () => {
+      unregisterRoot()
+      const rootElement = editor.getRootElement()
+      rootElement?.removeEventListener('mouseover', handleMouseOver)
+      rootElement?.removeEventListener('mouseout', handleMouseOut)
+      cancelHide()
+    }
+  }, [editor])
+
+  // Hide when the hovered link disappears from the tree (undo, unlink, delete)
+  useEffect(() => {
+    if (!hoveredLink) return
+
+    return editor.registerUpdateListener(({ editorState }) => {
+      editorState.read(() => {
+        const node = $getNodeByKey(hoveredLink.key)
+        if (!$isLinkNode(node)) {
+          setHoveredLink(null)
+        } else if (node.getURL() !== hoveredLink.url) {
+          setHoveredLink({ ...hoveredLink, url: node.getURL() })
+        }
+      })
+    })
+  }, [editor, hoveredLink])
+
+  if (!hoveredLink) return null
+
+  const canOpen = isAllowedUrl(hoveredLink.url)
+
+  const handleOpen = () => {
+    if (canOpen) {
+      window.open(hoveredLink.url, '_blank', 'noopener,noreferrer')
+    }
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(hoveredLink.url)
+      setIsCopied(true)
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.warn('[LinkPreview] Copy to clipboard failed:', error)
+      }
+    }
+  }
+
+  const handleRemove = () => {
+    if (!editor.isEditable()) return
+
+    editor.update(() => {
+      const node = $getNodeByKey(hoveredLink.key)
+      if ($isLinkNode(node)) {
+        $unwrapLinkNode(node)
+      }
+    })
+    setHoveredLink(null)
+  }
+
+  return (
+    <div
+      className="link-preview-popover"
+      role="dialog"
+      aria-label="Link preview"
+      style={{
+        position: 'absolute',
+        top: `${hoveredLink.top}px`,
+        left: `${hoveredLink.left}px`,
+        zIndex: 1000,
+      }}
+      onMouseEnter={cancelHide}
+      onMouseLeave={scheduleHide}
+    >
+      <span className="link-preview-url" title={hoveredLink.url}>
+        {hoveredLink.url}
+      </span>
+      <button
+        type="button"
+        className="floating-toolbar-btn"
+        onClick={handleOpen}
+        disabled={!canOpen}
+        title="Open link in new tab"
+      >
+        Open
+      </button>
+      <button
+        type="button"
+        className="floating-toolbar-btn"
+        onClick={handleCopy}
+        title="Copy link"
+      >
+        {isCopied ? 'Copied' : 'Copy'}
+      </button>
+      <button
+        type="button"
+        className="floating-toolbar-btn"
+        onClick={handleRemove}
+        disabled={!editor.isEditable()}
+        title="Remove link"
+      >
+        Remove
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+import { useEffect } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import {
+  $createListItemNode,
+  $getListDepth,
+  $isListItemNode,
+  $isListNode,
+  ListItemNode,
+  ListNode
+} from '@lexical/list';
+import { $dfs, $findMatchingParent, $getNearestBlockElementAncestorOrThrow, mergeRegister } from '@lexical/utils';
+import {
+  $getSelection,
+  $isRangeSelection,
+  COMMAND_PRIORITY_EDITOR,
+  COMMAND_PRIORITY_HIGH,
+  INDENT_CONTENT_COMMAND,
+  KEY_TAB_COMMAND,
+  LexicalEditor,
+  OUTDENT_CONTENT_COMMAND
+} from 'lexical';
+import { isAllowedListDepth, MAX_INDENT_LEVEL, MAX_LIST_DEPTH } from '../constants/list-policy';
+import { logDevWarning } from '../utils/dev-logger';
+
+// Singleton pattern: track registered editors to prevent duplicate registrations
+const registeredEditors = new WeakSet<LexicalEditor>();
+
+// Rate-limit warnings to once per session per message type
+const warnedMessages = new Set<string>();
+
+function logOncePerSession(message: string): void {
+  if (!warnedMessages.has(message)) {
+    warnedMessages.add(message);
+    logDevWarning('ListDepthPolicy', message);
+  }
+}
+
+/**
+ * Check if indenting the current selection would exceed the depth policy.
+ * Must be called inside an editor read or update.
+ */
+export function $wouldExceedMaxIndent(): boolean {
+  const selection = $getSelection();
+  if (!$isRangeSelection(selection)) {
+    return false;
+  }
+
+  return selection.getNodes().some(node => {
+    const block = $getNearestBlockElementAncestorOrThrow(node);
+
+    if ($isListItemNode(block)) {
+      const list = block.getParent();
+      return $isListNode(list) && !isAllowedListDepth($getListDepth(list) + 1);
+    }
+
+    return block.canIndent() && block.getIndent() + 1 > MAX_INDENT_LEVEL;
+  });
+}
+
+/**
+ * Check if the selection starts and ends in list items, where Tab indents.
+ * Must be called inside an editor read or update.
+ */
+export function $isSelectionInListItems(): boolean {
+  const selection = $getSelection();
+  return $isRangeSelection(selection) &&
+    [selection.anchor, selection.focus].every(point => $findMatchingParent(point.getNode(), $isListItemNode) !== null);
+}
+
+/**
+ * Flatten a list nested deeper than MAX_LIST_DEPTH into its parent list.
+ * Every item below the limit lands at the deepest allowed level, in order,
+ * the same way HeadingPolicyPlugin clamps h4-h6 to h3.
+ *
+ * @returns true if the list was clamped
+ */
+export function $clampListDepth(list: ListNode): boolean {
+  if (isAllowedListDepth($getListDepth(list))) {
+    return false;
+  }
+
+  const wrapper = list.getParent();
+  if (!$isListItemNode(wrapper)) {
+    return false;
+  }
+
+  // Wrappers hold nothing but a nested list and are dropped with it. An item
+  // with its own content as well keeps that content in a flattened copy
+  const items = $dfs(list)
+    .map(({ node }) => node)
+    .filter($isListItemNode)
+    .flatMap(item => {
+      const children = item.getChildren();
+      if (!children.some($isListNode)) {
+        return [item];
+      }
+      const content = children.filter(child => !$isListNode(child));
+      return content.length > 0 ? [$createListItemNode(item.getChecked()).append(...content)] : [];
+    });
+
+  let insertionPoint: ListItemNode = wrapper;
+  items.forEach(item => {
+    insertionPoint.insertAfter(item);
+    insertionPoint = item;
+  });
+
+  list.remove();
+  if (wrapper.isEmpty()) {
+    wrapper.remove();
+  }
+
+  return true;
+}
+
+/**
+ * Register Tab/Shift+Tab indentation of list items with the depth limit,
+ * plus the clamp transform for over-deep lists. Tab is left alone outside
+ * lists, so it still moves focus out of the editor there. Exposed separately
+ * from the React plugin so headless editors and tests share the exact same
+ * enforcement.
+ */
+export function registerListDepthPolicy(editor: LexicalEditor): () => void {
+  return mergeRegister(
+    // Code blocks and tables handle their own Tab first
+    editor.registerCommand(
+      KEY_TAB_COMMAND,
+      (event: KeyboardEvent) => {
+        if (!$isSelectionInListItems()) {
+          return false;
+        }
+        event.preventDefault();
+        return editor.dispatchCommand(event.shiftKey ? OUTDENT_CONTENT_COMMAND : INDENT_CONTENT_COMMAND, undefined);
+      },
+      COMMAND_PRIORITY_EDITOR
+    ),
+
+    // Swallow indents past the limit before rich text applies them
+    editor.registerCommand(
+      INDENT_CONTENT_COMMAND,
+      () => {
+        if ($wouldExceedMaxIndent()) {
+          logOncePerSession(`Indent blocked: maximum nesting depth is ${MAX_LIST_DEPTH}`);
+          return true;
+        }
+        return false;
+      },
+      COMMAND_PRIORITY_HIGH
+    ),
+
+    editor.registerNodeTransform(ListNode, (node) => {
+      // Guard: Only transform if editor is editable
+      if (!editor.isEditable()) {
+        return;
+      }
+
+      if ($clampListDepth(node)) {
+        logOncePerSession(`Flattened list nested deeper than ${MAX_LIST_DEPTH} levels`);
+      }
+    })
+  );
+}
+
+/**
+ * Plugin that enforces the maximum list nesting depth.
+ * Indentation commands stop at the limit; the transform clamps lists that
+ * arrive deeper (paste, Markdown import, programmatic insertion).
+ *
+ * Uses singleton pattern to prevent duplicate registrations across
+ * React StrictMode, hot reload, and feature toggles.
+ */
+export function ListDepthPolicyPlugin(): null {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    // Singleton guard: prevent duplicate registrations
+    if (registeredEditors.has(editor)) {
+      if (import.meta.env.DEV) {
+        logDevWarning('ListDepthPolicy', 'Editor already registered, skipping duplicate registration');
+      }
+      return;
+    }
+
+    registeredEditors.add(editor);
+    const unregister = registerListDepthPolicy(editor);
+
+    return () => {
+      unregister();
+      registeredEditors.delete(editor);
+    };
+  }, [editor]);
+
+  return null;
+}
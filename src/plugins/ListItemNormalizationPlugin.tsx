@@ -1,10 +1,10 @@
 import { useEffect } from 'react';
 import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
-import { ListItemNode, $isListItemNode } from '@lexical/list';
-import { $isTextNode, $isElementNode, TextNode, LexicalEditor, $isParagraphNode, ParagraphNode } from 'lexical';
+import { ListItemNode, $createListNode, $isListNode } from '@lexical/list';
+import { $isTextNode, $isElementNode, TextNode, LexicalEditor, LexicalNode, $isParagraphNode } from 'lexical';
 import { $isCodeNode } from '@lexical/code';
 import { logDevWarning } from '../utils/dev-logger';
-import { stripListPrefix } from '../utils/list-normalization';
+import { stripListPrefix, parseCheckboxPrefix, CHECKBOX_PREFIX } from '../utils/list-normalization';
 
 // Singleton pattern: prevent duplicate registrations
 const registeredEditors = new WeakSet<LexicalEditor>();
@@ -54,12 +54,134 @@ function shouldSkipPrefixStripping(node: TextNode): boolean {
   return false;
 }
 
+/**
+ * Register the list item normalization transform on an editor.
+ * Exposed separately from the React plugin so headless editors and tests
+ * share the exact same normalization.
+ */
+export function registerListItemNormalization(editor: LexicalEditor): () => void {
+  return editor.registerNodeTransform(ListItemNode, (node: ListItemNode) => {
+    // Guard: Only process if editor is editable
+    if (!editor.isEditable()) {
+      return;
+    }
+    
+    // Find the first non-code, inline TextNode (skip empty formatting nodes)
+    let textNode: TextNode | null = null;
+    
+    function findFirstTextNodeWithPrefix(nodeToSearch: LexicalNode | null): TextNode | null {
+      if (!$isElementNode(nodeToSearch)) {
+        return null;
+      }
+      const children = nodeToSearch.getChildren();
+      
+      for (const child of children) {
+        if ($isTextNode(child)) {
+          // Found a text node - check if it has a detectable prefix
+          const text = child.getTextContent();
+          if (text.trim().length > 0) {
+            // Check if this text node actually has a prefix we can strip
+            const normalizedText = text.replace(/\u00a0/g, ' '); // NBSP normalization
+            const hasPrefix = /^([-*•◦▪–—]|\d+[.)]|[a-zA-Z][.)])\s+/.test(normalizedText) ||
+              CHECKBOX_PREFIX.test(normalizedText);
+            if (hasPrefix) {
+              return child; // Found a text node with a prefix!
+            }
+          }
+          // Continue searching - this text node doesn't have a prefix
+          continue;
+        }
+        
+        // Descend through inline element nodes (links, inline code, formatting)
+        if ($isElementNode(child) && child.isInline()) {
+          const found = findFirstTextNodeWithPrefix(child);
+          if (found) {
+            return found;
+          }
+        }
+        
+        // Also descend through paragraph nodes
+        if ($isParagraphNode(child)) {
+          const found = findFirstTextNodeWithPrefix(child);
+          if (found) {
+            return found;
+          }
+        }
+      }
+      
+      return null;
+    }
+    
+    textNode = findFirstTextNodeWithPrefix(node);
+    
+    // Only process if we found a text node
+    if (!textNode) {
+      return;
+    }
+    
+    // Skip if this text node is in a code context
+    if (shouldSkipPrefixStripping(textNode)) {
+      return;
+    }
+
+    const text = textNode.getTextContent();
+    let cleanedText = stripListPrefix(text);
+
+    // "[ ]" / "[x]" markers become check list state instead of literal text
+    const checkbox = parseCheckboxPrefix(cleanedText);
+    if (checkbox) {
+      cleanedText = checkbox.text;
+
+      const parentList = node.getParent();
+      if ($isListNode(parentList) && parentList.getListType() !== 'check') {
+        if (parentList.getChildrenSize() === 1) {
+          parentList.setListType('check');
+        } else {
+          // Only this item becomes a task: split it out of its list. Adjacent
+          // check lists are merged back by ListNode's own transform.
+          const listType = parentList.getListType();
+          const followingItems = node.getNextSiblings();
+          if (followingItems.length > 0) {
+            const start = parentList.getStart() + node.getIndexWithinParent() + 1;
+            parentList.insertAfter($createListNode(listType, start).append(...followingItems));
+          }
+          const checkList = $createListNode('check');
+          parentList.insertAfter(checkList);
+          checkList.append(node);
+          if (parentList.isEmpty()) {
+            parentList.remove();
+          }
+        }
+      }
+      node.setChecked(checkbox.checked);
+    }
+    
+    // Only update if we actually stripped a prefix (strip-once only with anchored regex)
+    if (text !== cleanedText) {
+      // Update the text content directly
+      textNode.setTextContent(cleanedText);
+      
+      // Log once per prefix type in dev mode
+      if (import.meta.env.DEV) {
+        const prefix = text.substring(0, text.length - cleanedText.length).trim();
+        const logKey = `prefix-${prefix}`;
+        
+        if (!warnedPrefixes.has(logKey)) {
+          warnedPrefixes.add(logKey);
+          logDevWarning('ListNormalization', `Stripped duplicate list prefix "${prefix}" from list item`);
+        }
+      }
+    }
+  });
+}
+
 /**
  * Plugin that normalizes list items by removing double bullet prefixes.
  * 
  * This handles the common issue where pasted content contains literal
  * bullet characters (-, *, •) that create double bullets when rendered
- * in a proper list structure.
+ * in a proper list structure. Task markers ([ ], [x]) are stripped too,
+ * moving the item into a check list with the matching checked state.
  */
 export function ListItemNormalizationPlugin(): null {
   const [editor] = useLexicalComposerContext();
@@ -75,92 +197,7 @@ export function ListItemNormalizationPlugin(): null {
 
     registeredEditors.add(editor);
 
-    // Register transform on ListItemNode
-    const unregisterTransform = editor.registerNodeTransform(ListItemNode, (node: ListItemNode) => {
-      // Guard: Only process if editor is editable
-      if (!editor.isEditable()) {
-        return;
-      }
-      
-      // Find the first non-code, inline TextNode (skip empty formatting nodes)
-      let textNode: TextNode | null = null;
-      
-      function findFirstTextNodeWithPrefix(nodeToSearch: any): TextNode | null {
-        const children = nodeToSearch.getChildren();
-        
-        for (const child of children) {
-          if ($isTextNode(child)) {
-            // Found a text node - check if it has a detectable prefix
-            const text = child.getTextContent();
-            if (text.trim().length > 0) {
-              // Check if this text node actually has a prefix we can strip
-              const normalizedText = text.replace(/\u00a0/g, ' '); // NBSP normalization
-              const hasPrefix = /^([-*•◦▪–—]|\d+[.)]|[a-zA-Z][.)])\s+/.test(normalizedText);
-              if (hasPrefix) {
-                return child; // Found a text node with a prefix!
-              }
-            }
-            // Continue searching - this text node doesn't have a prefix
-            continue;
-          }
-          
-          // Descend through inline element nodes (links, inline code, formatting)
-          if ($isElementNode(child) && child.isInline()) {
-            const found = findFirstTextNodeWithPrefix(child);
-            if (found) {
-              return found;
-            }
-          }
-          
-          // Also descend through paragraph nodes
-          if ($isParagraphNode(child)) {
-            const found = findFirstTextNodeWithPrefix(child);
-            if (found) {
-              return found;
-            }
-          }
-        }
-        
-        return null;
-      }
-      
-      textNode = findFirstTextNodeWithPrefix(node);
-      
-      // Debug logging in test environment
-      if (import.meta.env.NODE_ENV === 'test') {
-        console.log(`[DEBUG] ListItem transform - found textNode:`, textNode ? textNode.getTextContent() : 'null');
-      }
-      
-      // Only process if we found a text node
-      if (!textNode) {
-        return;
-      }
-      
-      // Skip if this text node is in a code context
-      if (shouldSkipPrefixStripping(textNode)) {
-        return;
-      }
-
-      const text = textNode.getTextContent();
-      const cleanedText = stripListPrefix(text);
-      
-      // Only update if we actually stripped a prefix (strip-once only with anchored regex)
-      if (text !== cleanedText) {
-        // Update the text content directly
-        textNode.setTextContent(cleanedText);
-        
-        // Log once per prefix type in dev mode
-        if (import.meta.env.DEV) {
-          const prefix = text.substring(0, text.length - cleanedText.length).trim();
-          const logKey = `prefix-${prefix}`;
-          
-          if (!warnedPrefixes.has(logKey)) {
-            warnedPrefixes.add(logKey);
-            logDevWarning('ListNormalization', `Stripped duplicate list prefix "${prefix}" from list item`);
-          }
-        }
-      }
-    });
+    const unregisterTransform = registerListItemNormalization(editor);
 
     return () => {
       unregisterTransform();
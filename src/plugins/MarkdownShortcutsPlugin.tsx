@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { registerMarkdownShortcuts } from '@lexical/markdown';
+import { LexicalEditor } from 'lexical';
+import { MARKDOWN_ELEMENT_TRANSFORMERS } from '../config/markdown-config';
+import { logDevWarning } from '../utils/dev-logger';
+
+// Singleton pattern: prevent duplicate registrations
+const registeredEditors = new WeakSet<LexicalEditor>();
+
+/**
+ * Plugin that converts line-start Markdown patterns while typing:
+ * - "# " / "## " / "### " → heading ("####"+ is capped at h3 by the policy)
+ * - "- " / "* " / "+ " → bulleted list, "1. " → numbered list
+ * - "> " → quote
+ * - "``` " or "```lang " → code block
+ * - "--- " / "*** " / "___ " → divider above the current block
+ *
+ * Block shortcuts only fire on top-level blocks, so "## " typed inside a
+ * list item stays literal text — the same guard formatHeading applies.
+ * Each conversion runs in its own update, so one undo restores the typed text.
+ */
+export function MarkdownShortcutsPlugin(): null {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    // Singleton guard
+    if (registeredEditors.has(editor)) {
+      if (import.meta.env.DEV) {
+        logDevWarning('MarkdownShortcuts', 'Editor already registered, skipping duplicate registration');
+      }
+      return;
+    }
+
+    registeredEditors.add(editor);
+    const unregister = registerMarkdownShortcuts(editor, MARKDOWN_ELEMENT_TRANSFORMERS);
+
+    return () => {
+      unregister();
+      registeredEditors.delete(editor);
+    };
+  }, [editor]);
+
+  return null;
+}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react'
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext'
+import { NodeKey } from 'lexical'
+import { moveSection, selectHeading } from '../commands/outline-commands'
+import { $getCaretHeading, $getOutline, isSameOutline, OutlineItem, SectionDropPosition } from '../utils/outline'
+
+type DropTarget = {
+  key: NodeKey
+  position: SectionDropPosition
+}
+
+/**
+ * Document outline listing every heading, kept live by an update listener.
+ * Highlights the section holding the caret, jumps to a heading on click and
+ * reorders whole sections by drag and drop.
+ */
+export default function OutlinePanel() {
+  const [editor] = useLexicalComposerContext()
+  const [items, setItems] = useState<OutlineItem[]>([])
+  const [activeKey, setActiveKey] = useState<NodeKey | null>(null)
+  const [draggedKey, setDraggedKey] = useState<NodeKey | null>(null)
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null)
+
+  useEffect(() => {
+    const readOutline = () => {
+      editor.getEditorState().read(() => {
+        const outline = $getOutline()
+        // Keep the previous array when nothing changed to avoid re-rendering on every keystroke
+        setItems(previous => (isSameOutline(previous, outline) ? previous : outline))
+        setActiveKey($getCaretHeading()?.getKey() ?? null)
+      })
+    }
+
+    readOutline()
+    return editor.registerUpdateListener(readOutline)
+  }, [editor])
+
+  const handleClick = (key: NodeKey) => {
+    editor.getElementByKey(key)?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+    selectHeading(editor, key)
+    editor.focus()
+  }
+
+  const handleDragOver = (e: React.DragEvent<HTMLLIElement>, key: NodeKey) => {
+    if (draggedKey === null) return
+    e.preventDefault()
+
+    // Upper half drops before the heading, lower half after its own content
+    const rect = e.currentTarget.getBoundingClientRect()
+    const position: SectionDropPosition = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after'
+    if (dropTarget?.key !== key || dropTarget.position !== position) {
+      setDropTarget({ key, position })
+    }
+  }
+
+  const handleDragEnd = () => {
+    setDraggedKey(null)
+    setDropTarget(null)
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLLIElement>) => {
+    e.preventDefault()
+    if (draggedKey !== null && dropTarget) {
+      moveSection(editor, draggedKey, dropTarget.key, dropTarget.position)
+    }
+    handleDragEnd()
+  }
+
+  return (
+    <nav className="outline-panel" aria-label="Document outline">
+      <div className="outline-title">Outline</div>
+      {items.length === 0 ? (
+        <p className="outline-empty">Headings appear here</p>
+      ) : (
+        <ul className="outline-list">
+          {items.map(item => {
+            const classes = [
+              'outline-item',
+              `outline-item-${item.tag}`,
+              item.key === activeKey ? 'active' : '',
+              item.key === draggedKey ? 'dragging' : '',
+              dropTarget?.key === item.key ? `drop-${dropTarget.position}` : '',
+            ].filter(Boolean).join(' ')
+
+            return (
+              <li
+                key={item.key}
+                className={classes}
+                draggable={editor.isEditable()}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move'
+                  setDraggedKey(item.key)
+                }}
+                onDragOver={(e) => handleDragOver(e, item.key)}
+                onDrop={handleDrop}
+                onDragEnd={handleDragEnd}
+              >
+                <button
+                  type="button"
+                  className="outline-link"
+                  aria-current={item.key === activeKey ? 'location' : undefined}
+                  onClick={() => handleClick(item.key)}
+                >
+                  {item.text || 'Untitled'}
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </nav>
+  )
+}
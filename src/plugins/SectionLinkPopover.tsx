@@ -0,0 +1,183 @@
+import { useEffect, useRef, useState } from 'react'
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext'
+import { $getNearestNodeFromDOMNode, $getNodeByKey, NodeKey } from 'lexical'
+import { $findMatchingParent } from '@lexical/utils'
+import { resetHeadingAnchor } from '../commands/outline-commands'
+import { $isCustomHeadingNode } from '../nodes/CustomHeadingNode'
+import { ALL_HEADING_TAGS } from '../constants/heading-policy'
+
+// Grace period so the pointer can travel from the heading into the popover
+const HIDE_DELAY_MS = 250
+
+const HEADING_SELECTOR = ALL_HEADING_TAGS.join(',')
+
+type HoveredHeading = {
+  key: NodeKey
+  slug: string
+  top: number
+  left: number
+}
+
+/**
+ * Link to a section of the current page.
+ */
+function getSectionUrl(slug: string): string {
+  const url = new URL(window.location.href)
+  url.hash = slug
+  return url.toString()
+}
+
+/**
+ * Hover affordance for headings inside the editor.
+ * Copies a link to the section anchor and lets the user reset the anchor
+ * after retitling a section.
+ */
+export default function SectionLinkPopover() {
+  const [editor] = useLexicalComposerContext()
+  const [hoveredHeading, setHoveredHeading] = useState<HoveredHeading | null>(null)
+  const [isCopied, setIsCopied] = useState(false)
+  const hideTimerRef = useRef<number | null>(null)
+
+  const cancelHide = () => {
+    if (hideTimerRef.current !== null) {
+      window.clearTimeout(hideTimerRef.current)
+      hideTimerRef.current = null
+    }
+  }
+
+  const scheduleHide = () => {
+    cancelHide()
+    hideTimerRef.current = window.setTimeout(() => {
+      setHoveredHeading(null)
+      setIsCopied(false)
+    }, HIDE_DELAY_MS)
+  }
+
+  // Track hover over headings rendered by CustomHeadingNode
+  useEffect(() => {
+    const handleMouseOver = (e: MouseEvent) => {
+      const element = (e.target as HTMLElement | null)?.closest<HTMLElement>(HEADING_SELECTOR)
+      if (!element) return
+
+      let heading: HoveredHeading | null = null
+      editor.getEditorState().read(() => {
+        const node = $getNearestNodeFromDOMNode(element)
+        const headingNode = node ? $findMatchingParent(node, $isCustomHeadingNode) : null
+        if ($isCustomHeadingNode(headingNode)) {
+          const rect = element.getBoundingClientRect()
+          heading = {
+            key: headingNode.getKey(),
+            slug: headingNode.getSlug(),
+            top: rect.top + window.scrollY,
+            left: rect.right + window.scrollX,
+          }
+        }
+      })
+
+      if (heading) {
+        cancelHide()
+        setHoveredHeading(previous => {
+          if (previous?.key !== heading?.key) setIsCopied(false)
+          return heading
+        })
+      }
+    }
+
+    const handleMouseOut = (e: MouseEvent) => {
+      const element = (e.target as HTMLElement | null)?.closest(HEADING_SELECTOR)
+      if (element) scheduleHide()
+    }
+
+    const unregisterRoot = editor.registerRootListener((rootElement, prevRootElement) => {
+      prevRootElement?.removeEventListener('mouseover', handleMouseOver)
+      prevRootElement?.removeEventListener('mouseout', handleMouseOut)
+      rootElement?.addEventListener('mouseover', handleMouseOver)
+      rootElement?.addEventListener('mouseout', handleMouseOut)
+    })
+
+    return () => {
+      unregisterRoot()
+      const rootElement = editor.getRootElement()
+      rootElement?.removeEventListener('mouseover', handleMouseOver)
+      rootElement?.removeEventListener('mouseout', handleMouseOut)
+      cancelHide()
+    }
+  }, [editor])
+
+  // Follow slug changes and hide when the heading disappears (undo, delete, level change)
+  useEffect(() => {
+    if (!hoveredHeading) return
+
+    return editor.registerUpdateListener(({ editorState }) => {
+      editorState.read(() => {
+        const node = $getNodeByKey(hoveredHeading.key)
+        if (!$isCustomHeadingNode(node)) {
+          setHoveredHeading(null)
+        } else if (node.getSlug() !== hoveredHeading.slug) {
+          setHoveredHeading({ ...hoveredHeading, slug: node.getSlug() })
+        }
+      })
+    })
+  }, [editor, hoveredHeading])
+
+  if (!hoveredHeading) return null
+
+  const handleCopy = async () => {
+    // A heading still being typed has no anchor yet: assign it now
+    const slug = hoveredHeading.slug || resetHeadingAnchor(editor, hoveredHeading.key)
+    if (!slug) return
+
+    try {
+      await navigator.clipboard.writeText(getSectionUrl(slug))
+      setIsCopied(true)
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.warn('[SectionLink] Copy to clipboard failed:', error)
+      }
+    }
+  }
+
+  const handleReset = () => {
+    resetHeadingAnchor(editor, hoveredHeading.key)
+    setIsCopied(false)
+  }
+
+  return (
+    <div
+      className="section-link-popover"
+      role="dialog"
+      aria-label="Section link"
+      style={{
+        position: 'absolute',
+        top: `${hoveredHeading.top}px`,
+        left: `${hoveredHeading.left}px`,
+        zIndex: 1000,
+      }}
+      onMouseEnter={cancelHide}
+      onMouseLeave={scheduleHide}
+    >
+      {hoveredHeading.slug && (
+        <span className="section-link-slug" title={hoveredHeading.slug}>
+          #{hoveredHeading.slug}
+        </span>
+      )}
+      <button
+        type="button"
+        className="floating-toolbar-btn"
+        onClick={handleCopy}
+        title="Copy link to section"
+      >
+        {isCopied ? 'Copied' : 'Copy link'}
+      </button>
+      <button
+        type="button"
+        className="floating-toolbar-btn"
+        onClick={handleReset}
+        disabled={!editor.isEditable()}
+        title="Derive the anchor from the current heading text"
+      >
+        Reset
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+import { useEffect } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { COMMAND_PRIORITY_EDITOR, EditorState, LexicalEditor, NodeKey } from 'lexical';
+import { mergeRegister } from '@lexical/utils';
+import {
+  $getSectionNumbers,
+  isSectionNumberingEnabled,
+  SECTION_NUMBERING_CHANGED_COMMAND
+} from '../utils/section-numbering';
+import { logDevWarning } from '../utils/dev-logger';
+
+// Singleton pattern: track registered editors to prevent duplicate registrations
+const registeredEditors = new WeakSet<LexicalEditor>();
+
+/**
+ * Attribute holding the rendered number; CSS shows it before the heading text.
+ */
+export const SECTION_NUMBER_ATTRIBUTE = 'data-section-number';
+
+/**
+ * Render section numbers on an editor's headings while its document is
+ * numbered. Numbers are a DOM attribute shown by CSS, not text, so they are
+ * applied after reconciliation rather than in a transform.
+ * Exposed separately from the React plugin so headless editors and tests
+ * share the exact same behavior.
+ */
+export function registerSectionNumbering(editor: LexicalEditor): () => void {
+  let numberedKeys = new Set<NodeKey>();
+
+  const renderNumbers = (editorState: EditorState) => {
+    const numbers = isSectionNumberingEnabled(editor)
+      ? editorState.read($getSectionNumbers)
+      : new Map<NodeKey, string>();
+
+    numberedKeys.forEach(key => {
+      if (!numbers.has(key)) {
+        editor.getElementByKey(key)?.removeAttribute(SECTION_NUMBER_ATTRIBUTE);
+      }
+    });
+    numbers.forEach((number, key) => {
+      editor.getElementByKey(key)?.setAttribute(SECTION_NUMBER_ATTRIBUTE, number);
+    });
+    numberedKeys = new Set(numbers.keys());
+  };
+
+  renderNumbers(editor.getEditorState());
+  const unregister = mergeRegister(
+    editor.registerUpdateListener(({ editorState }) => {
+      renderNumbers(editorState);
+    }),
+    editor.registerCommand(SECTION_NUMBERING_CHANGED_COMMAND, () => {
+      renderNumbers(editor.getEditorState());
+      return false;
+    }, COMMAND_PRIORITY_EDITOR)
+  );
+
+  return () => {
+    unregister();
+    numberedKeys.forEach(key => {
+      editor.getElementByKey(key)?.removeAttribute(SECTION_NUMBER_ATTRIBUTE);
+    });
+  };
+}
+
+/**
+ * Plugin that numbers h1-h3 as "1.", "1.2", "1.2.3" in documents with
+ * section numbering turned on (see setSectionNumbering). The numbers are
+ * decoration only: they never enter the text, and are included in HTML and
+ * Markdown export of numbered documents.
+ *
+ * Uses singleton pattern to prevent duplicate registrations across
+ * React StrictMode, hot reload, and feature toggles.
+ */
+export function SectionNumberingPlugin(): null {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    // Singleton guard: prevent duplicate registrations
+    if (registeredEditors.has(editor)) {
+      logDevWarning('SectionNumbering', 'Editor already registered, skipping duplicate registration');
+      return;
+    }
+
+    registeredEditors.add(editor);
+    const unregister = registerSectionNumbering(editor);
+
+    return () => {
+      unregister();
+      registeredEditors.delete(editor);
+    };
+  }, [editor]);
+
+  return null;
+}
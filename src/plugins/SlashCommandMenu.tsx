@@ -0,0 +1,246 @@
+import {useCallback, useMemo, useRef, useState} from 'react'
+import {createPortal} from 'react-dom'
+import {useLexicalComposerContext} from '@lexical/react/LexicalComposerContext'
+import {
+  LexicalTypeaheadMenuPlugin,
+  MenuOption,
+  useBasicTypeaheadTriggerMatch,
+} from '@lexical/react/LexicalTypeaheadMenuPlugin'
+import {HorizontalRuleNode} from '@lexical/react/LexicalHorizontalRuleNode'
+import {
+  $getSelection,
+  $isRangeSelection,
+  COMMAND_PRIORITY_HIGH,
+  Klass,
+  LexicalEditor,
+  LexicalNode,
+  TextNode,
+} from 'lexical'
+import {$setBlocksType} from '@lexical/selection'
+import {$createQuoteNode, HeadingNode, QuoteNode} from '@lexical/rich-text'
+import {ListItemNode, ListNode} from '@lexical/list'
+import {$createCodeNode, $isCodeNode, CodeNode} from '@lexical/code'
+import {TableNode} from '@lexical/table'
+import {$findMatchingParent} from '@lexical/utils'
+import {formatHeading} from '../commands/heading-commands'
+import {formatList} from '../commands/list-commands'
+import {insertTableOfContents} from '../commands/outline-commands'
+import {formatCallout, insertDetails, insertHorizontalRule} from '../commands/block-commands'
+import {insertTable} from '../commands/table-commands'
+import {insertImageFiles} from '../commands/image-commands'
+import {CalloutNode} from '../nodes/CalloutNode'
+import {DetailsNode} from '../nodes/DetailsNode'
+import {ImageNode} from '../nodes/ImageNode'
+import {TableOfContentsNode} from '../nodes/TableOfContentsNode'
+import {DEFAULT_HEADING_POLICY, HeadingPolicy} from '../constants/heading-policy'
+import {HeadingTagType, ListBlockType} from '../types/editor-types'
+import {IMAGE_FILE_TYPES} from '../utils/images'
+import {fuzzyFilter} from '../utils/fuzzy-match'
+
+export type SlashBlockType =
+  | 'paragraph' | HeadingTagType | 'quote' | 'callout' | 'details' | 'code' | ListBlockType
+  | 'toc' | 'hr' | 'table' | 'image'
+
+export interface SlashBlock {
+  type: SlashBlockType
+  label: string
+  /** Other names the block is found by */
+  keywords: string[]
+  /** Nodes the editor must register for the block to be offered */
+  nodes: Klass<LexicalNode>[]
+}
+
+/**
+ * Every block the editor can create, in menu order. Headings come from the
+ * policy, and blocks whose nodes the editor does not register are left out.
+ */
+export function getSlashBlocks(editor: LexicalEditor, policy: HeadingPolicy = DEFAULT_HEADING_POLICY): SlashBlock[] {
+  const blocks: SlashBlock[] = [
+    {type: 'paragraph', label: 'Paragraph', keywords: ['text', 'normal'], nodes: []},
+    ...policy.allowedTags.map((tag): SlashBlock => ({
+      type: tag,
+      label: `Heading ${tag.slice(1)}`,
+      keywords: [tag, 'title'],
+      nodes: [HeadingNode],
+    })),
+    {type: 'quote', label: 'Quote', keywords: ['blockquote', 'citation'], nodes: [QuoteNode]},
+    {type: 'callout', label: 'Callout', keywords: ['note', 'info', 'warning', 'tip', 'alert', 'admonition'], nodes: [CalloutNode]},
+    {type: 'details', label: 'Toggle', keywords: ['details', 'collapsible', 'accordion', 'summary'], nodes: [DetailsNode]},
+    {type: 'code', label: 'Code Block', keywords: ['snippet', 'pre'], nodes: [CodeNode]},
+    {type: 'bullet', label: 'Bullet List', keywords: ['ul', 'unordered', 'bulleted'], nodes: [ListNode, ListItemNode]},
+    {type: 'number', label: 'Numbered List', keywords: ['ol', 'ordered'], nodes: [ListNode, ListItemNode]},
+    {type: 'check', label: 'Check List', keywords: ['todo', 'task', 'checkbox'], nodes: [ListNode, ListItemNode]},
+    {type: 'toc', label: 'Table of Contents', keywords: ['toc', 'outline'], nodes: [TableOfContentsNode]},
+    {type: 'hr', label: 'Divider', keywords: ['hr', 'horizontal rule', 'separator', 'line'], nodes: [HorizontalRuleNode]},
+    {type: 'table', label: 'Table', keywords: ['grid', 'rows', 'columns'], nodes: [TableNode]},
+    {type: 'image', label: 'Image', keywords: ['picture', 'photo', 'img', 'upload'], nodes: [ImageNode]},
+  ]
+  return blocks.filter(block => editor.hasNodes(block.nodes))
+}
+
+/**
+ * Blocks matching what was typed after the slash, best match first.
+ */
+export function filterSlashBlocks(blocks: SlashBlock[], query: string): SlashBlock[] {
+  return fuzzyFilter(blocks, query, block => [block.label, ...block.keywords])
+}
+
+/**
+ * Apply a block at the selection the way the toolbars do: headings and
+ * paragraphs through formatHeading (list-item guard, toggling an active
+ * heading back to a paragraph), lists through formatList, inserted blocks
+ * through their commands and the rest through $setBlocksType.
+ * Images need a file, so the menu opens its picker instead.
+ *
+ * @returns false if the editor is read-only or the block is not allowed
+ */
+export function applySlashBlock(
+  editor: LexicalEditor,
+  type: Exclude<SlashBlockType, 'image'>,
+  policy: HeadingPolicy = DEFAULT_HEADING_POLICY,
+): boolean {
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false
+  }
+
+  switch (type) {
+    case 'quote':
+    case 'code': {
+      let success = false
+      editor.update(() => {
+        const selection = $getSelection()
+        if (!$isRangeSelection(selection)) return
+        $setBlocksType(selection, () => (type === 'quote' ? $createQuoteNode() : $createCodeNode()))
+        success = true
+      })
+      return success
+    }
+    case 'callout':
+      return formatCallout(editor)
+    case 'details':
+      return insertDetails(editor)
+    case 'bullet':
+    case 'number':
+    case 'check':
+      return formatList(editor, type)
+    case 'toc':
+      return insertTableOfContents(editor)
+    case 'hr':
+      return insertHorizontalRule(editor)
+    case 'table':
+      return insertTable(editor)
+    default:
+      return formatHeading(editor, type, {enableToggle: true, policy})
+  }
+}
+
+class SlashMenuOption extends MenuOption {
+  block: SlashBlock
+
+  constructor(block: SlashBlock) {
+    super(block.type)
+    this.block = block
+  }
+}
+
+/**
+ * Typing "/" at the start of a line or after a space opens a menu of block
+ * types at the caret. Typing filters it (fuzzy, so "/bl" finds Bullet List
+ * and "/h2" Heading 2), arrow keys move through it, Enter or Tab applies the
+ * highlighted block and Escape closes it. The slash and query are removed
+ * when a block is applied. Not offered inside code blocks, where "/" is code.
+ */
+export default function SlashCommandMenu({
+  headingPolicy = DEFAULT_HEADING_POLICY,
+}: {
+  headingPolicy?: HeadingPolicy
+}) {
+  const [editor] = useLexicalComposerContext()
+  const [query, setQuery] = useState<string | null>(null)
+  const imageInputRef = useRef<HTMLInputElement>(null)
+
+  const blocks = useMemo(() => getSlashBlocks(editor, headingPolicy), [editor, headingPolicy])
+  const options = useMemo(
+    () => filterSlashBlocks(blocks, query ?? '').map(block => new SlashMenuOption(block)),
+    [blocks, query],
+  )
+
+  const matchSlash = useBasicTypeaheadTriggerMatch('/', {minLength: 0})
+  // Runs inside an editor read, so the selection is available
+  const triggerFn = useCallback((text: string, editor: LexicalEditor) => {
+    if (!editor.isEditable()) return null
+    const selection = $getSelection()
+    if ($isRangeSelection(selection) && $findMatchingParent(selection.anchor.getNode(), $isCodeNode)) return null
+    return matchSlash(text, editor)
+  }, [matchSlash])
+
+  const onSelectOption = useCallback(
+    (option: SlashMenuOption, textNodeContainingQuery: TextNode | null, closeMenu: () => void) => {
+      // Already inside an editor update, so the commands below apply after the slash is gone
+      textNodeContainingQuery?.remove()
+      closeMenu()
+
+      const {type} = option.block
+      if (type === 'image') {
+        imageInputRef.current?.click()
+        return
+      }
+      applySlashBlock(editor, type, headingPolicy)
+    },
+    [editor, headingPolicy],
+  )
+
+  return (
+    <>
+      <LexicalTypeaheadMenuPlugin<SlashMenuOption>
+        onQueryChange={setQuery}
+        onSelectOption={onSelectOption}
+        triggerFn={triggerFn}
+        options={options}
+        // Ahead of Tab indentation and the code/table key handlers while open
+        commandPriority={COMMAND_PRIORITY_HIGH}
+        menuRenderFn={(anchorElementRef, {selectedIndex, selectOptionAndCleanUp, setHighlightedIndex}) =>
+          anchorElementRef.current && options.length > 0
+            ? createPortal(
+              <div className="slash-menu">
+                {options.map((option, index) => (
+                  <button
+                    key={option.key}
+                    id={`typeahead-item-${index}`} // Referenced by aria-activedescendant on the editor
+                    ref={(element) => option.setRefElement(element)}
+                    type="button"
+                    role="option"
+                    aria-selected={selectedIndex === index}
+                    tabIndex={-1}
+                    className={`floating-toolbar-dropdown-item ${selectedIndex === index ? 'active' : ''}`}
+                    onMouseDown={(e) => e.preventDefault()} // Prevent selection loss
+                    onMouseEnter={() => setHighlightedIndex(index)}
+                    onClick={() => {
+                      setHighlightedIndex(index)
+                      selectOptionAndCleanUp(option)
+                    }}
+                  >
+                    {option.block.label}
+                  </button>
+                ))}
+              </div>,
+              anchorElementRef.current,
+            )
+            : null
+        }
+      />
+      <input
+        ref={imageInputRef}
+        type="file"
+        accept={IMAGE_FILE_TYPES.join(',')}
+        multiple
+        hidden
+        onChange={(e) => {
+          if (e.target.files) insertImageFiles(editor, e.target.files)
+          e.target.value = '' // Picking the same file again must fire change
+        }}
+      />
+    </>
+  )
+}
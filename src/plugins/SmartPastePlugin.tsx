@@ -5,14 +5,32 @@ import {
   $getSelection, 
   $isRangeSelection,
   COMMAND_PRIORITY_HIGH,
+  KEY_MODIFIER_COMMAND,
   PASTE_COMMAND,
   SerializedEditorState,
   SerializedLexicalNode
 } from 'lexical';
 import { $generateNodesFromDOM } from '@lexical/html';
+import { $findMatchingParent, mergeRegister } from '@lexical/utils';
+import { $isCodeNode } from '@lexical/code';
 import { $generateNodesFromSerializedNodes } from '@lexical/clipboard';
 import { sanitizeHTML, exceedsSizeLimit, MAX_PASTE_SIZE } from '../config/sanitization-config';
 import { logDevWarning } from '../utils/dev-logger';
+import { applyCodeLanguageAttributes } from '../utils/code-languages';
+import { scoreMarkdownConfidence, MARKDOWN_CONFIDENCE_THRESHOLD } from '../utils/markdown-detection';
+import { $generateNodesFromMarkdown } from '../utils/markdown';
+import { isPlainTextList, $generateListNodesFromPlainText } from '../utils/list-reconstruction';
+import { PASTE_AS_PLAIN_TEXT_COMMAND, $insertPlainText } from '../commands/paste-commands';
+import { insertImageFiles } from '../commands/image-commands';
+import { getImageFiles } from '../utils/images';
+import { $getHeadingPolicy } from '../constants/heading-policy';
+import {
+  $getHeadingContextLevel,
+  HeadingPasteMode,
+  remapHeadingElements,
+  remapMarkdownHeadings,
+  remapSerializedHeadings
+} from '../utils/heading-remap';
 
 // Singleton pattern: prevent duplicate registrations
 const registeredEditors = new WeakSet<LexicalEditor>();
@@ -27,6 +45,83 @@ const generatePasteId = () => `paste-${Date.now()}-${++pasteIdCounter}`;
 // Track active paste events to detect potential double-processing
 const activePastes = new Set<string>();
 
+// Pending "paste as plain text" requests (Mod+Shift+V), keyed by editor
+const plainTextPasteRequests = new WeakMap<LexicalEditor, number>();
+
+// The paste event follows the keydown almost immediately; stale requests are ignored
+const PLAIN_TEXT_PASTE_WINDOW_MS = 1000;
+
+// Heading paste mode per editor; editors without an entry clamp
+const headingPasteModes = new WeakMap<LexicalEditor, HeadingPasteMode>();
+
+/**
+ * Choose how pasted heading levels are treated on this editor.
+ * 'relative' shifts the pasted fragment under the heading at the caret.
+ */
+export function setHeadingPasteMode(editor: LexicalEditor, mode: HeadingPasteMode): void {
+  headingPasteModes.set(editor, mode);
+}
+
+function isRelativeHeadingPaste(editor: LexicalEditor): boolean {
+  return headingPasteModes.get(editor) === 'relative';
+}
+
+/**
+ * Mark the next paste on this editor as plain text only.
+ */
+export function requestPlainTextPaste(editor: LexicalEditor): void {
+  plainTextPasteRequests.set(editor, performance.now());
+}
+
+/**
+ * Consume a pending plain text request, if one is still fresh.
+ */
+function consumePlainTextPasteRequest(editor: LexicalEditor): boolean {
+  const requestedAt = plainTextPasteRequests.get(editor);
+  plainTextPasteRequests.delete(editor);
+  return requestedAt !== undefined && performance.now() - requestedAt <= PLAIN_TEXT_PASTE_WINDOW_MS;
+}
+
+/**
+ * Register the plain text paste entry points: the Mod+Shift+V escape hatch
+ * and PASTE_AS_PLAIN_TEXT_COMMAND. Exposed separately from the React plugin
+ * so headless editors and tests share the same handlers.
+ */
+export function registerPlainTextPaste(editor: LexicalEditor): () => void {
+  return mergeRegister(
+    // Mod+Shift+V: let the browser fire its paste event, but handle it as plain text
+    editor.registerCommand<KeyboardEvent>(
+      KEY_MODIFIER_COMMAND,
+      (event) => {
+        const { ctrlKey, metaKey, altKey, shiftKey, key } = event;
+        if ((ctrlKey || metaKey) && shiftKey && !altKey && key.toLowerCase() === 'v') {
+          requestPlainTextPaste(editor);
+        }
+        return false;
+      },
+      COMMAND_PRIORITY_HIGH
+    ),
+
+    // Explicit plain text paste, e.g. from the toolbar with clipboard text already read
+    editor.registerCommand(
+      PASTE_AS_PLAIN_TEXT_COMMAND,
+      (text) => {
+        if (!editor.isEditable()) {
+          return false;
+        }
+
+        const selection = $getSelection();
+        if (!$isRangeSelection(selection)) {
+          return false;
+        }
+
+        return $insertPlainText(selection, text);
+      },
+      COMMAND_PRIORITY_HIGH
+    )
+  );
+}
+
 /**
  * Production-hardened Smart Paste Plugin - Stage 1 of the two-stage paste pipeline.
  * 
@@ -34,8 +129,16 @@ const activePastes = new Set<string>();
  * 1. Fast Path: Handle application/x-lexical-editor MIME type for perfect fidelity
  * 2. Resilience: Size/time guards with plaintext fallback
  * 3. Security: Sanitize HTML content using hardened DOMPurify configuration
- * 4. Atomicity: Insert nodes in single transaction for proper undo behavior
- * 5. Discipline: Return true only on successful insertion
+ * 4. Markdown: Convert plaintext that confidently looks like Markdown into rich nodes
+ *    and rebuild plaintext bullet/numbered lines as real nested lists
+ * 5. Images: Upload pasted image files (screenshots) through the ImageUploadAdapter;
+ *    <img> in HTML goes through the HTML path and the image src allowlist
+ * 6. Atomicity: Insert nodes in single transaction for proper undo behavior
+ * 7. Discipline: Return true only on successful insertion
+ * 
+ * Mod+Shift+V (and PASTE_AS_PLAIN_TEXT_COMMAND) skips every rich path and pastes plain text.
+ * With headingPasteMode 'relative', pasted headings are shifted under the heading
+ * at the caret before import, so only levels that still overflow get clamped.
  * 
  * Stage 2 (HeadingPolicyPlugin transform) handles policy enforcement.
  */
@@ -44,9 +147,17 @@ const activePastes = new Set<string>();
 // 150ms allows medium-sized content while preventing UI freeze
 const MAX_SANITIZATION_TIME_MS = 150;
 const LEXICAL_CLIPBOARD_TYPE = 'application/x-lexical-editor';
-export function SmartPastePlugin(): null {
+export function SmartPastePlugin({
+  headingPasteMode = 'clamp'
+}: {
+  headingPasteMode?: HeadingPasteMode;
+}): null {
   const [editor] = useLexicalComposerContext();
 
+  useEffect(() => {
+    setHeadingPasteMode(editor, headingPasteMode);
+  }, [editor, headingPasteMode]);
+
   useEffect(() => {
     // Singleton guard: prevent duplicate registrations
     if (registeredEditors.has(editor)) {
@@ -68,8 +179,11 @@ export function SmartPastePlugin(): null {
       COMMAND_PRIORITY_HIGH // High priority to run before other paste handlers
     );
 
+    const unregisterPlainText = registerPlainTextPaste(editor);
+
     return () => {
       unregisterPasteCommand();
+      unregisterPlainText();
       registeredEditors.delete(editor);
     };
   }, [editor]);
@@ -131,6 +245,15 @@ export function handleSmartPaste(editor: LexicalEditor, event: ClipboardEvent):
     return finishPaste(false);
   }
 
+  // Escape hatch: user asked for plain text, skip all rich paths
+  if (consumePlainTextPasteRequest(editor)) {
+    if (import.meta.env.DEV) {
+      logDevWarning('SmartPaste', `[${pasteId}] PLAIN_TEXT_REQUESTED: Skipping rich paste paths`);
+    }
+    const handled = handlePlaintextFallback(editor, clipboardData.getData('text/html'), clipboardData, pasteId, event);
+    return finishPaste(handled, handled ? 'Plain Text - SCHEDULED' : 'Plain Text - REJECTED');
+  }
+
   try {
     // Fast Path: Handle Lexical clipboard data for perfect fidelity
     const lexicalData = clipboardData.getData(LEXICAL_CLIPBOARD_TYPE);
@@ -163,9 +286,46 @@ export function handleSmartPaste(editor: LexicalEditor, event: ClipboardEvent):
       return finishPaste(handled, handled ? 'HTML Path - SCHEDULED' : 'HTML Path - REJECTED');
     }
 
-    // No HTML content, let default text paste handler take over
+    // Image Path: image files without HTML, e.g. a screenshot. When HTML comes
+    // along (a copied web image, or a rendered preview from office apps) it wins
+    const imageFiles = getImageFiles(clipboardData.files);
+    if (imageFiles.length > 0) {
+      if (import.meta.env.DEV) {
+        logDevWarning('SmartPaste', `[${pasteId}] ATTEMPTING: Image Path (${imageFiles.length} files)`);
+      }
+
+      const handled = handleImagePaste(editor, imageFiles, pasteId, event);
+      return finishPaste(handled, handled ? 'Image Path - SCHEDULED' : 'Image Path - REJECTED');
+    }
+
+    // Markdown Path: plaintext that confidently looks like Markdown. Neither
+    // it nor the List Path applies inside a code block
+    const plainText = clipboardData.getData('text/plain');
+    if (plainText && plainText.trim() && !exceedsSizeLimit(plainText) && !isSelectionInCodeBlock(editor)) {
+      const confidence = scoreMarkdownConfidence(plainText);
+      if (confidence >= MARKDOWN_CONFIDENCE_THRESHOLD) {
+        if (import.meta.env.DEV) {
+          logDevWarning('SmartPaste', `[${pasteId}] ATTEMPTING: Markdown Path (${plainText.length} chars, confidence ${confidence.toFixed(2)})`);
+        }
+
+        const handled = handleMarkdownPaste(editor, plainText, pasteId, event);
+        return finishPaste(handled, handled ? 'Markdown Path - SCHEDULED' : 'Markdown Path - REJECTED');
+      }
+
+      // List Path: plaintext bullet/numbered lines that aren't Markdown
+      if (isPlainTextList(plainText)) {
+        if (import.meta.env.DEV) {
+          logDevWarning('SmartPaste', `[${pasteId}] ATTEMPTING: List Path (${plainText.length} chars)`);
+        }
+
+        const handled = handleListPaste(editor, plainText, pasteId, event);
+        return finishPaste(handled, handled ? 'List Path - SCHEDULED' : 'List Path - REJECTED');
+      }
+    }
+
+    // No rich content, let default text paste handler take over
     if (import.meta.env.DEV) {
-      logDevWarning('SmartPaste', `[${pasteId}] NO_CONTENT: No HTML or Lexical data, deferring to default handler`);
+      logDevWarning('SmartPaste', `[${pasteId}] NO_CONTENT: No HTML, Lexical, image, Markdown or list data, deferring to default handler`);
     }
     return finishPaste(false);
 
@@ -175,6 +335,19 @@ export function handleSmartPaste(editor: LexicalEditor, event: ClipboardEvent):
   }
 }
 
+/**
+ * Whether the selection starts or ends inside a code block. Text pasted there
+ * is code (a shell comment reads like a Markdown heading), so it is left to
+ * the default handler, which inserts it unchanged.
+ */
+function isSelectionInCodeBlock(editor: LexicalEditor): boolean {
+  return editor.getEditorState().read(() => {
+    const selection = $getSelection();
+    return $isRangeSelection(selection) &&
+      [selection.anchor, selection.focus].some(point => $findMatchingParent(point.getNode(), $isCodeNode) !== null);
+  });
+}
+
 /**
  * Fast Path: Handle Lexical clipboard data without sanitization.
  * Provides perfect fidelity for internal copy-paste operations.
@@ -272,8 +445,13 @@ function handleLexicalFastPath(editor: LexicalEditor, lexicalData: string, paste
       }
 
       try {
+        // Shift headings before import, which clamps each level on its own
+        const fragment = isRelativeHeadingPaste(editor)
+          ? remapSerializedHeadings(serializedNodes, $getHeadingContextLevel(), $getHeadingPolicy())
+          : serializedNodes;
+
         // Use official clipboard utility to reconstruct nodes
-        const nodes = $generateNodesFromSerializedNodes(serializedNodes);
+        const nodes = $generateNodesFromSerializedNodes(fragment);
         
         if (nodes.length === 0) {
           if (import.meta.env.DEV) {
@@ -393,6 +571,10 @@ function handleHtmlPaste(editor: LexicalEditor, htmlContent: string, startTime:
       // Parse sanitized HTML and generate nodes
       const parser = new DOMParser();
       const doc = parser.parseFromString(sanitizedHTML, 'text/html');
+      if (isRelativeHeadingPaste(editor)) {
+        remapHeadingElements(doc.body, $getHeadingContextLevel(), $getHeadingPolicy());
+      }
+      applyCodeLanguageAttributes(doc.body);
       const nodes = $generateNodesFromDOM(editor, doc);
 
       if (nodes.length === 0) {
@@ -434,6 +616,182 @@ function handleHtmlPaste(editor: LexicalEditor, htmlContent: string, startTime:
   return true;
 }
 
+/**
+ * Markdown Path: Parse plaintext Markdown into rich nodes and insert atomically.
+ * Headings go through the policy-aware transformer; links through the URL allowlist.
+ */
+function handleMarkdownPaste(editor: LexicalEditor, markdown: string, pasteId?: string, event?: ClipboardEvent): boolean {
+  // Pre-check selection availability synchronously
+  let hasValidSelection = false;
+  editor.getEditorState().read(() => {
+    const selection = $getSelection();
+    hasValidSelection = $isRangeSelection(selection);
+  });
+
+  if (!hasValidSelection) {
+    if (import.meta.env.DEV) {
+      const pasteIdPrefix = pasteId ? `[${pasteId}] ` : '';
+      logDevWarning('SmartPaste', `${pasteIdPrefix}MARKDOWN_PATH_BLOCKED: No valid range selection`);
+    }
+    return false; // Reject - don't handle this paste
+  }
+
+  // We have valid selection - we will handle this paste
+  if (event) {
+    event.preventDefault(); // Prevent default browser paste
+  }
+
+  // Schedule the insertion - this runs asynchronously
+  editor.update(() => {
+    if (!$isRangeSelection($getSelection())) {
+      if (import.meta.env.DEV) {
+        const pasteIdPrefix = pasteId ? `[${pasteId}] ` : '';
+        logDevWarning('SmartPaste', `${pasteIdPrefix}MARKDOWN_PATH_FAILED: Selection became invalid`);
+      }
+      return;
+    }
+
+    try {
+      const nodes = $generateNodesFromMarkdown(
+        isRelativeHeadingPaste(editor)
+          ? remapMarkdownHeadings(markdown, $getHeadingContextLevel(), $getHeadingPolicy())
+          : markdown
+      );
+
+      if (nodes.length === 0) {
+        if (import.meta.env.DEV) {
+          const pasteIdPrefix = pasteId ? `[${pasteId}] ` : '';
+          logDevWarning('SmartPaste', `${pasteIdPrefix}MARKDOWN_PATH_FAILED: No nodes generated from Markdown`);
+        }
+        return;
+      }
+
+      // Read the selection after parsing: the generator swaps in a restored copy
+      const selection = $getSelection();
+      if (!$isRangeSelection(selection)) {
+        return;
+      }
+
+      // Insert nodes atomically - all operations in single transaction for one undo
+      selection.insertNodes(nodes);
+
+      const lastNode = nodes[nodes.length - 1];
+      if (lastNode && lastNode.isAttached() && lastNode.selectEnd) {
+        lastNode.selectEnd();
+      }
+
+      if (import.meta.env.DEV) {
+        const pasteIdPrefix = pasteId ? `[${pasteId}] ` : '';
+        logDevWarning('SmartPaste', `${pasteIdPrefix}MARKDOWN_PATH_SUCCESS: Inserted ${nodes.length} nodes`);
+      }
+    } catch (error) {
+      console.error(`[SmartPaste] [${pasteId}] MARKDOWN_PATH_FAILED: Node generation/insertion failed:`, error);
+    }
+  });
+
+  // Return true immediately - we accepted and scheduled the paste
+  return true;
+}
+
+/**
+ * List Path: Rebuild plaintext list lines as nested lists and insert atomically.
+ */
+function handleListPaste(editor: LexicalEditor, text: string, pasteId?: string, event?: ClipboardEvent): boolean {
+  // Pre-check selection availability synchronously
+  let hasValidSelection = false;
+  editor.getEditorState().read(() => {
+    const selection = $getSelection();
+    hasValidSelection = $isRangeSelection(selection);
+  });
+
+  if (!hasValidSelection) {
+    if (import.meta.env.DEV) {
+      const pasteIdPrefix = pasteId ? `[${pasteId}] ` : '';
+      logDevWarning('SmartPaste', `${pasteIdPrefix}LIST_PATH_BLOCKED: No valid range selection`);
+    }
+    return false; // Reject - don't handle this paste
+  }
+
+  // We have valid selection - we will handle this paste
+  if (event) {
+    event.preventDefault(); // Prevent default browser paste
+  }
+
+  // Schedule the insertion - this runs asynchronously
+  editor.update(() => {
+    const selection = $getSelection();
+    if (!$isRangeSelection(selection)) {
+      if (import.meta.env.DEV) {
+        const pasteIdPrefix = pasteId ? `[${pasteId}] ` : '';
+        logDevWarning('SmartPaste', `${pasteIdPrefix}LIST_PATH_FAILED: Selection became invalid`);
+      }
+      return;
+    }
+
+    try {
+      const nodes = $generateListNodesFromPlainText(text);
+
+      if (nodes.length === 0) {
+        return;
+      }
+
+      // Insert nodes atomically - all operations in single transaction for one undo
+      selection.insertNodes(nodes);
+
+      const lastNode = nodes[nodes.length - 1];
+      if (lastNode && lastNode.isAttached()) {
+        lastNode.selectEnd();
+      }
+
+      if (import.meta.env.DEV) {
+        const pasteIdPrefix = pasteId ? `[${pasteId}] ` : '';
+        logDevWarning('SmartPaste', `${pasteIdPrefix}LIST_PATH_SUCCESS: Inserted ${nodes.length} lists`);
+      }
+    } catch (error) {
+      console.error(`[SmartPaste] [${pasteId}] LIST_PATH_FAILED: Node generation/insertion failed:`, error);
+    }
+  });
+
+  // Return true immediately - we accepted and scheduled the paste
+  return true;
+}
+
+/**
+ * Image Path: Upload image files and insert them at the selection.
+ * The upload is asynchronous, so the images land in their own update once stored.
+ */
+function handleImagePaste(editor: LexicalEditor, files: File[], pasteId?: string, event?: ClipboardEvent): boolean {
+  // Pre-check selection availability synchronously
+  let hasValidSelection = false;
+  editor.getEditorState().read(() => {
+    const selection = $getSelection();
+    hasValidSelection = $isRangeSelection(selection);
+  });
+
+  if (!hasValidSelection) {
+    if (import.meta.env.DEV) {
+      const pasteIdPrefix = pasteId ? `[${pasteId}] ` : '';
+      logDevWarning('SmartPaste', `${pasteIdPrefix}IMAGE_PATH_BLOCKED: No valid range selection`);
+    }
+    return false; // Reject - don't handle this paste
+  }
+
+  // We have valid selection - we will handle this paste
+  if (event) {
+    event.preventDefault(); // Prevent default browser paste
+  }
+
+  insertImageFiles(editor, files).then((inserted) => {
+    if (import.meta.env.DEV) {
+      const pasteIdPrefix = pasteId ? `[${pasteId}] ` : '';
+      logDevWarning('SmartPaste', `${pasteIdPrefix}${inserted ? 'IMAGE_PATH_SUCCESS' : 'IMAGE_PATH_FAILED'}: ${files.length} files`);
+    }
+  });
+
+  // Return true immediately - we accepted and scheduled the paste
+  return true;
+}
+
 /**
  * Fallback: Insert content as plain text when HTML processing fails.
  * Prefers text/plain from clipboard over HTML tag stripping.
@@ -504,7 +862,8 @@ function handlePlaintextFallback(editor: LexicalEditor, htmlContent: string, cli
     }
 
     try {
-      selection.insertText(plainText);
+      // Same normalization as PASTE_AS_PLAIN_TEXT_COMMAND
+      $insertPlainText(selection, plainText);
       
       if (import.meta.env.DEV) {
         const pasteIdPrefix = pasteId ? `[${pasteId}] ` : '';
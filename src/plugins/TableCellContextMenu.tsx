@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from 'react'
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext'
+import { $getNearestNodeFromDOMNode, LexicalEditor, NodeKey } from 'lexical'
+import { $getTableCellNodeFromLexicalNode, $getTableNodeFromLexicalNodeOrThrow } from '@lexical/table'
+import {
+  deleteTableColumn,
+  deleteTableRow,
+  insertTableColumn,
+  insertTableRow,
+  toggleTableHeaderRow,
+} from '../commands/table-commands'
+import { $hasHeaderRow } from '../utils/tables'
+
+type OpenMenu = {
+  cellKey: NodeKey
+  hasHeaderRow: boolean
+  top: number
+  left: number
+}
+
+type MenuItem = {
+  label: string
+  run: (editor: LexicalEditor, cellKey: NodeKey) => boolean
+}
+
+const ROW_AND_COLUMN_ITEMS: MenuItem[] = [
+  {label: 'Insert row above', run: (editor, key) => insertTableRow(editor, 'above', key)},
+  {label: 'Insert row below', run: (editor, key) => insertTableRow(editor, 'below', key)},
+  {label: 'Insert column left', run: (editor, key) => insertTableColumn(editor, 'left', key)},
+  {label: 'Insert column right', run: (editor, key) => insertTableColumn(editor, 'right', key)},
+  {label: 'Delete row', run: deleteTableRow},
+  {label: 'Delete column', run: deleteTableColumn},
+]
+
+/**
+ * Context menu for table cells: right-click a cell to insert or delete rows
+ * and columns around it, or toggle the header row. Replaces the browser menu
+ * only inside table cells of an editable editor.
+ */
+export default function TableCellContextMenu() {
+  const [editor] = useLexicalComposerContext()
+  const [menu, setMenu] = useState<OpenMenu | null>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const handleContextMenu = (e: MouseEvent) => {
+      const element = (e.target as HTMLElement | null)?.closest('td, th')
+      if (!element || !editor.isEditable()) return
+
+      let next: OpenMenu | null = null
+      editor.getEditorState().read(() => {
+        const node = $getNearestNodeFromDOMNode(element)
+        const cell = node ? $getTableCellNodeFromLexicalNode(node) : null
+        if (cell) {
+          next = {
+            cellKey: cell.getKey(),
+            hasHeaderRow: $hasHeaderRow($getTableNodeFromLexicalNodeOrThrow(cell)),
+            top: e.pageY,
+            left: e.pageX,
+          }
+        }
+      })
+
+      if (next) {
+        e.preventDefault()
+        setMenu(next)
+      }
+    }
+
+    const unregisterRoot = editor.registerRootListener((rootElement, prevRootElement) => {
+      prevRootElement?.removeEventListener('contextmenu', handleContextMenu)
+      rootElement?.addEventListener('contextmenu', handleContextMenu)
+    })
+
+    return () => {
+      unregisterRoot()
+      editor.getRootElement()?.removeEventListener('contextmenu', handleContextMenu)
+    }
+  }, [editor])
+
+  // Close on outside click, Escape, and whenever the document changes
+  useEffect(() => {
+    if (!menu) return
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setMenu(null)
+    }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setMenu(null)
+    }
+
+    document.addEventListener('mousedown', handleMouseDown)
+    document.addEventListener('keydown', handleKeyDown)
+    const unregister = editor.registerUpdateListener(({dirtyElements, dirtyLeaves}) => {
+      if (dirtyElements.size > 0 || dirtyLeaves.size > 0) setMenu(null)
+    })
+
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown)
+      document.removeEventListener('keydown', handleKeyDown)
+      unregister()
+    }
+  }, [editor, menu])
+
+  if (!menu) return null
+
+  const items: MenuItem[] = [
+    ...ROW_AND_COLUMN_ITEMS,
+    {label: menu.hasHeaderRow ? 'Remove header row' : 'Make first row header', run: toggleTableHeaderRow},
+  ]
+
+  return (
+    <div
+      ref={menuRef}
+      className="table-cell-menu"
+      role="menu"
+      aria-label="Table cell"
+      style={{
+        position: 'absolute',
+        top: `${menu.top}px`,
+        left: `${menu.left}px`,
+        zIndex: 1001,
+      }}
+    >
+      {items.map(item => (
+        <button
+          key={item.label}
+          type="button"
+          role="menuitem"
+          className="floating-toolbar-dropdown-item"
+          onMouseDown={(e) => e.preventDefault()} // Prevent selection loss
+          onClick={() => {
+            item.run(editor, menu.cellKey)
+            setMenu(null)
+            editor.focus()
+          }}
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  )
+}
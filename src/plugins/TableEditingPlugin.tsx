@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { COMMAND_PRIORITY_NORMAL, KEY_TAB_COMMAND, LexicalEditor } from 'lexical';
+import { $moveToAdjacentTableCell } from '../utils/tables';
+import { logDevWarning } from '../utils/dev-logger';
+
+// Singleton pattern: track registered editors to prevent duplicate registrations
+const registeredEditors = new WeakSet<LexicalEditor>();
+
+/**
+ * Register Tab navigation between table cells. Declines outside tables, so
+ * Tab keeps its meaning in lists and code blocks. Exposed separately from
+ * the React plugin for headless editors and tests.
+ */
+export function registerTableEditing(editor: LexicalEditor): () => void {
+  return editor.registerCommand(
+    KEY_TAB_COMMAND,
+    (event: KeyboardEvent) => {
+      if (!$moveToAdjacentTableCell(event.shiftKey)) {
+        return false;
+      }
+      event.preventDefault();
+      return true;
+    },
+    COMMAND_PRIORITY_NORMAL
+  );
+}
+
+/**
+ * Plugin for keyboard editing in tables:
+ * - Tab: next cell, adding a row after the last one
+ * - Shift+Tab: previous cell
+ *
+ * Complements the stock TablePlugin (cell selection, normalization), whose
+ * own Tab handler must be disabled with hasTabHandler={false}.
+ *
+ * Uses singleton pattern to prevent duplicate registrations across
+ * React StrictMode, hot reload, and feature toggles.
+ */
+export function TableEditingPlugin(): null {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    // Singleton guard: prevent duplicate registrations
+    if (registeredEditors.has(editor)) {
+      logDevWarning('TableEditing', 'Editor already registered, skipping duplicate registration');
+      return;
+    }
+
+    registeredEditors.add(editor);
+    const unregister = registerTableEditing(editor);
+
+    return () => {
+      unregister();
+      registeredEditors.delete(editor);
+    };
+  }, [editor]);
+
+  return null;
+}
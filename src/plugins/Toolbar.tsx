@@ -1,4 +1,4 @@
-import {useEffect, useState, useCallback} from 'react'
+import {useEffect, useRef, useState, useCallback} from 'react'
 import {useLexicalComposerContext} from '@lexical/react/LexicalComposerContext'
 import {
   $getSelection,
@@ -6,26 +6,64 @@ import {
   FORMAT_TEXT_COMMAND,
   SELECTION_CHANGE_COMMAND,
   COMMAND_PRIORITY_CRITICAL,
+  NodeKey,
 } from 'lexical'
 import {$setBlocksType} from '@lexical/selection'
 import {
-  $createHeadingNode,
-  $isHeadingNode,
   $createQuoteNode,
   $isQuoteNode,
 } from '@lexical/rich-text'
-import {INSERT_UNORDERED_LIST_COMMAND, REMOVE_LIST_COMMAND, $isListNode} from '@lexical/list'
-import {$createParagraphNode, $isParagraphNode} from 'lexical'
+import {$isListNode, ListNode} from '@lexical/list'
+import {$getNearestNodeOfType} from '@lexical/utils'
+import {$createParagraphNode} from 'lexical'
 import {$createCodeNode, $isCodeNode} from '@lexical/code'
+import {PASTE_AS_PLAIN_TEXT_COMMAND} from '../commands/paste-commands'
+import {formatList, setListStart} from '../commands/list-commands'
+import {formatHeading} from '../commands/heading-commands'
+import {insertTableOfContents} from '../commands/outline-commands'
+import {formatCallout, insertDetails, insertHorizontalRule, setCalloutStyle} from '../commands/block-commands'
+import {insertTable} from '../commands/table-commands'
+import {insertImageFiles} from '../commands/image-commands'
+import {$isCalloutNode} from '../nodes/CalloutNode'
+import {$isDetailsNode} from '../nodes/DetailsNode'
+import {DEFAULT_HEADING_POLICY, HeadingPolicy, isAllowedHeadingTag} from '../constants/heading-policy'
+import {HeadingTagType, ListBlockType} from '../types/editor-types'
+import {IMAGE_FILE_TYPES} from '../utils/images'
+import {CALLOUT_VARIANTS, CalloutVariant} from '../utils/callouts'
+import {useBlockType} from '../hooks/useBlockType'
+import {
+  isSectionNumberingEnabled,
+  SECTION_NUMBERING_CHANGED_COMMAND,
+  setSectionNumbering,
+} from '../utils/section-numbering'
+
+// Blocks useBlockType doesn't report: the caret is inside one of these containers
+type ContainerBlockType = 'quote' | 'callout' | 'details' | 'code'
 
-type BlockType = 'paragraph' | 'h2' | 'bullet' | 'quote' | 'code'
+type BlockType = 'paragraph' | HeadingTagType | ListBlockType | ContainerBlockType | 'toc' | 'hr' | 'table' | 'image'
 
-export default function Toolbar() {
+// Icons offered for callouts; a pasted one outside this list is kept and shown too
+const CALLOUT_EMOJI_CHOICES = ['💡', 'ℹ️', '📝', '⚠️', '🚫', '✅']
+
+interface CalloutState {
+  key: NodeKey
+  variant: CalloutVariant
+  emoji: string | null
+}
+
+export default function Toolbar({headingPolicy = DEFAULT_HEADING_POLICY}: {headingPolicy?: HeadingPolicy}) {
   const [editor] = useLexicalComposerContext()
   const [isBold, setIsBold] = useState(false)
   const [isItalic, setIsItalic] = useState(false)
   const [isCodeMark, setIsCodeMark] = useState(false)
-  const [blockType, setBlockType] = useState<BlockType>('paragraph')
+  const formattingBlockType = useBlockType(headingPolicy)
+  const [containerType, setContainerType] = useState<ContainerBlockType | null>(null)
+  const [sectionNumbering, setSectionNumberingValue] = useState(() => isSectionNumberingEnabled(editor))
+  const [listStart, setListStartValue] = useState(1)
+  // Typed separately so clearing the field or a half-typed value doesn't fight the list
+  const [listStartDraft, setListStartDraft] = useState('1')
+  const [callout, setCallout] = useState<CalloutState | null>(null)
+  const imageInputRef = useRef<HTMLInputElement>(null)
 
   const updateToolbar = useCallback(() => {
     editor.getEditorState().read(() => {
@@ -39,22 +77,29 @@ export default function Toolbar() {
       const anchor = selection.anchor.getNode()
       const element = anchor.getTopLevelElementOrThrow()
 
-      if ($isHeadingNode(element)) {
-        setBlockType(element.getTag() === 'h2' ? 'h2' : 'paragraph')
-      } else if ($isListNode(element)) {
-        setBlockType(element.getListType() === 'bullet' ? 'bullet' : 'paragraph')
-      } else if ($isQuoteNode(element)) {
-        setBlockType('quote')
+      // Headings, lists and paragraphs come from useBlockType
+      if ($isListNode(element)) {
+        // Innermost list decides, as it does for the list type
+        setListStartValue(($getNearestNodeOfType(anchor, ListNode) ?? element).getStart())
+      }
+
+      if ($isQuoteNode(element)) {
+        setContainerType('quote')
+      } else if ($isCalloutNode(element)) {
+        setContainerType('callout')
+        setCallout({key: element.getKey(), variant: element.getVariant(), emoji: element.getEmoji()})
+      } else if ($isDetailsNode(element)) {
+        setContainerType('details')
       } else if ($isCodeNode(element)) {
-        setBlockType('code')
-      } else if ($isParagraphNode(element)) {
-        setBlockType('paragraph')
+        setContainerType('code')
       } else {
-        setBlockType('paragraph')
+        setContainerType(null)
       }
     })
   }, [editor])
 
+  const blockType: BlockType = containerType ?? formattingBlockType
+
   useEffect(() => {
     return editor.registerCommand(
       SELECTION_CHANGE_COMMAND,
@@ -72,25 +117,83 @@ export default function Toolbar() {
     })
   }, [editor, updateToolbar])
 
+  useEffect(() => {
+    return editor.registerCommand(
+      SECTION_NUMBERING_CHANGED_COMMAND,
+      (enabled) => {
+        setSectionNumberingValue(enabled)
+        return false
+      },
+      COMMAND_PRIORITY_CRITICAL,
+    )
+  }, [editor])
+
+  useEffect(() => setListStartDraft(String(listStart)), [listStart])
+
+  const commitListStart = () => {
+    const start = parseInt(listStartDraft, 10)
+    if (start === listStart || !setListStart(editor, start)) {
+      setListStartDraft(String(listStart))
+    }
+  }
+
   const onToggleFormat = (format: 'bold' | 'italic' | 'code') => {
     editor.dispatchCommand(FORMAT_TEXT_COMMAND, format)
   }
 
+  const onPastePlainText = async () => {
+    try {
+      const text = await navigator.clipboard.readText()
+      editor.focus()
+      editor.dispatchCommand(PASTE_AS_PLAIN_TEXT_COMMAND, text)
+    } catch (error) {
+      // Clipboard read needs permission; Mod+Shift+V still works without it
+      if (import.meta.env.DEV) {
+        console.warn('[Toolbar] Clipboard read failed:', error)
+      }
+    }
+  }
+
   const onSelectBlock = (type: BlockType) => {
-    if (type === 'bullet') {
-      // Toggle bulleted list
-      editor.update(() => {
-        const selection = $getSelection()
-        if ($isRangeSelection(selection)) {
-          const anchor = selection.anchor.getNode()
-          const element = anchor.getTopLevelElementOrThrow()
-          if ($isListNode(element) && element.getListType() === 'bullet') {
-            editor.dispatchCommand(REMOVE_LIST_COMMAND, undefined)
-          } else {
-            editor.dispatchCommand(INSERT_UNORDERED_LIST_COMMAND, undefined)
-          }
-        }
-      })
+    // Inserts a block rather than converting the current one
+    if (type === 'toc') {
+      insertTableOfContents(editor)
+      return
+    }
+
+    if (type === 'hr') {
+      insertHorizontalRule(editor)
+      return
+    }
+
+    if (type === 'table') {
+      insertTable(editor)
+      return
+    }
+
+    if (type === 'details') {
+      insertDetails(editor)
+      return
+    }
+
+    if (type === 'callout') {
+      formatCallout(editor)
+      return
+    }
+
+    if (type === 'image') {
+      imageInputRef.current?.click()
+      return
+    }
+
+    if (type === 'bullet' || type === 'number' || type === 'check') {
+      // Toggle list of this type
+      formatList(editor, type)
+      return
+    }
+
+    if (isAllowedHeadingTag(type, headingPolicy)) {
+      formatHeading(editor, type, {policy: headingPolicy})
       return
     }
 
@@ -101,9 +204,6 @@ export default function Toolbar() {
         case 'paragraph':
           $setBlocksType(selection, () => $createParagraphNode())
           break
-        case 'h2':
-          $setBlocksType(selection, () => $createHeadingNode('h2'))
-          break
         case 'quote':
           $setBlocksType(selection, () => $createQuoteNode())
           break
@@ -143,6 +243,23 @@ export default function Toolbar() {
       >
         {'</>'}
       </button>
+      <button
+        type="button"
+        className="toolbar-btn"
+        onClick={onPastePlainText}
+        title="Paste as plain text (Ctrl/⌘+Shift+V)"
+      >
+        Paste plain
+      </button>
+      <button
+        type="button"
+        className={`toolbar-btn ${sectionNumbering ? 'active' : ''}`}
+        aria-pressed={sectionNumbering}
+        onClick={() => setSectionNumbering(editor, !sectionNumbering)}
+        title="Number sections (1., 1.2, 1.2.3)"
+      >
+        1.2
+      </button>
       <div className="toolbar-spacer" />
       <label className="sr-only" htmlFor="blockType">Block type</label>
       <select
@@ -153,11 +270,84 @@ export default function Toolbar() {
         title="Block type"
       >
         <option value="paragraph">Paragraph</option>
-        <option value="h2">H2</option>
+        {headingPolicy.allowedTags.map((tag) => (
+          <option key={tag} value={tag}>{tag.toUpperCase()}</option>
+        ))}
         <option value="bullet">Bulleted</option>
+        <option value="number">Numbered</option>
+        <option value="check">Checklist</option>
         <option value="quote">Quote</option>
+        <option value="callout">Callout</option>
+        <option value="details">Toggle</option>
         <option value="code">Code</option>
+        <option value="toc">Table of contents</option>
+        <option value="hr">Divider</option>
+        <option value="table">Table</option>
+        <option value="image">Image…</option>
       </select>
+      <input
+        ref={imageInputRef}
+        type="file"
+        accept={IMAGE_FILE_TYPES.join(',')}
+        multiple
+        hidden
+        onChange={(e) => {
+          if (e.target.files) insertImageFiles(editor, e.target.files)
+          e.target.value = '' // Picking the same file again must fire change
+        }}
+      />
+      {blockType === 'callout' && callout && (
+        <>
+          <label className="sr-only" htmlFor="calloutVariant">Callout type</label>
+          <select
+            id="calloutVariant"
+            className="toolbar-select"
+            value={callout.variant}
+            onChange={(e) => setCalloutStyle(editor, callout.key, {variant: e.target.value as CalloutVariant})}
+            title="Callout type"
+          >
+            {CALLOUT_VARIANTS.map((variant) => (
+              <option key={variant} value={variant}>{variant[0].toUpperCase() + variant.slice(1)}</option>
+            ))}
+          </select>
+          <label className="sr-only" htmlFor="calloutEmoji">Callout icon</label>
+          <select
+            id="calloutEmoji"
+            className="toolbar-select"
+            value={callout.emoji ?? ''}
+            onChange={(e) => setCalloutStyle(editor, callout.key, {emoji: e.target.value || null})}
+            title="Callout icon"
+          >
+            <option value="">No icon</option>
+            {[...new Set([...CALLOUT_EMOJI_CHOICES, ...(callout.emoji ? [callout.emoji] : [])])].map((emoji) => (
+              <option key={emoji} value={emoji}>{emoji}</option>
+            ))}
+          </select>
+        </>
+      )}
+      {blockType === 'number' && (
+        <>
+          <label className="sr-only" htmlFor="listStart">List start</label>
+          <input
+            id="listStart"
+            type="number"
+            min={0}
+            className="toolbar-input"
+            value={listStartDraft}
+            onChange={(e) => setListStartDraft(e.target.value)}
+            onBlur={commitListStart}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                commitListStart()
+              } else if (e.key === 'Escape') {
+                setListStartDraft(String(listStart))
+              }
+            }}
+            title="Start numbering at"
+          />
+        </>
+      )}
     </div>
   )
 }
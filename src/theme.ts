@@ -2,7 +2,51 @@
 export const theme = {
   paragraph: 'editor-paragraph',
   quote: 'editor-quote',
+  callout: 'editor-callout',
+  details: 'editor-details',
+  detailsSummary: 'editor-details-summary',
+  detailsContent: 'editor-details-content',
   code: 'editor-code',
+  // Prism token types, grouped into a few colors
+  codeHighlight: {
+    atrule: 'editor-token-attr',
+    attr: 'editor-token-attr',
+    boolean: 'editor-token-property',
+    builtin: 'editor-token-selector',
+    cdata: 'editor-token-comment',
+    char: 'editor-token-selector',
+    class: 'editor-token-function',
+    'class-name': 'editor-token-function',
+    comment: 'editor-token-comment',
+    constant: 'editor-token-property',
+    deleted: 'editor-token-property',
+    doctype: 'editor-token-comment',
+    entity: 'editor-token-operator',
+    function: 'editor-token-function',
+    important: 'editor-token-variable',
+    inserted: 'editor-token-selector',
+    keyword: 'editor-token-attr',
+    namespace: 'editor-token-variable',
+    number: 'editor-token-property',
+    operator: 'editor-token-operator',
+    prolog: 'editor-token-comment',
+    property: 'editor-token-property',
+    punctuation: 'editor-token-punctuation',
+    regex: 'editor-token-variable',
+    selector: 'editor-token-selector',
+    string: 'editor-token-selector',
+    symbol: 'editor-token-property',
+    tag: 'editor-token-property',
+    url: 'editor-token-operator',
+    variable: 'editor-token-variable',
+  },
+  image: 'editor-image',
+  link: 'editor-link',
+  table: 'editor-table',
+  tableCell: 'editor-table-cell',
+  tableCellHeader: 'editor-table-cell-header',
+  tableCellSelected: 'editor-table-cell-selected',
+  tableSelection: 'editor-table-selection',
   text: {
     bold: 'editor-text-bold',
     italic: 'editor-text-italic',
@@ -14,12 +58,18 @@ export const theme = {
     },
     ol: 'editor-ol',
     ul: 'editor-ul',
+    checklist: 'editor-checklist',
     listitem: 'editor-listitem',
+    listitemChecked: 'editor-listitem-checked',
+    listitemUnchecked: 'editor-listitem-unchecked',
   },
   heading: {
     h1: 'editor-h1',
     h2: 'editor-h2',
     h3: 'editor-h3',
+    h4: 'editor-h4',
+    h5: 'editor-h5',
+    h6: 'editor-h6',
   },
 }
 
@@ -1,3 +1,4 @@
 // Core type definitions for the editor
-export type BlockType = 'paragraph' | 'h1' | 'h2' | 'h3';
-export type HeadingTagType = 'h1' | 'h2' | 'h3';
\ No newline at end of file
+export type HeadingTagType = 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+export type ListBlockType = 'bullet' | 'number' | 'check';
+export type BlockType = 'paragraph' | HeadingTagType | ListBlockType;
@@ -0,0 +1,179 @@
+/**
+ * Callout helpers: variants, icons and recognizing callouts in pasted HTML.
+ *
+ * A callout is one of four variants with an optional emoji icon. Other
+ * tools have their own names for the same thing (Confluence "note" panels
+ * are yellow, GitHub's "caution" is red); they are all mapped onto ours.
+ */
+
+export const CALLOUT_VARIANTS = ['info', 'warning', 'danger', 'success'] as const;
+
+export type CalloutVariant = typeof CALLOUT_VARIANTS[number];
+
+export const DEFAULT_CALLOUT_VARIANT: CalloutVariant = 'info';
+
+export interface CalloutStyle {
+  variant: CalloutVariant;
+  emoji: string | null;
+}
+
+/**
+ * Attributes carrying a callout's style in exported and sanitized HTML.
+ */
+export const CALLOUT_VARIANT_ATTRIBUTE = 'data-callout';
+export const CALLOUT_EMOJI_ATTRIBUTE = 'data-callout-emoji';
+
+/**
+ * GitHub alert types ("> [!NOTE]") and the variant each maps to.
+ */
+export const GITHUB_ALERT_VARIANTS: Record<string, CalloutVariant> = {
+  NOTE: 'info',
+  IMPORTANT: 'info',
+  TIP: 'success',
+  WARNING: 'warning',
+  CAUTION: 'danger',
+};
+
+/**
+ * Alert type each variant exports as.
+ */
+export const CALLOUT_GITHUB_ALERTS: Record<CalloutVariant, string> = {
+  info: 'NOTE',
+  warning: 'WARNING',
+  danger: 'CAUTION',
+  success: 'TIP',
+};
+
+// Names other tools use, lowercased
+const VARIANT_ALIASES: Record<string, CalloutVariant> = {
+  info: 'info',
+  information: 'info',
+  note: 'info',
+  important: 'info',
+  warning: 'warning',
+  warn: 'warning',
+  danger: 'danger',
+  error: 'danger',
+  caution: 'danger',
+  success: 'success',
+  tip: 'success',
+};
+
+// Confluence Server macros: "note" is the yellow one and "warning" the red one
+const CONFLUENCE_MACRO_VARIANTS: Record<string, CalloutVariant> = {
+  information: 'info',
+  note: 'warning',
+  warning: 'danger',
+  tip: 'success',
+};
+
+// Notion block colors
+const NOTION_COLOR_VARIANTS: Record<string, CalloutVariant> = {
+  red: 'danger',
+  pink: 'danger',
+  orange: 'warning',
+  yellow: 'warning',
+  brown: 'warning',
+  green: 'success',
+};
+
+const CONFLUENCE_MACRO_CLASS = /\bconfluence-information-macro-(information|note|warning|tip)\b/;
+const GITHUB_ALERT_CLASS = /\bmarkdown-alert-(note|tip|important|warning|caution)\b/;
+const NOTION_CALLOUT_CLASS = /\bcallout\b/;
+const NOTION_COLOR_CLASS = /\bblock-color-([a-z]+)_background\b/;
+
+/**
+ * One emoji: a pictograph with its variation selectors, skin tone and
+ * joined parts, or a flag.
+ */
+const EMOJI = /^(?:\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier}|\u200D\p{Extended_Pictographic})*|\p{Regional_Indicator}{2})$/u;
+
+const MAX_EMOJI_LENGTH = 16;
+
+/**
+ * Callout variant from our own name or another tool's.
+ *
+ * @returns the variant, or null if the value names none
+ */
+export function normalizeCalloutVariant(value: unknown): CalloutVariant | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  return VARIANT_ALIASES[value.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Callout icon from an attribute, JSON or pasted text.
+ *
+ * @returns the emoji, or null unless the value is exactly one emoji
+ */
+export function parseCalloutEmoji(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const emoji = value.trim();
+  return emoji.length <= MAX_EMOJI_LENGTH && EMOJI.test(emoji) ? emoji : null;
+}
+
+/**
+ * Elements copied along with a callout that are chrome rather than content:
+ * the icon, and GitHub's "Note" title line.
+ */
+export function getCalloutChrome(element: Element): Element[] {
+  const chrome = Array.from(element.querySelectorAll(
+    '.icon, .aui-icon, .confluence-information-macro-icon, .markdown-alert-title'
+  ));
+  const first = element.firstElementChild;
+  // A leading emoji of its own, as Notion puts it
+  if (first && !chrome.includes(first) && parseCalloutEmoji(first.textContent)) {
+    chrome.unshift(first);
+  }
+  return chrome;
+}
+
+function getCalloutVariant(element: Element): CalloutVariant | null {
+  const className = element.getAttribute('class') ?? '';
+
+  const own = normalizeCalloutVariant(element.getAttribute(CALLOUT_VARIANT_ATTRIBUTE));
+  if (own) {
+    return own;
+  }
+  const panel = element.getAttribute('data-panel-type');
+  if (panel !== null) {
+    return normalizeCalloutVariant(panel) ?? DEFAULT_CALLOUT_VARIANT;
+  }
+  const macro = CONFLUENCE_MACRO_CLASS.exec(className)?.[1];
+  if (macro) {
+    return CONFLUENCE_MACRO_VARIANTS[macro];
+  }
+  const alert = GITHUB_ALERT_CLASS.exec(className)?.[1];
+  if (alert) {
+    return GITHUB_ALERT_VARIANTS[alert.toUpperCase()];
+  }
+  if (element.nodeName === 'ASIDE' || element.getAttribute('role') === 'note' || NOTION_CALLOUT_CLASS.test(className)) {
+    const color = NOTION_COLOR_CLASS.exec(className)?.[1];
+    return (color && NOTION_COLOR_VARIANTS[color]) || DEFAULT_CALLOUT_VARIANT;
+  }
+  return null;
+}
+
+/**
+ * Read a pasted callout: our own <aside data-callout>, a Confluence panel or
+ * info macro, a GitHub alert, a Notion callout, or any <aside> or
+ * role="note" element. The emoji comes from the icon, if it has one.
+ *
+ * @returns the callout style, or null if the element is not a callout
+ */
+export function getCalloutFromElement(element: Element): CalloutStyle | null {
+  const variant = getCalloutVariant(element);
+  if (!variant) {
+    return null;
+  }
+
+  const emoji = parseCalloutEmoji(element.getAttribute(CALLOUT_EMOJI_ATTRIBUTE))
+    ?? parseCalloutEmoji(element.getAttribute('data-panel-icon-text'))
+    ?? getCalloutChrome(element).map(chrome => parseCalloutEmoji(chrome.textContent)).find(Boolean)
+    ?? null;
+
+  return { variant, emoji };
+}
@@ -0,0 +1,349 @@
+/**
+ * Code block editing: line indentation, auto-indent on Enter and line
+ * comments.
+ *
+ * Line operations work on the block's plain text and character offsets,
+ * then write the text back; highlighting re-tokenizes it in the same update.
+ * Every $ helper returns false when the selection is not inside a single
+ * code block, so the keys keep their normal meaning everywhere else.
+ */
+
+import { $isCodeNode, CodeNode } from '@lexical/code';
+import { $findMatchingParent } from '@lexical/utils';
+import {
+  $createLineBreakNode,
+  $createParagraphNode,
+  $createTextNode,
+  $getSelection,
+  $isRangeSelection,
+  $isTextNode,
+  PointType
+} from 'lexical';
+import { normalizeCodeLanguage } from './code-languages';
+
+/**
+ * Inserted by Tab and removed by Shift+Tab; a leading tab also counts as one level.
+ */
+export const CODE_INDENT = '  ';
+
+/**
+ * Line comment markers; `end` is set for languages that only have block comments.
+ */
+export interface CommentSyntax {
+  start: string;
+  end?: string;
+}
+
+const SLASH_COMMENT: CommentSyntax = { start: '//' };
+const HASH_COMMENT: CommentSyntax = { start: '#' };
+const MARKUP_COMMENT: CommentSyntax = { start: '<!--', end: '-->' };
+
+/**
+ * Comment syntax by canonical language (see normalizeCodeLanguage).
+ * Plain text has none, so Mod+/ does nothing there.
+ */
+export const COMMENT_SYNTAX: Readonly<Record<string, CommentSyntax>> = {
+  c: SLASH_COMMENT,
+  cpp: SLASH_COMMENT,
+  css: { start: '/*', end: '*/' },
+  html: MARKUP_COMMENT,
+  java: SLASH_COMMENT,
+  js: SLASH_COMMENT,
+  markdown: MARKUP_COMMENT,
+  objc: SLASH_COMMENT,
+  powershell: HASH_COMMENT,
+  py: HASH_COMMENT,
+  rust: SLASH_COMMENT,
+  sql: { start: '--' },
+  swift: SLASH_COMMENT,
+  typescript: SLASH_COMMENT,
+  xml: MARKUP_COMMENT,
+};
+
+/**
+ * Code text with a selection, as character offsets (start <= end).
+ */
+export interface CodeText {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface TextEdit {
+  at: number;
+  remove: number;
+  insert: string;
+}
+
+/**
+ * Apply non-overlapping edits, sorted by position, and move the offsets
+ * along. An offset inside removed text lands where the removal started;
+ * an offset right at an insertion stays before it.
+ */
+function applyEdits({ text, start, end }: CodeText, edits: TextEdit[]): CodeText {
+  const mapOffset = (offset: number) => edits.reduce((mapped, edit) => {
+    if (offset <= edit.at) {
+      return mapped;
+    }
+    if (offset < edit.at + edit.remove) {
+      return mapped - (offset - edit.at);
+    }
+    return mapped + edit.insert.length - edit.remove;
+  }, offset);
+
+  let result = '';
+  let last = 0;
+  edits.forEach(edit => {
+    result += text.slice(last, edit.at) + edit.insert;
+    last = edit.at + edit.remove;
+  });
+  result += text.slice(last);
+
+  return { text: result, start: mapOffset(start), end: mapOffset(end) };
+}
+
+/**
+ * Start offsets of the lines touched by the selection. A selection ending
+ * at the very start of a line does not include that line.
+ */
+function getSelectedLineStarts({ text, start, end }: CodeText): number[] {
+  const last = end > start && text[end - 1] === '\n' ? end - 1 : end;
+  const starts = [text.lastIndexOf('\n', start - 1) + 1];
+  for (let index = text.indexOf('\n', starts[0]); index !== -1 && index < last; index = text.indexOf('\n', index + 1)) {
+    starts.push(index + 1);
+  }
+  return starts;
+}
+
+function getLineEnd(text: string, lineStart: number): number {
+  const end = text.indexOf('\n', lineStart);
+  return end === -1 ? text.length : end;
+}
+
+/**
+ * Leading whitespace of the line holding an offset, up to that offset.
+ */
+export function getLineIndent(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart, offset))![0];
+}
+
+/**
+ * Indent every selected line by one level. Blank lines are left alone.
+ */
+export function indentCodeLines(code: CodeText): CodeText {
+  const edits = getSelectedLineStarts(code)
+    .filter(lineStart => getLineEnd(code.text, lineStart) > lineStart)
+    .map(lineStart => ({ at: lineStart, remove: 0, insert: CODE_INDENT }));
+  return applyEdits(code, edits);
+}
+
+/**
+ * Remove one level of indentation from every selected line: a tab, or up
+ * to CODE_INDENT.length spaces.
+ */
+export function outdentCodeLines(code: CodeText): CodeText {
+  const edits = getSelectedLineStarts(code).map(lineStart => {
+    const line = code.text.slice(lineStart);
+    const remove = line.startsWith('\t') ? 1 : /^ */.exec(line.slice(0, CODE_INDENT.length))![0].length;
+    return { at: lineStart, remove, insert: '' };
+  });
+  return applyEdits(code, edits.filter(edit => edit.remove > 0));
+}
+
+/**
+ * Comment out the selected lines, or uncomment them if every non-blank line
+ * is commented already. Markers go after the shallowest indentation, so the
+ * block keeps its shape.
+ */
+export function toggleCodeLineComments(code: CodeText, syntax: CommentSyntax): CodeText {
+  const lines = getSelectedLineStarts(code).map(lineStart => {
+    const lineEnd = getLineEnd(code.text, lineStart);
+    const line = code.text.slice(lineStart, lineEnd);
+    return { lineStart, lineEnd, line, indent: /^[ \t]*/.exec(line)![0].length };
+  });
+  const nonBlank = lines.filter(({ line }) => line.trim() !== '');
+  const targets = nonBlank.length > 0 ? nonBlank : lines;
+
+  const isCommented = ({ line, indent }: typeof lines[number]) =>
+    line.startsWith(syntax.start, indent) && (!syntax.end || line.trimEnd().endsWith(syntax.end));
+
+  if (nonBlank.length > 0 && nonBlank.every(isCommented)) {
+    const edits = targets.flatMap(({ lineStart, line, indent }) => {
+      const afterStart = indent + syntax.start.length;
+      const startEdit = { at: lineStart + indent, remove: syntax.start.length + (line[afterStart] === ' ' ? 1 : 0), insert: '' };
+      if (!syntax.end) {
+        return [startEdit];
+      }
+      const endIndex = line.trimEnd().length - syntax.end.length;
+      const spaceBefore = line[endIndex - 1] === ' ' && endIndex - 1 >= afterStart ? 1 : 0;
+      return [startEdit, { at: lineStart + endIndex - spaceBefore, remove: syntax.end.length + spaceBefore, insert: '' }];
+    });
+    return applyEdits(code, edits);
+  }
+
+  const column = Math.min(...targets.map(({ indent }) => indent));
+  const edits = targets.flatMap(({ lineStart, lineEnd }) => {
+    const startEdit = { at: lineStart + column, remove: 0, insert: `${syntax.start} ` };
+    return syntax.end ? [startEdit, { at: lineEnd, remove: 0, insert: ` ${syntax.end}` }] : [startEdit];
+  });
+  return applyEdits(code, edits);
+}
+
+/**
+ * Text offset of a selection point inside a code block.
+ */
+function $getCodeOffset(code: CodeNode, point: PointType): number {
+  const children = code.getChildren();
+  if (point.key === code.getKey()) {
+    return children.slice(0, point.offset).reduce((sum, child) => sum + child.getTextContentSize(), 0);
+  }
+
+  let offset = 0;
+  for (const child of children) {
+    if (child.getKey() === point.key) {
+      return offset + (point.type === 'text' ? point.offset : 0);
+    }
+    offset += child.getTextContentSize();
+  }
+  return offset;
+}
+
+/**
+ * Place a selection point at a text offset inside a code block.
+ */
+function $setCodeOffset(code: CodeNode, point: PointType, offset: number): void {
+  const children = code.getChildren();
+  let remaining = offset;
+
+  for (let index = 0; index < children.length; index++) {
+    const child = children[index];
+    const size = child.getTextContentSize();
+    if ($isTextNode(child) && remaining <= size) {
+      point.set(child.getKey(), remaining, 'text');
+      return;
+    }
+    if (!$isTextNode(child) && remaining === 0) {
+      point.set(code.getKey(), index, 'element');
+      return;
+    }
+    remaining -= size;
+  }
+  point.set(code.getKey(), children.length, 'element');
+}
+
+/**
+ * The code block holding the whole selection, with the selection as offsets.
+ */
+function $getCodeSelection(): (CodeText & { code: CodeNode; isBackward: boolean }) | null {
+  const selection = $getSelection();
+  if (!$isRangeSelection(selection)) {
+    return null;
+  }
+
+  const code = $findMatchingParent(selection.anchor.getNode(), $isCodeNode);
+  const focusCode = $findMatchingParent(selection.focus.getNode(), $isCodeNode);
+  if (!$isCodeNode(code) || !code.is(focusCode)) {
+    return null;
+  }
+
+  const anchor = $getCodeOffset(code, selection.anchor);
+  const focus = $getCodeOffset(code, selection.focus);
+  return {
+    code,
+    text: code.getTextContent(),
+    start: Math.min(anchor, focus),
+    end: Math.max(anchor, focus),
+    isBackward: focus < anchor,
+  };
+}
+
+/**
+ * Replace a code block's text and select the given range in it.
+ */
+function $setCodeText(code: CodeNode, { text, start, end }: CodeText, isBackward: boolean): void {
+  code.clear();
+  text.split('\n').forEach((line, index) => {
+    if (index > 0) {
+      code.append($createLineBreakNode());
+    }
+    if (line) {
+      code.append($createTextNode(line));
+    }
+  });
+
+  const selection = code.select();
+  $setCodeOffset(code, selection.anchor, isBackward ? end : start);
+  $setCodeOffset(code, selection.focus, isBackward ? start : end);
+}
+
+/**
+ * Tab: insert one indent at a caret, or indent every selected line.
+ * Shift+Tab: outdent the lines at the caret or selection.
+ */
+export function $indentCode(outdent: boolean): boolean {
+  const current = $getCodeSelection();
+  if (!current) {
+    return false;
+  }
+
+  if (!outdent && current.start === current.end) {
+    const selection = $getSelection();
+    if ($isRangeSelection(selection)) {
+      selection.insertText(CODE_INDENT);
+    }
+    return true;
+  }
+
+  const edited = outdent ? outdentCodeLines(current) : indentCodeLines(current);
+  if (edited.text !== current.text) {
+    $setCodeText(current.code, edited, current.isBackward);
+  }
+  return true;
+}
+
+/**
+ * Enter: start a new line with the current line's indentation. Enter on the
+ * second blank line at the end of the block leaves it, as in CodeNode.
+ */
+export function $insertCodeLineBreak(): boolean {
+  const current = $getCodeSelection();
+  const selection = $getSelection();
+  if (!current || !$isRangeSelection(selection)) {
+    return false;
+  }
+
+  const { code, text, start, end } = current;
+  const lines = text.slice(0, start).split('\n');
+  if (start === end && end === text.length && lines.length > 2 && lines.slice(-2).every(line => line.trim() === '')) {
+    const kept = text.slice(0, text.length - lines[lines.length - 1].length - lines[lines.length - 2].length - 2);
+    $setCodeText(code, { text: kept, start: kept.length, end: kept.length }, false);
+    const paragraph = $createParagraphNode();
+    code.insertAfter(paragraph);
+    paragraph.select();
+    return true;
+  }
+
+  const indent = getLineIndent(text, start);
+  selection.insertLineBreak();
+  if (indent) {
+    selection.insertText(indent);
+  }
+  return true;
+}
+
+/**
+ * Mod+/: toggle line comments on the selected lines, using the block's language.
+ *
+ * @returns false outside code and for languages without comments
+ */
+export function $toggleCodeComments(): boolean {
+  const current = $getCodeSelection();
+  const syntax = current ? COMMENT_SYNTAX[normalizeCodeLanguage(current.code.getLanguage()) ?? ''] : undefined;
+  if (!current || !syntax) {
+    return false;
+  }
+
+  $setCodeText(current.code, toggleCodeLineComments(current, syntax), current.isBackward);
+  return true;
+}
@@ -0,0 +1,120 @@
+/**
+ * Code block languages: the picker options, alias normalization and reading
+ * the language of pasted `<pre>` blocks.
+ *
+ * Languages are Prism grammars loaded by @lexical/code. Aliases share one
+ * grammar object ("javascript" and "js"), which is how they are folded onto
+ * a single picker option.
+ */
+
+import {
+  CODE_LANGUAGE_FRIENDLY_NAME_MAP,
+  CodeNode,
+  normalizeCodeLang,
+  PrismTokenizer
+} from '@lexical/code';
+
+/**
+ * Language of blocks with no language set. Highlighting assigns it to new
+ * blocks, and Markdown export leaves it off the fence.
+ */
+export const PLAIN_CODE_LANGUAGE = 'plain';
+
+/**
+ * Attribute CodeNode reads its language from on HTML import.
+ */
+export const CODE_LANGUAGE_ATTRIBUTE = 'data-highlight-language';
+
+const LANGUAGE_CLASS = /(?:^|\s)lang(?:uage)?-([\w+#-]+)/i;
+
+/**
+ * Prism tokenizer for the editor: unlabelled blocks stay plain text instead
+ * of being highlighted (and saved) as JavaScript.
+ */
+export const CODE_TOKENIZER: typeof PrismTokenizer = {
+  ...PrismTokenizer,
+  defaultLanguage: PLAIN_CODE_LANGUAGE,
+};
+
+function getGrammar(language: string): unknown {
+  const languages = window.Prism.languages;
+  return Object.prototype.hasOwnProperty.call(languages, language) && typeof languages[language] !== 'function'
+    ? languages[language]
+    : undefined;
+}
+
+export interface CodeLanguageOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Languages offered by the code block picker, plain text first.
+ */
+export const CODE_LANGUAGE_OPTIONS: readonly CodeLanguageOption[] = Object.entries(CODE_LANGUAGE_FRIENDLY_NAME_MAP)
+  .filter(([value]) => value !== 'clike' && getGrammar(value) !== undefined)
+  .map(([value, label]) => ({ value, label }))
+  .sort((a, b) => (a.value === PLAIN_CODE_LANGUAGE ? -1 : b.value === PLAIN_CODE_LANGUAGE ? 1 : a.label.localeCompare(b.label)));
+
+/**
+ * Canonical name of a language: the picker option sharing its grammar, else
+ * the name itself if Prism knows it.
+ *
+ * @returns null for empty or unsupported languages
+ */
+export function normalizeCodeLanguage(language: string | null | undefined): string | null {
+  if (!language) {
+    return null;
+  }
+
+  const name = normalizeCodeLang(language.trim().toLowerCase());
+  const grammar = getGrammar(name);
+  if (grammar === undefined) {
+    return null;
+  }
+
+  return CODE_LANGUAGE_OPTIONS.find(option => getGrammar(option.value) === grammar)?.value ?? name;
+}
+
+/**
+ * Language a code block is highlighted as; blocks without one are plain text.
+ */
+export function getCodeBlockLanguage(node: CodeNode): string {
+  return normalizeCodeLanguage(node.getLanguage()) ?? PLAIN_CODE_LANGUAGE;
+}
+
+/**
+ * Read the language of a pasted code block from `class="language-x"` (or
+ * `lang-x`) on the `<pre>` or its `<code>`, or from our own exported attribute.
+ *
+ * @returns the canonical language, or null if none is recognized
+ */
+export function getCodeLanguageFromElement(pre: Element): string | null {
+  const candidates = [pre, pre.querySelector('code')];
+
+  for (const element of candidates) {
+    if (!element) {
+      continue;
+    }
+    const fromClass = normalizeCodeLanguage(LANGUAGE_CLASS.exec(element.getAttribute('class') ?? '')?.[1]);
+    const language = fromClass ?? normalizeCodeLanguage(element.getAttribute(CODE_LANGUAGE_ATTRIBUTE));
+    if (language) {
+      return language;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Hand `<pre class="language-x">` languages to CodeNode, which only reads
+ * its own attribute on import. Runs on sanitized paste HTML.
+ */
+export function applyCodeLanguageAttributes(container: HTMLElement): void {
+  container.querySelectorAll('pre').forEach(pre => {
+    const language = getCodeLanguageFromElement(pre);
+    if (language) {
+      pre.setAttribute(CODE_LANGUAGE_ATTRIBUTE, language);
+    }
+  });
+}
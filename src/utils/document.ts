@@ -0,0 +1,31 @@
+/**
+ * Saved document format: the editor state JSON, plus document settings that
+ * live beside the node tree rather than in it. Editors read a saved document
+ * with parseEditorState as usual; loadDocument also restores its settings.
+ */
+
+import { LexicalEditor, SerializedEditorState } from 'lexical';
+import { isSectionNumberingEnabled, restoreSectionNumbering } from './section-numbering';
+
+export type SerializedDocument = SerializedEditorState & {
+  /** h1-h3 are numbered "1.", "1.2", "1.2.3"; absent when off */
+  sectionNumbering?: boolean;
+};
+
+/**
+ * Serialize an editor's document with its settings.
+ */
+export function serializeDocument(editor: LexicalEditor): SerializedDocument {
+  const json: SerializedDocument = editor.getEditorState().toJSON();
+  return isSectionNumberingEnabled(editor) ? { ...json, sectionNumbering: true } : json;
+}
+
+/**
+ * Replace an editor's document with a saved one, settings included.
+ * Read-only editors load documents too, so there is no editable guard.
+ */
+export function loadDocument(editor: LexicalEditor, document: SerializedDocument | string): void {
+  const json: SerializedDocument = typeof document === 'string' ? JSON.parse(document) : document;
+  restoreSectionNumbering(editor, json.sectionNumbering === true);
+  editor.setEditorState(editor.parseEditorState(json));
+}
@@ -0,0 +1,58 @@
+/**
+ * Fuzzy matching for typeahead menus.
+ */
+
+const PREFIX_BONUS = 8;
+const WORD_START_BONUS = 3;
+const CONSECUTIVE_BONUS = 2;
+
+/**
+ * Score text against a query whose characters must all appear in it, in
+ * order and ignoring case ("hd2" matches "Heading 2"). Matches at the start
+ * of the text, at word starts and in runs score higher.
+ *
+ * @returns the score (higher is better, 0 for an empty query), or null if the text does not match
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.trim().toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle) {
+    return 0;
+  }
+
+  let score = haystack.startsWith(needle) ? PREFIX_BONUS : 0;
+  let previous = -1;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, previous + 1);
+    if (index === -1) {
+      return null;
+    }
+
+    score += 1;
+    if (index === 0 || !/[a-z0-9]/.test(haystack[index - 1])) {
+      score += WORD_START_BONUS;
+    }
+    if (index === previous + 1) {
+      score += CONSECUTIVE_BONUS;
+    }
+    previous = index;
+  }
+  return score;
+}
+
+/**
+ * Keep the items matching a query, best match first. An item scores as its
+ * best matching term; ties keep their original order.
+ */
+export function fuzzyFilter<T>(items: readonly T[], query: string, getTerms: (item: T) => string[]): T[] {
+  const scored: { item: T; score: number }[] = [];
+  items.forEach(item => {
+    const scores = getTerms(item)
+      .map(term => fuzzyScore(query, term))
+      .filter((score): score is number => score !== null);
+    if (scores.length > 0) {
+      scored.push({ item, score: Math.max(...scores) });
+    }
+  });
+  return scored.sort((a, b) => b.score - a.score).map(({ item }) => item);
+}
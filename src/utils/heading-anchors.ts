@@ -0,0 +1,116 @@
+/**
+ * Section anchors: persisted, collision-free heading slugs.
+ *
+ * A slug is derived from the heading text once and then kept, so links to a
+ * section survive later edits to its title. Only a missing or duplicated slug
+ * is (re)assigned; resetting one derives it from the current text again.
+ */
+
+import { $dfs } from '@lexical/utils';
+import {
+  $getNodeByKey,
+  $getSelection,
+  $isRangeSelection,
+  NodeKey
+} from 'lexical';
+import { $isCustomHeadingNode, CustomHeadingNode } from '../nodes/CustomHeadingNode';
+import { slugify, uniqueSlug } from './slug';
+
+/**
+ * All headings that can carry a slug, in document order.
+ */
+function $getSlugHeadings(): CustomHeadingNode[] {
+  return $dfs()
+    .map(({ node }) => node)
+    .filter($isCustomHeadingNode);
+}
+
+function $holdsCaret(heading: CustomHeadingNode): boolean {
+  const selection = $getSelection();
+  return $isRangeSelection(selection) && selection.anchor.getNode().getTopLevelElement()?.is(heading) === true;
+}
+
+/**
+ * Slug of every heading by key, to compare against the next state.
+ */
+export function $getHeadingSlugs(): Map<NodeKey, string> {
+  return new Map($getSlugHeadings().map(heading => [heading.getKey(), heading.getSlug()]));
+}
+
+/**
+ * Work out which headings need a new slug. Must be called inside an editor read.
+ *
+ * On a duplicate, the heading that already had the slug in the previous state
+ * keeps it (a pasted copy is renamed, not the original); otherwise the first
+ * one in document order does. A heading without a slug waits while it holds
+ * the caret, so the slug comes from the finished title, not its first letter.
+ *
+ * @param previousSlugs slugs by key before the update, from $getHeadingSlugs
+ * @returns the new slug for each heading that needs one
+ */
+export function $findHeadingSlugChanges(
+  previousSlugs: ReadonlyMap<NodeKey, string> = new Map()
+): Map<NodeKey, string> {
+  const headings = $getSlugHeadings();
+  const taken = new Set<string>();
+  const owners = new Set<NodeKey>();
+  const changes = new Map<NodeKey, string>();
+
+  headings.forEach(heading => {
+    const slug = heading.getSlug();
+    if (slug && previousSlugs.get(heading.getKey()) === slug && !taken.has(slug)) {
+      taken.add(slug);
+      owners.add(heading.getKey());
+    }
+  });
+
+  headings.forEach(heading => {
+    const slug = heading.getSlug();
+    if (owners.has(heading.getKey())) {
+      return;
+    }
+    if (slug && !taken.has(slug)) {
+      taken.add(slug);
+      return;
+    }
+    if (!slug && (heading.getTextContent().trim() === '' || $holdsCaret(heading))) {
+      return;
+    }
+
+    const next = uniqueSlug(slug || slugify(heading.getTextContent()), taken);
+    taken.add(next);
+    changes.set(heading.getKey(), next);
+  });
+
+  return changes;
+}
+
+/**
+ * Apply slug changes from $findHeadingSlugChanges.
+ * Must be called inside an editor update.
+ */
+export function $applyHeadingSlugChanges(changes: ReadonlyMap<NodeKey, string>): void {
+  changes.forEach((slug, key) => {
+    const heading = $getNodeByKey(key);
+    if ($isCustomHeadingNode(heading)) {
+      heading.setSlug(slug);
+    }
+  });
+}
+
+/**
+ * Derive a heading's slug from its current text again, still unique.
+ * Links to the old slug stop working.
+ *
+ * @returns the new slug
+ */
+export function $resetHeadingSlug(heading: CustomHeadingNode): string {
+  const taken = new Set(
+    $getSlugHeadings()
+      .filter(other => !other.is(heading))
+      .map(other => other.getSlug())
+  );
+  const slug = uniqueSlug(slugify(heading.getTextContent()), taken);
+  heading.setSlug(slug);
+  return slug;
+}
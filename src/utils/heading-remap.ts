@@ -0,0 +1,166 @@
+/**
+ * Relative heading-level remapping for paste.
+ *
+ * Instead of clamping every pasted heading on its own, the pasted fragment is
+ * shifted as a whole so its shallowest heading sits one level below the
+ * heading context at the caret. Only levels that still overflow the policy
+ * are clamped afterwards, by the usual heading policy enforcement.
+ */
+
+import { SerializedLexicalNode } from 'lexical';
+import { ALL_HEADING_TAGS, getHeadingLevel, HeadingPolicy } from '../constants/heading-policy';
+import { HeadingTagType } from '../types/editor-types';
+import { $getCaretHeading } from './outline';
+
+/**
+ * How SmartPaste treats heading levels in pasted content.
+ * - clamp: keep pasted levels, clamping disallowed ones individually
+ * - relative: shift the fragment under the heading at the caret first
+ */
+export type HeadingPasteMode = 'clamp' | 'relative';
+
+const HEADING_SELECTOR = ALL_HEADING_TAGS.join(',');
+const MARKDOWN_HEADING = /^(#{1,6})(\s)/;
+const MARKDOWN_FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Level of the heading whose section holds the caret.
+ * Must be called inside an editor read or update.
+ *
+ * @returns the heading level, or 0 when the caret is not under any heading
+ */
+export function $getHeadingContextLevel(): number {
+  const heading = $getCaretHeading();
+  return heading ? getHeadingLevel(heading.getTag()) : 0;
+}
+
+/**
+ * Number of levels to shift pasted headings by.
+ * The shallowest pasted level moves one below the context level, or to the
+ * policy's shallowest allowed level when the caret is not under a heading.
+ */
+export function computeHeadingShift(
+  levels: readonly number[],
+  contextLevel: number,
+  policy: HeadingPolicy
+): number {
+  if (levels.length === 0) {
+    return 0;
+  }
+
+  const shallowest = Math.min(...levels);
+  const target = contextLevel > 0 ? contextLevel + 1 : getHeadingLevel(policy.allowedTags[0]);
+  return Math.min(target, ALL_HEADING_TAGS.length) - shallowest;
+}
+
+/**
+ * Shift a heading level, staying within h1-h6.
+ */
+export function shiftHeadingTag(level: number, shift: number): HeadingTagType {
+  const shifted = Math.min(Math.max(level + shift, 1), ALL_HEADING_TAGS.length);
+  return ALL_HEADING_TAGS[shifted - 1];
+}
+
+/**
+ * Remap the heading elements of a parsed HTML fragment in place.
+ * Runs before DOM import so node conversion only clamps what still overflows.
+ *
+ * @returns the applied shift
+ */
+export function remapHeadingElements(root: ParentNode, contextLevel: number, policy: HeadingPolicy): number {
+  const headings = [...root.querySelectorAll<HTMLElement>(HEADING_SELECTOR)];
+  const shift = computeHeadingShift(
+    headings.map(heading => getHeadingLevel(heading.tagName.toLowerCase())),
+    contextLevel,
+    policy
+  );
+
+  if (shift === 0) {
+    return 0;
+  }
+
+  headings.forEach(heading => {
+    const tag = shiftHeadingTag(getHeadingLevel(heading.tagName.toLowerCase()), shift);
+    const replacement = heading.ownerDocument.createElement(tag);
+
+    Array.from(heading.attributes).forEach(attr => {
+      replacement.setAttribute(attr.name, attr.value);
+    });
+    while (heading.firstChild) {
+      replacement.appendChild(heading.firstChild);
+    }
+    heading.replaceWith(replacement);
+  });
+
+  return shift;
+}
+
+/**
+ * Remap heading tags in serialized Lexical nodes (clipboard fast path).
+ * Returns new objects; the clipboard payload is left untouched.
+ */
+export function remapSerializedHeadings(
+  nodes: SerializedLexicalNode[],
+  contextLevel: number,
+  policy: HeadingPolicy
+): SerializedLexicalNode[] {
+  const levels: number[] = [];
+  const collect = (node: SerializedLexicalNode) => {
+    if (node.type === 'heading') {
+      levels.push(getHeadingLevel((node as SerializedLexicalNode & { tag: string }).tag));
+    }
+    ((node as { children?: SerializedLexicalNode[] }).children ?? []).forEach(collect);
+  };
+  nodes.forEach(collect);
+
+  const shift = computeHeadingShift(levels.filter(level => level > 0), contextLevel, policy);
+  if (shift === 0) {
+    return nodes;
+  }
+
+  const remap = (node: SerializedLexicalNode): SerializedLexicalNode => {
+    const { children } = node as { children?: SerializedLexicalNode[] };
+    const copy: SerializedLexicalNode & { tag?: string; children?: SerializedLexicalNode[] } = { ...node };
+
+    if (node.type === 'heading' && copy.tag) {
+      copy.tag = shiftHeadingTag(getHeadingLevel(copy.tag), shift);
+    }
+    if (children) {
+      copy.children = children.map(remap);
+    }
+    return copy;
+  };
+
+  return nodes.map(remap);
+}
+
+/**
+ * Remap ATX headings (`## Title`) in Markdown text, skipping fenced code.
+ */
+export function remapMarkdownHeadings(markdown: string, contextLevel: number, policy: HeadingPolicy): string {
+  const lines = markdown.split('\n');
+  const headingLines: number[] = [];
+  let inFence = false;
+
+  lines.forEach((line, index) => {
+    if (MARKDOWN_FENCE.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence && MARKDOWN_HEADING.test(line)) {
+      headingLines.push(index);
+    }
+  });
+
+  const levelOf = (line: string) => MARKDOWN_HEADING.exec(line)?.[1].length ?? 0;
+  const shift = computeHeadingShift(headingLines.map(index => levelOf(lines[index])), contextLevel, policy);
+
+  if (shift === 0) {
+    return markdown;
+  }
+
+  headingLines.forEach(index => {
+    const level = getHeadingLevel(shiftHeadingTag(levelOf(lines[index]), shift));
+    lines[index] = lines[index].replace(MARKDOWN_HEADING, (_, _hashes, space) => '#'.repeat(level) + space);
+  });
+
+  return lines.join('\n');
+}
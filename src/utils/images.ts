@@ -0,0 +1,91 @@
+/**
+ * Image helpers: upload adapters, accepted files and width limits.
+ *
+ * Image bytes never go into the document. Pasted, dropped and picked files
+ * are handed to the editor's ImageUploadAdapter, and the ImageNode keeps
+ * only the URL it returns. The default adapter keeps files in the page's
+ * in-memory blob store, so its URLs last until reload; plug in persistent
+ * storage (such as an asset service) with setImageUploadAdapter.
+ */
+
+import { LexicalEditor } from 'lexical';
+
+export interface UploadedImage {
+  /** URL the ImageNode renders; must pass isAllowedImageSrc */
+  src: string;
+}
+
+/**
+ * Storage for image files. upload() rejects when the file cannot be stored;
+ * that image is then skipped.
+ */
+export interface ImageUploadAdapter {
+  upload(file: File): Promise<UploadedImage>;
+}
+
+/**
+ * Raster formats only: an SVG opened from its own URL can run script.
+ */
+export const IMAGE_FILE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'] as const;
+
+export const MAX_IMAGE_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+/**
+ * Bounds for a set image width, in CSS pixels. Images without a width
+ * render at their natural size, capped to the editor width.
+ */
+export const MIN_IMAGE_WIDTH = 48;
+export const MAX_IMAGE_WIDTH = 4096;
+
+/**
+ * Adapter backed by blob: object URLs, which the browser keeps in memory
+ * for the lifetime of the page.
+ */
+export function createMemoryImageUploadAdapter(): ImageUploadAdapter {
+  return {
+    upload: async (file) => ({ src: URL.createObjectURL(file) }),
+  };
+}
+
+const defaultUploadAdapter = createMemoryImageUploadAdapter();
+
+// Upload adapter per editor; editors without an entry use the in-memory store
+const uploadAdapters = new WeakMap<LexicalEditor, ImageUploadAdapter>();
+
+export function setImageUploadAdapter(editor: LexicalEditor, adapter: ImageUploadAdapter): void {
+  uploadAdapters.set(editor, adapter);
+}
+
+export function getImageUploadAdapter(editor: LexicalEditor): ImageUploadAdapter {
+  return uploadAdapters.get(editor) ?? defaultUploadAdapter;
+}
+
+export function isImageFile(file: File): boolean {
+  return (IMAGE_FILE_TYPES as readonly string[]).includes(file.type) && file.size <= MAX_IMAGE_FILE_SIZE;
+}
+
+/**
+ * Accepted image files from a FileList or array, in order.
+ */
+export function getImageFiles(files: ArrayLike<File> | null | undefined): File[] {
+  return files ? Array.from(files).filter(isImageFile) : [];
+}
+
+/**
+ * Image width from an attribute, JSON or Markdown value.
+ *
+ * @returns null unless it is a whole number within the width bounds
+ */
+export function parseImageWidth(value: unknown): number | null {
+  const width = typeof value === 'string' && /^\s*\d+\s*$/.test(value) ? Number(value) : value;
+  return typeof width === 'number' && Number.isInteger(width) && width >= MIN_IMAGE_WIDTH && width <= MAX_IMAGE_WIDTH
+    ? width
+    : null;
+}
+
+/**
+ * Keep a width from resizing within the bounds.
+ */
+export function clampImageWidth(width: number): number {
+  return Math.round(Math.min(MAX_IMAGE_WIDTH, Math.max(MIN_IMAGE_WIDTH, width)));
+}
@@ -0,0 +1,36 @@
+/**
+ * Flattening pasted content for blocks that only hold inline content,
+ * such as callouts and toggle summaries.
+ */
+
+import { $createLineBreakNode, $isDecoratorNode, $isElementNode, LexicalNode } from 'lexical';
+
+/**
+ * Unwrap nested blocks (paragraphs, headings, list items) into lines of
+ * inline content separated by line breaks. Block decorators (dividers,
+ * tables of contents) cannot sit inside inline content and are dropped.
+ */
+export function $flattenToInline(children: LexicalNode[]): LexicalNode[] {
+  const lines: LexicalNode[][] = [];
+  let inline: LexicalNode[] = [];
+
+  const endLine = () => {
+    if (inline.length > 0) {
+      lines.push(inline);
+      inline = [];
+    }
+  };
+  const visit = (node: LexicalNode) => {
+    if ($isElementNode(node) && !node.isInline()) {
+      endLine();
+      node.getChildren().forEach(visit);
+      endLine();
+    } else if (!$isDecoratorNode(node) || node.isInline()) {
+      inline.push(node);
+    }
+  };
+  children.forEach(visit);
+  endLine();
+
+  return lines.flatMap((line, index) => (index === 0 ? line : [$createLineBreakNode(), ...line]));
+}
@@ -21,6 +21,12 @@ export const BULLET_PREFIXES = {
   combined: /^([-*•◦▪–—]|\d+[.)]|[a-zA-Z][.)])\s+/
 } as const;
 
+/**
+ * Task list marker ("[ ]", "[x]") left in list item text by pasted Markdown
+ * or plain text. Converted into check list state rather than kept as text.
+ */
+export const CHECKBOX_PREFIX = /^\[([ xX])\]\s+/;
+
 /**
  * Normalizes NBSP (U+00A0) characters to regular spaces.
  * This is important because pasted content often contains NBSP
@@ -43,6 +49,25 @@ export function stripListPrefix(text: string): string {
   return normalized.replace(BULLET_PREFIXES.combined, '');
 }
 
+/**
+ * Parses a leading task list marker.
+ * Returns the checked state and the text without the marker,
+ * or null if the text has no marker.
+ */
+export function parseCheckboxPrefix(text: string): { checked: boolean; text: string } | null {
+  const normalized = normalizeNBSP(text);
+  const match = normalized.match(CHECKBOX_PREFIX);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    checked: match[1] !== ' ',
+    text: normalized.slice(match[0].length)
+  };
+}
+
 /**
  * Detects if text starts with a list prefix pattern.
  * Useful for Stage 1 processing to identify non-semantic list items.
@@ -107,4 +132,23 @@ export function detectListDepth(text: string): number {
   
   // Prefer indentation when both are present, otherwise use glyph tier
   return indentationDepth > 0 ? indentationDepth : glyphDepth;
-}
\ No newline at end of file
+}
+
+/**
+ * Normalizes text for a plain text paste.
+ * NBSP is always converted; list prefixes are stripped line by line only
+ * when the text lands inside an existing list item, where they would
+ * otherwise render as double bullets.
+ */
+export function normalizePlainTextPaste(
+  text: string,
+  options: { insideListItem?: boolean } = {}
+): string {
+  const lines = normalizeNBSP(text).replace(/\r\n?/g, '\n').split('\n');
+
+  if (!options.insideListItem) {
+    return lines.join('\n');
+  }
+
+  return lines.map(line => stripListPrefix(line)).join('\n');
+}
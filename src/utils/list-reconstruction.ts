@@ -0,0 +1,106 @@
+/**
+ * Rebuild real list structures from plaintext list lines.
+ * Used by SmartPastePlugin for text/plain clipboard data such as
+ * "• item" / "    ◦ nested" / "1) step" that isn't Markdown.
+ */
+
+import { $createTextNode } from 'lexical';
+import {
+  $createListItemNode,
+  $createListNode,
+  ListItemNode,
+  ListNode,
+  ListType
+} from '@lexical/list';
+import {
+  BULLET_PREFIXES,
+  detectListDepth,
+  isLikelyListItem,
+  normalizeNBSP,
+  stripListPrefix
+} from './list-normalization';
+
+type PlainTextListItem = {
+  depth: number;
+  listType: ListType;
+  start: number;
+  text: string;
+};
+
+/**
+ * Check if every non-empty line of text is a list item.
+ * Requires at least two lines so a single "- note" stays a paragraph,
+ * and any prose line (stray hyphens included) rejects the whole paste.
+ */
+export function isPlainTextList(text: string): boolean {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  return lines.length >= 2 && lines.every(isLikelyListItem);
+}
+
+/**
+ * Parse one list line into depth, list type, start number and content.
+ */
+function parseListLine(line: string): PlainTextListItem {
+  const trimmed = normalizeNBSP(line).trim();
+  const orderedMatch = trimmed.match(BULLET_PREFIXES.ordered);
+
+  let start = 1;
+  if (orderedMatch) {
+    const marker = orderedMatch[1].slice(0, -1);
+    start = /^\d+$/.test(marker)
+      ? parseInt(marker, 10)
+      : marker.toLowerCase().charCodeAt(0) - 96; // a -> 1, b -> 2
+  }
+
+  return {
+    depth: detectListDepth(line),
+    listType: orderedMatch ? 'number' : 'bullet',
+    start,
+    text: stripListPrefix(trimmed)
+  };
+}
+
+/**
+ * Build nested ListNode/ListItemNode structures from plaintext list lines.
+ * A change of list type at the same depth starts a new list; depth jumps
+ * of more than one level are clamped so every nested list has a parent item.
+ * Must be called inside an editor update.
+ *
+ * @returns top-level list nodes, ready for selection.insertNodes
+ */
+export function $generateListNodesFromPlainText(text: string): ListNode[] {
+  const items = text
+    .split(/\r?\n/)
+    .filter(line => line.trim().length > 0)
+    .map(parseListLine);
+
+  const topLevelLists: ListNode[] = [];
+  // Open list at each depth, innermost last
+  const stack: ListNode[] = [];
+
+  for (const item of items) {
+    const depth = Math.min(item.depth, stack.length);
+    stack.length = Math.min(stack.length, depth + 1);
+
+    let list: ListNode | undefined = stack[depth];
+    if (!list || list.getListType() !== item.listType) {
+      list = $createListNode(item.listType, item.start);
+
+      if (depth === 0) {
+        topLevelLists.push(list);
+      } else {
+        // Nested lists live in their own item after the parent item
+        const wrapper: ListItemNode = $createListItemNode();
+        wrapper.append(list);
+        stack[depth - 1].append(wrapper);
+      }
+      stack[depth] = list;
+    }
+
+    const listItem = $createListItemNode();
+    listItem.append($createTextNode(item.text));
+    list.append(listItem);
+  }
+
+  return topLevelLists;
+}
@@ -0,0 +1,77 @@
+/**
+ * Heuristics for recognizing Markdown in plain-text clipboard data.
+ * Used by SmartPastePlugin to decide whether text/plain should be parsed
+ * into rich nodes or inserted verbatim.
+ */
+
+/**
+ * Minimum confidence for a paste to be treated as Markdown.
+ */
+export const MARKDOWN_CONFIDENCE_THRESHOLD = 0.3;
+
+/**
+ * Line-level block signals with their weights.
+ * Strong signals (fences, headings) are rare in prose; list markers are
+ * weaker because plain text lists are common outside Markdown.
+ */
+const BLOCK_SIGNALS: ReadonlyArray<{ pattern: RegExp; weight: number }> = [
+  { pattern: /^```/, weight: 1 },                 // Code fence
+  { pattern: /^#{1,6}\s+\S/, weight: 1 },         // ATX heading
+  { pattern: /^>\s?\S/, weight: 0.6 },            // Blockquote
+  { pattern: /^\s*[-*+]\s+\S/, weight: 0.5 },     // Bullet list
+  { pattern: /^\s*\d+\.\s+\S/, weight: 0.5 },     // Ordered list
+];
+
+/**
+ * Inline signals, counted per occurrence.
+ */
+const INLINE_SIGNALS: ReadonlyArray<{ pattern: RegExp; weight: number }> = [
+  { pattern: /\[[^\]\n]+\]\([^)\s]+\)/g, weight: 0.8 },   // [text](url)
+  { pattern: /\*\*[^*\n]+\*\*|__[^_\n]+__/g, weight: 0.5 }, // Bold
+  { pattern: /`[^`\n]+`/g, weight: 0.4 },                  // Inline code
+];
+
+/**
+ * Score how likely text is to be Markdown, from 0 (prose) to 1 (clearly Markdown).
+ * The score is signal weight per non-empty line, so a single stray "- " in a
+ * long paragraph stays well below the threshold.
+ */
+export function scoreMarkdownConfidence(text: string): number {
+  if (!text || !text.trim()) {
+    return 0;
+  }
+
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length === 0) {
+    return 0;
+  }
+
+  let weight = 0;
+  let hasFence = false;
+
+  for (const line of lines) {
+    const signal = BLOCK_SIGNALS.find(({ pattern }) => pattern.test(line));
+    if (signal) {
+      weight += signal.weight;
+      hasFence = hasFence || signal.pattern.source === '^```';
+    }
+
+    for (const { pattern, weight: inlineWeight } of INLINE_SIGNALS) {
+      weight += (line.match(pattern)?.length ?? 0) * inlineWeight;
+    }
+  }
+
+  // A lone line needs a strong signal: "- milk" alone is not worth converting
+  if (lines.length === 1 && !hasFence && weight < 1) {
+    return 0;
+  }
+
+  return Math.min(1, weight / lines.length);
+}
+
+/**
+ * Check if plain text is confidently Markdown.
+ */
+export function looksLikeMarkdown(text: string): boolean {
+  return scoreMarkdownConfidence(text) >= MARKDOWN_CONFIDENCE_THRESHOLD;
+}
@@ -0,0 +1,73 @@
+/**
+ * Markdown import/export for the editor state.
+ * Both directions use MARKDOWN_TRANSFORMERS so the supported subset stays in sync.
+ */
+
+import { $convertFromMarkdownString, $convertToMarkdownString } from '@lexical/markdown';
+import {
+  $createParagraphNode,
+  $getSelection,
+  $setSelection,
+  EditorState,
+  LexicalEditor,
+  LexicalNode
+} from 'lexical';
+import { createSectionNumberedHeading, MARKDOWN_TRANSFORMERS } from '../config/markdown-config';
+import { $enforceLinkPolicy } from '../plugins/LinkPolicyPlugin';
+import { $getSectionNumbers } from './section-numbering';
+
+export interface MarkdownExportOptions {
+  /** Prefix h1-h3 with their section numbers; pass isSectionNumberingEnabled(editor) */
+  sectionNumbers?: boolean;
+}
+
+/**
+ * Serialize an editor state to Markdown.
+ */
+export function exportMarkdown(editorState: EditorState, options: MarkdownExportOptions = {}): string {
+  return editorState.read(() => {
+    const transformers = options.sectionNumbers
+      ? [createSectionNumberedHeading($getSectionNumbers()), ...MARKDOWN_TRANSFORMERS]
+      : MARKDOWN_TRANSFORMERS;
+    return $convertToMarkdownString(transformers);
+  });
+}
+
+/**
+ * Replace the editor content with parsed Markdown in a single update (one undo step).
+ * Headings are clamped by the transformer set; links failing the scheme
+ * allowlist are unwrapped before the update commits.
+ *
+ * @returns false if the editor is read-only and nothing was imported
+ */
+export function importMarkdown(editor: LexicalEditor, markdown: string): boolean {
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  editor.update(() => {
+    $convertFromMarkdownString(markdown, MARKDOWN_TRANSFORMERS);
+    $enforceLinkPolicy();
+  });
+
+  return true;
+}
+
+/**
+ * Parse Markdown into detached top-level nodes, ready for selection.insertNodes.
+ * Must be called inside an editor update. The caller's selection is left untouched.
+ */
+export function $generateNodesFromMarkdown(markdown: string): LexicalNode[] {
+  // The converter moves the selection to the end of its target; restore it after
+  const savedSelection = $getSelection()?.clone() ?? null;
+
+  // Parse into a detached container so nothing touches the live tree
+  const container = $createParagraphNode();
+  $convertFromMarkdownString(markdown, MARKDOWN_TRANSFORMERS, container);
+  $enforceLinkPolicy(container);
+  $setSelection(savedSelection);
+
+  const nodes = [...container.getChildren()];
+  nodes.forEach(node => node.remove());
+  return nodes;
+}
@@ -0,0 +1,147 @@
+/**
+ * Document outline helpers: the heading list, sections and section moves.
+ *
+ * A section is a top-level heading plus the blocks after it, up to the next
+ * heading of the same or a higher level (h2 owns its h3 subsections).
+ */
+
+import { $isHeadingNode, HeadingNode } from '@lexical/rich-text';
+import {
+  $getNodeByKey,
+  $getRoot,
+  $getSelection,
+  $isRangeSelection,
+  LexicalNode,
+  NodeKey
+} from 'lexical';
+import { getHeadingLevel } from '../constants/heading-policy';
+import { $isCustomHeadingNode } from '../nodes/CustomHeadingNode';
+import { HeadingTagType } from '../types/editor-types';
+
+export interface OutlineItem {
+  key: NodeKey;
+  tag: HeadingTagType;
+  level: number;
+  text: string;
+  /** Section anchor; empty for stock headings or before one is assigned */
+  slug: string;
+}
+
+/**
+ * Where a moved section lands relative to the target heading.
+ * - before: directly before the target heading
+ * - after: after the target heading's own content, before the next heading
+ */
+export type SectionDropPosition = 'before' | 'after';
+
+/**
+ * All top-level headings in document order.
+ */
+export function $getOutline(): OutlineItem[] {
+  return $getRoot()
+    .getChildren()
+    .filter($isHeadingNode)
+    .map(heading => ({
+      key: heading.getKey(),
+      tag: heading.getTag(),
+      level: getHeadingLevel(heading.getTag()),
+      text: heading.getTextContent(),
+      slug: $isCustomHeadingNode(heading) ? heading.getSlug() : '',
+    }));
+}
+
+/**
+ * Whether two outlines list the same headings, for skipping re-renders.
+ */
+export function isSameOutline(a: OutlineItem[], b: OutlineItem[]): boolean {
+  return a.length === b.length && a.every((item, index) => {
+    const other = b[index];
+    return item.key === other.key && item.tag === other.tag && item.text === other.text && item.slug === other.slug;
+  });
+}
+
+/**
+ * The heading whose section holds the caret: the top-level block at the
+ * selection if it is a heading, else the closest heading before it.
+ */
+export function $getCaretHeading(): HeadingNode | null {
+  const selection = $getSelection();
+  if (!$isRangeSelection(selection)) {
+    return null;
+  }
+
+  const anchorNode = selection.anchor.getNode();
+  let block = anchorNode.is($getRoot()) ? null : anchorNode.getTopLevelElement();
+
+  while (block) {
+    if ($isHeadingNode(block)) {
+      return block;
+    }
+    block = block.getPreviousSibling();
+  }
+
+  return null;
+}
+
+/**
+ * The heading and every block that belongs to its section.
+ */
+export function $getSectionNodes(heading: HeadingNode): LexicalNode[] {
+  const level = getHeadingLevel(heading.getTag());
+  const nodes: LexicalNode[] = [heading];
+  let next = heading.getNextSibling();
+
+  while (next && !($isHeadingNode(next) && getHeadingLevel(next.getTag()) <= level)) {
+    nodes.push(next);
+    next = next.getNextSibling();
+  }
+
+  return nodes;
+}
+
+/**
+ * Move a whole section next to another top-level heading.
+ * Dropping a section into itself (or onto its current place) is a no-op.
+ *
+ * @returns true if the section was moved
+ */
+export function $moveSection(
+  sourceKey: NodeKey,
+  targetKey: NodeKey,
+  position: SectionDropPosition
+): boolean {
+  const source = $getNodeByKey(sourceKey);
+  const target = $getNodeByKey(targetKey);
+
+  if (!$isHeadingNode(source) || !$isHeadingNode(target) || !source.getParent()?.is($getRoot())) {
+    return false;
+  }
+
+  const section = $getSectionNodes(source);
+  if (section.some(node => node.is(target))) {
+    return false;
+  }
+
+  // Anchor to insert before; null means the end of the document
+  let anchor: LexicalNode | null = target;
+  if (position === 'after') {
+    anchor = target.getNextSibling();
+    while (anchor && !$isHeadingNode(anchor)) {
+      anchor = anchor.getNextSibling();
+    }
+  }
+
+  if (anchor && section.some(node => node.is(anchor))) {
+    return false;
+  }
+
+  section.forEach(node => {
+    if (anchor) {
+      anchor.insertBefore(node);
+    } else {
+      $getRoot().append(node);
+    }
+  });
+
+  return true;
+}
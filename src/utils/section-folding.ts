@@ -0,0 +1,145 @@
+/**
+ * Collapsible sections: a collapsed heading hides the rest of its section,
+ * up to the next heading of the same or a higher level.
+ *
+ * Only the flag on the heading is stored. Hidden blocks stay in the tree, so
+ * exports, copy and find still see them; these helpers decide which blocks
+ * are hidden and when a section has to open again.
+ */
+
+import {
+  $getRoot,
+  $getSelection,
+  $isDecoratorNode,
+  $isElementNode,
+  $isRangeSelection,
+  $isRootNode,
+  $isTextNode,
+  LexicalNode,
+  NodeKey,
+  PointType
+} from 'lexical';
+import { $isCustomHeadingNode, CustomHeadingNode } from '../nodes/CustomHeadingNode';
+import { $getSectionNodes } from './outline';
+
+/**
+ * Every hidden top-level block, mapped to the outermost collapsed heading
+ * hiding it. A collapsed heading inside a collapsed section is itself hidden.
+ */
+export function $getHiddenBlocks(): Map<NodeKey, CustomHeadingNode> {
+  const hidden = new Map<NodeKey, CustomHeadingNode>();
+
+  $getRoot().getChildren().forEach(child => {
+    if (!$isCustomHeadingNode(child) || !child.isCollapsed() || hidden.has(child.getKey())) {
+      return;
+    }
+    $getSectionNodes(child).slice(1).forEach(node => hidden.set(node.getKey(), child));
+  });
+
+  return hidden;
+}
+
+/**
+ * Whether a top-level heading gets a fold control: it has content to hide,
+ * or is collapsed already.
+ */
+export function $isFoldableHeading(node: LexicalNode): node is CustomHeadingNode {
+  return $isCustomHeadingNode(node)
+    && $isRootNode(node.getParent())
+    && (node.isCollapsed() || $getSectionNodes(node).length > 1);
+}
+
+/**
+ * Open every collapsed section hiding a node, outermost first.
+ *
+ * @returns true if a section was expanded
+ */
+export function $revealNode(node: LexicalNode): boolean {
+  const block = node.getTopLevelElement();
+  if (!block) {
+    return false;
+  }
+
+  let expanded = false;
+  let owner = $getHiddenBlocks().get(block.getKey());
+  while (owner) {
+    owner.setCollapsed(false);
+    expanded = true;
+    owner = $getHiddenBlocks().get(block.getKey());
+  }
+  return expanded;
+}
+
+/**
+ * Fold or unfold a top-level heading's section. A caret inside the section
+ * being folded moves to the end of the heading, so it never sits in hidden text.
+ */
+export function $setSectionCollapsed(heading: CustomHeadingNode, collapsed: boolean): void {
+  heading.setCollapsed(collapsed);
+  if (!collapsed) {
+    return;
+  }
+
+  const selection = $getSelection();
+  if (!$isRangeSelection(selection)) {
+    return;
+  }
+
+  const hidden = new Set($getSectionNodes(heading).slice(1).map(node => node.getKey()));
+  const isHidden = (point: PointType) => {
+    const block = point.getNode().getTopLevelElement();
+    return block !== null && hidden.has(block.getKey());
+  };
+  if (isHidden(selection.anchor) || isHidden(selection.focus)) {
+    heading.selectEnd();
+  }
+}
+
+/**
+ * Move a point to the very end of a top-level block.
+ */
+function $setPointToBlockEnd(point: PointType, block: LexicalNode): void {
+  if ($isDecoratorNode(block)) {
+    point.set($getRoot().getKey(), block.getIndexWithinParent() + 1, 'element');
+    return;
+  }
+
+  const last = $isElementNode(block) ? block.getLastDescendant() ?? block : block;
+  if ($isTextNode(last)) {
+    point.set(last.getKey(), last.getTextContentSize(), 'text');
+  } else if ($isElementNode(last)) {
+    point.set(last.getKey(), last.getChildrenSize(), 'element');
+  } else {
+    // Line break or inline decorator: end right after it in its parent
+    point.set(last.getParentOrThrow().getKey(), last.getIndexWithinParent() + 1, 'element');
+  }
+}
+
+/**
+ * Stretch a range selection that ends inside a collapsed heading over the
+ * section it hides. Copy and cut call this first, so a folded section always
+ * travels with its heading and pastes as the same folded section; copy puts
+ * the selection back afterwards.
+ *
+ * @returns true if the selection was extended
+ */
+export function $extendSelectionOverCollapsedSections(): boolean {
+  const selection = $getSelection();
+  if (!$isRangeSelection(selection) || selection.isCollapsed()) {
+    return false;
+  }
+
+  const end = selection.isBackward() ? selection.anchor : selection.focus;
+  const block = end.getNode().getTopLevelElement();
+  if (!$isCustomHeadingNode(block) || !block.isCollapsed()) {
+    return false;
+  }
+
+  const section = $getSectionNodes(block);
+  if (section.length === 1) {
+    return false;
+  }
+
+  $setPointToBlockEnd(end, section[section.length - 1]);
+  return true;
+}
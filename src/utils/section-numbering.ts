@@ -0,0 +1,137 @@
+/**
+ * Automatic section numbering: "1.", "1.2", "1.2.3" for h1-h3.
+ *
+ * Numbers are computed from the tree on demand and never stored as text, so
+ * editing, pasting or prefix stripping cannot corrupt them. Numbering starts
+ * at the shallowest numbered level in the document; a skipped level counts
+ * as 0 (h1 followed by h3 gives "1.0.1"). Whether a document is numbered is
+ * an editor setting, saved beside the node tree by serializeDocument.
+ */
+
+import { $isHeadingNode, $isQuoteNode } from '@lexical/rich-text';
+import { $dfs, $findMatchingParent } from '@lexical/utils';
+import {
+  $getRoot,
+  createCommand,
+  EditorState,
+  isCurrentlyReadOnlyMode,
+  LexicalCommand,
+  LexicalEditor,
+  NodeKey
+} from 'lexical';
+import { getHeadingLevel } from '../constants/heading-policy';
+
+/**
+ * Deepest heading level that gets a number (h3).
+ */
+export const MAX_NUMBERED_LEVEL = 3;
+
+const numberedEditors = new WeakSet<LexicalEditor>();
+
+/**
+ * Sent whenever an editor's document is numbered or unnumbered, so UI that
+ * shows the setting can follow it.
+ */
+export const SECTION_NUMBERING_CHANGED_COMMAND: LexicalCommand<boolean> = createCommand('SECTION_NUMBERING_CHANGED_COMMAND');
+
+/**
+ * Apply a document's saved setting, also to read-only editors showing it.
+ * loadDocument calls this; user toggles go through setSectionNumbering.
+ */
+export function restoreSectionNumbering(editor: LexicalEditor, enabled: boolean): void {
+  if (isSectionNumberingEnabled(editor) === enabled) {
+    return;
+  }
+  if (enabled) {
+    numberedEditors.add(editor);
+  } else {
+    numberedEditors.delete(editor);
+  }
+  editor.dispatchCommand(SECTION_NUMBERING_CHANGED_COMMAND, enabled);
+}
+
+/**
+ * Turn section numbering on or off for an editor's document.
+ *
+ * @returns false if the editor is read-only
+ */
+export function setSectionNumbering(editor: LexicalEditor, enabled: boolean): boolean {
+  // Early return if not editable
+  if (!editor.isEditable()) {
+    return false;
+  }
+
+  restoreSectionNumbering(editor, enabled);
+  return true;
+}
+
+export function isSectionNumberingEnabled(editor: LexicalEditor): boolean {
+  return numberedEditors.has(editor);
+}
+
+/**
+ * Format counters as a section number: "1." at the top level, "1.2" below.
+ */
+export function formatSectionNumber(counters: readonly number[]): string {
+  return counters.length === 1 ? `${counters[0]}.` : counters.join('.');
+}
+
+/**
+ * Section number of every numbered heading, by key, in document order.
+ * Headings inside quotes are quoted material, not sections, and are skipped.
+ * Must be called inside an editor read or update.
+ */
+export function $getSectionNumbers(): Map<NodeKey, string> {
+  const headings = $dfs()
+    .map(({ node }) => node)
+    .filter($isHeadingNode)
+    .filter(heading => {
+      const level = getHeadingLevel(heading.getTag());
+      return level > 0 && level <= MAX_NUMBERED_LEVEL && !$findMatchingParent(heading, $isQuoteNode);
+    });
+
+  const numbers = new Map<NodeKey, string>();
+  if (headings.length === 0) {
+    return numbers;
+  }
+
+  const baseLevel = Math.min(...headings.map(heading => getHeadingLevel(heading.getTag())));
+  const counters: number[] = [];
+
+  headings.forEach(heading => {
+    const depth = getHeadingLevel(heading.getTag()) - baseLevel;
+
+    // Drop deeper counters, start skipped levels at 0
+    counters.length = Math.min(counters.length, depth + 1);
+    while (counters.length < depth + 1) {
+      counters.push(0);
+    }
+    counters[depth]++;
+
+    numbers.set(heading.getKey(), formatSectionNumber(counters));
+  });
+
+  return numbers;
+}
+
+const committedNumbers = new WeakMap<EditorState, Map<NodeKey, string>>();
+
+/**
+ * $getSectionNumbers for HTML export, where every heading asks for its
+ * number: the editor's committed state can't change, so its numbers are
+ * computed once and shared. Updates and other states are numbered afresh.
+ * Must be called inside an editor read or update.
+ */
+export function $getSectionNumbersForExport(editor: LexicalEditor): Map<NodeKey, string> {
+  const editorState = editor.getEditorState();
+  if (!isCurrentlyReadOnlyMode() || editorState.read(() => $getRoot()) !== $getRoot()) {
+    return $getSectionNumbers();
+  }
+
+  let numbers = committedNumbers.get(editorState);
+  if (!numbers) {
+    numbers = $getSectionNumbers();
+    committedNumbers.set(editorState, numbers);
+  }
+  return numbers;
+}
@@ -0,0 +1,37 @@
+/**
+ * URL-safe slugs for section anchors.
+ */
+
+const FALLBACK_SLUG = 'section';
+
+/**
+ * Turn heading text into a lowercase, hyphenated slug.
+ * Accents are stripped and anything outside a-z, 0-9 becomes a separator.
+ *
+ * @returns the slug, or an empty string if the text has no usable characters
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Make a slug unique among the taken ones by appending -2, -3, ...
+ * An empty base falls back to "section".
+ */
+export function uniqueSlug(base: string, taken: ReadonlySet<string>): string {
+  const slug = base || FALLBACK_SLUG;
+  if (!taken.has(slug)) {
+    return slug;
+  }
+
+  let suffix = 2;
+  while (taken.has(`${slug}-${suffix}`)) {
+    suffix++;
+  }
+  return `${slug}-${suffix}`;
+}
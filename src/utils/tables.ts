@@ -0,0 +1,128 @@
+/**
+ * Table helpers: cell navigation, the header row and Markdown row syntax.
+ *
+ * Tables use the @lexical/table nodes. A table "has a header row" when every
+ * cell of its first row carries the ROW header state; that row renders as
+ * <th> cells and exports above the Markdown delimiter row.
+ */
+
+import {
+  $computeTableMapSkipCellCheck,
+  $getTableCellNodeFromLexicalNode,
+  $getTableNodeFromLexicalNodeOrThrow,
+  $insertTableRow__EXPERIMENTAL,
+  $isTableCellNode,
+  $isTableRowNode,
+  TableCellHeaderStates,
+  TableCellNode,
+  TableNode
+} from '@lexical/table';
+import { $getSelection, $isRangeSelection } from 'lexical';
+
+const TABLE_ROW = /^\|(.+)\|\s*$/;
+const TABLE_DELIMITER_ROW = /^\|(?:\s*:?-+:?\s*\|)+\s*$/;
+const CELL_SEPARATOR = /(?<!\\)\|/;
+
+/**
+ * Table cell holding the selection anchor, if any.
+ * Must be called inside an editor read or update.
+ */
+export function $getSelectedTableCell(): TableCellNode | null {
+  const selection = $getSelection();
+  return $isRangeSelection(selection) ? $getTableCellNodeFromLexicalNode(selection.anchor.getNode()) : null;
+}
+
+/**
+ * Cells of a table in reading order, each merged cell once.
+ */
+export function $getTableCellsInOrder(table: TableNode): TableCellNode[] {
+  const [map] = $computeTableMapSkipCellCheck(table, null, null);
+  const cells = new Map<string, TableCellNode>();
+  map.forEach(row => row.forEach(({ cell }) => {
+    if (!cells.has(cell.getKey())) {
+      cells.set(cell.getKey(), cell);
+    }
+  }));
+  return [...cells.values()];
+}
+
+export function $hasHeaderRow(table: TableNode): boolean {
+  const firstRow = table.getFirstChild();
+  return $isTableRowNode(firstRow) && firstRow.getChildrenSize() > 0 && firstRow.getChildren().every(cell =>
+    $isTableCellNode(cell) && cell.hasHeaderState(TableCellHeaderStates.ROW)
+  );
+}
+
+/**
+ * Make the first row a header row, or a plain row again. Column headers
+ * (the COLUMN state) are kept.
+ */
+export function $setHeaderRow(table: TableNode, isHeader: boolean): void {
+  const firstRow = table.getFirstChild();
+  if (!$isTableRowNode(firstRow)) {
+    return;
+  }
+  firstRow.getChildren().forEach(cell => {
+    if ($isTableCellNode(cell)) {
+      const state = cell.getHeaderStyles();
+      cell.setHeaderStyles(isHeader ? state | TableCellHeaderStates.ROW : state & ~TableCellHeaderStates.ROW);
+    }
+  });
+}
+
+/**
+ * Tab: move the caret to the start of the next cell, adding a row after the
+ * last cell. Shift+Tab: move to the end of the previous cell, staying put
+ * in the first one.
+ *
+ * @returns false when the selection is not inside a table
+ */
+export function $moveToAdjacentTableCell(backward: boolean): boolean {
+  const cell = $getSelectedTableCell();
+  if (!cell) {
+    return false;
+  }
+
+  const table = $getTableNodeFromLexicalNodeOrThrow(cell);
+  const cells = $getTableCellsInOrder(table);
+  const next = cells[cells.findIndex(other => other.is(cell)) + (backward ? -1 : 1)];
+
+  if (next) {
+    if (backward) {
+      next.selectEnd();
+    } else {
+      next.selectStart();
+    }
+  } else if (!backward) {
+    const rowKeys = new Set(table.getChildren().map(row => row.getKey()));
+    cell.selectEnd();
+    $insertTableRow__EXPERIMENTAL(true);
+    table.getChildren().filter($isTableRowNode).find(row => !rowKeys.has(row.getKey()))?.selectStart();
+  }
+  return true;
+}
+
+/**
+ * Cell texts of a Markdown table row ("| a | b |"), with "\|" unescaped.
+ *
+ * @returns null if the line is not a table row
+ */
+export function parseTableRow(line: string): string[] | null {
+  const match = TABLE_ROW.exec(line);
+  return match ? match[1].split(CELL_SEPARATOR).map(cell => cell.trim().replace(/\\\|/g, '|')) : null;
+}
+
+/**
+ * Whether a line is the delimiter row under a Markdown table header ("| --- | :-: |").
+ */
+export function isTableDelimiterRow(line: string): boolean {
+  return TABLE_DELIMITER_ROW.test(line);
+}
+
+export function formatTableRow(cells: string[]): string {
+  return `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+}
+
+export function formatTableDelimiterRow(columns: number): string {
+  return formatTableRow(Array.from({ length: columns }, () => '---'));
+}
@@ -0,0 +1,93 @@
+/**
+ * Table of contents: the document outline as a nested list.
+ *
+ * Nesting follows the heading policy's allowed levels, so under an H2-H4
+ * policy h2 entries sit at the top and a skipped level (h2 then h4) nests
+ * directly under the nearest shallower heading.
+ */
+
+import { getHeadingRank, HeadingPolicy } from '../constants/heading-policy';
+import { $getOutline, OutlineItem } from './outline';
+
+// Matches @lexical/markdown, so an exported TOC imports back as a nested list
+const MARKDOWN_LIST_INDENT = '    ';
+
+export interface TocEntry {
+  item: OutlineItem;
+  children: TocEntry[];
+}
+
+/**
+ * Nest outline items by their rank in the policy.
+ * Headings at levels the policy does not allow are left out.
+ */
+export function buildTocTree(items: OutlineItem[], policy: HeadingPolicy): TocEntry[] {
+  const roots: TocEntry[] = [];
+  const stack: { rank: number; entry: TocEntry }[] = [];
+
+  items.forEach(item => {
+    const rank = getHeadingRank(item.tag, policy);
+    if (rank === -1) {
+      return;
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].rank >= rank) {
+      stack.pop();
+    }
+
+    const entry: TocEntry = { item, children: [] };
+    const parent = stack[stack.length - 1];
+    (parent ? parent.entry.children : roots).push(entry);
+    stack.push({ rank, entry });
+  });
+
+  return roots;
+}
+
+/**
+ * Table of contents of the active editor's document.
+ * Must be called inside an editor read or update.
+ */
+export function $getTocEntries(policy: HeadingPolicy): TocEntry[] {
+  return buildTocTree($getOutline(), policy);
+}
+
+/**
+ * Render entries as nested <ul> elements linking to the section anchors.
+ * Headings without an anchor are listed as plain text.
+ */
+export function createTocListElement(entries: TocEntry[], doc: Document = document): HTMLUListElement {
+  const list = doc.createElement('ul');
+
+  entries.forEach(({ item, children }) => {
+    const listItem = doc.createElement('li');
+    const label = item.slug ? doc.createElement('a') : doc.createElement('span');
+    if (item.slug) {
+      label.setAttribute('href', `#${item.slug}`);
+    }
+    label.textContent = item.text;
+    listItem.append(label);
+
+    if (children.length > 0) {
+      listItem.append(createTocListElement(children, doc));
+    }
+    list.append(listItem);
+  });
+
+  return list;
+}
+
+/**
+ * Render entries as a nested Markdown list of anchor links.
+ */
+export function tocToMarkdown(entries: TocEntry[], depth = 0): string {
+  const indent = MARKDOWN_LIST_INDENT.repeat(depth);
+
+  return entries
+    .map(({ item, children }) => {
+      const text = item.text.replace(/([[\]\\])/g, '\\$1');
+      const line = `${indent}- ${item.slug ? `[${text}](#${item.slug})` : text}`;
+      return children.length > 0 ? `${line}\n${tocToMarkdown(children, depth + 1)}` : line;
+    })
+    .join('\n');
+}